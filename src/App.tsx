@@ -1,17 +1,82 @@
 import { useState, useEffect, useRef } from 'react';
 import { useMotionValue, animate } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
 import TabBar from './components/TabBar';
 import CanvasArea from './components/CanvasArea';
 import TabSwitcher from './components/TabSwitcher';
-import { Tab, Task, CanvasType } from './types';
-import { fetchTasks, saveTasks } from './utils/supabase/api';
+import HomeScreen from './components/HomeScreen';
+import TaskPicker from './components/TaskPicker';
+import SaveStatus from './components/SaveStatus';
+import EditHistorySheet from './components/EditHistorySheet';
+import CommentsModal from './components/CommentsModal';
+import ShareModal from './components/ShareModal';
+import SparoCommandBar from './components/SparoCommandBar';
+import SparoVoiceOverlay from './components/SparoVoiceOverlay';
+import { Toaster } from './components/ui/sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './components/ui/alert-dialog';
+import useTaskSync from './hooks/useTaskSync';
+import useRealtime from './hooks/useRealtime';
+import useServerReconnect from './hooks/useServerReconnect';
+import useAuth from './hooks/useAuth';
+import useUndoStack from './hooks/useUndoStack';
+import useVoiceInput from './hooks/useVoiceInput';
+import { TabContentContext, useTabContentStore } from './hooks/useTabContent';
+import { Task, Tab, CanvasType, ClosedTabSummary } from './types';
+import { acceptShareLink, fetchClosedTab, fetchTasks, isServerUnreachable } from './utils/supabase/api';
+import { createBlankTab, createTask, getCanvasTabName, getNextTaskName, normalizeTasks } from './utils/tasks';
+import { applyOperation, replayOperations, TaskOperation } from './utils/operations';
+import { CommandResult, createCommandRegistry, DEFAULT_COMMANDS } from './utils/commands';
+import { createSpeechRecognizer } from './utils/speech';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { clearShareToken, readShareToken } from './utils/sharing';
 
 /**
  * Main App Component
- * Phase 1b: Added Supabase persistence
+ * Phase 1b: Added Supabase persistence (useTaskSync saves state changes in the background,
+ *           debounced and diffed against the last synced revision)
  * Phase 1f: Added drag progress infrastructure for synchronized animations
  * Phase 2a: Added tab switcher activation (button tap and upward swipe)
  * Phase 2b: Added tab closing (button tap and swipe-to-delete with simplified animations)
+ * Reordering: tabs dragged to a new place in the TabSwitcher are moved with a moveTab
+ * operation; the tab order is the array order, so swiping and saving follow it
+ * Multi-task support: All tasks are loaded and saved together; the active task is
+ * switched from the TaskPicker (opened from the Task Name pill) or the TabSwitcher
+ * Offline mode: If the server can't be reached on load, a placeholder task is shown and
+ * every edit (a TaskOperation) is queued, then replayed onto the real tasks once /health responds
+ * Accounts: Rendered inside AuthGate, so tasks are always the signed-in user's; signing out
+ * (from the TaskPicker) saves pending edits first
+ * Edit history: the Edit-History button opens EditHistorySheet for the active tab, which
+ * previews and restores the versions the server records
+ * Comments: the Comments button opens CommentsModal for the active tab; the count on the
+ * button is the tab's unresolved threads, as reported by the server or the open modal
+ * Sharing: the Share button opens ShareModal for the active task. Opening the app from a
+ * share link joins that task and switches to it. On a task you can only view, the canvases,
+ * renaming, closing and creating tabs are all disabled (the server refuses them too)
+ * Undo: renaming a tab or the task, picking a canvas type, moving and closing a tab go through
+ * useUndoStack, so the Undo button (and Cmd/Ctrl+Z on desktop) can reverse them
+ * Realtime: useRealtime streams changes made on other devices and by the people a task is
+ * shared with; useTaskSync merges them into tasks, holding them while a swipe is in
+ * progress so a tab never moves mid-gesture. The TabSwitcher shows who else is on each tab
+ * Home: the Home button opens HomeScreen, a dashboard of recent tabs, unread comments and
+ * shortcuts that start a new task with a canvas type picked
+ * Sparo: a double press of the Sparo button opens SparoCommandBar; typed commands are matched
+ * by the command registry (utils/commands.ts) and their operations applied like any other edit.
+ * A single press listens for a spoken command instead (useVoiceInput, until the user stops
+ * speaking or taps the screen), which is run the same way
+ * Recently Closed: the server keeps closed tabs with their content for a week; restoring one
+ * from the TabSwitcher reopens it at its old position, and the server puts its content back
+ * once the reopened tab syncs
+ * Pinned tabs: pinning (from the TabSwitcher) is an undoable pinTab operation that moves the
+ * tab to the front; closing a pinned tab asks first, and "Close unpinned" closes the rest
  * 
  * Transition Safety:
  * - isTransitioning state blocks all new drag gestures during animations
@@ -22,14 +87,71 @@ import { fetchTasks, saveTasks } from './utils/supabase/api';
  */
 
 export default function App() {
+  const { user, signOut } = useAuth();
+
   // Task state - will be loaded from Supabase
-  const [task, setTask] = useState<Task | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // The active task is the one flagged isActive (mirrors how tabs track focus)
+  const task = tasks.find((t) => t.isActive) ?? null;
+
+  // Background sync: handlers below only update state, the hook saves what changed and
+  // pulls in changes made elsewhere (held while isSwipeInProgress)
+  const {
+    status: syncStatus,
+    error: syncError,
+    markSynced,
+    retry: retrySync,
+    receiveRemoteEvent,
+    catchUpRemote,
+    pullRemoteChanges,
+  } = useTaskSync(tasks, setTasks, isSwipeInProgress);
+
+  // Canvas content (docs, ...) is loaded per tab when shown and saved separately from tasks
+  const tabContentStore = useTabContentStore();
+
+  // Offline mode (server unreachable on load): queued edits and the placeholder task they were made on
+  const offlineQueueRef = useRef<TaskOperation[] | null>(null);
+  const placeholderTaskRef = useRef<Task | null>(null);
+  const [isWaitingForServer, setIsWaitingForServer] = useState(false);
+
+  // Retry the load once the server responds again
+  useServerReconnect(isWaitingForServer, () => {
+    setIsWaitingForServer(false);
+    loadTasksFromServer();
+  });
+
   // Tab Switcher state
   const [isSwitcherOpen, setIsSwitcherOpen] = useState(false);
 
+  // The pinned tab waiting for the user to confirm closing it
+  const [pinnedTabToClose, setPinnedTabToClose] = useState<{ taskId: string; tabId: string } | null>(null);
+
+  // Home screen state
+  const [isHomeOpen, setIsHomeOpen] = useState(false);
+
+  // Sparo command bar state, and the commands it understands
+  const [isCommandBarOpen, setIsCommandBarOpen] = useState(false);
+  const commandRegistry = useRef(createCommandRegistry(DEFAULT_COMMANDS)).current;
+  const speechRecognizer = useRef(createSpeechRecognizer()).current;
+
+  // Task Picker state
+  const [isTaskPickerOpen, setIsTaskPickerOpen] = useState(false);
+
+  // Edit History sheet state (shows the active tab's versions)
+  const [isEditHistoryOpen, setIsEditHistoryOpen] = useState(false);
+
+  // Comments modal state (shows the active tab's comments)
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+
+  // Share modal state (shows who has access to the active task)
+  const [isShareOpen, setIsShareOpen] = useState(false);
+
+  // Outcome of opening the app from a share link, shown once the app (and its Toaster) is up
+  const [shareNotice, setShareNotice] = useState<{ isError: boolean; message: string } | null>(null);
+
   // Drag state for synchronized tab animations
   const dragProgress = useMotionValue(0);
   const [dragDirection, setDragDirection] = useState<'left' | 'right' | null>(null);
@@ -45,12 +167,22 @@ export default function App() {
     loadTasksFromServer();
   }, []);
 
-  // Save tasks to Supabase whenever task state changes
   useEffect(() => {
-    if (task && !isLoading) {
-      saveTasksToServer();
+    if (isLoading || !shareNotice) return;
+    if (shareNotice.isError) {
+      toast.error(shareNotice.message);
+    } else {
+      toast.success(shareNotice.message);
+    }
+    setShareNotice(null);
+  }, [isLoading, shareNotice]);
+
+  // Remote changes held back during a swipe are pulled in once its animation is done
+  useEffect(() => {
+    if (!isTransitioning) {
+      pullRemoteChanges();
     }
-  }, [task, isLoading]);
+  }, [isTransitioning]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -87,6 +219,15 @@ export default function App() {
       createdMetaTags.push(meta);
     });
 
+    // Register the service worker (offline app shell) and offer new versions as they arrive
+    registerServiceWorker((applyUpdate) => {
+      toast('Update available', {
+        description: 'Reload to get the latest version of Sparo.',
+        action: { label: 'Reload', onClick: applyUpdate },
+        duration: Infinity,
+      });
+    });
+
     // Cleanup on unmount
     return () => {
       document.head.removeChild(manifestLink);
@@ -95,101 +236,168 @@ export default function App() {
   }, []);
 
   async function loadTasksFromServer() {
-    setIsLoading(true);
+    // While offline the placeholder stays on screen during the retry
+    if (!offlineQueueRef.current) {
+      setIsLoading(true);
+    }
     setError(null);
 
+    // Opened from a share link: join its task first, so it is loaded with the others
+    const joinedTaskId = await acceptShareLinkFromUrl();
     const result = await fetchTasks();
 
     if (!result.success) {
-      setError(`Failed to load tasks: ${result.error}`);
-      // Create default task locally if fetch fails
-      createDefaultTask();
+      // Unreachable is not fatal: work on a placeholder until the server is back
+      if (isServerUnreachable(result)) {
+        startOfflineMode();
+      } else {
+        setError(`Failed to load tasks: ${result.error}`);
+      }
       setIsLoading(false);
       return;
     }
 
-    // If no tasks exist, create default task
-    if (result.tasks.length === 0) {
+    // Edits made while offline are replayed on top of the real tasks (normally nothing is queued)
+    const queuedOperations = offlineQueueRef.current ?? [];
+    const placeholderTask = placeholderTaskRef.current ?? undefined;
+    offlineQueueRef.current = null;
+    placeholderTaskRef.current = null;
+
+    // Everything loaded is already saved; only later changes are sent
+    markSynced(result.tasks);
+
+    // Normalizing guarantees one active task with one active tab
+    let loadedTasks = replayOperations(normalizeTasks(result.tasks), queuedOperations, placeholderTask);
+    if (joinedTaskId) {
+      loadedTasks = applyOperation(loadedTasks, { type: 'selectTask', taskId: joinedTaskId });
+    }
+
+    // If no tasks exist, create default task (the sync hook stores it)
+    if (loadedTasks.length === 0) {
       createDefaultTask();
     } else {
-      // Load first task (for MVP, we only have one task)
-      setTask(result.tasks[0]);
+      setTasks(normalizeTasks(loadedTasks));
     }
 
     setIsLoading(false);
   }
 
-  async function saveTasksToServer() {
-    if (!task) return;
+  // Accept the share link the app was opened with, if any, and return the joined task's id
+  // The link stays in the address bar while the server is unreachable, so the retry uses it
+  async function acceptShareLinkFromUrl(): Promise<string | null> {
+    const token = readShareToken();
+    if (!token) return null;
 
-    const result = await saveTasks([task]);
+    const result = await acceptShareLink(token);
+    if (!result.success && isServerUnreachable(result)) return null;
 
+    clearShareToken();
     if (!result.success) {
-      console.error('Failed to save tasks:', result.error);
-      setError(`Failed to save: ${result.error}`);
+      const message = result.status === 410 ? 'This share link has expired' : `Could not open the share link: ${result.error}`;
+      setShareNotice({ isError: true, message });
+      return null;
     }
+    setShareNotice({ isError: false, message: `You joined ${result.task.name}` });
+    return result.task.id;
+  }
+
+  // Show a local placeholder task while the server is unreachable
+  // It is never saved as-is: only queued edits are replayed onto the real tasks later
+  function startOfflineMode() {
+    if (!offlineQueueRef.current) {
+      const placeholderTask = createTask('Untitled Task 1');
+      placeholderTaskRef.current = placeholderTask;
+      offlineQueueRef.current = [];
+      setTasks([placeholderTask]);
+    }
+    setIsWaitingForServer(true);
   }
 
   function createDefaultTask() {
-    const defaultTask: Task = {
-      id: `task-${Date.now()}`,
-      name: 'Untitled Task 1',
-      tabs: [
-        {
-          id: `tab-${Date.now()}`,
-          name: 'Blank Tab',
-          canvasType: null,
-          createdAt: Date.now(),
-          isActive: true,
-          commentCount: 0,
-        },
-      ],
-    };
-    setTask(defaultTask);
+    const defaultTask = createTask('Untitled Task 1');
+    setTasks([defaultTask]);
   }
 
+  // Apply an edit to the tasks; while offline it is also queued for replay
+  const dispatch = (operation: TaskOperation) => {
+    offlineQueueRef.current?.push(operation);
+    setTasks((prevTasks) => applyOperation(prevTasks, operation));
+  };
+
+  // Undo/redo for the edits recorded with undoStack.perform
+  const undoStack = useUndoStack(tasks, (operation) => {
+    dispatch(operation);
+    // The server deleted a closed tab's content with it, so a reopened tab saves it again
+    if (operation.type === 'reopenTab') {
+      tabContentStore.resave(operation.tab.id);
+    }
+  });
+
   // Get the currently active tab
   const activeTab = task?.tabs.find((tab) => tab.isActive);
 
+  // Viewers of a shared task can look around but change nothing
+  const isReadOnly = task?.role === 'viewer';
+
+  // Realtime events (once the tasks are loaded) and who else is viewing which tab
+  const viewers = useRealtime({
+    isEnabled: !isLoading && !error && !isWaitingForServer,
+    userId: user.id,
+    taskId: task?.id ?? null,
+    tabId: activeTab?.id ?? null,
+    onTaskEvent: receiveRemoteEvent,
+    onConnect: catchUpRemote,
+  });
+
+  // A swipe is in progress from the first touch until its animation has finished
+  function isSwipeInProgress() {
+    return isDragging.current || isTransitioning;
+  }
+
   // Handle canvas type selection from BlankTab
   const handleCanvasTypeSelect = (type: CanvasType) => {
-    if (!activeTab || !task) return;
-
-    // Generate new tab name: "Untitled [CanvasType]"
-    const canvasTypeName = type.charAt(0).toUpperCase() + type.slice(1); // Capitalize: doc -> Doc
-    const newTabName = `Untitled ${canvasTypeName}`;
-
-    // Update the active tab's canvas type and name
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
-      return {
-        ...prevTask,
-        tabs: prevTask.tabs.map((tab) =>
-          tab.id === activeTab.id 
-            ? { ...tab, canvasType: type, name: newTabName } 
-            : tab
-        ),
-      };
-    });
+    if (!activeTab || !task || isReadOnly) return;
+
+    // Update the active tab's canvas type and name ("Untitled [CanvasType]")
+    undoStack.perform(
+      {
+        type: 'updateTab',
+        taskId: task.id,
+        tabId: activeTab.id,
+        changes: { canvasType: type, name: getCanvasTabName(type) },
+      },
+      'Pick canvas type'
+    );
   };
 
   // Handle tab name change from TabBar
   const handleTabNameChange = (tabId: string, newName: string) => {
     if (!task) return;
 
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
-      return {
-        ...prevTask,
-        tabs: prevTask.tabs.map((tab) =>
-          tab.id === tabId 
-            ? { ...tab, name: newName } 
-            : tab
-        ),
-      };
+    undoStack.perform({ type: 'updateTab', taskId: task.id, tabId, changes: { name: newName } }, 'Rename tab');
+  };
+
+  // Apply a restored version's name and canvas type (EditHistorySheet puts its content back)
+  // The server already has them; the sync engine's save meets the newer revision and rebases onto it
+  const handleVersionRestored = (restoredTab: Tab) => {
+    if (!task) return;
+
+    dispatch({
+      type: 'updateTab',
+      taskId: task.id,
+      tabId: restoredTab.id,
+      changes: { name: restoredTab.name, canvasType: restoredTab.canvasType },
     });
   };
 
+  // Show the comment count the Comments modal worked out (the server derives the same one)
+  const handleCommentCountChange = (tabId: string, count: number) => {
+    const tabTask = tasks.find((t) => t.tabs.some((tab) => tab.id === tabId));
+    if (!tabTask) return;
+
+    dispatch({ type: 'setCommentCount', taskId: tabTask.id, tabId, count });
+  };
+
   // Drag handlers for synchronized animations
   const handleSwipeStart = (clientX: number) => {
     // Block drag if transitioning or already dragging
@@ -218,9 +426,12 @@ export default function App() {
     const screenWidth = window.innerWidth;
     const currentIndex = task.tabs.findIndex((tab) => tab.id === activeTab.id);
     
+    // Viewers can't create a tab by swiping past the last one
+    const canGoForward = currentIndex < task.tabs.length - 1 || !isReadOnly;
+
     // Determine direction on first meaningful movement
     if (!dragDirection && Math.abs(deltaX) > 5) {
-      if (deltaX < 0) {
+      if (deltaX < 0 && canGoForward) {
         dragDirectionRef.current = 'left'; // Set ref synchronously FIRST
         setDragDirection('left');  // Swipe left = go forward/create new
       } else if (deltaX > 0 && currentIndex > 0) {
@@ -231,7 +442,7 @@ export default function App() {
 
     // Calculate progress based on deltaX (don't wait for state update)
     // Swipe left (deltaX negative) = go forward
-    if (deltaX < 0) {
+    if (deltaX < 0 && canGoForward) {
       const progress = Math.min(Math.abs(deltaX) / screenWidth, 1);
       dragProgress.set(progress);
     } 
@@ -276,7 +487,7 @@ export default function App() {
     const deltaX = lastClientX.current - dragStartX.current;
     let actualDirection: 'left' | 'right' | null = null;
     
-    if (deltaX < 0) {
+    if (deltaX < 0 && (currentIndex < task.tabs.length - 1 || !isReadOnly)) {
       actualDirection = 'left';
     } else if (deltaX > 0 && currentIndex > 0) {
       actualDirection = 'right';
@@ -368,46 +579,20 @@ export default function App() {
 
   // Switch to a specific tab by index
   const switchToTab = (index: number) => {
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
-      return {
-        ...prevTask,
-        tabs: prevTask.tabs.map((tab, i) => ({
-          ...tab,
-          isActive: i === index,
-        })),
-      };
-    });
+    const targetTab = task?.tabs[index];
+    if (!task || !targetTab) return;
+
+    dispatch({ type: 'selectTab', taskId: task.id, tabId: targetTab.id });
   };
 
   // Create a new blank tab
   const createNewTab = () => {
-    if (!task) {
+    if (!task || isReadOnly) {
       return;
     }
 
-    const newTab: Tab = {
-      id: `tab-${Date.now()}`,
-      name: 'Blank Tab',
-      canvasType: null,
-      createdAt: Date.now(),
-      isActive: true,
-      commentCount: 0,
-    };
-
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
-      const updatedTask = {
-        ...prevTask,
-        tabs: [
-          // Deactivate all existing tabs
-          ...prevTask.tabs.map((tab) => ({ ...tab, isActive: false })),
-          // Add new active tab
-          newTab,
-        ],
-      };
-      return updatedTask;
-    });
+    // The new tab is appended and focused
+    dispatch({ type: 'createTab', taskId: task.id, tab: createBlankTab() });
   };
 
   // Handle tab switcher toggle
@@ -415,20 +600,9 @@ export default function App() {
     setIsSwitcherOpen(!isSwitcherOpen);
   };
 
-  // Handle tab selection from switcher
-  const handleTabSelect = (tabId: string) => {
-    if (!task) return;
-    
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
-      return {
-        ...prevTask,
-        tabs: prevTask.tabs.map((tab) => ({
-          ...tab,
-          isActive: tab.id === tabId,
-        })),
-      };
-    });
+  // Handle tab selection from switcher (may switch to another task)
+  const handleTabSelect = (taskId: string, tabId: string) => {
+    dispatch({ type: 'selectTab', taskId, tabId });
     
     // Close switcher after selecting a tab
     setIsSwitcherOpen(false);
@@ -439,64 +613,163 @@ export default function App() {
     setIsSwitcherOpen(true);
   };
 
-  // Handle task name change
-  const handleTaskNameChange = (newName: string) => {
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
-      return {
-        ...prevTask,
-        name: newName,
-      };
-    });
+  // Handle task rename from the task picker
+  const handleTaskRename = (taskId: string, newName: string) => {
+    undoStack.perform({ type: 'renameTask', taskId, name: newName }, 'Rename task');
   };
 
-  // Handle tab closing from switcher
-  const handleTabClose = (tabId: string) => {
-    if (!task) return;
+  // Switch to another task; its own active tab comes back into focus
+  const handleTaskSelect = (taskId: string) => {
+    dispatch({ type: 'selectTask', taskId });
+    setIsTaskPickerOpen(false);
+  };
 
-    const tabIndex = task.tabs.findIndex((tab) => tab.id === tabId);
-    const isClosingActiveTab = task.tabs[tabIndex]?.isActive;
-    const isLastTab = task.tabs.length === 1;
-
-    // If closing the last tab, create a new blank tab instead
-    if (isLastTab) {
-      const newTab: Tab = {
-        id: `tab-${Date.now()}`,
-        name: 'Blank Tab',
-        canvasType: null,
-        createdAt: Date.now(),
-        isActive: true,
-        commentCount: 0,
-      };
-
-      setTask((prevTask) => {
-        if (!prevTask) return prevTask;
-        return {
-          ...prevTask,
-          tabs: [newTab],
-        };
-      });
+  // Create a new task with a blank tab and switch to it
+  const handleTaskCreate = () => {
+    dispatch({ type: 'createTask', task: createTask(getNextTaskName(tasks)) });
+    setIsTaskPickerOpen(false);
+  };
+
+  // Open a tab from the Home screen (may switch to another task)
+  const handleHomeTabSelect = (taskId: string, tabId: string) => {
+    dispatch({ type: 'selectTab', taskId, tabId });
+    setIsHomeOpen(false);
+  };
+
+  // Open a tab's unread comments from the Home screen
+  const handleHomeCommentsOpen = (taskId: string, tabId: string) => {
+    handleHomeTabSelect(taskId, tabId);
+    setIsCommentsOpen(true);
+  };
+
+  // Start a new task from the Home screen, its tab already showing the picked canvas
+  const handleHomeTaskCreate = (type: CanvasType) => {
+    const newTask = createTask(getNextTaskName(tasks));
+    newTask.tabs[0] = { ...newTask.tabs[0], canvasType: type, name: getCanvasTabName(type) };
+    dispatch({ type: 'createTask', task: newTask });
+    setIsHomeOpen(false);
+  };
+
+  // Delete a task from the task picker
+  const handleTaskDelete = (taskId: string) => {
+    // Deleting the only task replaces it with a fresh default task
+    dispatch({ type: 'deleteTask', taskId, replacementTask: createTask(getNextTaskName(tasks)) });
+  };
+
+  // Sign out from the task picker; edits still waiting to be saved are sent first
+  const handleSignOut = async () => {
+    const hasUnsavedChanges = isWaitingForServer || syncStatus === 'offline' || syncStatus === 'error';
+    if (hasUnsavedChanges && !window.confirm('Some changes are not saved yet and will be lost. Sign out anyway?')) {
       return;
     }
 
-    // Remove the tab
-    setTask((prevTask) => {
-      if (!prevTask) return prevTask;
+    setIsTaskPickerOpen(false);
+    if (!hasUnsavedChanges) {
+      await retrySync();
+    }
+    await tabContentStore.flush();
+    await signOut();
+  };
 
-      const updatedTabs = prevTask.tabs.filter((tab) => tab.id !== tabId);
+  // Handle tab closing from switcher (any task, not only the active one); a pinned tab is
+  // only closed once the user confirms it
+  const handleTabClose = (taskId: string, tabId: string) => {
+    const closedTab = tasks.find((t) => t.id === taskId)?.tabs.find((tab) => tab.id === tabId);
+    if (closedTab?.pinned) {
+      setPinnedTabToClose({ taskId, tabId });
+      return;
+    }
+    closeTab(taskId, tabId);
+  };
+
+  const closeTab = (taskId: string, tabId: string) => {
+    const closedTab = tasks.find((t) => t.id === taskId)?.tabs.find((tab) => tab.id === tabId);
+
+    // Closing the last tab leaves a new blank tab; otherwise an adjacent tab takes focus
+    // Keep a copy of the content (if it isn't loaded yet) so undoing the close can put it back
+    tabContentStore.load(tabId);
+    const entryId = undoStack.perform({ type: 'closeTab', taskId, tabId, replacementTab: createBlankTab() }, 'Close tab');
+    // A swipe is easily made by mistake, so the way back is offered right there; it only undoes
+    // this close, and only while nothing else has been done since
+    toast(`Closed ${closedTab?.name ?? 'tab'}`, {
+      action: { label: 'Undo close', onClick: () => entryId !== null && undoStack.undoEntry(entryId) },
+    });
+  };
+
+  // Run a Sparo command; what it does goes through the undo stack like the same edit made by hand,
+  // as one entry, so a single undo reverses the whole command
+  const runSparoCommand = (text: string): CommandResult => {
+    if (!task) return { ok: false, error: 'There is no task yet' };
+
+    const result = commandRegistry.run(text, { tasks, activeTaskId: task.id, activeTabId: activeTab?.id ?? null });
+    if (!result.ok || !result.command) return result;
 
-      // If we closed the active tab, activate an adjacent tab
-      if (isClosingActiveTab) {
-        // Try to activate the next tab, or the previous tab if we closed the last one
-        const newActiveIndex = tabIndex < updatedTabs.length ? tabIndex : tabIndex - 1;
-        updatedTabs[newActiveIndex].isActive = true;
+    // As with handleTabClose, keep the content so the closes can be undone
+    for (const operation of result.operations) {
+      if (operation.type === 'closeTab') {
+        tabContentStore.load(operation.tabId);
       }
+    }
+    undoStack.perform(result.operations, result.command.undoLabel);
+    toast.success(result.message);
+    return result;
+  };
+
+  // Spoken commands run like typed ones; with no command bar to show why one failed, a toast does
+  const voiceInput = useVoiceInput(speechRecognizer, (text) => {
+    const result = runSparoCommand(text);
+    if (!result.ok) toast.error(result.error);
+  });
+
+  // Reopen a tab from the switcher's Recently Closed list where it was, and switch to it
+  const handleClosedTabRestore = async (summary: ClosedTabSummary) => {
+    const result = await fetchClosedTab(summary.tab.id);
+    if (!result.success) {
+      toast.error(`Couldn't restore ${summary.tab.name}: ${result.error}`);
+      return;
+    }
 
-      return {
-        ...prevTask,
-        tabs: updatedTabs,
-      };
+    const { closedTab } = result;
+    const closedTabTask = tasks.find((t) => t.id === closedTab.taskId);
+    if (!closedTabTask) return;
+
+    // The blank tab left behind by closing a task's last tab gives way, as when a close is undone
+    const onlyTab = closedTabTask.tabs.length === 1 ? closedTabTask.tabs[0] : undefined;
+    tabContentStore.restore(closedTab.tab.id, closedTab.content);
+    dispatch({
+      type: 'reopenTab',
+      taskId: closedTab.taskId,
+      tab: closedTab.tab,
+      index: closedTab.index,
+      activeTabId: closedTab.tab.id,
+      replacementTabId: onlyTab?.canvasType === null ? onlyTab.id : undefined,
     });
+    handleTabSelect(closedTab.taskId, closedTab.tab.id);
+    toast.success(`Restored ${closedTab.tab.name}`);
+  };
+
+  // Handle a tab dragged to another place in its task from the switcher
+  const handleTabMove = (taskId: string, tabId: string, index: number) => {
+    undoStack.perform({ type: 'moveTab', taskId, tabId, index }, 'Move tab');
+  };
+
+  // Handle a tab pinned or unpinned from the switcher; it moves to the end of the pinned tabs
+  const handleTabPin = (taskId: string, tabId: string, pinned: boolean) => {
+    undoStack.perform({ type: 'pinTab', taskId, tabId, pinned }, pinned ? 'Pin tab' : 'Unpin tab');
+  };
+
+  // Close every tab of a task but the pinned ones, from the switcher
+  const handleUnpinnedTabsClose = (taskId: string) => {
+    const unpinnedTabs = tasks.find((t) => t.id === taskId)?.tabs.filter((tab) => !tab.pinned) ?? [];
+    if (unpinnedTabs.length === 0) return;
+
+    // One undo entry for all of them (like a Sparo command), so one undo puts every tab back
+    unpinnedTabs.forEach((tab) => tabContentStore.load(tab.id));
+    undoStack.perform(
+      [...unpinnedTabs].reverse().map((tab): TaskOperation => ({ type: 'closeTab', taskId, tabId: tab.id, replacementTab: createBlankTab() })),
+      'Close unpinned tabs'
+    );
+    toast.success(`Closed ${unpinnedTabs.length} ${unpinnedTabs.length === 1 ? 'tab' : 'tabs'}`);
   };
 
   // Tab bar height to offset content (matches TabBar.tsx)
@@ -532,54 +805,173 @@ export default function App() {
   }
 
   return (
-    <div className="relative min-h-screen bg-white">
-      {/* Tab Content Area - fills viewport above tab bar */}
-      <div
-        className={`h-[calc(100vh-185px)] ${isTransitioning ? 'pointer-events-none' : ''}`}
-      >
-        <CanvasArea
+    <TabContentContext.Provider value={tabContentStore}>
+      <div className="relative min-h-screen bg-white">
+        {/* Tab Content Area - fills viewport above tab bar */}
+        <div
+          className={`h-[calc(100vh-185px)] ${isTransitioning ? 'pointer-events-none' : ''}`}
+        >
+          <CanvasArea
+            tabs={task.tabs}
+            activeTabId={activeTab?.id || ''}
+            dragProgress={dragProgress}
+            dragDirection={dragDirection}
+            dragDirectionRef={dragDirectionRef}
+            onCanvasTypeSelect={handleCanvasTypeSelect}
+            isReadOnly={isReadOnly}
+          />
+        </div>
+
+        {/* Tab Bar - fixed to bottom */}
+        <TabBar
+          taskId={task.id}
+          taskName={task.name}
           tabs={task.tabs}
           activeTabId={activeTab?.id || ''}
+          tabCount={task.tabs.length}
           dragProgress={dragProgress}
           dragDirection={dragDirection}
           dragDirectionRef={dragDirectionRef}
-          onCanvasTypeSelect={handleCanvasTypeSelect}
+          isTransitioning={isTransitioning}
+          onSwipeStart={handleSwipeStart}
+          onSwipeMove={handleSwipeMove}
+          onSwipeEnd={handleSwipeEnd}
+          onTabNameChange={handleTabNameChange}
+          onTaskNameClick={() => setIsTaskPickerOpen(true)}
+          onHomeClick={() => setIsHomeOpen(true)}
+          onSparoPress={voiceInput.start}
+          onSparoDoublePress={() => setIsCommandBarOpen(true)}
+          isSparoListening={voiceInput.isListening}
+          sparoLevel={voiceInput.level}
+          onEditHistoryClick={() => setIsEditHistoryOpen(true)}
+          onCommentsClick={() => setIsCommentsOpen(true)}
+          onShareClick={() => setIsShareOpen(true)}
+          isReadOnly={isReadOnly}
+          viewers={viewers}
+          canUndo={undoStack.canUndo}
+          onUndo={undoStack.undo}
+          onSwitcherToggle={handleSwitcherToggle}
+          onSwipeUp={handleSwipeUp}
+          isFirstTab={task.tabs.findIndex((tab) => tab.id === activeTab?.id) === 0}
+          isLastTab={task.tabs.findIndex((tab) => tab.id === activeTab?.id) === task.tabs.length - 1}
+          isSingleTab={task.tabs.length === 1}
+        />
+
+        {/* Tab Switcher - full-screen overlay */}
+        <TabSwitcher
+          isOpen={isSwitcherOpen}
+          tasks={tasks}
+          activeTaskId={task.id}
+          activeTabId={activeTab?.id || null}
+          viewers={viewers}
+          onTabSelect={handleTabSelect}
+          onTabClose={handleTabClose}
+          onTabMove={handleTabMove}
+          onTabPin={handleTabPin}
+          onUnpinnedTabsClose={handleUnpinnedTabsClose}
+          onClosedTabRestore={handleClosedTabRestore}
+          onNewTab={createNewTab}
+          onClose={handleSwitcherToggle}
+        />
+
+        {/* Confirmation before closing a pinned tab (above the switcher it's closed from) */}
+        <AlertDialog open={pinnedTabToClose !== null} onOpenChange={(open: boolean) => !open && setPinnedTabToClose(null)}>
+          <AlertDialogContent className="z-[130] font-['Outfit',_sans-serif]">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Close pinned tab?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {tasks.find((t) => t.id === pinnedTabToClose?.taskId)?.tabs.find((tab) => tab.id === pinnedTabToClose?.tabId)?.name ?? 'This tab'}{' '}
+                is pinned. You can reopen it from Recently Closed.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => pinnedTabToClose && closeTab(pinnedTabToClose.taskId, pinnedTabToClose.tabId)}
+                className="bg-[rgb(245,88,88)] hover:bg-[rgb(245,88,88)]/90"
+              >
+                Close
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Home - full-screen dashboard opened from the Home button */}
+        <HomeScreen
+          isOpen={isHomeOpen}
+          tasks={tasks}
+          activeTaskId={task.id}
+          activeTabId={activeTab?.id || null}
+          onTabSelect={handleHomeTabSelect}
+          onCommentsOpen={handleHomeCommentsOpen}
+          onNewTask={handleHomeTaskCreate}
+          onClose={() => setIsHomeOpen(false)}
         />
-      </div>
 
-      {/* Tab Bar - fixed to bottom */}
-      <TabBar
-        taskName={task.name}
-        tabs={task.tabs}
-        activeTabId={activeTab?.id || ''}
-        tabCount={task.tabs.length}
-        dragProgress={dragProgress}
-        dragDirection={dragDirection}
-        dragDirectionRef={dragDirectionRef}
-        isTransitioning={isTransitioning}
-        onSwipeStart={handleSwipeStart}
-        onSwipeMove={handleSwipeMove}
-        onSwipeEnd={handleSwipeEnd}
-        onTabNameChange={handleTabNameChange}
-        onTaskNameChange={handleTaskNameChange}
-        onSwitcherToggle={handleSwitcherToggle}
-        onSwipeUp={handleSwipeUp}
-        isFirstTab={task.tabs.findIndex((tab) => tab.id === activeTab?.id) === 0}
-        isLastTab={task.tabs.findIndex((tab) => tab.id === activeTab?.id) === task.tabs.length - 1}
-        isSingleTab={task.tabs.length === 1}
-      />
-
-      {/* Tab Switcher - full-screen overlay */}
-      <TabSwitcher
-        isOpen={isSwitcherOpen}
-        tabs={task.tabs}
-        activeTabId={activeTab?.id || null}
-        taskName={task.name}
-        onTabSelect={handleTabSelect}
-        onTabClose={handleTabClose}
-        onNewTab={createNewTab}
-        onClose={handleSwitcherToggle}
-      />
-    </div>
+        {/* Sparo command bar - opened by double pressing the Sparo button */}
+        <SparoCommandBar
+          isOpen={isCommandBarOpen}
+          registry={commandRegistry}
+          onRun={runSparoCommand}
+          onClose={() => setIsCommandBarOpen(false)}
+        />
+
+        {/* Sparo voice input - shown while listening, tap anywhere to stop */}
+        <SparoVoiceOverlay
+          isListening={voiceInput.isListening}
+          transcript={voiceInput.transcript}
+          onStop={voiceInput.stop}
+        />
+
+        {/* Save Status - shows pending and failed background saves */}
+        <SaveStatus
+          status={isWaitingForServer ? 'offline' : syncStatus}
+          error={syncError}
+          onRetry={retrySync}
+        />
+
+        {/* Toasts (e.g. "update available" from the service worker) */}
+        <Toaster position="top-center" />
+
+        {/* Task Picker - bottom sheet opened from the Task Name pill */}
+        <TaskPicker
+          isOpen={isTaskPickerOpen}
+          tasks={tasks}
+          activeTaskId={task.id}
+          onTaskSelect={handleTaskSelect}
+          onTaskCreate={handleTaskCreate}
+          onTaskRename={handleTaskRename}
+          onTaskDelete={handleTaskDelete}
+          userEmail={user.email}
+          onSignOut={handleSignOut}
+          onClose={() => setIsTaskPickerOpen(false)}
+        />
+
+        {/* Edit History - bottom sheet opened from the Edit-History button in the TabBar */}
+        <EditHistorySheet
+          isOpen={isEditHistoryOpen}
+          tab={activeTab ?? null}
+          onRestored={handleVersionRestored}
+          isReadOnly={isReadOnly}
+          onClose={() => setIsEditHistoryOpen(false)}
+        />
+
+        {/* Comments - bottom sheet opened from the Comments button in the TabBar */}
+        <CommentsModal
+          isOpen={isCommentsOpen}
+          tab={activeTab ?? null}
+          onCountChange={handleCommentCountChange}
+          isReadOnly={isReadOnly}
+          onClose={() => setIsCommentsOpen(false)}
+        />
+
+        {/* Share - bottom sheet opened from the Share button in the TabBar */}
+        <ShareModal
+          isOpen={isShareOpen}
+          task={task}
+          onClose={() => setIsShareOpen(false)}
+        />
+      </div>
+    </TabContentContext.Provider>
   );
 }
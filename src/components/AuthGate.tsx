@@ -0,0 +1,58 @@
+import { useState, useEffect, Fragment, ReactNode } from 'react';
+import AuthScreen from './AuthScreen';
+import { AuthContext } from '../hooks/useAuth';
+import { AuthUser, onAuthChange, signOut } from '../utils/supabase/auth';
+
+/**
+ * AuthGate Component
+ * Shows the sign-in/sign-up screen until someone is signed in, then renders the app
+ * - The app is keyed by user id, so switching accounts starts from a clean state
+ *   (tasks, sync state and offline queue all belong to one user)
+ * - Signing out unmounts the app and returns to the sign-in screen
+ * - Sessions are not persisted, so a launch without network can't sign in; it shows an
+ *   offline page like the service worker's until the browser is back online
+ */
+
+interface AuthGateProps {
+  children: ReactNode;
+}
+
+export default function AuthGate({ children }: AuthGateProps) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  // Follow sign-in, sign-out and token refreshes (the API client gets the token from auth.ts)
+  useEffect(() => onAuthChange(setUser), []);
+
+  // Follow the browser's connectivity, so the sign-in form comes back once it is online
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  if (!user && !isOnline) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 min-h-screen bg-white p-6 text-center">
+        <p className="font-['Outfit',_sans-serif] text-neutral-500">
+          You're offline. Sign in to Sparo once you're back online.
+        </p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen />;
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, signOut }}>
+      <Fragment key={user.id}>{children}</Fragment>
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import {
+  AuthResult,
+  EmailCodeType,
+  sendEmailCode,
+  signInWithPassword,
+  signUpWithPassword,
+  verifyEmailCode,
+} from '../utils/supabase/auth';
+
+/**
+ * AuthScreen Component
+ * Full-screen sign-in / sign-up shown by AuthGate while nobody is signed in
+ * - Sign in or sign up with email and password
+ * - Or get a 6-digit code by email and enter it (InputOTP); this also creates the account
+ * - Sign-ups that need email confirmation continue on the same code step
+ * A successful sign-in is picked up by AuthGate through onAuthChange, so nothing is returned here
+ */
+
+type AuthMode = 'signIn' | 'signUp' | 'code';
+
+const CODE_LENGTH = 6;
+
+export default function AuthScreen() {
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [codeType, setCodeType] = useState<EmailCodeType>('email');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedEmail = email.trim();
+
+  // Run an auth request with the shared submitting/error state
+  const submit = async (request: () => Promise<AuthResult>): Promise<AuthResult> => {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await request();
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.error);
+    }
+    return result;
+  };
+
+  // Move to the code step once a code is on its way
+  const showCodeStep = (type: EmailCodeType) => {
+    setCodeType(type);
+    setCode('');
+    setMode('code');
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmedEmail || !password) return;
+
+    if (mode === 'signUp') {
+      const result = await submit(() => signUpWithPassword(trimmedEmail, password));
+      // No user yet: the project asks new accounts to confirm their email with a code
+      if (result.success && !result.user) {
+        showCodeStep('signup');
+      }
+    } else {
+      await submit(() => signInWithPassword(trimmedEmail, password));
+    }
+  };
+
+  const handleSendCode = async () => {
+    if (!trimmedEmail) {
+      setError('Enter your email first');
+      return;
+    }
+
+    const result = await submit(() => sendEmailCode(trimmedEmail));
+    if (result.success) {
+      showCodeStep('email');
+    }
+  };
+
+  const handleVerifyCode = async (value: string) => {
+    if (value.length !== CODE_LENGTH || isSubmitting) return;
+
+    const result = await submit(() => verifyEmailCode(trimmedEmail, value, codeType));
+    if (!result.success) {
+      setCode('');
+    }
+  };
+
+  const switchMode = (nextMode: AuthMode) => {
+    setMode(nextMode);
+    setError(null);
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-white p-6" data-name="Auth-Screen">
+      <div className="w-full max-w-[360px] flex flex-col gap-6">
+        {/* Header */}
+        <div className="flex flex-col gap-1 text-center">
+          <h1 className="font-['Outfit',_sans-serif] text-[32px] font-semibold text-neutral-950">Sparo</h1>
+          <p className="font-['Outfit',_sans-serif] text-neutral-500">
+            {mode === 'signIn' && 'Sign in to your tasks'}
+            {mode === 'signUp' && 'Create an account'}
+            {mode === 'code' && `Enter the code we sent to ${trimmedEmail}`}
+          </p>
+        </div>
+
+        {mode === 'code' ? (
+          // Code step: verifies as soon as all digits are entered
+          <div className="flex flex-col items-center gap-4">
+            <InputOTP
+              maxLength={CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              onComplete={handleVerifyCode}
+              disabled={isSubmitting}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot
+                    key={index}
+                    index={index}
+                    className="h-12 w-11 font-['Outfit',_sans-serif] text-lg"
+                  />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+
+            <button
+              onClick={() => handleVerifyCode(code)}
+              disabled={isSubmitting || code.length !== CODE_LENGTH}
+              className="w-full h-12 bg-[#7482FF] rounded-full font-['Outfit',_sans-serif] text-white active:opacity-80 transition-opacity disabled:opacity-50"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <div className="flex items-center justify-between w-full">
+              <button
+                onClick={() => switchMode('signIn')}
+                className="h-11 px-2 font-['Outfit',_sans-serif] text-sm text-[#8e8e93]"
+              >
+                Use a different email
+              </button>
+              {codeType === 'email' && (
+                <button
+                  onClick={handleSendCode}
+                  disabled={isSubmitting}
+                  className="h-11 px-2 font-['Outfit',_sans-serif] text-sm text-[#7482FF]"
+                >
+                  Resend code
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          // Email + password step
+          <form onSubmit={handlePasswordSubmit} className="flex flex-col gap-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              required
+              className="h-12 px-4 font-['Outfit',_sans-serif] text-base text-neutral-950 bg-[#f2f2f7] rounded-xl outline-none"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+              className="h-12 px-4 font-['Outfit',_sans-serif] text-base text-neutral-950 bg-[#f2f2f7] rounded-xl outline-none"
+            />
+
+            <button
+              type="submit"
+              disabled={isSubmitting || !trimmedEmail || !password}
+              className="h-12 mt-1 bg-[#7482FF] rounded-full font-['Outfit',_sans-serif] text-white active:opacity-80 transition-opacity disabled:opacity-50"
+            >
+              {mode === 'signUp' ? 'Sign Up' : 'Sign In'}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleSendCode}
+              disabled={isSubmitting}
+              className="h-12 rounded-full border border-[#7482FF] font-['Outfit',_sans-serif] text-[#7482FF] active:opacity-80 transition-opacity disabled:opacity-50"
+            >
+              Email me a code instead
+            </button>
+
+            <button
+              type="button"
+              onClick={() => switchMode(mode === 'signUp' ? 'signIn' : 'signUp')}
+              className="h-11 font-['Outfit',_sans-serif] text-sm text-[#8e8e93]"
+            >
+              {mode === 'signUp' ? 'Already have an account? Sign in' : "Don't have an account? Sign up"}
+            </button>
+          </form>
+        )}
+
+        {/* Error message */}
+        {error && (
+          <p className="font-['Outfit',_sans-serif] text-sm text-red-500 text-center">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,13 +7,21 @@ import svgPathsL from '../imports/svg-aanrt793pm';
  * BlankTab component - shown when a new tab is created
  * Displays canvas type selection (Doc, Sheet, Comm, Chat)
  * Responsive design: M variant for < 500px, L variant for >= 500px
+ * Disabled for viewers of a shared task, who can't pick a canvas type
+ * Also used by the Home screen for its "new task" shortcuts, with a headline of its own
  */
 
 interface BlankTabProps {
   onCanvasTypeSelect: (type: CanvasType) => void;
+  isDisabled?: boolean;
+  headline?: string;
 }
 
-export default function BlankTab({ onCanvasTypeSelect }: BlankTabProps) {
+export default function BlankTab({
+  onCanvasTypeSelect,
+  isDisabled = false,
+  headline = 'What would you like to create?',
+}: BlankTabProps) {
   const [viewportWidth, setViewportWidth] = useState(
     typeof window !== 'undefined' ? window.innerWidth : 390
   );
@@ -50,12 +58,12 @@ export default function BlankTab({ onCanvasTypeSelect }: BlankTabProps) {
             {/* Headline */}
             <div className={`box-border content-stretch flex items-center justify-center ${maxWidth} px-0 py-[12px] relative shrink-0 w-full`} data-name="Headline">
               <p className={`basis-0 font-['Outfit:Regular',_sans-serif] font-normal grow leading-[normal] min-h-px min-w-px relative shrink-0 text-[#222222] ${headlineSize} text-center`}>
-                What would you like to create?
+                {isDisabled ? 'Nothing has been created here yet' : headline}
               </p>
             </div>
 
             {/* Canvas Type Selector Grid */}
-            <div className={`gap-[16px] grid grid-cols-[repeat(2,_minmax(0px,_1fr))] grid-rows-[repeat(2,_minmax(0px,_1fr))] ${gridHeight} ${maxWidth} relative shrink-0 w-full`} data-name="Canvas-Type-Selector">
+            <div className={`gap-[16px] grid grid-cols-[repeat(2,_minmax(0px,_1fr))] grid-rows-[repeat(2,_minmax(0px,_1fr))] ${gridHeight} ${maxWidth} relative shrink-0 w-full ${isDisabled ? 'opacity-40 pointer-events-none' : ''}`} data-name="Canvas-Type-Selector">
               
               {/* New Doc */}
               <button
@@ -2,11 +2,18 @@ import { useState, useEffect, useRef } from 'react';
 import { motion, MotionValue, useMotionValue } from 'motion/react';
 import { Tab } from '../types';
 import BlankTab from './BlankTab';
+import DocCanvas from './DocCanvas';
+import SheetCanvas from './SheetCanvas';
+import ChatCanvas from './ChatCanvas';
+import CommCanvas from './CommCanvas';
 
 /**
  * CanvasArea Component
  * Handles sliding canvas content synchronized with address bar
  * Phase 1f: Position-based animation using shared dragProgress MotionValue
+ * Canvases load their content when first rendered, so a tab's content is fetched when it
+ * becomes active or slides in as the adjacent tab during a swipe
+ * On a task shared with you as a viewer, every canvas is read-only
  */
 
 interface CanvasAreaProps {
@@ -16,6 +23,7 @@ interface CanvasAreaProps {
   dragDirection: 'left' | 'right' | null;
   dragDirectionRef: React.RefObject<'left' | 'right' | null>;
   onCanvasTypeSelect: (type: 'doc' | 'sheet' | 'comm' | 'chat') => void;
+  isReadOnly: boolean;
 }
 
 export default function CanvasArea({
@@ -25,14 +33,18 @@ export default function CanvasArea({
   dragDirection,
   dragDirectionRef,
   onCanvasTypeSelect,
+  isReadOnly,
 }: CanvasAreaProps) {
   const [viewportWidth, setViewportWidth] = useState(
     typeof window !== 'undefined' ? window.innerWidth : 390
   );
 
-  // Displayed tab index (lags during drag for smooth visual transition)
+  // Displayed tab (lags during drag for smooth visual transition); tracked by id so it stays
+  // put when the tabs are reordered, with the neighbours following the new order
   const activeIndex = tabs.findIndex(t => t.id === activeTabId);
-  const [displayedTabIndex, setDisplayedTabIndex] = useState(activeIndex);
+  const [displayedTabId, setDisplayedTabId] = useState(activeTabId);
+  const displayedIndex = tabs.findIndex(t => t.id === displayedTabId);
+  const displayedTabIndex = displayedIndex === -1 ? activeIndex : displayedIndex;
   
   // Track last drag direction for showing adjacent tab during transition
   const lastDragDirectionRef = useRef<'left' | 'right' | null>(null);
@@ -41,14 +53,14 @@ export default function CanvasArea({
   // Track if there's meaningful drag progress (prevents flash at drag start)
   const [hasDragProgress, setHasDragProgress] = useState(false);
 
-  // Update displayed index only when not dragging
+  // Update displayed tab only when not dragging
   useEffect(() => {
     if (!dragDirection) {
-      setDisplayedTabIndex(activeIndex);
+      setDisplayedTabId(activeTabId);
       lastDragDirectionRef.current = null;
       previewNewTabIdRef.current = `preview-new-${Date.now()}`;
     }
-  }, [activeIndex, dragDirection]);
+  }, [activeTabId, dragDirection]);
 
   // Stable motion values for canvas positions
   const currentTabXRef = useRef(useMotionValue(0));
@@ -112,6 +124,7 @@ export default function CanvasArea({
             canvasType: null, 
             createdAt: Date.now(), 
             isActive: false, 
+            pinned: false, 
             commentCount: 0 
           } as Tab)
     : targetTab;
@@ -124,53 +137,30 @@ export default function CanvasArea({
   }, [dragDirection]);
 
   // Render canvas content based on tab
-  const renderCanvasContent = (tab: Tab | null) => {
+  // Only the settled active tab is editable; the adjacent tab is a read-only preview
+  const renderCanvasContent = (tab: Tab | null, isEditable: boolean) => {
     if (!tab) return null;
 
     // Blank tab
     if (tab.canvasType === null) {
-      return <BlankTab onCanvasTypeSelect={onCanvasTypeSelect} />;
+      return <BlankTab onCanvasTypeSelect={onCanvasTypeSelect} isDisabled={isReadOnly} />;
     }
 
-    // Canvas type placeholders
+    // Keyed by tab so each tab gets its own canvas state
     if (tab.canvasType === 'doc') {
-      return (
-        <div className="flex items-center justify-center h-full">
-          <p className="font-['Outfit',_sans-serif] text-neutral-500">
-            Doc Canvas (Coming Soon)
-          </p>
-        </div>
-      );
+      return <DocCanvas key={tab.id} tabId={tab.id} isEditable={isEditable} />;
     }
-    
+
     if (tab.canvasType === 'sheet') {
-      return (
-        <div className="flex items-center justify-center h-full">
-          <p className="font-['Outfit',_sans-serif] text-neutral-500">
-            Sheet Canvas (Coming Soon)
-          </p>
-        </div>
-      );
-    }
-    
-    if (tab.canvasType === 'comm') {
-      return (
-        <div className="flex items-center justify-center h-full">
-          <p className="font-['Outfit',_sans-serif] text-neutral-500">
-            Comm Canvas (Coming Soon)
-          </p>
-        </div>
-      );
+      return <SheetCanvas key={tab.id} tabId={tab.id} tabName={tab.name} isEditable={isEditable} />;
     }
-    
+
     if (tab.canvasType === 'chat') {
-      return (
-        <div className="flex items-center justify-center h-full">
-          <p className="font-['Outfit',_sans-serif] text-neutral-500">
-            Chat Canvas (Coming Soon)
-          </p>
-        </div>
-      );
+      return <ChatCanvas key={tab.id} tabId={tab.id} isEditable={isEditable} />;
+    }
+
+    if (tab.canvasType === 'comm') {
+      return <CommCanvas key={tab.id} tabId={tab.id} isEditable={isEditable} />;
     }
 
     return null;
@@ -183,7 +173,7 @@ export default function CanvasArea({
         className="absolute inset-0"
         style={{ x: currentTabX, willChange: 'transform' }}
       >
-        {renderCanvasContent(currentTab)}
+        {renderCanvasContent(currentTab, !isReadOnly && !dragDirection && currentTab?.id === activeTabId)}
       </motion.div>
 
       {/* Adjacent tab content (previous or next) */}
@@ -192,7 +182,7 @@ export default function CanvasArea({
           className="absolute inset-0"
           style={{ x: adjacentTabX, willChange: 'transform' }}
         >
-          {renderCanvasContent(adjacentTab)}
+          {renderCanvasContent(adjacentTab, false)}
         </motion.div>
       )}
     </div>
@@ -0,0 +1,36 @@
+/**
+ * CanvasStatus Component
+ * Loading and load-error views shared by the canvases while their tab content is fetched
+ * (same look as the app's own loading and error screens)
+ */
+
+interface CanvasStatusProps {
+  status: 'loading' | 'error';
+  error?: string | null;
+  label: string; // What failed to load, e.g. "document"
+  onRetry: () => void;
+}
+
+export default function CanvasStatus({ status, error = null, label, onRetry }: CanvasStatusProps) {
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="font-['Outfit',_sans-serif] text-neutral-500">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-4 h-full p-6">
+      <p className="font-['Outfit',_sans-serif] text-red-500">
+        Failed to load {label}: {error}
+      </p>
+      <button
+        onClick={onRetry}
+        className="bg-[#7482FF] text-white px-6 py-2 rounded-full font-['Outfit',_sans-serif]"
+      >
+        Retry
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect, useLayoutEffect, useRef, Fragment } from 'react';
+import { ArrowUp, X } from 'lucide-react@0.487.0';
+import CanvasStatus from './CanvasStatus';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import useChatMessages, { ChatEntry } from '../hooks/useChatMessages';
+import useKeyboardInset from '../hooks/useKeyboardInset';
+import { avatarColor, initials } from '../utils/avatar';
+
+/**
+ * ChatCanvas Component
+ * Message thread for tabs with canvasType 'chat'
+ * - Message list with author avatars, timestamps and day dividers; consecutive messages
+ *   from the same author are grouped under one avatar
+ * - Only the latest page of history is loaded (and rendered) at first, so opening or
+ *   swiping past a long chat stays smooth; scrolling to the top loads older pages
+ * - "New messages" divider above the first message that arrived since the last visit
+ * - Tap one of your messages to edit or delete it; failed sends can be retried
+ * - Composer pinned to the bottom; while the keyboard is open the canvas shrinks to
+ *   the part still visible above it
+ * - Read-only while shown as the adjacent tab during a swipe
+ */
+
+interface ChatCanvasProps {
+  tabId: string;
+  isEditable: boolean;
+}
+
+// Matches TabBar.tsx (151px content + 34px safe area)
+const TAB_BAR_HEIGHT = 185;
+
+// Messages closer together than this (from the same author) share one avatar and name
+const GROUP_WINDOW_MS = 5 * 60 * 1000;
+
+// Start loading the previous page when scrolled this close to the top (px)
+const LOAD_OLDER_THRESHOLD = 120;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatDay(timestamp: number): string {
+  const day = new Date(timestamp).toDateString();
+  if (day === new Date().toDateString()) return 'Today';
+  if (day === new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString()) return 'Yesterday';
+  return new Date(timestamp).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export default function ChatCanvas({ tabId, isEditable }: ChatCanvasProps) {
+  const chat = useChatMessages(tabId, isEditable);
+
+  const keyboardInset = useKeyboardInset();
+  // The canvas already ends above the tab bar, so only the part of the keyboard above it matters
+  const keyboardOverlap = Math.max(0, keyboardInset - TAB_BAR_HEIGHT);
+
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null); // Message showing its actions
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const unreadRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const hasScrolledInitiallyRef = useRef(false);
+  const scrollHeightBeforeOlderRef = useRef<number | null>(null);
+  const shouldScrollToBottomRef = useRef(false);
+
+  const { messages, status } = chat;
+
+  // Scroll position after the list changes:
+  // - first load: to the unread divider, or the bottom
+  // - older page prepended: keep the messages on screen where they were
+  // - own message sent: to the bottom
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list || status !== 'ready') return;
+
+    if (!hasScrolledInitiallyRef.current) {
+      hasScrolledInitiallyRef.current = true;
+      if (unreadRef.current) {
+        list.scrollTop = unreadRef.current.offsetTop - list.clientHeight / 3;
+      } else {
+        list.scrollTop = list.scrollHeight;
+      }
+    } else if (scrollHeightBeforeOlderRef.current !== null) {
+      list.scrollTop += list.scrollHeight - scrollHeightBeforeOlderRef.current;
+      scrollHeightBeforeOlderRef.current = null;
+    } else if (shouldScrollToBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+    shouldScrollToBottomRef.current = false;
+  }, [messages, status]);
+
+  // Leaving edit mode (swipe started) closes the message actions
+  useEffect(() => {
+    if (!isEditable) setSelectedId(null);
+  }, [isEditable]);
+
+  // Grow the composer with its text, up to its max height
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [draft]);
+
+  if (status !== 'ready') {
+    return <CanvasStatus status={status} error={chat.error} label="messages" onRetry={chat.retry} />;
+  }
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list || !chat.hasOlder || chat.isLoadingOlder) return;
+    if (list.scrollTop < LOAD_OLDER_THRESHOLD) {
+      scrollHeightBeforeOlderRef.current = list.scrollHeight;
+      chat.loadOlder();
+    }
+  };
+
+  const handleSubmit = () => {
+    const text = draft.trim();
+    if (!text) return;
+
+    if (editingId) {
+      chat.edit(editingId, text);
+      setEditingId(null);
+    } else {
+      shouldScrollToBottomRef.current = true;
+      chat.send(text);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a line
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape' && editingId) {
+      cancelEditing();
+    }
+  };
+
+  const startEditing = (message: ChatEntry) => {
+    setSelectedId(null);
+    setEditingId(message.id);
+    setDraft(message.text);
+    textareaRef.current?.focus();
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  const handleDelete = (message: ChatEntry) => {
+    setSelectedId(null);
+    if (message.sendStatus !== 'failed' && !window.confirm('Delete this message?')) return;
+    if (editingId === message.id) cancelEditing();
+    chat.remove(message.id);
+  };
+
+  return (
+    <div className="flex flex-col h-full" style={{ paddingBottom: keyboardOverlap }} data-name="Chat-Canvas">
+      {/* Messages */}
+      <div ref={listRef} onScroll={handleScroll} className="relative flex-1 min-h-0 overflow-y-auto px-4 py-3">
+        {chat.isLoadingOlder && (
+          <p className="py-2 text-center font-['Outfit',_sans-serif] text-xs text-[#8e8e93]">Loading...</p>
+        )}
+
+        {messages.length === 0 && (
+          <div className="flex items-center justify-center h-full">
+            <p className="font-['Outfit',_sans-serif] text-neutral-500">No messages yet</p>
+          </div>
+        )}
+
+        {messages.map((message, index) => {
+          const previous = messages[index - 1];
+          const isNewDay = !previous || formatDay(previous.createdAt) !== formatDay(message.createdAt);
+          const isUnread = message.id === chat.firstUnreadId;
+          const startsGroup =
+            isNewDay ||
+            isUnread ||
+            previous.authorId !== message.authorId ||
+            message.createdAt - previous.createdAt > GROUP_WINDOW_MS;
+
+          return (
+            <Fragment key={message.id}>
+              {isNewDay && (
+                <p className="py-3 text-center font-['Outfit',_sans-serif] text-xs font-medium text-[#8e8e93]">
+                  {formatDay(message.createdAt)}
+                </p>
+              )}
+              {isUnread && (
+                <div ref={unreadRef} className="flex items-center gap-2 py-2" role="separator">
+                  <div className="flex-1 h-px bg-[#FF453A]" />
+                  <span className="font-['Outfit',_sans-serif] text-xs font-medium text-[#FF453A]">New messages</span>
+                  <div className="flex-1 h-px bg-[#FF453A]" />
+                </div>
+              )}
+              <ChatMessageRow
+                message={message}
+                isOwn={message.authorId === chat.currentUserId}
+                startsGroup={startsGroup}
+                isSelected={selectedId === message.id}
+                isEditable={isEditable}
+                onSelect={() => setSelectedId(selectedId === message.id ? null : message.id)}
+                onEdit={() => startEditing(message)}
+                onDelete={() => handleDelete(message)}
+                onRetry={() => chat.retrySend(message.id)}
+              />
+            </Fragment>
+          );
+        })}
+      </div>
+
+      {/* Composer */}
+      <div className="shrink-0 border-t border-[#f2f2f7] px-3 py-2">
+        {editingId && (
+          <div className="flex items-center justify-between pb-1 pl-2">
+            <span className="font-['Outfit',_sans-serif] text-xs font-medium text-[#7482FF]">Editing message</span>
+            <button
+              aria-label="Cancel editing"
+              onClick={cancelEditing}
+              className="size-8 flex items-center justify-center rounded-full text-[#8e8e93] active:bg-[#f2f2f7]"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <textarea
+            ref={textareaRef}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            disabled={!isEditable}
+            rows={1}
+            placeholder="Message"
+            aria-label="Message"
+            className="flex-1 min-w-0 max-h-32 resize-none px-4 py-2 rounded-[20px] bg-[#f2f2f7] font-['Outfit',_sans-serif] text-base outline-none"
+          />
+          <button
+            aria-label={editingId ? 'Save edit' : 'Send'}
+            // Keep the textarea focused so the keyboard stays open
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleSubmit}
+            disabled={!isEditable || draft.trim() === ''}
+            className="size-10 shrink-0 flex items-center justify-center rounded-full bg-[#7482FF] text-white disabled:opacity-40"
+          >
+            <ArrowUp size={20} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChatMessageRow({
+  message,
+  isOwn,
+  startsGroup,
+  isSelected,
+  isEditable,
+  onSelect,
+  onEdit,
+  onDelete,
+  onRetry,
+}: {
+  message: ChatEntry;
+  isOwn: boolean;
+  startsGroup: boolean;
+  isSelected: boolean;
+  isEditable: boolean;
+  onSelect: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onRetry: () => void;
+}) {
+  // Only your own messages have actions, and not while they are still being sent
+  const canSelect = isOwn && isEditable && message.sendStatus !== 'sending';
+
+  return (
+    <div className={`flex gap-2 ${startsGroup ? 'mt-3' : 'mt-1'} ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      {/* Avatar column (empty on follow-up messages, so bubbles line up) */}
+      {!isOwn && (
+        <div className="w-8 shrink-0">
+          {startsGroup && (
+            <Avatar className="size-8">
+              <AvatarFallback
+                className="font-['Outfit',_sans-serif] text-xs font-medium text-white"
+                style={{ backgroundColor: avatarColor(message.authorId) }}
+              >
+                {initials(message.authorName)}
+              </AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      )}
+
+      <div className={`flex flex-col max-w-[75%] ${isOwn ? 'items-end' : 'items-start'}`}>
+        {startsGroup && !isOwn && (
+          <span className="pb-1 pl-1 font-['Outfit',_sans-serif] text-xs font-medium text-neutral-700">
+            {message.authorName}
+          </span>
+        )}
+
+        <button
+          onClick={canSelect ? onSelect : undefined}
+          disabled={!canSelect}
+          className={`px-3 py-2 rounded-2xl text-left whitespace-pre-wrap break-words font-['Outfit',_sans-serif] text-base ${
+            isOwn ? 'bg-[#7482FF] text-white' : 'bg-[#f2f2f7] text-neutral-900'
+          } ${message.sendStatus ? 'opacity-60' : ''}`}
+        >
+          {message.text}
+        </button>
+
+        <span className="pt-0.5 px-1 font-['Outfit',_sans-serif] text-[11px] text-[#8e8e93]">
+          {message.sendStatus === 'sending' && 'Sending...'}
+          {message.sendStatus === 'failed' && <span className="text-[#FF453A]">Not sent</span>}
+          {!message.sendStatus && formatTime(message.createdAt)}
+          {message.editedAt !== null && ' · edited'}
+        </span>
+
+        {/* Actions, shown after tapping one of your messages */}
+        {isSelected && (
+          <div className="flex gap-1 pt-1">
+            {message.sendStatus === 'failed' ? (
+              <button onClick={onRetry} className="px-3 py-1 rounded-full font-['Outfit',_sans-serif] text-sm text-[#7482FF] active:bg-[#f2f2f7]">
+                Retry
+              </button>
+            ) : (
+              <button onClick={onEdit} className="px-3 py-1 rounded-full font-['Outfit',_sans-serif] text-sm text-[#7482FF] active:bg-[#f2f2f7]">
+                Edit
+              </button>
+            )}
+            <button onClick={onDelete} className="px-3 py-1 rounded-full font-['Outfit',_sans-serif] text-sm text-[#FF453A] active:bg-[#f2f2f7]">
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { Paperclip, Send, X, FileText } from 'lucide-react@0.487.0';
+import CanvasStatus from './CanvasStatus';
+import useTabContent from '../hooks/useTabContent';
+import useKeyboardInset from '../hooks/useKeyboardInset';
+import { SentMail } from '../types';
+import { generateId } from '../utils/tasks';
+import { fetchSentMail, sendMail } from '../utils/supabase/api';
+import {
+  CommDraft,
+  MAX_ATTACHMENT_BYTES,
+  createEmptyDraft,
+  formatFileSize,
+  isValidEmail,
+  readAttachment,
+  toCommDraft,
+} from '../utils/comm';
+
+/**
+ * CommCanvas Component
+ * Email-style composer for tabs with canvasType 'comm'
+ * - Draft view: recipients (To / Cc), subject, body and attachments; the draft is the tab's
+ *   content, so it is saved as you type (useTabContent) and survives closing the app
+ * - Sent view: everything sent from this tab, newest first
+ * - Sending goes through the server's mail transport (a local mock unless one is configured);
+ *   on success the draft is cleared and the sent view shown, on failure the draft is kept
+ * - Read-only while shown as the adjacent tab during a swipe
+ */
+
+interface CommCanvasProps {
+  tabId: string;
+  isEditable: boolean;
+}
+
+// Matches TabBar.tsx (151px content + 34px safe area)
+const TAB_BAR_HEIGHT = 185;
+
+export default function CommCanvas({ tabId, isEditable }: CommCanvasProps) {
+  const { status, content, error, saveError, update, retry } = useTabContent(tabId);
+
+  if (status !== 'ready') {
+    return <CanvasStatus status={status} error={error} label="draft" onRetry={retry} />;
+  }
+
+  return (
+    <CommEditor
+      tabId={tabId}
+      draft={toCommDraft(content)}
+      isEditable={isEditable}
+      saveError={saveError}
+      onChange={update}
+    />
+  );
+}
+
+function CommEditor({
+  tabId,
+  draft,
+  isEditable,
+  saveError,
+  onChange,
+}: {
+  tabId: string;
+  draft: CommDraft;
+  isEditable: boolean;
+  saveError: string | null;
+  onChange: (draft: CommDraft) => void;
+}) {
+  const keyboardInset = useKeyboardInset();
+  // The canvas already ends above the tab bar, so only the part of the keyboard above it matters
+  const keyboardOverlap = Math.max(0, keyboardInset - TAB_BAR_HEIGHT);
+
+  const [view, setView] = useState<'draft' | 'sent'>('draft');
+  const [sentMail, setSentMail] = useState<SentMail[] | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Id of the send in progress, kept after a failure so a retry can't deliver twice
+  const sendIdRef = useRef<string | null>(null);
+
+  // Load the sent messages
+  useEffect(() => {
+    let isCancelled = false;
+    fetchSentMail(tabId).then((result) => {
+      if (isCancelled) return;
+      if (result.success) {
+        setSentMail(result.mail);
+      } else {
+        setSentMail([]);
+        toast.error('Could not load sent messages');
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [tabId]);
+
+  const setField = <K extends keyof CommDraft>(field: K, value: CommDraft[K]) => {
+    onChange({ ...draft, [field]: value });
+  };
+
+  const attachmentBytes = draft.attachments.reduce((total, attachment) => total + attachment.size, 0);
+  const hasInvalidRecipient = [...draft.to, ...draft.cc].some((address) => !isValidEmail(address));
+  const canSend = isEditable && !isSending && draft.to.length > 0 && !hasInvalidRecipient;
+  // No edits while sending: the draft is cleared once it has gone out
+  const isLocked = !isEditable || isSending;
+
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same file again
+    if (files.length === 0) return;
+
+    const addedBytes = files.reduce((total, file) => total + file.size, 0);
+    if (attachmentBytes + addedBytes > MAX_ATTACHMENT_BYTES) {
+      toast.error(`Attachments are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)} in total`);
+      return;
+    }
+
+    try {
+      const attachments = await Promise.all(files.map(readAttachment));
+      setField('attachments', [...draft.attachments, ...attachments]);
+    } catch (error) {
+      console.error('Error reading attachment:', error);
+      toast.error('Could not read that file');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    if (draft.subject.trim() === '' && !window.confirm('Send without a subject?')) return;
+
+    sendIdRef.current = sendIdRef.current ?? generateId('mail');
+    setIsSending(true);
+    const result = await sendMail(tabId, sendIdRef.current, draft);
+    setIsSending(false);
+
+    if (!result.success) {
+      toast.error(`Not sent: ${result.error}`);
+      return;
+    }
+
+    sendIdRef.current = null;
+    setSentMail((current) => [...(current ?? []), result.mail]);
+    onChange(createEmptyDraft());
+    setView('sent');
+    toast('Sent');
+  };
+
+  return (
+    <div className="flex flex-col h-full" style={{ paddingBottom: keyboardOverlap }} data-name="Comm-Canvas">
+      {/* Draft / Sent switch */}
+      <div className="shrink-0 flex items-center gap-2 px-3 py-2 border-b border-[#f2f2f7]">
+        <div className="flex flex-1 p-1 rounded-full bg-[#f2f2f7]">
+          {(['draft', 'sent'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              aria-pressed={view === option}
+              className={`flex-1 h-8 rounded-full font-['Outfit',_sans-serif] text-sm font-medium ${
+                view === option ? 'bg-white text-neutral-900 shadow-sm' : 'text-[#8e8e93]'
+              }`}
+            >
+              {option === 'draft' ? 'Draft' : `Sent${sentMail?.length ? ` · ${sentMail.length}` : ''}`}
+            </button>
+          ))}
+        </div>
+        {view === 'draft' && (
+          <button
+            aria-label="Send"
+            onClick={handleSend}
+            disabled={!canSend}
+            className="h-10 px-4 shrink-0 flex items-center gap-2 rounded-full bg-[#FF453A] text-white font-['Outfit',_sans-serif] text-sm font-medium disabled:opacity-40"
+          >
+            <Send size={16} />
+            {isSending ? 'Sending...' : 'Send'}
+          </button>
+        )}
+      </div>
+
+      {view === 'draft' ? (
+        <div className="flex-1 min-h-0 flex flex-col overflow-y-auto">
+          <RecipientField
+            label="To"
+            addresses={draft.to}
+            isDisabled={isLocked}
+            onChange={(to) => setField('to', to)}
+          />
+          <RecipientField
+            label="Cc"
+            addresses={draft.cc}
+            isDisabled={isLocked}
+            onChange={(cc) => setField('cc', cc)}
+          />
+          <input
+            value={draft.subject}
+            onChange={(e) => setField('subject', e.target.value)}
+            disabled={isLocked}
+            placeholder="Subject"
+            aria-label="Subject"
+            className="shrink-0 h-12 px-5 border-b border-[#f2f2f7] font-['Outfit',_sans-serif] text-base font-medium outline-none bg-transparent"
+          />
+
+          {/* Attachments */}
+          {draft.attachments.length > 0 && (
+            <ul className="shrink-0 flex flex-col gap-2 px-5 py-3 border-b border-[#f2f2f7]">
+              {draft.attachments.map((attachment) => (
+                <li key={attachment.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-[#f2f2f7]">
+                  <FileText size={18} className="shrink-0 text-[#8e8e93]" />
+                  <span className="flex-1 min-w-0 truncate font-['Outfit',_sans-serif] text-sm">{attachment.name}</span>
+                  <span className="shrink-0 font-['Outfit',_sans-serif] text-xs text-[#8e8e93]">
+                    {formatFileSize(attachment.size)}
+                  </span>
+                  <button
+                    aria-label={`Remove ${attachment.name}`}
+                    onClick={() => setField('attachments', draft.attachments.filter((a) => a.id !== attachment.id))}
+                    disabled={isLocked}
+                    className="size-8 shrink-0 flex items-center justify-center rounded-full text-[#8e8e93] active:bg-white"
+                  >
+                    <X size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <textarea
+            value={draft.body}
+            onChange={(e) => setField('body', e.target.value)}
+            disabled={isLocked}
+            placeholder="Write your message..."
+            aria-label="Message"
+            className="flex-1 min-h-[160px] px-5 py-4 resize-none font-['Outfit',_sans-serif] text-base outline-none bg-transparent"
+          />
+
+          <div className="shrink-0 flex items-center justify-between px-3 py-2 border-t border-[#f2f2f7]">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLocked}
+              className="h-10 px-3 flex items-center gap-2 rounded-xl font-['Outfit',_sans-serif] text-sm text-neutral-700 active:bg-[#f2f2f7]"
+            >
+              <Paperclip size={18} />
+              Attach
+            </button>
+            {saveError && (
+              <span className="px-2 font-['Outfit',_sans-serif] text-xs text-red-500">Not saved: {saveError}</span>
+            )}
+            <input ref={fileInputRef} type="file" multiple onChange={handleAttach} className="hidden" />
+          </div>
+        </div>
+      ) : (
+        <SentList mail={sentMail} />
+      )}
+    </div>
+  );
+}
+
+// Address chips plus a text input; typing a comma, semicolon or space (or leaving the field) adds the address
+function RecipientField({
+  label,
+  addresses,
+  isDisabled,
+  onChange,
+}: {
+  label: string;
+  addresses: string[];
+  isDisabled: boolean;
+  onChange: (addresses: string[]) => void;
+}) {
+  const [input, setInput] = useState('');
+
+  const commit = (text: string) => {
+    const added = text.split(/[\s,;]+/).filter(Boolean);
+    if (added.length > 0) {
+      onChange([...addresses, ...added.filter((address) => !addresses.includes(address))]);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    // A separator (typed or pasted) ends the address before it
+    const lastSeparator = Math.max(value.lastIndexOf(','), value.lastIndexOf(';'), value.lastIndexOf(' '));
+    if (lastSeparator === -1) {
+      setInput(value);
+      return;
+    }
+    commit(value.slice(0, lastSeparator));
+    setInput(value.slice(lastSeparator + 1));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(input);
+      setInput('');
+    } else if (e.key === 'Backspace' && input === '' && addresses.length > 0) {
+      onChange(addresses.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="shrink-0 flex flex-wrap items-center gap-1.5 min-h-12 px-5 py-2 border-b border-[#f2f2f7]">
+      <span className="w-8 font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">{label}</span>
+      {addresses.map((address) => (
+        <span
+          key={address}
+          className={`flex items-center gap-1 h-7 pl-3 pr-1 rounded-full font-['Outfit',_sans-serif] text-sm ${
+            isValidEmail(address) ? 'bg-[#f2f2f7] text-neutral-900' : 'bg-[#FF453A]/10 text-[#FF453A]'
+          }`}
+        >
+          {address}
+          <button
+            aria-label={`Remove ${address}`}
+            onClick={() => onChange(addresses.filter((a) => a !== address))}
+            disabled={isDisabled}
+            className="size-5 flex items-center justify-center rounded-full"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <input
+        value={input}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          commit(input);
+          setInput('');
+        }}
+        disabled={isDisabled}
+        inputMode="email"
+        autoCapitalize="off"
+        autoCorrect="off"
+        aria-label={label}
+        className="flex-1 min-w-[120px] h-8 font-['Outfit',_sans-serif] text-base outline-none bg-transparent"
+      />
+    </div>
+  );
+}
+
+function SentList({ mail }: { mail: SentMail[] | null }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (mail === null) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="font-['Outfit',_sans-serif] text-neutral-500">Loading...</p>
+      </div>
+    );
+  }
+
+  if (mail.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="font-['Outfit',_sans-serif] text-neutral-500">Nothing sent yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="flex-1 min-h-0 overflow-y-auto flex flex-col gap-3 px-4 py-3">
+      {[...mail].reverse().map((item) => {
+        const isExpanded = expandedId === item.id;
+        return (
+          <li key={item.id}>
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : item.id)}
+              aria-expanded={isExpanded}
+              className="w-full text-left px-4 py-3 rounded-2xl border border-[#e5e5ea] font-['Outfit',_sans-serif]"
+            >
+              <div className="flex items-baseline justify-between gap-3">
+                <span className="min-w-0 truncate text-base font-medium text-neutral-900">
+                  {item.subject || '(No subject)'}
+                </span>
+                <span className="shrink-0 text-xs text-[#8e8e93]">
+                  {new Date(item.sentAt).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </span>
+              </div>
+              <p className="pt-0.5 truncate text-sm text-[#8e8e93]">
+                To: {item.to.join(', ')}
+                {item.cc.length > 0 && ` · Cc: ${item.cc.join(', ')}`}
+              </p>
+              <p className={`pt-2 text-sm text-neutral-700 whitespace-pre-wrap break-words ${isExpanded ? '' : 'line-clamp-2'}`}>
+                {item.body}
+              </p>
+              {item.attachments.length > 0 && (
+                <p className="pt-2 flex items-center gap-1 text-xs text-[#8e8e93]">
+                  <Paperclip size={12} />
+                  {item.attachments.map((a) => `${a.name} (${formatFileSize(a.size)})`).join(', ')}
+                </p>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
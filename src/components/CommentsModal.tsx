@@ -0,0 +1,310 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ArrowUp, X } from 'lucide-react@0.487.0';
+import CanvasStatus from './CanvasStatus';
+import svgPaths from '../imports/svg-eqb2atdqkn';
+import useComments, { CommentEntry } from '../hooks/useComments';
+import useKeyboardInset from '../hooks/useKeyboardInset';
+import { Tab } from '../types';
+import { avatarColor, initials } from '../utils/avatar';
+import { buildThreads, formatRelativeTime } from '../utils/comments';
+
+/**
+ * CommentsModal Component
+ * Bottom sheet opened from the Comments button in the TabBar (design: imports/Comments.tsx)
+ * - Lists the active tab's comments as threads: a comment with its replies underneath
+ * - Blue badge on comments from others added since you last opened the comments
+ * - The check on a thread resolves it (tap again to reopen); resolved threads are folded
+ *   away under "Show resolved" and don't count towards the Comments button's count
+ * - "Reply" on a thread points the composer at it until the reply is sent or cancelled
+ * - Viewers of a shared task can read the comments but not post, reply or resolve
+ */
+
+interface CommentsModalProps {
+  isOpen: boolean;
+  tab: Tab | null;
+  onCountChange: (tabId: string, count: number) => void; // Unresolved threads, for the Comments button
+  isReadOnly: boolean;
+  onClose: () => void;
+}
+
+export default function CommentsModal({ isOpen, tab, onCountChange, isReadOnly, onClose }: CommentsModalProps) {
+  const tabId = tab?.id ?? null;
+  const comments = useComments(tabId, isOpen, onCountChange);
+  const keyboardInset = useKeyboardInset();
+
+  const [draft, setDraft] = useState('');
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Start fresh each time the modal opens (or the tab changes under it)
+  useEffect(() => {
+    setDraft('');
+    setReplyToId(null);
+    setShowResolved(false);
+  }, [isOpen, tabId]);
+
+  // Grow the composer with its text, up to its max height
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [draft]);
+
+  const threads = buildThreads(comments.comments);
+  const openThreads = threads.filter((thread) => !thread.comment.resolved);
+  const resolvedThreads = threads.filter((thread) => thread.comment.resolved);
+  const replyTo = threads.find((thread) => thread.comment.id === replyToId)?.comment ?? null;
+
+  const handleSubmit = () => {
+    if (draft.trim() === '') return;
+
+    comments.post(draft, replyTo?.id ?? null);
+    setDraft('');
+    setReplyToId(null);
+    // New threads go to the end of the open ones, so bring them into view
+    if (!replyTo) {
+      requestAnimationFrame(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+      });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter posts, Shift+Enter adds a line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  const startReply = (commentId: string) => {
+    setReplyToId(commentId);
+    textareaRef.current?.focus();
+  };
+
+  const renderThread = (thread: (typeof threads)[number]) => (
+    <div key={thread.comment.id} className="flex w-full flex-col gap-[12px]" data-name="Thread">
+      <CommentRow
+        comment={thread.comment}
+        isUnread={comments.isUnread(thread.comment)}
+        onResolveToggle={isReadOnly ? undefined : () => comments.setResolved(thread.comment.id, !thread.comment.resolved)}
+        onReply={isReadOnly || thread.comment.resolved ? undefined : () => startReply(thread.comment.id)}
+        onRetry={() => comments.retryPost(thread.comment.id)}
+      />
+      {thread.replies.map((reply) => (
+        <div key={reply.id} className="pl-[40px]">
+          <CommentRow
+            comment={reply}
+            isUnread={comments.isUnread(reply)}
+            onRetry={() => comments.retryPost(reply.id)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop - tap to dismiss */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 z-[110] bg-black/40"
+            onClick={onClose}
+          />
+
+          {/* Sheet - lifted above the on-screen keyboard while it is open */}
+          <motion.div
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ duration: 0.25, ease: [0.4, 0, 0.2, 1] }}
+            style={{ bottom: keyboardInset }}
+            className="fixed left-0 right-0 z-[120] flex h-[75vh] flex-col bg-white rounded-tl-[40px] rounded-tr-[40px] shadow-[0px_0px_10px_0px_rgba(0,0,0,0.2)]"
+            data-name="Comments"
+          >
+            {/* Header */}
+            <div className="relative shrink-0 border-b border-neutral-200" data-name="Header">
+              <div className="flex flex-col items-center justify-center gap-[10px] pb-[15px] pt-[10px]">
+                <div className="bg-[rgba(0,0,0,0.4)] h-[2px] rounded-[100px] shrink-0 w-[40px]" data-name="Handle" />
+                <p className="font-['Outfit:Medium',_sans-serif] font-medium leading-[normal] text-[16px] text-black">Comments</p>
+              </div>
+              <button
+                aria-label="Close comments"
+                onClick={onClose}
+                className="absolute right-[15px] top-1/2 flex size-8 translate-y-[-50%] items-center justify-center rounded-full text-[#8e8e93] active:bg-[#f2f2f7]"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            {/* Threads */}
+            <div ref={listRef} className="min-h-0 flex-1 overflow-y-auto">
+              {comments.status !== 'ready' ? (
+                <CanvasStatus status={comments.status} error={comments.error} label="comments" onRetry={comments.retry} />
+              ) : threads.length === 0 ? (
+                <div className="flex h-full items-center justify-center p-6">
+                  <p className="font-['Outfit',_sans-serif] text-center text-neutral-500">
+                    No comments on {tab?.name ?? 'this tab'} yet
+                  </p>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center gap-[20px] px-[20px] py-[20px]">
+                  {openThreads.map(renderThread)}
+
+                  {resolvedThreads.length > 0 && (
+                    <button
+                      onClick={() => setShowResolved((shown) => !shown)}
+                      className="self-start font-['Outfit',_sans-serif] text-sm text-[#7482FF] active:opacity-70"
+                    >
+                      {showResolved ? 'Hide resolved' : `Show resolved (${resolvedThreads.length})`}
+                    </button>
+                  )}
+                  {showResolved && (
+                    <div className="flex w-full flex-col gap-[20px] opacity-60">{resolvedThreads.map(renderThread)}</div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Composer */}
+            {isReadOnly ? (
+              <p className="shrink-0 px-[20px] pb-[25px] pt-[10px] text-center font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">
+                You can only view this task
+              </p>
+            ) : (
+            <div className="shrink-0 px-[20px] pb-[25px] pt-[10px]">
+              {replyTo && (
+                <div className="flex items-center justify-between pb-1 pl-[15px]">
+                  <span className="min-w-0 truncate font-['Outfit',_sans-serif] text-xs font-medium text-[#7482FF]">
+                    Replying to {replyTo.authorName}
+                  </span>
+                  <button
+                    aria-label="Cancel reply"
+                    onClick={() => setReplyToId(null)}
+                    className="flex size-8 shrink-0 items-center justify-center rounded-full text-[#8e8e93] active:bg-[#f2f2f7]"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              )}
+              <div className="relative rounded-[30px] bg-white" data-name="Chat-Box">
+                <div className="flex items-end gap-[15px] p-[15px] pr-[10px]">
+                  <textarea
+                    ref={textareaRef}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    disabled={comments.status !== 'ready'}
+                    rows={1}
+                    placeholder={replyTo ? 'Add Reply' : 'Add Comment'}
+                    aria-label={replyTo ? 'Reply' : 'Comment'}
+                    className="max-h-32 min-w-0 flex-1 resize-none bg-transparent font-['Outfit:Regular',_sans-serif] text-[15.709px] leading-[20px] text-black outline-none placeholder:text-[#5f6276]"
+                  />
+                  <button
+                    aria-label={replyTo ? 'Post reply' : 'Post comment'}
+                    // Keep the textarea focused so the keyboard stays open
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={handleSubmit}
+                    disabled={draft.trim() === ''}
+                    className="flex size-[28px] shrink-0 items-center justify-center rounded-full bg-[#7482FF] text-white disabled:opacity-40"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                </div>
+                <div aria-hidden="true" className="absolute border border-[rgba(0,0,0,0.1)] border-solid inset-0 pointer-events-none rounded-[30px]" />
+              </div>
+            </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface CommentRowProps {
+  comment: CommentEntry;
+  isUnread: boolean;
+  onResolveToggle?: () => void; // Only top-level comments can be resolved
+  onReply?: () => void;
+  onRetry: () => void;
+}
+
+function CommentRow({ comment, isUnread, onResolveToggle, onReply, onRetry }: CommentRowProps) {
+  return (
+    <div className="flex w-full items-start gap-[30px]" data-name="Comment">
+      <div className="flex min-w-0 flex-1 items-start gap-[10px]" data-name="Left-Side">
+        {/* Avatar */}
+        <div className="flex h-[38px] shrink-0 items-center justify-center" data-name="User">
+          <div
+            className="flex size-[30px] items-center justify-center overflow-clip rounded-full"
+            style={{ backgroundColor: avatarColor(comment.authorId) }}
+            data-name="User-Icon"
+          >
+            <p className="font-['Inter:Medium',_sans-serif] font-medium text-[15px] text-white">
+              {initials(comment.authorName, 1)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex min-w-0 flex-1 flex-col items-start gap-[5px]" data-name="Body">
+          <div className="flex w-full min-w-0 items-center gap-[5px] text-[12px] text-black" data-name="Top-Line">
+            <p className="min-w-0 truncate font-['Inter:Semi_Bold',_sans-serif] font-semibold">{comment.authorName}</p>
+            <p className="shrink-0 font-['Inter:Light',_sans-serif] font-light">
+              {comment.sendStatus === 'sending' ? 'Posting...' : formatRelativeTime(comment.createdAt)}
+            </p>
+            {isUnread && (
+              <div className="relative shrink-0 size-[5px]" data-name="Badge">
+                <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 5 5">
+                  <circle cx="2.5" cy="2.5" fill="var(--fill-0, #007AFF)" r="2.5" />
+                </svg>
+              </div>
+            )}
+          </div>
+          <p className="w-full whitespace-pre-wrap break-words font-['Inter:Regular',_sans-serif] font-normal text-[15px] text-black">
+            {comment.body}
+          </p>
+
+          {comment.sendStatus === 'failed' ? (
+            <button onClick={onRetry} className="font-['Outfit',_sans-serif] text-xs text-[#FF453A] active:opacity-70">
+              Not posted · Retry
+            </button>
+          ) : (
+            onReply &&
+            !comment.sendStatus && (
+              <button onClick={onReply} className="font-['Outfit',_sans-serif] text-xs text-[#8e8e93] active:opacity-70">
+                Reply
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      {/* Resolve check (blue once resolved) */}
+      {onResolveToggle && (
+        <button
+          aria-label={comment.resolved ? 'Reopen comment' : 'Resolve comment'}
+          aria-pressed={comment.resolved}
+          onClick={onResolveToggle}
+          disabled={!!comment.sendStatus}
+          className="h-[38px] w-[16px] shrink-0 active:opacity-70 disabled:opacity-40"
+          data-name="Right-Side"
+        >
+          <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 16 38">
+            <path d={svgPaths.p2eed1800} fill={comment.resolved ? '#007AFF' : '#C7C7CC'} />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect } from 'react';
+import { useEditor, EditorContent, Editor, JSONContent } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import Link from '@tiptap/extension-link';
+import TaskList from '@tiptap/extension-task-list';
+import TaskItem from '@tiptap/extension-task-item';
+import Placeholder from '@tiptap/extension-placeholder';
+import {
+  Bold,
+  Italic,
+  Heading1,
+  Heading2,
+  List,
+  ListOrdered,
+  ListChecks,
+  Link as LinkIcon,
+  Code,
+} from 'lucide-react@0.487.0';
+import CanvasStatus from './CanvasStatus';
+import useTabContent from '../hooks/useTabContent';
+import useKeyboardInset from '../hooks/useKeyboardInset';
+import '../styles/doc-canvas.css';
+
+/**
+ * DocCanvas Component
+ * Rich-text document canvas (TipTap) for tabs with canvasType 'doc'
+ * - Headings, bold/italic, bullet and numbered lists, checklists, links and code blocks
+ * - Content is the editor's JSON, loaded lazily and saved per tab through useTabContent
+ * - Toolbar pinned to the top of the canvas, so the keyboard never covers it
+ * - While the keyboard is open, the scroll area shrinks to the part of the canvas still
+ *   visible above it, so the caret is always scrolled into view
+ * - Read-only while shown as the adjacent tab during a swipe
+ */
+
+interface DocCanvasProps {
+  tabId: string;
+  isEditable: boolean;
+}
+
+// Matches TabBar.tsx (151px content + 34px safe area)
+const TAB_BAR_HEIGHT = 185;
+
+export default function DocCanvas({ tabId, isEditable }: DocCanvasProps) {
+  const { status, content, error, saveError, generation, update, retry } = useTabContent(tabId);
+
+  if (status !== 'ready') {
+    return <CanvasStatus status={status} error={error} label="document" onRetry={retry} />;
+  }
+
+  // The editor is only created once the content is there, so it starts from the saved document
+  // (and is created again when a version is restored)
+  return (
+    <DocEditor
+      key={generation}
+      initialContent={content as JSONContent | null}
+      isEditable={isEditable}
+      saveError={saveError}
+      onChange={update}
+    />
+  );
+}
+
+function DocEditor({
+  initialContent,
+  isEditable,
+  saveError,
+  onChange,
+}: {
+  initialContent: JSONContent | null;
+  isEditable: boolean;
+  saveError: string | null;
+  onChange: (content: JSONContent) => void;
+}) {
+  const keyboardInset = useKeyboardInset();
+  // The canvas already ends above the tab bar, so only the part of the keyboard above it matters
+  const keyboardOverlap = Math.max(0, keyboardInset - TAB_BAR_HEIGHT);
+
+  const editor = useEditor({
+    extensions: [
+      StarterKit.configure({ heading: { levels: [1, 2, 3] } }),
+      Link.configure({ openOnClick: false, autolink: true }),
+      TaskList,
+      TaskItem.configure({ nested: true }),
+      Placeholder.configure({ placeholder: 'Start writing...' }),
+    ],
+    content: initialContent ?? '',
+    editable: isEditable,
+    onUpdate: ({ editor }) => onChange(editor.getJSON()),
+  });
+
+  // The tab becomes editable once it settles as the active tab
+  useEffect(() => {
+    editor?.setEditable(isEditable);
+  }, [editor, isEditable]);
+
+  return (
+    <div className="flex flex-col h-full" style={{ paddingBottom: keyboardOverlap }} data-name="Doc-Canvas">
+      {editor && <DocToolbar editor={editor} isDisabled={!isEditable} />}
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-5 py-4">
+        <EditorContent editor={editor} className="doc-canvas" />
+      </div>
+
+      {saveError && (
+        <p className="px-5 pb-2 font-['Outfit',_sans-serif] text-xs text-red-500">
+          Not saved: {saveError}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Formatting toolbar; buttons keep the editor focused so the keyboard stays open
+// (also shown, disabled, on the adjacent tab so nothing shifts when a swipe settles)
+function DocToolbar({ editor, isDisabled }: { editor: Editor; isDisabled: boolean }) {
+  // Add, edit or remove (empty URL) the link on the selection
+  const handleLink = () => {
+    const previousUrl = editor.getAttributes('link').href ?? '';
+    const url = window.prompt('Link URL', previousUrl);
+    if (url === null) return;
+
+    if (url.trim() === '') {
+      editor.chain().focus().extendMarkRange('link').unsetLink().run();
+    } else {
+      editor.chain().focus().extendMarkRange('link').setLink({ href: url.trim() }).run();
+    }
+  };
+
+  const buttons = [
+    { label: 'Heading 1', icon: Heading1, isActive: editor.isActive('heading', { level: 1 }), onClick: () => editor.chain().focus().toggleHeading({ level: 1 }).run() },
+    { label: 'Heading 2', icon: Heading2, isActive: editor.isActive('heading', { level: 2 }), onClick: () => editor.chain().focus().toggleHeading({ level: 2 }).run() },
+    { label: 'Bold', icon: Bold, isActive: editor.isActive('bold'), onClick: () => editor.chain().focus().toggleBold().run() },
+    { label: 'Italic', icon: Italic, isActive: editor.isActive('italic'), onClick: () => editor.chain().focus().toggleItalic().run() },
+    { label: 'Bullet list', icon: List, isActive: editor.isActive('bulletList'), onClick: () => editor.chain().focus().toggleBulletList().run() },
+    { label: 'Numbered list', icon: ListOrdered, isActive: editor.isActive('orderedList'), onClick: () => editor.chain().focus().toggleOrderedList().run() },
+    { label: 'Checklist', icon: ListChecks, isActive: editor.isActive('taskList'), onClick: () => editor.chain().focus().toggleTaskList().run() },
+    { label: 'Link', icon: LinkIcon, isActive: editor.isActive('link'), onClick: handleLink },
+    { label: 'Code block', icon: Code, isActive: editor.isActive('codeBlock'), onClick: () => editor.chain().focus().toggleCodeBlock().run() },
+  ];
+
+  return (
+    <div className="shrink-0 flex items-center gap-1 px-3 py-2 overflow-x-auto border-b border-[#f2f2f7]">
+      {buttons.map(({ label, icon: Icon, isActive, onClick }) => (
+        <button
+          key={label}
+          aria-label={label}
+          aria-pressed={isActive}
+          // Prevent the button from taking focus (and closing the mobile keyboard)
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={onClick}
+          disabled={isDisabled}
+          className={`size-11 shrink-0 flex items-center justify-center rounded-xl ${
+            isActive ? 'bg-[#7482FF]/15 text-[#7482FF]' : 'text-neutral-700 active:bg-[#f2f2f7]'
+          }`}
+        >
+          <Icon size={20} />
+        </button>
+      ))}
+    </div>
+  );
+}
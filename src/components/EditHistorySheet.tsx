@@ -0,0 +1,307 @@
+import { useContext, useEffect, useState } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { ChevronLeft, RotateCcw } from 'lucide-react@0.487.0';
+import CanvasIcon from './CanvasIcon';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { TabContentContext } from '../hooks/useTabContent';
+import { Tab, TabVersion, TabVersionSummary } from '../types';
+import { fetchTabVersion, fetchTabVersions, restoreTabVersion } from '../utils/supabase/api';
+import { VERSION_KIND_LABELS, getDocText } from '../utils/history';
+import { createSheetModel, getDisplayRows, toSheetContent } from '../utils/sheet';
+import { toCommDraft } from '../utils/comm';
+
+/**
+ * EditHistorySheet Component
+ * Bottom sheet opened from the Edit-History button in the TabBar
+ * - Lists the active tab's versions, newest first (the server records one after each
+ *   rename, canvas type pick, content edit and restore)
+ * - Tapping a version previews it: its name, canvas type and a read-only view of its content
+ * - Restore puts the tab back the way it was in that version; the restore is itself a new
+ *   version, so it can be undone by restoring the one before it
+ * - Viewers of a shared task can browse and preview versions but not restore them
+ */
+
+interface EditHistorySheetProps {
+  isOpen: boolean;
+  tab: Tab | null;
+  onRestored: (tab: Tab) => void; // The restored name and canvas type, to apply to the task
+  isReadOnly: boolean;
+  onClose: () => void;
+}
+
+// Limits for the sheet preview (the rest is summarized)
+const PREVIEW_ROWS = 20;
+const PREVIEW_COLUMNS = 8;
+
+const formatVersionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function EditHistorySheet({ isOpen, tab, onRestored, isReadOnly, onClose }: EditHistorySheetProps) {
+  const store = useContext(TabContentContext);
+  const tabId = tab?.id ?? null;
+
+  // null while loading
+  const [versions, setVersions] = useState<TabVersionSummary[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // The version being previewed (its content is fetched when it is opened)
+  const [selected, setSelected] = useState<TabVersionSummary | null>(null);
+  const [preview, setPreview] = useState<TabVersion | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Load the history each time the sheet opens, so it includes the latest edits
+  useEffect(() => {
+    if (!isOpen || !tabId) return;
+
+    setVersions(null);
+    setLoadError(null);
+    setSelected(null);
+
+    let isCancelled = false;
+    // Save pending edits first so the newest version matches what is on screen
+    Promise.resolve(store?.flush())
+      .then(() => fetchTabVersions(tabId))
+      .then((result) => {
+        if (isCancelled) return;
+        if (result.success) {
+          setVersions(result.versions);
+        } else {
+          setLoadError(result.error);
+        }
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, tabId, store]);
+
+  // Fetch the previewed version's content
+  useEffect(() => {
+    if (!selected || !tabId) return;
+
+    setPreview(null);
+    let isCancelled = false;
+    fetchTabVersion(tabId, selected.id).then((result) => {
+      if (isCancelled) return;
+      if (result.success) {
+        setPreview(result.version);
+      } else {
+        toast.error('Could not load this version');
+        setSelected(null);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [selected, tabId]);
+
+  const handleRestore = async () => {
+    if (!tabId || !selected || !store) return;
+
+    setIsRestoring(true);
+    // Pending edits are saved first, so they stay in the history and can't overwrite the restored content
+    await store.flush();
+    const result = await restoreTabVersion(tabId, selected.id);
+    setIsRestoring(false);
+
+    if (!result.success) {
+      toast.error(`Could not restore: ${result.error}`);
+      return;
+    }
+
+    store.restore(tabId, result.content);
+    onRestored(result.tab);
+    toast.success(`Restored the version from ${formatVersionTime(selected.updatedAt)}`);
+    onClose();
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <SheetContent
+        side="bottom"
+        className="max-h-[85vh] gap-0 rounded-t-[24px] bg-white font-['Outfit',_sans-serif]"
+        data-name="Edit-History-Sheet"
+      >
+        <SheetHeader className="pb-2">
+          {selected && (
+            <button
+              onClick={() => setSelected(null)}
+              className="flex items-center gap-1 self-start text-sm text-[#7482FF] active:opacity-70"
+            >
+              <ChevronLeft size={16} />
+              All versions
+            </button>
+          )}
+          <SheetTitle className="text-lg font-medium text-neutral-950">Edit History</SheetTitle>
+          <SheetDescription className="truncate text-sm text-[#8e8e93]">{tab?.name}</SheetDescription>
+        </SheetHeader>
+
+        {selected ? (
+          <VersionPreview
+            version={selected}
+            preview={preview}
+            isCurrent={selected.id === versions?.[0]?.id}
+            isRestoring={isRestoring}
+            onRestore={isReadOnly ? undefined : handleRestore}
+          />
+        ) : (
+          <VersionList versions={versions} error={loadError} onSelect={setSelected} />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface VersionListProps {
+  versions: TabVersionSummary[] | null;
+  error: string | null;
+  onSelect: (version: TabVersionSummary) => void;
+}
+
+function VersionList({ versions, error, onSelect }: VersionListProps) {
+  if (error) {
+    return <p className="px-4 pb-8 pt-4 text-center text-sm text-[#FF453A]">Could not load the history: {error}</p>;
+  }
+
+  if (versions === null) {
+    return <p className="px-4 pb-8 pt-4 text-center text-neutral-500">Loading...</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="px-4 pb-8 pt-4 text-center text-neutral-500">
+        No changes yet. Renaming the tab or editing its canvas adds versions here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="min-h-0 flex-1 overflow-y-auto px-4 pb-8">
+      {versions.map((version, index) => (
+        <li key={version.id}>
+          <button
+            onClick={() => onSelect(version)}
+            className="flex w-full items-center gap-3 border-b border-[#e5e5ea] py-3 text-left active:opacity-70"
+          >
+            <CanvasIcon canvasType={version.canvasType} />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-base text-neutral-900">{VERSION_KIND_LABELS[version.kind]}</p>
+              <p className="truncate text-sm text-[#8e8e93]">{version.name}</p>
+            </div>
+            <div className="shrink-0 text-right">
+              <p className="text-xs text-[#8e8e93]">{formatVersionTime(version.updatedAt)}</p>
+              {index === 0 && <p className="text-xs text-[#7482FF]">Current</p>}
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface VersionPreviewProps {
+  version: TabVersionSummary;
+  preview: TabVersion | null;
+  isCurrent: boolean; // The tab is already like this
+  isRestoring: boolean;
+  onRestore?: () => void; // Missing for viewers, who can't restore
+}
+
+function VersionPreview({ version, preview, isCurrent, isRestoring, onRestore }: VersionPreviewProps) {
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3 px-4 pb-8">
+      <div className="flex items-center gap-3">
+        <CanvasIcon canvasType={version.canvasType} />
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-base text-neutral-900">{version.name}</p>
+          <p className="text-sm text-[#8e8e93]">
+            {VERSION_KIND_LABELS[version.kind]} · {formatVersionTime(version.updatedAt)}
+          </p>
+        </div>
+      </div>
+
+      <div className="min-h-[120px] flex-1 overflow-y-auto rounded-2xl bg-[#f2f2f7] p-3">
+        {preview ? (
+          <ContentPreview version={preview} />
+        ) : (
+          <p className="text-sm text-neutral-500">Loading...</p>
+        )}
+      </div>
+
+      {onRestore && (
+        <button
+          onClick={onRestore}
+          disabled={!preview || isCurrent || isRestoring}
+          className="flex items-center justify-center gap-2 rounded-full bg-[#7482FF] py-3 text-white active:opacity-70 disabled:opacity-50"
+        >
+          <RotateCcw size={16} />
+          {isCurrent ? 'Current Version' : isRestoring ? 'Restoring...' : 'Restore This Version'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Read-only view of a version's content, by canvas type
+function ContentPreview({ version }: { version: TabVersion }) {
+  const emptyNote = <p className="text-sm text-neutral-500">Empty</p>;
+
+  if (version.canvasType === null) {
+    return <p className="text-sm text-neutral-500">Blank tab (no canvas picked yet)</p>;
+  }
+
+  if (version.canvasType === 'chat') {
+    // Chat messages are kept apart from the tab and are not part of its versions
+    return <p className="text-sm text-neutral-500">Chat messages are not included in the edit history</p>;
+  }
+
+  if (version.content === null) {
+    return emptyNote;
+  }
+
+  if (version.canvasType === 'doc') {
+    const text = getDocText(version.content);
+    return text ? <p className="whitespace-pre-wrap break-words text-sm text-neutral-900">{text}</p> : emptyNote;
+  }
+
+  if (version.canvasType === 'sheet') {
+    const rows = getDisplayRows(createSheetModel(toSheetContent(version.content)));
+    if (rows.length === 0) return emptyNote;
+
+    const isCut = rows.length > PREVIEW_ROWS || rows[0].length > PREVIEW_COLUMNS;
+    return (
+      <>
+        <table className="border-collapse text-sm text-neutral-900">
+          <tbody>
+            {rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.slice(0, PREVIEW_COLUMNS).map((value, columnIndex) => (
+                  <td key={columnIndex} className="max-w-[96px] truncate border border-[#e5e5ea] bg-white px-2 py-1">
+                    {value}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {isCut && (
+          <p className="pt-2 text-xs text-[#8e8e93]">
+            Showing the first {PREVIEW_ROWS} rows and {PREVIEW_COLUMNS} columns of {rows.length} × {rows[0].length}
+          </p>
+        )}
+      </>
+    );
+  }
+
+  // Comm: the draft as it was
+  const draft = toCommDraft(version.content);
+  return (
+    <div className="flex flex-col gap-1 text-sm text-neutral-900">
+      <p><span className="text-[#8e8e93]">To:</span> {draft.to.join(', ') || '—'}</p>
+      {draft.cc.length > 0 && <p><span className="text-[#8e8e93]">Cc:</span> {draft.cc.join(', ')}</p>}
+      <p><span className="text-[#8e8e93]">Subject:</span> {draft.subject || '(No subject)'}</p>
+      <p className="whitespace-pre-wrap break-words pt-2">{draft.body}</p>
+      {draft.attachments.length > 0 && (
+        <p className="pt-2 text-xs text-[#8e8e93]">{draft.attachments.map((a) => a.name).join(', ')}</p>
+      )}
+    </div>
+  );
+}
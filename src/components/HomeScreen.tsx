@@ -0,0 +1,193 @@
+import { motion, AnimatePresence } from 'motion/react';
+import { CanvasType, Tab, Task, UnreadComments } from '../types';
+import useHome from '../hooks/useHome';
+import BlankTab from './BlankTab';
+import CanvasIcon from './CanvasIcon';
+import CanvasStatus from './CanvasStatus';
+import { formatRelativeTime } from '../utils/comments';
+
+/**
+ * HomeScreen Component
+ * Dashboard across all tasks, opened from the Home button in the TabBar
+ * - Full-screen view that fades in and out like the TabSwitcher
+ * - Recent: the tabs you had on screen lately (not the one you're on), newest first
+ * - Unread comments: tasks with comments others wrote since you last looked; tapping one
+ *   opens the first such tab with its comments
+ * - New task: the BlankTab canvas type grid, creating a task whose tab starts as that canvas
+ */
+
+interface HomeScreenProps {
+  isOpen: boolean;
+  tasks: Task[];
+  activeTaskId: string | null;
+  activeTabId: string | null;
+  onTabSelect: (taskId: string, tabId: string) => void;
+  onCommentsOpen: (taskId: string, tabId: string) => void;
+  onNewTask: (type: CanvasType) => void;
+  onClose: () => void;
+}
+
+interface TaskUnread {
+  task: Task;
+  tab: Tab; // The first of the task's tabs with unread comments
+  count: number; // Across all of the task's tabs
+}
+
+export default function HomeScreen({
+  isOpen,
+  tasks,
+  activeTaskId,
+  activeTabId,
+  onTabSelect,
+  onCommentsOpen,
+  onNewTask,
+  onClose,
+}: HomeScreenProps) {
+  const home = useHome(isOpen);
+
+  // Tabs the app no longer has (closed or unshared since) are skipped
+  const recentTabs = home.recentTabs.flatMap((recent) => {
+    const task = tasks.find((t) => t.id === recent.taskId);
+    const tab = task?.tabs.find((t) => t.id === recent.tabId);
+    const isOnScreen = recent.taskId === activeTaskId && recent.tabId === activeTabId;
+    return task && tab && !isOnScreen ? [{ task, tab, visitedAt: recent.visitedAt }] : [];
+  });
+  const unreadTasks = groupUnreadByTask(tasks, home.unreadComments);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[100] bg-white"
+        >
+          {/* Header */}
+          <div className="absolute top-0 left-0 right-0 pt-12 pb-4 px-6">
+            <div className="flex items-center justify-between">
+              <h2 className="font-['Outfit',_sans-serif] text-neutral-950 text-xl">
+                Home
+              </h2>
+              <p className="font-['Outfit',_sans-serif] text-[#8e8e93]">
+                {tasks.length} {tasks.length === 1 ? 'Task' : 'Tasks'}
+              </p>
+            </div>
+          </div>
+
+          <div className="absolute top-28 left-0 right-0 bottom-20 overflow-y-auto px-4">
+            {home.status !== 'ready' ? (
+              <div className="h-40">
+                <CanvasStatus status={home.status} error={home.error} label="home" onRetry={home.retry} />
+              </div>
+            ) : (
+              <>
+                {recentTabs.length > 0 && (
+                  <section className="pb-8">
+                    <SectionHeader title="Recent" />
+                    <div className="flex flex-col gap-2">
+                      {recentTabs.map(({ task, tab, visitedAt }) => (
+                        <HomeRow
+                          key={tab.id}
+                          canvasType={tab.canvasType}
+                          title={tab.name}
+                          detail={`${task.name} · ${formatRelativeTime(visitedAt)}`}
+                          onClick={() => onTabSelect(task.id, tab.id)}
+                        />
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                {unreadTasks.length > 0 && (
+                  <section className="pb-8">
+                    <SectionHeader title="Unread Comments" />
+                    <div className="flex flex-col gap-2">
+                      {unreadTasks.map(({ task, tab, count }) => (
+                        <HomeRow
+                          key={task.id}
+                          canvasType={tab.canvasType}
+                          title={task.name}
+                          detail={`${count} unread ${count === 1 ? 'comment' : 'comments'} · ${tab.name}`}
+                          onClick={() => onCommentsOpen(task.id, tab.id)}
+                        />
+                      ))}
+                    </div>
+                  </section>
+                )}
+              </>
+            )}
+
+            {/* New task shortcuts */}
+            <section className="pb-8">
+              <SectionHeader title="New Task" />
+              <div className="h-[460px] rounded-[20px] overflow-hidden">
+                <BlankTab onCanvasTypeSelect={onNewTask} headline="Start a new task with" />
+              </div>
+            </section>
+          </div>
+
+          {/* Bottom action button */}
+          <div className="absolute bottom-0 left-0 right-0 pb-8 pt-4 px-6 bg-white">
+            <button
+              onClick={onClose}
+              className="w-full h-12 bg-[#f2f2f7] active:opacity-70 rounded-full font-['Outfit',_sans-serif] text-neutral-950 transition-opacity text-center"
+            >
+              Done
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+// One entry per task with unread comments, in the tasks' order
+function groupUnreadByTask(tasks: Task[], unreadComments: UnreadComments[]): TaskUnread[] {
+  return tasks.flatMap((task) => {
+    const counts = new Map(
+      unreadComments.filter((unread) => unread.taskId === task.id).map((unread) => [unread.tabId, unread.count])
+    );
+    const tab = task.tabs.find((t) => counts.has(t.id));
+    if (!tab) return [];
+
+    const count = task.tabs.reduce((total, t) => total + (counts.get(t.id) ?? 0), 0);
+    return [{ task, tab, count }];
+  });
+}
+
+function SectionHeader({ title }: { title: string }) {
+  return (
+    <h3 className="font-['Outfit',_sans-serif] text-sm text-[#8e8e93] px-2 pb-3">
+      {title}
+    </h3>
+  );
+}
+
+function HomeRow({
+  canvasType,
+  title,
+  detail,
+  onClick,
+}: {
+  canvasType: CanvasType | null;
+  title: string;
+  detail: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-3 w-full rounded-2xl bg-[#f2f2f7] px-4 py-3 text-left cursor-pointer active:opacity-70 transition-opacity"
+    >
+      <div className="h-[18px] relative shrink-0 w-[16px]">
+        <CanvasIcon canvasType={canvasType} />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="font-['Outfit',_sans-serif] text-base text-neutral-950 truncate">{title}</p>
+        <p className="font-['Outfit',_sans-serif] text-sm text-[#8e8e93] truncate">{detail}</p>
+      </div>
+    </button>
+  );
+}
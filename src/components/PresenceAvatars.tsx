@@ -0,0 +1,53 @@
+import { TabViewer } from '../types';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { avatarColor, initials } from '../utils/avatar';
+
+/**
+ * PresenceAvatars Component
+ * An overlapping stack of the people viewing a tab, as initial circles like the ones on
+ * comments; past `max` the rest are summed up as "+N". Renders nothing without viewers
+ */
+
+const SIZES = {
+  sm: { avatar: 'size-5', text: 'text-[9px]' },
+  md: { avatar: 'size-6', text: 'text-[10px]' },
+};
+
+interface PresenceAvatarsProps {
+  viewers: TabViewer[]; // Once per person (see viewersOfTab)
+  size?: keyof typeof SIZES;
+  max?: number;
+  className?: string;
+}
+
+export default function PresenceAvatars({ viewers, size = 'md', max = 3, className = '' }: PresenceAvatarsProps) {
+  if (viewers.length === 0) return null;
+
+  const { avatar, text } = SIZES[size];
+  const hiddenCount = viewers.length - max;
+
+  return (
+    <div
+      className={`flex -space-x-1.5 ${className}`}
+      title={`Viewing: ${viewers.map((viewer) => viewer.userName).join(', ')}`}
+    >
+      {viewers.slice(0, max).map((viewer) => (
+        <Avatar key={viewer.userId} className={`${avatar} border-2 border-white`}>
+          <AvatarFallback
+            className={`font-['Outfit',_sans-serif] ${text} font-medium text-white`}
+            style={{ backgroundColor: avatarColor(viewer.userId) }}
+          >
+            {initials(viewer.userName, 1)}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {hiddenCount > 0 && (
+        <Avatar className={`${avatar} border-2 border-white`}>
+          <AvatarFallback className={`bg-[#8e8e93] font-['Outfit',_sans-serif] ${text} font-medium text-white`}>
+            +{hiddenCount}
+          </AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
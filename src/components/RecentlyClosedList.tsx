@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react@0.487.0';
+import { ClosedTabSummary, Task } from '../types';
+import useClosedTabs from '../hooks/useClosedTabs';
+import CanvasIcon from './CanvasIcon';
+import CanvasStatus from './CanvasStatus';
+import { formatRelativeTime } from '../utils/comments';
+
+/**
+ * RecentlyClosedList Component
+ * The TabSwitcher's Recently Closed view: tabs closed in the last week across all tasks,
+ * newest first, each with who closed it and when
+ * - Restore puts the tab back where it was in its task, with its content, and switches to it
+ * - Tabs of tasks shared with you as a viewer are listed but can't be restored
+ */
+
+interface RecentlyClosedListProps {
+  isOpen: boolean;
+  tasks: Task[];
+  onRestore: (closedTab: ClosedTabSummary) => Promise<void>;
+}
+
+export default function RecentlyClosedList({ isOpen, tasks, onRestore }: RecentlyClosedListProps) {
+  const openTabIds = tasks.flatMap((task) => task.tabs.map((tab) => tab.id));
+  const closed = useClosedTabs(isOpen, openTabIds);
+  const [restoringTabId, setRestoringTabId] = useState<string | null>(null);
+
+  const handleRestore = async (closedTab: ClosedTabSummary) => {
+    setRestoringTabId(closedTab.tab.id);
+    try {
+      await onRestore(closedTab);
+    } finally {
+      setRestoringTabId(null);
+    }
+  };
+
+  if (closed.status !== 'ready') {
+    return (
+      <div className="h-40">
+        <CanvasStatus status={closed.status} error={closed.error} label="closed tabs" onRetry={closed.retry} />
+      </div>
+    );
+  }
+
+  // Closed tabs of tasks the app no longer has are skipped
+  const rows = closed.closedTabs.flatMap((closedTab) => {
+    const task = tasks.find((t) => t.id === closedTab.taskId);
+    return task ? [{ task, closedTab }] : [];
+  });
+
+  if (rows.length === 0) {
+    return (
+      <p className="font-['Outfit',_sans-serif] text-white/60 text-center pt-16 px-6">
+        Tabs you close are kept here for a week
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 pb-8">
+      {rows.map(({ task, closedTab }) => {
+        const isRestoring = restoringTabId === closedTab.tab.id;
+
+        return (
+          <div key={closedTab.tab.id} className="flex items-center gap-3 w-full rounded-2xl bg-white/10 px-4 py-3">
+            <div className="h-[18px] relative shrink-0 w-[16px]">
+              <CanvasIcon canvasType={closedTab.tab.canvasType} />
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="font-['Outfit',_sans-serif] text-base text-white truncate">{closedTab.tab.name}</p>
+              <p className="font-['Outfit',_sans-serif] text-sm text-white/60 truncate">
+                {task.name} · {closedTab.closedBy} · {formatRelativeTime(closedTab.closedAt)}
+              </p>
+            </div>
+            {task.role !== 'viewer' && (
+              <button
+                onClick={() => handleRestore(closedTab)}
+                disabled={restoringTabId !== null}
+                className="flex items-center gap-1.5 shrink-0 h-8 px-3 rounded-full bg-blue-500 hover:bg-blue-600 font-['Outfit',_sans-serif] text-sm text-white transition-colors disabled:opacity-40 disabled:hover:bg-blue-500"
+              >
+                <RotateCcw className="size-4" />
+                {isRestoring ? 'Restoring…' : 'Restore'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { motion, AnimatePresence } from 'motion/react';
+import { SyncStatus } from '../hooks/useTaskSync';
+
+/**
+ * SaveStatus Component
+ * Small pill at the top of the screen showing background saves from useTaskSync
+ * - Hidden once everything is saved
+ * - "Unsaved changes" while a save is waiting for edits to settle, "Saving..." while it runs
+ * - "Offline" while the server can't be reached (edits are kept and saved on reconnect)
+ * - "Not saved" with a Retry button when a save fails
+ */
+
+interface SaveStatusProps {
+  status: SyncStatus;
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+const STATUS_LABELS: Record<Exclude<SyncStatus, 'saved'>, string> = {
+  pending: 'Unsaved changes',
+  saving: 'Saving...',
+  offline: 'Offline - changes will sync when reconnected',
+  error: 'Not saved',
+};
+
+export default function SaveStatus({ status, error = null, onRetry }: SaveStatusProps) {
+  return (
+    // Full-width row centers the pill without fighting motion's transform
+    <div className="fixed top-[calc(env(safe-area-inset-top)+8px)] left-0 right-0 z-[130] flex justify-center pointer-events-none">
+      <AnimatePresence>
+        {status !== 'saved' && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.2 }}
+            className="pointer-events-auto flex items-center gap-2 h-8 pl-3 pr-1 bg-white rounded-full shadow-[0_2px_12px_rgba(0,0,0,0.12)]"
+            role="status"
+            aria-live="polite"
+            title={error ?? undefined}
+            data-name="Save-Status"
+          >
+            {/* Dot: grey while waiting or offline, pulsing blue while saving, red on failure */}
+            <span
+              className={`w-2 h-2 rounded-full ${
+                status === 'error'
+                  ? 'bg-[#FF3B30]'
+                  : status === 'saving'
+                    ? 'bg-[#7482FF] animate-pulse'
+                    : 'bg-neutral-400'
+              }`}
+            />
+            <span className="font-['Outfit',_sans-serif] text-sm text-neutral-700 pr-2">
+              {STATUS_LABELS[status]}
+            </span>
+
+            {status === 'error' && onRetry && (
+              <button
+                onClick={onRetry}
+                className="h-11 -my-1.5 px-3 font-['Outfit',_sans-serif] text-sm text-[#7482FF]"
+              >
+                Retry
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
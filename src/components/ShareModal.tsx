@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Copy, Link2, X } from 'lucide-react@0.487.0';
+import { toast } from 'sonner@2.0.3';
+import CanvasStatus from './CanvasStatus';
+import useAuth from '../hooks/useAuth';
+import useSharing from '../hooks/useSharing';
+import { MemberRole, ShareLink, Task, TaskMember } from '../types';
+import { avatarColor, initials } from '../utils/avatar';
+import { formatLinkExpiry, LINK_EXPIRY_OPTIONS, ROLE_LABELS, shareLinkUrl } from '../utils/sharing';
+
+/**
+ * ShareModal Component
+ * Bottom sheet opened from the Share button in the TabBar
+ * - Lists who has access to the active task: its owner, then its members with their roles
+ * - The owner invites people by email as editors or viewers, changes their role, and
+ *   revokes their access
+ * - The owner creates share links (with a role and an optional expiry), copies them and
+ *   expires them; anyone signed in who opens a link joins the task with its role
+ * - Members only see the list
+ */
+
+interface ShareModalProps {
+  isOpen: boolean;
+  task: Task | null;
+  onClose: () => void;
+}
+
+const ROLE_OPTIONS = Object.entries(ROLE_LABELS) as [MemberRole, string][];
+
+export default function ShareModal({ isOpen, task, onClose }: ShareModalProps) {
+  const { user } = useAuth();
+  const sharing = useSharing(task?.id ?? null, isOpen);
+  const isOwner = sharing.role === 'owner';
+
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+  const [linkRole, setLinkRole] = useState<MemberRole>('viewer');
+  const [linkExpiryDays, setLinkExpiryDays] = useState<number | null>(null);
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    setEmail('');
+    setInviteRole('editor');
+    setLinkRole('viewer');
+    setLinkExpiryDays(null);
+  }, [isOpen]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email.trim() === '' || isInviting) return;
+
+    setIsInviting(true);
+    if (await sharing.invite(email.trim(), inviteRole)) {
+      setEmail('');
+    }
+    setIsInviting(false);
+  };
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl(link.token));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleCreateLink = async () => {
+    setIsCreatingLink(true);
+    const link = await sharing.createLink(linkRole, linkExpiryDays);
+    setIsCreatingLink(false);
+    if (link) {
+      copyLink(link);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop - tap to dismiss */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 z-[110] bg-black/40"
+            onClick={onClose}
+          />
+
+          {/* Sheet */}
+          <motion.div
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ duration: 0.25, ease: [0.4, 0, 0.2, 1] }}
+            className="fixed bottom-0 left-0 right-0 z-[120] bg-white rounded-t-[24px] h-[75vh] flex flex-col"
+            data-name="Share"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 pt-5 pb-3">
+              <div className="min-w-0">
+                <h2 className="font-['Outfit',_sans-serif] text-xl text-neutral-950">Share</h2>
+                <p className="truncate font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">{task?.name}</p>
+              </div>
+              <button
+                onClick={onClose}
+                className="h-11 px-2 shrink-0 font-['Outfit',_sans-serif] text-[#7482FF]"
+              >
+                Done
+              </button>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto px-6 pb-8">
+              {sharing.status !== 'ready' ? (
+                <CanvasStatus status={sharing.status} error={sharing.error} label="sharing" onRetry={sharing.retry} />
+              ) : (
+                <div className="flex flex-col gap-6">
+                  {/* Invite by email */}
+                  {isOwner && (
+                    <form onSubmit={handleInvite} className="flex flex-col gap-2">
+                      <div className="flex gap-2">
+                        <input
+                          type="email"
+                          value={email}
+                          onChange={(e) => setEmail(e.target.value)}
+                          placeholder="Email address"
+                          aria-label="Email address to share with"
+                          className="flex-1 min-w-0 h-11 px-4 rounded-full bg-[#f2f2f7] font-['Outfit',_sans-serif] text-base text-neutral-950 outline-none placeholder:text-[#8e8e93]"
+                        />
+                        <RoleSelect value={inviteRole} onChange={setInviteRole} label="Role for the invite" />
+                      </div>
+                      <button
+                        type="submit"
+                        disabled={email.trim() === '' || isInviting}
+                        className="h-11 rounded-full bg-[#7482FF] font-['Outfit',_sans-serif] text-white active:opacity-80 transition-opacity disabled:opacity-40"
+                      >
+                        {isInviting ? 'Inviting...' : 'Invite'}
+                      </button>
+                    </form>
+                  )}
+
+                  {/* People with access */}
+                  <section>
+                    <h3 className="pb-1 font-['Outfit',_sans-serif] text-sm font-medium text-[#8e8e93]">People with access</h3>
+                    <ul>
+                      <PersonRow
+                        avatarId={isOwner ? user.id : 'owner'}
+                        name={isOwner ? `${user.email ?? 'You'} (you)` : 'Task owner'}
+                        roleLabel="Owner"
+                      />
+                      {sharing.members.map((member) => (
+                        <MemberRow
+                          key={member.email}
+                          member={member}
+                          isYou={member.userId === user.id || member.email === user.email?.toLowerCase()}
+                          canManage={isOwner}
+                          onRoleChange={(role) => sharing.invite(member.email, role)}
+                          onRemove={() => sharing.remove(member.email)}
+                        />
+                      ))}
+                    </ul>
+                  </section>
+
+                  {/* Share links */}
+                  {isOwner && (
+                    <section className="flex flex-col gap-2">
+                      <h3 className="font-['Outfit',_sans-serif] text-sm font-medium text-[#8e8e93]">Share links</h3>
+                      {sharing.links.map((link) => (
+                        <LinkRow
+                          key={link.token}
+                          link={link}
+                          onCopy={() => copyLink(link)}
+                          onExpire={() => sharing.expireLink(link.token)}
+                        />
+                      ))}
+                      <div className="flex gap-2">
+                        <RoleSelect value={linkRole} onChange={setLinkRole} label="Role for the link" />
+                        <select
+                          value={linkExpiryDays ?? ''}
+                          onChange={(e) => setLinkExpiryDays(e.target.value === '' ? null : Number(e.target.value))}
+                          aria-label="Link expiry"
+                          className="flex-1 min-w-0 h-11 px-3 rounded-full bg-[#f2f2f7] font-['Outfit',_sans-serif] text-sm text-neutral-950 outline-none"
+                        >
+                          {LINK_EXPIRY_OPTIONS.map(({ label, days }) => (
+                            <option key={label} value={days ?? ''}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <button
+                        onClick={handleCreateLink}
+                        disabled={isCreatingLink}
+                        className="h-11 rounded-full border border-[#7482FF] font-['Outfit',_sans-serif] text-[#7482FF] flex items-center justify-center gap-2 active:opacity-70 disabled:opacity-40"
+                      >
+                        <Link2 size={16} />
+                        {isCreatingLink ? 'Creating...' : 'Create and Copy Link'}
+                      </button>
+                    </section>
+                  )}
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function RoleSelect({ value, onChange, label }: { value: MemberRole; onChange: (role: MemberRole) => void; label: string }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as MemberRole)}
+      aria-label={label}
+      className="h-11 px-3 shrink-0 rounded-full bg-[#f2f2f7] font-['Outfit',_sans-serif] text-sm text-neutral-950 outline-none"
+    >
+      {ROLE_OPTIONS.map(([role, roleLabel]) => (
+        <option key={role} value={role}>{roleLabel}</option>
+      ))}
+    </select>
+  );
+}
+
+// A row in the people list: avatar, name and, on the right, the role (or its controls)
+function PersonRow({
+  avatarId,
+  name,
+  roleLabel,
+  children,
+}: {
+  avatarId: string;
+  name: string;
+  roleLabel?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <li className="flex items-center gap-3 h-14 border-b border-[#f2f2f7] last:border-b-0">
+      <div
+        className="flex size-[30px] shrink-0 items-center justify-center rounded-full"
+        style={{ backgroundColor: avatarColor(avatarId) }}
+      >
+        <p className="font-['Outfit',_sans-serif] text-sm font-medium text-white">{initials(name, 1)}</p>
+      </div>
+      <span className="flex-1 min-w-0 truncate font-['Outfit',_sans-serif] text-base text-neutral-950">{name}</span>
+      {roleLabel && <span className="shrink-0 font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">{roleLabel}</span>}
+      {children}
+    </li>
+  );
+}
+
+// A member; the owner can change their role or revoke their access
+function MemberRow({
+  member,
+  isYou,
+  canManage,
+  onRoleChange,
+  onRemove,
+}: {
+  member: TaskMember;
+  isYou: boolean;
+  canManage: boolean;
+  onRoleChange: (role: MemberRole) => void;
+  onRemove: () => void;
+}) {
+  const name = isYou ? `${member.email} (you)` : member.email;
+
+  if (!canManage) {
+    return <PersonRow avatarId={member.userId ?? member.email} name={name} roleLabel={ROLE_LABELS[member.role]} />;
+  }
+
+  return (
+    <PersonRow avatarId={member.userId ?? member.email} name={name}>
+      <RoleSelect value={member.role} onChange={onRoleChange} label={`Role for ${member.email}`} />
+      <button
+        onClick={onRemove}
+        aria-label={`Remove ${member.email}`}
+        className="size-9 shrink-0 flex items-center justify-center rounded-full text-[#FF453A] active:bg-[#f2f2f7]"
+      >
+        <X size={16} />
+      </button>
+    </PersonRow>
+  );
+}
+
+function LinkRow({ link, onCopy, onExpire }: { link: ShareLink; onCopy: () => void; onExpire: () => void }) {
+  return (
+    <div className="flex items-center gap-2 h-14 px-4 rounded-2xl bg-[#f2f2f7]">
+      <Link2 size={16} className="shrink-0 text-[#8e8e93]" />
+      <div className="flex-1 min-w-0">
+        <p className="font-['Outfit',_sans-serif] text-sm text-neutral-950">{ROLE_LABELS[link.role]}</p>
+        <p className="font-['Outfit',_sans-serif] text-xs text-[#8e8e93]">{formatLinkExpiry(link)}</p>
+      </div>
+      <button
+        onClick={onCopy}
+        aria-label="Copy link"
+        className="size-9 shrink-0 flex items-center justify-center rounded-full text-[#7482FF] active:bg-white"
+      >
+        <Copy size={16} />
+      </button>
+      <button
+        onClick={onExpire}
+        className="h-9 px-3 shrink-0 rounded-full font-['Outfit',_sans-serif] text-sm text-[#FF453A] active:bg-white"
+      >
+        Expire
+      </button>
+    </div>
+  );
+}
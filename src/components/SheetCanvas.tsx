@@ -0,0 +1,383 @@
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { Upload, Download } from 'lucide-react@0.487.0';
+import CanvasStatus from './CanvasStatus';
+import useTabContent from '../hooks/useTabContent';
+import useKeyboardInset from '../hooks/useKeyboardInset';
+import { CellPosition, columnLabel, toCellAddress } from '../utils/cellAddress';
+import { isErrorValue } from '../utils/formula';
+import {
+  SheetContent,
+  createSheetModel,
+  formatCellValue,
+  getDisplayRows,
+  getImportChanges,
+  toSheetContent,
+} from '../utils/sheet';
+import { parseCsv, toCsv } from '../utils/csv';
+
+/**
+ * SheetCanvas Component
+ * Spreadsheet canvas for tabs with canvasType 'sheet'
+ * - Input bar at the top: the selected cell's address and raw input ("=" starts a formula)
+ * - Virtualized grid: only the cells in (or just outside) the viewport are rendered
+ * - Frozen header row and column: drawn outside the scroll area and kept in line with it
+ * - Content (raw inputs plus grid size) is saved per tab through useTabContent; the
+ *   formula values are recalculated on load, never saved
+ * - CSV import replaces the sheet; CSV export downloads the displayed values
+ * - Read-only while shown as the adjacent tab during a swipe
+ */
+
+interface SheetCanvasProps {
+  tabId: string;
+  tabName: string;
+  isEditable: boolean;
+}
+
+// Matches TabBar.tsx (151px content + 34px safe area)
+const TAB_BAR_HEIGHT = 185;
+
+// Grid metrics (px)
+const ROW_HEIGHT = 36;
+const COLUMN_WIDTH = 96;
+const HEADER_HEIGHT = 28;
+const ROW_HEADER_WIDTH = 44;
+const OVERSCAN = 4; // Extra rows/columns rendered past each edge of the viewport
+
+export default function SheetCanvas({ tabId, tabName, isEditable }: SheetCanvasProps) {
+  const { status, content, error, saveError, generation, update, retry } = useTabContent(tabId);
+
+  if (status !== 'ready') {
+    return <CanvasStatus status={status} error={error} label="sheet" onRetry={retry} />;
+  }
+
+  // The model is only created once the content is there, so it starts from the saved sheet
+  // (and is created again when a version is restored)
+  return (
+    <SheetEditor
+      key={generation}
+      initialContent={content}
+      tabName={tabName}
+      isEditable={isEditable}
+      saveError={saveError}
+      onChange={update}
+    />
+  );
+}
+
+function SheetEditor({
+  initialContent,
+  tabName,
+  isEditable,
+  saveError,
+  onChange,
+}: {
+  initialContent: unknown;
+  tabName: string;
+  isEditable: boolean;
+  saveError: string | null;
+  onChange: (content: SheetContent) => void;
+}) {
+  const keyboardInset = useKeyboardInset();
+  // The canvas already ends above the tab bar, so only the part of the keyboard above it matters
+  const keyboardOverlap = Math.max(0, keyboardInset - TAB_BAR_HEIGHT);
+
+  // The model is mutable; `version` re-renders after each change
+  const [model] = useState(() => createSheetModel(toSheetContent(initialContent)));
+  const [, setVersion] = useState(0);
+  const { rowCount, columnCount } = model.getContent();
+
+  const [selected, setSelected] = useState<CellPosition>({ row: 0, column: 0 });
+  const [draft, setDraft] = useState<string | null>(null); // Input bar text while editing
+  const selectedAddress = toCellAddress(selected.row, selected.column);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const columnHeaderRef = useRef<HTMLDivElement>(null);
+  const rowHeaderRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  // Track the scroll area's size for virtualization
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: element.clientWidth, height: element.clientHeight });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Leaving edit mode (swipe started) drops an unfinished edit
+  useEffect(() => {
+    if (!isEditable) setDraft(null);
+  }, [isEditable]);
+
+  const applyChanges = (changes: Record<string, string>) => {
+    model.setCells(changes);
+    setVersion((v) => v + 1);
+    onChange(model.getContent());
+  };
+
+  const commitDraft = () => {
+    if (draft !== null && draft !== model.getRaw(selectedAddress)) {
+      applyChanges({ [selectedAddress]: draft });
+    }
+    setDraft(null);
+  };
+
+  // Scroll just enough to show a cell
+  const scrollCellIntoView = ({ row, column }: CellPosition) => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const top = row * ROW_HEIGHT;
+    const left = column * COLUMN_WIDTH;
+    if (top < element.scrollTop) element.scrollTop = top;
+    else if (top + ROW_HEIGHT > element.scrollTop + element.clientHeight) {
+      element.scrollTop = top + ROW_HEIGHT - element.clientHeight;
+    }
+    if (left < element.scrollLeft) element.scrollLeft = left;
+    else if (left + COLUMN_WIDTH > element.scrollLeft + element.clientWidth) {
+      element.scrollLeft = left + COLUMN_WIDTH - element.clientWidth;
+    }
+  };
+
+  const selectCell = (position: CellPosition) => {
+    commitDraft();
+    const clamped = {
+      row: Math.min(Math.max(position.row, 0), rowCount - 1),
+      column: Math.min(Math.max(position.column, 0), columnCount - 1),
+    };
+    setSelected(clamped);
+    scrollCellIntoView(clamped);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      selectCell({ row: selected.row + 1, column: selected.column });
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      selectCell({ row: selected.row, column: selected.column + (e.shiftKey ? -1 : 1) });
+    } else if (e.key === 'Escape') {
+      // Revert to the saved input
+      setDraft(null);
+    }
+  };
+
+  // Tapping a cell selects it; the grid lines are a background, so the cell comes from the position
+  const handleGridClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isEditable) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    selectCell({
+      row: Math.floor((e.clientY - rect.top) / ROW_HEIGHT),
+      column: Math.floor((e.clientX - rect.left) / COLUMN_WIDTH),
+    });
+  };
+
+  // Keep the frozen headers in line with the grid, then update the rendered window
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    if (columnHeaderRef.current) columnHeaderRef.current.style.transform = `translateX(${-scrollLeft}px)`;
+    if (rowHeaderRef.current) rowHeaderRef.current.style.transform = `translateY(${-scrollTop}px)`;
+    setScroll({ top: scrollTop, left: scrollLeft });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(await file.text());
+      const hasCells = Object.keys(model.getContent().cells).length > 0;
+      if (hasCells && !window.confirm(`Replace the contents of this sheet with "${file.name}"?`)) return;
+
+      setDraft(null);
+      applyChanges(getImportChanges(model, rows));
+      toast(`Imported ${rows.length} ${rows.length === 1 ? 'row' : 'rows'}`);
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      toast.error('Could not read that file');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([toCsv(getDisplayRows(model))], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    // Strip characters that aren't allowed in file names
+    link.download = `${tabName.replace(/[\\/:*?"<>|]/g, '').trim() || 'Sheet'}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Visible window (plus overscan)
+  const firstRow = Math.max(0, Math.floor(scroll.top / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scroll.top + viewport.height) / ROW_HEIGHT) + OVERSCAN);
+  const firstColumn = Math.max(0, Math.floor(scroll.left / COLUMN_WIDTH) - OVERSCAN);
+  const lastColumn = Math.min(columnCount - 1, Math.ceil((scroll.left + viewport.width) / COLUMN_WIDTH) + OVERSCAN);
+
+  const visibleRows: number[] = [];
+  for (let row = firstRow; row <= lastRow; row++) visibleRows.push(row);
+  const visibleColumns: number[] = [];
+  for (let column = firstColumn; column <= lastColumn; column++) visibleColumns.push(column);
+
+  // Only non-empty cells are rendered; empty ones are just the grid background
+  const cells: React.ReactNode[] = [];
+  visibleRows.forEach((row) => {
+    visibleColumns.forEach((column) => {
+      const address = toCellAddress(row, column);
+      const value = model.getValue(address);
+      if (value === null) return;
+
+      const isNumber = typeof value === 'number';
+      const isError = isErrorValue(value);
+      cells.push(
+        <div
+          key={address}
+          className={`absolute px-2 flex items-center overflow-hidden whitespace-nowrap text-sm ${
+            isNumber ? 'justify-end' : 'justify-start'
+          } ${isError ? 'text-[#FF453A]' : 'text-neutral-900'}`}
+          style={{ top: row * ROW_HEIGHT, left: column * COLUMN_WIDTH, width: COLUMN_WIDTH, height: ROW_HEIGHT }}
+        >
+          {formatCellValue(value)}
+        </div>
+      );
+    });
+  });
+
+  return (
+    <div className="flex flex-col h-full" style={{ paddingBottom: keyboardOverlap }} data-name="Sheet-Canvas">
+      {/* Input bar */}
+      <div className="shrink-0 flex items-center gap-2 px-3 py-2 border-b border-[#f2f2f7]">
+        <span className="w-12 shrink-0 text-center font-['Outfit',_sans-serif] text-sm font-medium text-[#7482FF]">
+          {selectedAddress}
+        </span>
+        <input
+          value={draft ?? model.getRaw(selectedAddress)}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleInputKeyDown}
+          onBlur={commitDraft}
+          disabled={!isEditable}
+          placeholder="Value or =formula"
+          aria-label={`Contents of ${selectedAddress}`}
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 h-10 px-3 rounded-xl bg-[#f2f2f7] font-['Outfit',_sans-serif] text-base outline-none"
+        />
+        <button
+          aria-label="Import CSV"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!isEditable}
+          className="size-10 shrink-0 flex items-center justify-center rounded-xl text-neutral-700 active:bg-[#f2f2f7]"
+        >
+          <Upload size={20} />
+        </button>
+        <button
+          aria-label="Export CSV"
+          onClick={handleExport}
+          disabled={!isEditable}
+          className="size-10 shrink-0 flex items-center justify-center rounded-xl text-neutral-700 active:bg-[#f2f2f7]"
+        >
+          <Download size={20} />
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+      </div>
+
+      {/* Grid */}
+      <div className="relative flex-1 min-h-0 overflow-hidden font-['Outfit',_sans-serif]">
+        {/* Frozen corner */}
+        <div
+          className="absolute top-0 left-0 z-20 bg-[#f2f2f7] border-r border-b border-[#e5e5ea]"
+          style={{ width: ROW_HEADER_WIDTH, height: HEADER_HEIGHT }}
+        />
+
+        {/* Frozen header row */}
+        <div
+          className="absolute top-0 right-0 z-10 overflow-hidden bg-[#f2f2f7] border-b border-[#e5e5ea]"
+          style={{ left: ROW_HEADER_WIDTH, height: HEADER_HEIGHT }}
+        >
+          <div ref={columnHeaderRef} className="relative h-full">
+            {visibleColumns.map((column) => (
+              <div
+                key={column}
+                className={`absolute top-0 h-full flex items-center justify-center text-xs border-r border-[#e5e5ea] ${
+                  column === selected.column ? 'text-[#7482FF] font-medium' : 'text-[#8e8e93]'
+                }`}
+                style={{ left: column * COLUMN_WIDTH, width: COLUMN_WIDTH }}
+              >
+                {columnLabel(column)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Frozen header column */}
+        <div
+          className="absolute left-0 bottom-0 z-10 overflow-hidden bg-[#f2f2f7] border-r border-[#e5e5ea]"
+          style={{ top: HEADER_HEIGHT, width: ROW_HEADER_WIDTH }}
+        >
+          <div ref={rowHeaderRef} className="relative w-full">
+            {visibleRows.map((row) => (
+              <div
+                key={row}
+                className={`absolute left-0 w-full flex items-center justify-center text-xs border-b border-[#e5e5ea] ${
+                  row === selected.row ? 'text-[#7482FF] font-medium' : 'text-[#8e8e93]'
+                }`}
+                style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                {row + 1}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Cells */}
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          className="absolute right-0 bottom-0 overflow-auto"
+          style={{ top: HEADER_HEIGHT, left: ROW_HEADER_WIDTH }}
+        >
+          <div
+            onClick={handleGridClick}
+            className="relative"
+            style={{
+              width: columnCount * COLUMN_WIDTH,
+              height: rowCount * ROW_HEIGHT,
+              backgroundImage:
+                'linear-gradient(to right, #e5e5ea 1px, transparent 1px), linear-gradient(to bottom, #e5e5ea 1px, transparent 1px)',
+              backgroundSize: `${COLUMN_WIDTH}px ${ROW_HEIGHT}px`,
+              backgroundPosition: '-1px -1px',
+            }}
+          >
+            {cells}
+            {isEditable && (
+              <div
+                className="absolute border-2 border-[#7482FF] pointer-events-none"
+                style={{
+                  top: selected.row * ROW_HEIGHT - 1,
+                  left: selected.column * COLUMN_WIDTH - 1,
+                  width: COLUMN_WIDTH + 1,
+                  height: ROW_HEIGHT + 1,
+                }}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {saveError && (
+        <p className="px-5 pb-2 font-['Outfit',_sans-serif] text-xs text-red-500">
+          Not saved: {saveError}
+        </p>
+      )}
+    </div>
+  );
+}
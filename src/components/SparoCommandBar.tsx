@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { CornerDownLeft } from 'lucide-react@0.487.0';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { CommandRegistry, CommandResult } from '../utils/commands';
+
+/**
+ * SparoCommandBar Component
+ * Type-a-command bar opened by double pressing the Sparo button in the TabBar
+ * - Floats over the app with the keyboard up; the first row runs what was typed and names the
+ *   command it will run (Enter runs it too)
+ * - Below it, each command's example ("new sheet called Budget"); picking one fills it in
+ *   to be finished off or run as is
+ * - A command that can't run says why under the field and leaves the bar open to fix it;
+ *   one that ran closes the bar (App.tsx confirms it with a toast)
+ */
+
+interface SparoCommandBarProps {
+  isOpen: boolean;
+  registry: CommandRegistry;
+  onRun: (text: string) => CommandResult;
+  onClose: () => void;
+}
+
+export default function SparoCommandBar({ isOpen, registry, onRun, onClose }: SparoCommandBarProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start fresh each time the bar opens
+  useEffect(() => {
+    setText('');
+    setError(null);
+  }, [isOpen]);
+
+  const match = registry.match(text);
+  const query = text.trim().toLowerCase();
+  const examples = registry
+    .list()
+    .filter((command) => !query || command.example.toLowerCase().includes(query) || command.label.toLowerCase().includes(query));
+
+  const handleRun = () => {
+    if (text.trim() === '') return;
+
+    const result = onRun(text);
+    if (result.ok) {
+      onClose();
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop - tap to dismiss */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 z-[110] bg-black/40"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, y: -20, scale: 0.97 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -20, scale: 0.97 }}
+            transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+            className="fixed left-4 right-4 top-12 z-[120] overflow-hidden rounded-[24px] bg-white shadow-[0px_0px_10px_0px_rgba(0,0,0,0.2)]"
+            data-name="Sparo-Command-Bar"
+          >
+            <Command shouldFilter={false} onKeyDown={handleKeyDown} className="rounded-none bg-white">
+              <CommandInput
+                autoFocus
+                value={text}
+                onValueChange={handleTextChange}
+                placeholder="Ask Sparo to…"
+                className="font-['Outfit',_sans-serif] text-base h-12"
+              />
+              {error && (
+                <p className="px-4 pt-3 font-['Outfit',_sans-serif] text-sm text-red-500" role="alert">
+                  {error}
+                </p>
+              )}
+              <CommandList className="max-h-[50vh]">
+                {text.trim() !== '' && (
+                  <CommandGroup>
+                    <CommandItem value={`run:${text}`} onSelect={handleRun} className="py-3">
+                      <div className="min-w-0 flex-1">
+                        <p className="font-['Outfit',_sans-serif] text-base text-neutral-950 truncate">{text.trim()}</p>
+                        <p className="font-['Outfit',_sans-serif] text-sm text-[#8e8e93] truncate">
+                          {match ? match.command.label : 'No matching command'}
+                        </p>
+                      </div>
+                      <CornerDownLeft className="size-4 shrink-0 text-[#7482FF]" />
+                    </CommandItem>
+                  </CommandGroup>
+                )}
+                {examples.length > 0 && (
+                  <CommandGroup heading="Try" className="font-['Outfit',_sans-serif]">
+                    {examples.map((command) => (
+                      <CommandItem
+                        key={command.id}
+                        value={`example:${command.id}`}
+                        onSelect={() => handleTextChange(command.example)}
+                        className="py-3"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="font-['Outfit',_sans-serif] text-base text-neutral-950 truncate">{command.example}</p>
+                          <p className="font-['Outfit',_sans-serif] text-sm text-[#8e8e93] truncate">{command.label}</p>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </CommandList>
+            </Command>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
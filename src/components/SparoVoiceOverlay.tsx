@@ -0,0 +1,46 @@
+import { motion, AnimatePresence } from 'motion/react';
+
+/**
+ * SparoVoiceOverlay Component
+ * Shown while Sparo is listening after a single press of the Sparo button
+ * - Covers the whole screen without hiding it, so a tap anywhere stops listening (the
+ *   Sparo button's level meter stays visible underneath)
+ * - What has been heard so far floats above the TabBar
+ */
+
+interface SparoVoiceOverlayProps {
+  isListening: boolean;
+  transcript: string;
+  onStop: () => void;
+}
+
+export default function SparoVoiceOverlay({ isListening, transcript, onStop }: SparoVoiceOverlayProps) {
+  return (
+    <AnimatePresence>
+      {isListening && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[110] bg-gradient-to-t from-white/80 via-white/20 to-transparent cursor-pointer"
+          onClick={onStop}
+          aria-label="Stop listening"
+          role="button"
+          data-name="Sparo-Voice"
+        >
+          <div className="absolute bottom-[205px] left-6 right-6 flex flex-col items-center gap-2">
+            <p className="font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">
+              Listening… tap anywhere to stop
+            </p>
+            {transcript && (
+              <p className="max-w-full rounded-[20px] bg-white px-4 py-3 text-center font-['Outfit',_sans-serif] text-base text-neutral-950 shadow-[0px_0px_10px_0px_rgba(0,0,0,0.2)]">
+                {transcript}
+              </p>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
-import { motion, MotionValue, useMotionValue } from 'motion/react';
-import { Tab } from '../types';
+import { motion, MotionValue, useMotionValue, useTransform } from 'motion/react';
+import { Pin } from 'lucide-react@0.487.0';
+import { Tab, TabViewer } from '../types';
 import CanvasIcon from './CanvasIcon';
+import PresenceAvatars from './PresenceAvatars';
+import { viewersOfTab } from '../utils/realtime';
 import svgPaths from '../imports/svg-52gs2ctpyt';
 import imgBorder from 'figma:asset/fe0d9e45bec9572f879783d0ba7961b8fc734caa.png';
 
@@ -10,9 +13,19 @@ import imgBorder from 'figma:asset/fe0d9e45bec9572f879783d0ba7961b8fc734caa.png'
  * Phase 1f: Implements position-based animation using shared dragProgress MotionValue
  * Phase 2a: Added vertical swipe detection for tab switcher activation
  * Updated: Added inactive tab indicators for left/right tabs
+ * Multi-task support: Task Name pill opens the task picker (rename moved into the picker)
+ * Sharing: the Share button opens the share modal; on a task you can only view, tapping
+ * the tab name doesn't start a rename
+ * Home: the Home button opens the HomeScreen dashboard
+ * Presence: avatars of the others viewing a tab sit on its address bar, next to Undo, and at
+ * the visible edge of the peeking inactive tabs
+ * Sparo: a single press of the Sparo button starts voice input (a level meter pulses around
+ * the button while listening), a double press opens the command bar
+ * Pinned tabs: a pin after the name in the address bar
  */
 
 interface TabBarProps {
+  taskId: string;
   taskName: string;
   tabs: Tab[];
   activeTabId: string;
@@ -25,7 +38,19 @@ interface TabBarProps {
   onSwipeMove: (clientX: number) => void;
   onSwipeEnd: () => void;
   onTabNameChange: (tabId: string, newName: string) => void;
-  onTaskNameChange: (newName: string) => void;
+  onTaskNameClick: () => void;
+  onHomeClick: () => void;
+  onSparoPress: () => void;
+  onSparoDoublePress: () => void;
+  isSparoListening: boolean;
+  sparoLevel: MotionValue<number>; // Microphone loudness while listening (see useVoiceInput)
+  onEditHistoryClick: () => void;
+  onCommentsClick: () => void;
+  onShareClick: () => void;
+  isReadOnly: boolean;
+  viewers: TabViewer[]; // Others viewing tabs right now (see useRealtime)
+  canUndo: boolean;
+  onUndo: () => void;
   onSwitcherToggle: () => void;
   onSwipeUp: () => void;
   isFirstTab: boolean;
@@ -34,6 +59,7 @@ interface TabBarProps {
 }
 
 export default function TabBar({ 
+  taskId,
   taskName, 
   tabs,
   activeTabId,
@@ -46,7 +72,19 @@ export default function TabBar({
   onSwipeMove,
   onSwipeEnd,
   onTabNameChange,
-  onTaskNameChange,
+  onTaskNameClick,
+  onHomeClick,
+  onSparoPress,
+  onSparoDoublePress,
+  isSparoListening,
+  sparoLevel,
+  onEditHistoryClick,
+  onCommentsClick,
+  onShareClick,
+  isReadOnly,
+  viewers,
+  canUndo,
+  onUndo,
   onSwitcherToggle,
   onSwipeUp,
   isFirstTab,
@@ -66,19 +104,22 @@ export default function TabBar({
   const containerRef = useRef<HTMLDivElement>(null);
   const measureRef = useRef<HTMLSpanElement>(null);
 
-  // Displayed tab index (lags during drag for smooth visual transition)
+  // Displayed tab (lags during drag for smooth visual transition); tracked by id so it stays
+  // put when the tabs are reordered, with the neighbours following the new order
   const activeIndex = tabs.findIndex(t => t.id === activeTabId);
-  const [displayedTabIndex, setDisplayedTabIndex] = useState(activeIndex);
+  const [displayedTabId, setDisplayedTabId] = useState(activeTabId);
+  const displayedIndex = tabs.findIndex(t => t.id === displayedTabId);
+  const displayedTabIndex = displayedIndex === -1 ? activeIndex : displayedIndex;
 
   // Track if there's meaningful drag progress (prevents flash at drag start)
   const [hasDragProgress, setHasDragProgress] = useState(false);
 
-  // Update displayed index only when not dragging
+  // Update displayed tab only when not dragging
   useEffect(() => {
     if (!dragDirection) {
-      setDisplayedTabIndex(activeIndex);
+      setDisplayedTabId(activeTabId);
     }
-  }, [activeIndex, dragDirection]);
+  }, [activeTabId, dragDirection]);
 
   // Reset editing state when active tab changes or when dragging starts
   useEffect(() => {
@@ -146,9 +187,11 @@ export default function TabBar({
     : dragDirection === 'left'
     ? (displayedTabIndex < tabs.length - 1 
         ? tabs[displayedTabIndex + 1] 
-        : { id: `preview-${Date.now()}`, name: 'Blank Tab', canvasType: null, createdAt: Date.now(), isActive: false, commentCount: 0 })
+        : { id: `preview-${Date.now()}`, name: 'Blank Tab', canvasType: null, createdAt: Date.now(), isActive: false, pinned: false, commentCount: 0 })
     : null;
 
+  const tabViewers = (tab: Tab | undefined) => (tab ? viewersOfTab(viewers, taskId, tab.id) : []);
+
   // Only show adjacent tab when there's actual drag progress (prevents flash at drag start)
   const showAdjacentTab = dragDirection !== null && hasDragProgress;
 
@@ -251,7 +294,7 @@ export default function TabBar({
     }
     
     // Only check for name click if this was a true click (no drag at all)
-    if (wasClick && currentTab && !isEditing) {
+    if (wasClick && currentTab && !isEditing && !isReadOnly) {
       const clickedOnName = target instanceof Element && (
         target.classList.contains('tab-name-text') ||
         target.closest('.tab-name-text') !== null
@@ -330,7 +373,18 @@ export default function TabBar({
         <div aria-hidden="true" className="absolute border-[#f2f2f7] border-[1px_0px_0px] border-solid bottom-0 left-0 pointer-events-none right-0 top-[-0.5px]" />
         
         {/* Tab Actions */}
-        <TabActions tabCount={tabCount} onSwitcherClick={onSwitcherToggle} />
+        <TabActions
+          tabCount={tabCount}
+          commentCount={tabs[activeIndex]?.commentCount ?? 0}
+          onHomeClick={onHomeClick}
+          onSparoPress={onSparoPress}
+          onSparoDoublePress={onSparoDoublePress}
+          isSparoListening={isSparoListening}
+          sparoLevel={sparoLevel}
+          onSwitcherClick={onSwitcherToggle}
+          onCommentsClick={onCommentsClick}
+          onShareClick={onShareClick}
+        />
         
         {/* Tab Switcher with sliding address bars */}
         <div className="absolute h-[51px] left-0 overflow-hidden right-0 top-[27px] p-[0px]" style={{ touchAction: 'none' }} data-name="Tab-Switcher">
@@ -339,6 +393,7 @@ export default function TabBar({
             <InactiveTabIndicator 
               direction="left" 
               tab={tabs[tabs.findIndex(t => t.id === activeTabId) - 1]} 
+              viewers={tabViewers(tabs[tabs.findIndex(t => t.id === activeTabId) - 1])}
             />
           )}
 
@@ -347,6 +402,7 @@ export default function TabBar({
             <InactiveTabIndicator 
               direction="right" 
               tab={tabs[tabs.findIndex(t => t.id === activeTabId) + 1]} 
+              viewers={tabViewers(tabs[tabs.findIndex(t => t.id === activeTabId) + 1])}
             />
           )}
 
@@ -364,11 +420,11 @@ export default function TabBar({
               onPointerCancel={handlePointerUp}
             >
               <div className="overflow-clip relative rounded-[inherit] size-full">
-                <ActionsEditHistory />
+                <ActionsEditHistory onClick={onEditHistoryClick} />
                 <div 
                   ref={containerRef}
                   className="absolute box-border content-stretch flex gap-[8px] items-center justify-center left-1/2 px-0 py-[5px] top-1/2 translate-x-[-50%] translate-y-[-50%]"
-                  style={{ width: textWidth ? `${textWidth + 16 + 8}px` : undefined }}
+                  style={{ width: textWidth ? `${textWidth + 16 + 8 + (currentTab?.pinned ? PIN_GLYPH_WIDTH : 0)}px` : undefined }}
                 >
                   <div className="h-[18px] relative shrink-0 w-[16px]">
                     <CanvasIcon canvasType={currentTab?.canvasType || null} />
@@ -404,8 +460,12 @@ export default function TabBar({
                       </p>
                     )}
                   </div>
+                  {currentTab?.pinned && (
+                    <Pin className="size-[14px] shrink-0 fill-[#7482FF] text-[#7482FF]" aria-label="Pinned" />
+                  )}
                 </div>
-                <ActionsUndo />
+                <PresenceAvatars viewers={tabViewers(currentTab)} size="sm" max={2} className={ADDRESS_BAR_VIEWERS_CLASS} />
+                <ActionsUndo onClick={onUndo} isDisabled={!canUndo} />
               </div>
               <div aria-hidden="true" className="absolute border border-[rgba(0,0,0,0.1)] border-solid inset-0 pointer-events-none rounded-[100px]" />
             </div>
@@ -430,6 +490,7 @@ export default function TabBar({
                       </p>
                     </div>
                   </div>
+                  <PresenceAvatars viewers={tabViewers(adjacentTab)} size="sm" max={2} className={ADDRESS_BAR_VIEWERS_CLASS} />
                   <ActionsUndo />
                 </div>
                 <div aria-hidden="true" className="absolute border border-[rgba(0,0,0,0.1)] border-solid inset-0 pointer-events-none rounded-[100px]" />
@@ -439,60 +500,119 @@ export default function TabBar({
         </div>
         
         {/* Task Name pill */}
-        <TaskName taskName={taskName} onTaskNameChange={onTaskNameChange} />
+        <TaskName taskName={taskName} onClick={onTaskNameClick} />
       </div>
     </div>
   );
 }
 
 // Action button components
-function ActionsEditHistory() {
+// Edit-History opens the tab's version list; the copy on the sliding adjacent bar has no onClick and is only drawn
+// Viewers' avatars sit just left of the Undo button
+const ADDRESS_BAR_VIEWERS_CLASS = 'absolute right-[47px] top-1/2 translate-y-[-50%]';
+
+// Room the pin of a pinned tab takes after its name (14px glyph + 8px gap)
+const PIN_GLYPH_WIDTH = 22;
+
+function ActionsEditHistory({ onClick }: { onClick?: () => void }) {
   return (
-    <div className="absolute left-[10px] size-[31px] top-1/2 translate-y-[-50%]" data-name="Actions/Edit-History">
+    <button
+      type="button"
+      onClick={onClick}
+      onPointerDown={(e) => e.stopPropagation()} // A tap here must not start a swipe or rename
+      disabled={!onClick}
+      aria-label="Edit history"
+      className="absolute left-[10px] size-[31px] top-1/2 translate-y-[-50%] cursor-pointer active:opacity-70 transition-opacity disabled:cursor-default"
+      data-name="Actions/Edit-History"
+    >
       <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 31 31">
         <g id="Actions/Edit-History">
           <rect fill="var(--fill-0, #F2F2F7)" height="31" rx="15.5" width="31" />
           <path d={svgPaths.p32b3d000} fill="var(--fill-0, #8E8E93)" id="Icons/Edit-History" stroke="var(--stroke-0, #8E8E93)" strokeWidth="0.2" />
         </g>
       </svg>
-    </div>
+    </button>
   );
 }
 
-function ActionsUndo() {
+// Undo reverses the latest undoable edit (dimmed while there is nothing to undo); the copy on
+// the sliding adjacent bar has no onClick and is only drawn
+function ActionsUndo({ onClick, isDisabled = false }: { onClick?: () => void; isDisabled?: boolean }) {
   return (
-    <div className="absolute right-[10px] size-[31px] top-1/2 translate-y-[-50%]" data-name="Actions/Undo">
+    <button
+      type="button"
+      onClick={onClick}
+      onPointerDown={(e) => e.stopPropagation()} // A tap here must not start a swipe or rename
+      disabled={!onClick || isDisabled}
+      aria-label="Undo"
+      className={`absolute right-[10px] size-[31px] top-1/2 translate-y-[-50%] cursor-pointer active:opacity-70 transition-opacity disabled:cursor-default ${isDisabled ? 'opacity-40' : ''}`}
+      data-name="Actions/Undo"
+    >
       <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 31 31">
         <g id="Actions/Undo">
           <rect fill="var(--fill-0, #F2F2F7)" height="31" rx="15.5" width="31" />
           <path d={svgPaths.p3c560400} id="Icons/Undo" stroke="var(--stroke-0, #8E8E93)" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.6" />
         </g>
       </svg>
-    </div>
+    </button>
   );
 }
 
-function TabActions({ tabCount, onSwitcherClick }: { tabCount: number; onSwitcherClick: () => void }) {
+interface TabActionsProps {
+  tabCount: number;
+  commentCount: number; // The active tab's unresolved comment threads
+  onHomeClick: () => void;
+  onSparoPress: () => void;
+  onSparoDoublePress: () => void;
+  isSparoListening: boolean;
+  sparoLevel: MotionValue<number>;
+  onSwitcherClick: () => void;
+  onCommentsClick: () => void;
+  onShareClick: () => void;
+}
+
+function TabActions({
+  tabCount,
+  commentCount,
+  onHomeClick,
+  onSparoPress,
+  onSparoDoublePress,
+  isSparoListening,
+  sparoLevel,
+  onSwitcherClick,
+  onCommentsClick,
+  onShareClick,
+}: TabActionsProps) {
   return (
     <div className="absolute box-border content-stretch flex h-[58px] items-center justify-between left-0 px-[20px] py-0 right-0 top-[93px] px-[30px] py-[0px]" data-name="Tab-Actions">
-      <ActionsHome />
+      <ActionsHome onClick={onHomeClick} />
       <ActionsSwitcher tabCount={tabCount} onClick={onSwitcherClick} />
-      <ButtonsSparoOn />
-      <ActionsComments />
-      <ActionsShare />
+      <ButtonsSparoOn
+        onPress={onSparoPress}
+        onDoublePress={onSparoDoublePress}
+        isListening={isSparoListening}
+        level={sparoLevel}
+      />
+      <ActionsComments count={commentCount} onClick={onCommentsClick} />
+      <ActionsShare onClick={onShareClick} />
     </div>
   );
 }
 
-function ActionsHome() {
+function ActionsHome({ onClick }: { onClick: () => void }) {
   return (
-    <div className="relative shrink-0 size-[35px]" data-name="Actions/Home">
+    <button
+      onClick={onClick}
+      aria-label="Home"
+      className="relative shrink-0 size-[35px] cursor-pointer active:opacity-70 transition-opacity"
+      data-name="Actions/Home"
+    >
       <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 35 35">
         <g id="Actions/Home">
           <path d={svgPaths.p26b57200} fill="var(--fill-0, #7482FF)" id="Icons/Home" stroke="var(--stroke-0, #7482FF)" strokeWidth="0.2" />
         </g>
       </svg>
-    </div>
+    </button>
   );
 }
 
@@ -517,9 +637,57 @@ function ActionsSwitcher({ tabCount, onClick }: { tabCount: number; onClick: ()
   );
 }
 
-function ButtonsSparoOn() {
+// Two presses within DOUBLE_PRESS_MS of each other count as a double press, so a single
+// press only counts once that long has passed without a second one
+const DOUBLE_PRESS_MS = 300;
+
+interface ButtonsSparoOnProps {
+  onPress: () => void;
+  onDoublePress: () => void;
+  isListening: boolean;
+  level: MotionValue<number>;
+}
+
+function ButtonsSparoOn({ onPress, onDoublePress, isListening, level }: ButtonsSparoOnProps) {
+  const pressTimerRef = useRef<number | null>(null);
+  // The level meter: a glow that swells with the microphone's loudness
+  const meterScale = useTransform(level, [0, 1], [1, 1.6]);
+
+  useEffect(() => {
+    return () => {
+      if (pressTimerRef.current !== null) clearTimeout(pressTimerRef.current);
+    };
+  }, []);
+
+  const handleClick = () => {
+    if (pressTimerRef.current !== null) {
+      clearTimeout(pressTimerRef.current);
+      pressTimerRef.current = null;
+      onDoublePress();
+      return;
+    }
+    pressTimerRef.current = window.setTimeout(() => {
+      pressTimerRef.current = null;
+      onPress();
+    }, DOUBLE_PRESS_MS);
+  };
+
   return (
-    <div className="relative shrink-0 size-[58px]" data-name="Buttons/Sparo-On">
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-label="Sparo"
+      className="relative shrink-0 size-[58px] cursor-pointer active:opacity-70 transition-opacity"
+      data-name="Buttons/Sparo-On"
+    >
+      {isListening && (
+        <motion.div
+          className="absolute inset-[5px] rounded-full bg-[conic-gradient(from_90deg,#bc82f3,#ffba71,#ff6777,#aa6eee,#8d98ff,#bc82f3)] opacity-40 blur-[6px]"
+          style={{ scale: meterScale }}
+          aria-hidden="true"
+          data-name="Level-Meter"
+        />
+      )}
       <div className="absolute left-[5px] size-[48px] top-[5px]" data-name="Background">
         <div className="absolute inset-[-16.67%_-20.83%_-25%_-20.83%]">
           <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 68 68">
@@ -567,13 +735,19 @@ function ButtonsSparoOn() {
           <img alt="" className="block max-w-none size-full" height="102" src={imgBorder} width="102" />
         </div>
       </div>
-    </div>
+    </button>
   );
 }
 
-function ActionsComments() {
+// Counts the active tab's unresolved comment threads (empty when there are none)
+function ActionsComments({ count, onClick }: { count: number; onClick: () => void }) {
   return (
-    <div className="relative shrink-0 size-[35px]" data-name="Actions/Comments">
+    <button
+      onClick={onClick}
+      aria-label={count > 0 ? `Comments (${count} open)` : 'Comments'}
+      className="relative shrink-0 size-[35px] cursor-pointer active:opacity-70 transition-opacity"
+      data-name="Actions/Comments"
+    >
       <div className="absolute left-1/2 size-[24px] top-1/2 translate-x-[-50%] translate-y-[-50%]" data-name="Icons/Comments">
         <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 24 24">
           <g id="Icons/Comments">
@@ -585,15 +759,22 @@ function ActionsComments() {
         </svg>
       </div>
       <div className="absolute content-stretch flex flex-col items-center justify-center left-1/2 overflow-clip top-[calc(50%-0.5px)] translate-x-[-50%] translate-y-[-50%]" data-name="Comment-Count">
-        <p className="capitalize font-['Outfit:Bold',_sans-serif] font-bold h-[10px] leading-none max-w-[13px] relative shrink-0 text-[#7482ff] text-[10px] text-center w-[12px]"></p>
+        <p className="capitalize font-['Outfit:Bold',_sans-serif] font-bold h-[10px] leading-none max-w-[13px] relative shrink-0 text-[#7482ff] text-[10px] text-center w-[12px]">
+          {count > 9 ? '9+' : count > 0 ? count : ''}
+        </p>
       </div>
-    </div>
+    </button>
   );
 }
 
-function ActionsShare() {
+function ActionsShare({ onClick }: { onClick: () => void }) {
   return (
-    <div className="relative shrink-0 size-[35px]" data-name="Actions/Share">
+    <button
+      onClick={onClick}
+      aria-label="Share"
+      className="relative shrink-0 size-[35px] cursor-pointer active:opacity-70 transition-opacity"
+      data-name="Actions/Share"
+    >
       <svg className="block size-full" fill="none" preserveAspectRatio="none" viewBox="0 0 35 35">
         <g id="Actions/Share">
           <g id="Icons/Share">
@@ -602,123 +783,44 @@ function ActionsShare() {
           </g>
         </g>
       </svg>
-    </div>
+    </button>
   );
 }
 
-function TaskName({ taskName, onTaskNameChange }: { taskName: string; onTaskNameChange: (newName: string) => void }) {
-  const [isEditingTask, setIsEditingTask] = useState(false);
-  const [editingTaskText, setEditingTaskText] = useState('');
-  const [originalTaskName, setOriginalTaskName] = useState('');
-  const taskInputRef = useRef<HTMLInputElement>(null);
-  const taskContainerRef = useRef<HTMLDivElement>(null);
-  const [taskInputWidth, setTaskInputWidth] = useState<number | undefined>(undefined);
-
-  // Focus input when editing starts
-  useEffect(() => {
-    if (isEditingTask && taskInputRef.current) {
-      taskInputRef.current.focus();
-      taskInputRef.current.select();
-    }
-  }, [isEditingTask]);
-
-  // Measure text width for dynamic input sizing
-  useEffect(() => {
-    if (isEditingTask && taskContainerRef.current) {
-      const measureSpan = taskContainerRef.current.querySelector('.task-measure-text') as HTMLSpanElement;
-      if (measureSpan) {
-        setTaskInputWidth(measureSpan.offsetWidth);
-      }
-    }
-  }, [editingTaskText, isEditingTask]);
-
-  const handleTaskClick = () => {
-    setIsEditingTask(true);
-    setEditingTaskText(taskName);
-    setOriginalTaskName(taskName);
-  };
-
-  const handleTaskChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setEditingTaskText(e.target.value);
-  };
-
-  const handleTaskBlur = () => {
-    saveTaskName();
-  };
-
-  const handleTaskKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      e.preventDefault();
-      saveTaskName();
-    } else if (e.key === 'Escape') {
-      e.preventDefault();
-      setIsEditingTask(false);
-      setEditingTaskText('');
-    }
-  };
-
-  const saveTaskName = () => {
-    const trimmedName = editingTaskText.trim();
-    
-    // If empty or unchanged, keep original name
-    if (trimmedName === '' || trimmedName === originalTaskName) {
-      setIsEditingTask(false);
-      setEditingTaskText('');
-      return;
-    }
-    
-    // Save the new name
-    onTaskNameChange(trimmedName);
-    setIsEditingTask(false);
-    setEditingTaskText('');
-  };
-
+function TaskName({ taskName, onClick }: { taskName: string; onClick: () => void }) {
   return (
-    <div className="absolute bg-[#f2f2f7] box-border content-stretch flex items-center justify-center left-1/2 min-w-[100px] overflow-clip px-[12px] py-[4px] rounded-[100px] top-[-12px] translate-x-[-50%]" data-name="Task-Name">
-      <div 
-        ref={taskContainerRef}
-        className="box-border content-stretch flex gap-[10px] items-center justify-center pb-px pt-0 px-0 relative shrink-0"
-      >
-        {isEditingTask ? (
-          <>
-            <input
-              ref={taskInputRef}
-              type="text"
-              value={editingTaskText}
-              onChange={handleTaskChange}
-              onBlur={handleTaskBlur}
-              onKeyDown={handleTaskKeyDown}
-              className="capitalize font-['Outfit:Medium',_sans-serif] font-medium leading-[normal] max-w-[200px] relative shrink-0 text-[#8e8e93] text-[12px] text-center bg-transparent border-none outline-none p-0 m-0 min-w-0"
-              style={{ width: taskInputWidth ? `${taskInputWidth}px` : 'auto' }}
-            />
-            <span 
-              className="task-measure-text capitalize font-['Outfit:Medium',_sans-serif] font-medium leading-[normal] text-[12px] absolute opacity-0 pointer-events-none whitespace-pre"
-              aria-hidden="true"
-            >
-              {editingTaskText || taskName}
-            </span>
-          </>
-        ) : (
-          <p 
-            onClick={handleTaskClick}
-            className="capitalize font-['Outfit:Medium',_sans-serif] font-medium leading-[normal] max-w-[200px] overflow-ellipsis overflow-hidden relative shrink-0 text-[#8e8e93] text-[12px] text-center text-nowrap whitespace-pre cursor-pointer"
-          >
-            {taskName}
-          </p>
-        )}
+    <button
+      onClick={onClick}
+      className="absolute bg-[#f2f2f7] box-border content-stretch flex items-center justify-center left-1/2 min-w-[100px] overflow-clip px-[12px] py-[4px] rounded-[100px] top-[-12px] translate-x-[-50%] cursor-pointer active:opacity-70 transition-opacity"
+      data-name="Task-Name"
+    >
+      <div className="box-border content-stretch flex gap-[10px] items-center justify-center pb-px pt-0 px-0 relative shrink-0">
+        <p className="capitalize font-['Outfit:Medium',_sans-serif] font-medium leading-[normal] max-w-[200px] overflow-ellipsis overflow-hidden relative shrink-0 text-[#8e8e93] text-[12px] text-center text-nowrap whitespace-pre">
+          {taskName}
+        </p>
       </div>
-    </div>
+    </button>
   );
 }
 
 // Inactive tab indicator - shows peeking tabs on left/right edges
-function InactiveTabIndicator({ direction, tab }: { direction: 'left' | 'right'; tab?: Tab }) {
+// Only 30px of it shows, room for the first viewer's avatar
+function InactiveTabIndicator({
+  direction,
+  tab,
+  viewers,
+}: {
+  direction: 'left' | 'right';
+  tab?: Tab;
+  viewers: TabViewer[];
+}) {
   if (!tab) return null;
 
   // Adjusted positioning to create visible gaps between tabs
   const positionClass = direction === 'left' 
     ? 'left-[-330px]'  // Position off-screen to the left with gap
     : 'right-[-330px]'; // Position off-screen to the right with gap
+  const viewersClass = direction === 'left' ? 'right-[5px]' : 'left-[5px]'; // At the visible edge
 
   return (
     <div 
@@ -736,6 +838,11 @@ function InactiveTabIndicator({ direction, tab }: { direction: 'left' | 'right';
             </p>
           </div>
         </div>
+        <PresenceAvatars
+          viewers={viewers.slice(0, 1)}
+          size="sm"
+          className={`absolute ${viewersClass} top-1/2 translate-y-[-50%]`}
+        />
       </div>
       <div aria-hidden="true" className="absolute border border-[rgba(0,0,0,0.1)] border-solid inset-0 pointer-events-none rounded-[100px]" />
     </div>
@@ -0,0 +1,159 @@
+import { Tab, Task, TabSearchResult } from '../types';
+import useTabSearch from '../hooks/useTabSearch';
+import CanvasIcon from './CanvasIcon';
+import { getCanvasTypeLabel, matchTabs, splitMatches } from '../utils/search';
+
+/**
+ * TabSearchResults Component
+ * What the TabSwitcher shows in place of the grid while something is typed in its search field
+ * - Tabs: tabs whose name, task name or canvas type match, found as you type
+ * - In Content: tabs whose text matches (doc, sheet and chat tabs), found by the server once
+ *   typing pauses; a tab listed above shows its snippet there instead
+ * - Matches are highlighted; tapping a result switches to it like tapping its card
+ */
+
+interface TabSearchResultsProps {
+  query: string;
+  tasks: Task[]; // In the switcher's order
+  activeTaskId: string | null;
+  activeTabId: string | null;
+  onSelect: (taskId: string, tabId: string) => void;
+}
+
+export default function TabSearchResults({ query, tasks, activeTaskId, activeTabId, onSelect }: TabSearchResultsProps) {
+  const search = useTabSearch(query);
+
+  const nameMatches = matchTabs(tasks, query);
+  const snippets = new Map(search.results.map((result) => [result.tabId, result]));
+  const nameMatchIds = new Set(nameMatches.map(({ tab }) => tab.id));
+
+  // Content results for tabs the app has, and that aren't already listed by name
+  const contentMatches = search.results.flatMap((result) => {
+    const task = tasks.find((t) => t.id === result.taskId);
+    const tab = task?.tabs.find((t) => t.id === result.tabId);
+    return task && tab && !nameMatchIds.has(tab.id) ? [{ task, tab, result }] : [];
+  });
+
+  const isSearching = search.status === 'loading';
+  const hasResults = nameMatches.length > 0 || contentMatches.length > 0;
+
+  return (
+    <div className="pb-8">
+      {nameMatches.length > 0 && (
+        <section className="pb-6">
+          <SectionHeader title="Tabs" />
+          <div className="flex flex-col gap-2">
+            {nameMatches.map(({ task, tab }) => (
+              <SearchRow
+                key={tab.id}
+                query={query}
+                task={task}
+                tab={tab}
+                result={snippets.get(tab.id)}
+                isActive={task.id === activeTaskId && tab.id === activeTabId}
+                onClick={() => onSelect(task.id, tab.id)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {contentMatches.length > 0 && (
+        <section className="pb-6">
+          <SectionHeader title="In Content" />
+          <div className="flex flex-col gap-2">
+            {contentMatches.map(({ task, tab, result }) => (
+              <SearchRow
+                key={tab.id}
+                query={query}
+                task={task}
+                tab={tab}
+                result={result}
+                isActive={task.id === activeTaskId && tab.id === activeTabId}
+                onClick={() => onSelect(task.id, tab.id)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {isSearching && (
+        <p className="font-['Outfit',_sans-serif] text-sm text-white/40 text-center">Searching inside tabs…</p>
+      )}
+      {search.status === 'error' && (
+        <p className="font-['Outfit',_sans-serif] text-sm text-red-500 text-center">
+          Couldn't search inside tabs: {search.error}
+        </p>
+      )}
+      {!hasResults && !isSearching && search.status !== 'error' && (
+        <p className="font-['Outfit',_sans-serif] text-white/60 text-center pt-16 px-6">
+          No tabs match “{query.trim()}”
+        </p>
+      )}
+    </div>
+  );
+}
+
+function SectionHeader({ title }: { title: string }) {
+  return (
+    <h3 className="font-['Outfit',_sans-serif] text-sm text-white/60 px-2 pb-3">
+      {title}
+    </h3>
+  );
+}
+
+function SearchRow({
+  query,
+  task,
+  tab,
+  result,
+  isActive,
+  onClick,
+}: {
+  query: string;
+  task: Task;
+  tab: Tab;
+  result: TabSearchResult | undefined;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-start gap-3 w-full rounded-2xl bg-white/10 hover:bg-white/20 px-4 py-3 text-left transition-colors ${isActive ? 'ring-2 ring-blue-500' : ''}`}
+    >
+      <div className="h-[18px] relative shrink-0 w-[16px] mt-1">
+        <CanvasIcon canvasType={tab.canvasType} />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="font-['Outfit',_sans-serif] text-base text-white truncate">
+          <Highlighted text={tab.name} query={query} />
+        </p>
+        <p className="font-['Outfit',_sans-serif] text-sm text-white/60 truncate">
+          <Highlighted text={task.name} query={query} /> · <Highlighted text={getCanvasTypeLabel(tab.canvasType)} query={query} />
+        </p>
+        {result && (
+          <p className="font-['Outfit',_sans-serif] text-sm text-white/80 line-clamp-2 pt-1">
+            <Highlighted text={result.snippet} query={query} />
+          </p>
+        )}
+      </div>
+    </button>
+  );
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitMatches(text, query).map((part, index) =>
+        part.isMatch ? (
+          <mark key={index} className="bg-[#7482FF]/40 text-white rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
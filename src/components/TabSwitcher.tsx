@@ -1,7 +1,12 @@
-import { motion, AnimatePresence } from 'motion/react';
-import { forwardRef } from 'react';
-import { Tab } from '../types';
+import { motion, AnimatePresence, animate, useDragControls, useMotionValue, useTransform } from 'motion/react';
+import { forwardRef, useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, History, Pin, Search, X } from 'lucide-react@0.487.0';
+import { ClosedTabSummary, Tab, Task, TabViewer } from '../types';
 import svgPaths from '../imports/svg-hk6v9dtb4t';
+import PresenceAvatars from './PresenceAvatars';
+import RecentlyClosedList from './RecentlyClosedList';
+import TabSearchResults from './TabSearchResults';
+import { viewersOfTab } from '../utils/realtime';
 
 /**
  * TabSwitcher Component
@@ -19,29 +24,121 @@ import svgPaths from '../imports/svg-hk6v9dtb4t';
  * Phase 2c: New tab creation
  * - Added "New Tab" button to create tabs from switcher
  * - Removed swipe-to-delete, keeping only close button
+ * Multi-task support:
+ * - Tabs grouped under task headers (active task first)
+ * - Selecting a tab from another task switches to that task
+ * Sharing: tasks shared with you as a viewer can be browsed but their tabs can't be
+ * closed, and New Tab is disabled while one of them is the active task
+ * Realtime: each card shows who else has that tab open right now
+ * Reordering: long press a card and drag it within its task; the other cards move out of
+ * the way, and letting go moves the tab there (undoable, and the order swiping follows)
+ * Swipe to close (back): swipe a card left to close its tab. A swipe that is mostly vertical
+ * is left to scroll the grid (direction lock, as in the TabBar); a fast flick closes even
+ * a short swipe, anything else short of the threshold springs back
+ * Recently Closed: a row below the tasks opens the tabs closed in the last week (kept by the
+ * server with their content, see RecentlyClosedList); restoring one switches to it
+ * Search: typing in the field under the header lists the matching tabs in place of the grid,
+ * by name, task name and canvas type and (from the server) by the text inside them
+ * Pinned tabs: the pin on a card pins or unpins its tab; pinned tabs come first in their
+ * task under a Pinned label and only move among themselves. Closing one (button or swipe)
+ * asks first, and "Close unpinned" closes all of a task's other tabs
  */
 
 interface TabSwitcherProps {
   isOpen: boolean;
-  tabs: Tab[];
+  tasks: Task[];
+  activeTaskId: string | null;
   activeTabId: string | null;
-  taskName: string;
-  onTabSelect: (tabId: string) => void;
-  onTabClose: (tabId: string) => void;
+  viewers: TabViewer[];
+  onTabSelect: (taskId: string, tabId: string) => void;
+  onTabClose: (taskId: string, tabId: string) => void;
+  onTabMove: (taskId: string, tabId: string, index: number) => void;
+  onTabPin: (taskId: string, tabId: string, pinned: boolean) => void;
+  onUnpinnedTabsClose: (taskId: string) => void;
+  onClosedTabRestore: (closedTab: ClosedTabSummary) => Promise<void>;
   onNewTab: () => void;
   onClose: () => void;
 }
 
 export default function TabSwitcher({
   isOpen,
-  tabs,
+  tasks,
+  activeTaskId,
   activeTabId,
-  taskName,
+  viewers,
   onTabSelect,
   onTabClose,
+  onTabMove,
+  onTabPin,
+  onUnpinnedTabsClose,
+  onClosedTabRestore,
   onNewTab,
   onClose,
 }: TabSwitcherProps) {
+  const [isShowingClosed, setIsShowingClosed] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // The switcher always opens on all the tabs
+  useEffect(() => {
+    if (!isOpen) {
+      setIsShowingClosed(false);
+      setSearchQuery('');
+    }
+  }, [isOpen]);
+
+  const isSearching = searchQuery.trim() !== '';
+
+  // The card being dragged, and its task's tab order as it would be if it was let go now
+  const [moving, setMoving] = useState<{ taskId: string; tabId: string; tabIds: string[] } | null>(null);
+
+  // Once a card is picked up, the finger drags it instead of scrolling the grid
+  const isMovingTab = moving !== null;
+  useEffect(() => {
+    if (!isMovingTab) return;
+
+    const preventScroll = (e: TouchEvent) => e.preventDefault();
+    window.addEventListener('touchmove', preventScroll, { passive: false });
+    return () => window.removeEventListener('touchmove', preventScroll);
+  }, [isMovingTab]);
+
+  const handleMoveOver = (overTabId: string) => {
+    setMoving((current) => {
+      if (!current || overTabId === current.tabId || !current.tabIds.includes(overTabId)) return current;
+
+      // Pinned and unpinned tabs don't mix
+      const tabs = tasks.find((t) => t.id === current.taskId)?.tabs ?? [];
+      const isPinned = (tabId: string) => tabs.find((tab) => tab.id === tabId)?.pinned;
+      if (isPinned(overTabId) !== isPinned(current.tabId)) return current;
+
+      const tabIds = current.tabIds.filter((id) => id !== current.tabId);
+      // Dropping onto a later card goes after it, onto an earlier one before it
+      const overIndex = tabIds.indexOf(overTabId);
+      const isAfter = current.tabIds.indexOf(overTabId) > current.tabIds.indexOf(current.tabId);
+      tabIds.splice(isAfter ? overIndex + 1 : overIndex, 0, current.tabId);
+      return { ...current, tabIds };
+    });
+  };
+
+  const handleMoveEnd = () => {
+    if (!moving) return;
+
+    const task = tasks.find((t) => t.id === moving.taskId);
+    const fromIndex = task?.tabs.findIndex((tab) => tab.id === moving.tabId) ?? -1;
+    const toIndex = moving.tabIds.indexOf(moving.tabId);
+    if (fromIndex !== -1 && toIndex !== fromIndex) {
+      onTabMove(moving.taskId, moving.tabId, toIndex);
+    }
+    setMoving(null);
+  };
+
+  // Active task's group is shown first, remaining tasks keep their creation order
+  const orderedTasks = [
+    ...tasks.filter((task) => task.id === activeTaskId),
+    ...tasks.filter((task) => task.id !== activeTaskId),
+  ];
+  const totalTabCount = tasks.reduce((count, task) => count + task.tabs.length, 0);
+  const isActiveTaskReadOnly = tasks.find((task) => task.id === activeTaskId)?.role === 'viewer';
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -52,37 +149,154 @@ export default function TabSwitcher({
           transition={{ duration: 0.2 }}
           className="fixed inset-0 z-[100] bg-black"
         >
-          {/* Header with task name and tab count */}
+          {/* Header with total tab count across all tasks */}
           <div className="absolute top-0 left-0 right-0 pt-12 pb-4 px-6">
-            <div className="flex items-center justify-between">
-              <h2 className="font-['Outfit',_sans-serif] text-white text-xl">
-                {taskName}
-              </h2>
-              <p className="font-['Outfit',_sans-serif] text-white/60">
-                {tabs.length} {tabs.length === 1 ? 'Tab' : 'Tabs'}
-              </p>
-            </div>
+            {isShowingClosed ? (
+              <button
+                onClick={() => setIsShowingClosed(false)}
+                className="flex items-center gap-1 -ml-2 font-['Outfit',_sans-serif] text-white text-xl"
+              >
+                <ChevronLeft className="size-6" />
+                Recently Closed
+              </button>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="font-['Outfit',_sans-serif] text-white text-xl">
+                    Tabs
+                  </h2>
+                  <p className="font-['Outfit',_sans-serif] text-white/60">
+                    {totalTabCount} {totalTabCount === 1 ? 'Tab' : 'Tabs'}
+                  </p>
+                </div>
+
+                {/* Search field */}
+                <div className="flex items-center gap-2 h-10 mt-3 px-3 rounded-full bg-white/10">
+                  <Search className="size-4 shrink-0 text-white/60" />
+                  <input
+                    type="search"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setSearchQuery('');
+                    }}
+                    placeholder="Search tabs"
+                    aria-label="Search tabs"
+                    className="min-w-0 flex-1 bg-transparent font-['Outfit',_sans-serif] text-base text-white placeholder:text-white/40 outline-none [&::-webkit-search-cancel-button]:hidden"
+                  />
+                  {searchQuery && (
+                    <button onClick={() => setSearchQuery('')} aria-label="Clear search" className="shrink-0 text-white/60">
+                      <X className="size-4" />
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
           </div>
 
-          {/* Tab Grid */}
-          <div className="absolute top-28 left-0 right-0 bottom-20 overflow-y-auto px-4">
-            <div className="grid grid-cols-2 gap-4 pb-8">
-              <AnimatePresence mode="popLayout">
-                {tabs.map((tab) => {
-                  const isActive = tab.id === activeTabId;
-                  
-                  return (
-                    <TabCardMotion
-                      key={tab.id}
-                      tab={tab}
-                      isActive={isActive}
-                      onSelect={() => onTabSelect(tab.id)}
-                      onClose={() => onTabClose(tab.id)}
-                    />
-                  );
-                })}
-              </AnimatePresence>
+          {/* Recently Closed tabs, in place of the grid */}
+          {isShowingClosed && (
+            <div className="absolute top-28 left-0 right-0 bottom-20 overflow-y-auto px-4">
+              <RecentlyClosedList isOpen={isShowingClosed} tasks={tasks} onRestore={onClosedTabRestore} />
             </div>
+          )}
+
+          {/* Search results, in place of the grid */}
+          {!isShowingClosed && isSearching && (
+            <div className="absolute top-36 left-0 right-0 bottom-20 overflow-y-auto px-4">
+              <TabSearchResults
+                query={searchQuery}
+                tasks={orderedTasks}
+                activeTaskId={activeTaskId}
+                activeTabId={activeTabId}
+                onSelect={onTabSelect}
+              />
+            </div>
+          )}
+
+          {/* Tab Grid - one section per task */}
+          <div className={`absolute top-36 left-0 right-0 bottom-20 overflow-y-auto px-4 ${isShowingClosed || isSearching ? 'hidden' : ''}`}>
+            {orderedTasks.map((task) => {
+              const tabs = moving?.taskId === task.id ? orderTabs(task.tabs, moving.tabIds) : task.tabs;
+              const pinnedTabs = tabs.filter((tab) => tab.pinned);
+              const unpinnedTabs = tabs.filter((tab) => !tab.pinned);
+              const isViewer = task.role === 'viewer';
+
+              const renderCard = (tab: Tab) => (
+                <TabCardMotion
+                  key={tab.id}
+                  tab={tab}
+                  // Only the active task's active tab is highlighted
+                  isActive={task.id === activeTaskId && tab.id === activeTabId}
+                  viewers={viewersOfTab(viewers, task.id, tab.id)}
+                  onSelect={() => onTabSelect(task.id, tab.id)}
+                  onClose={isViewer ? undefined : () => onTabClose(task.id, tab.id)}
+                  onPin={isViewer ? undefined : () => onTabPin(task.id, tab.id, !tab.pinned)}
+                  isMoving={moving?.tabId === tab.id}
+                  onMoveStart={
+                    isViewer || task.tabs.length < 2
+                      ? undefined
+                      : () => setMoving({ taskId: task.id, tabId: tab.id, tabIds: task.tabs.map((t) => t.id) })
+                  }
+                  onMoveOver={handleMoveOver}
+                  onMoveEnd={handleMoveEnd}
+                />
+              );
+
+              return (
+                <section key={task.id} className="pb-8">
+                  {/* Task header */}
+                  <div className="flex items-center justify-between px-2 pb-3">
+                    <h3 className={`font-['Outfit',_sans-serif] text-base truncate ${task.id === activeTaskId ? 'text-white' : 'text-white/60'}`}>
+                      {task.name}
+                    </h3>
+                    <p className="font-['Outfit',_sans-serif] text-sm text-white/40 shrink-0 pl-3">
+                      {isViewer && 'View only · '}
+                      {task.tabs.length} {task.tabs.length === 1 ? 'Tab' : 'Tabs'}
+                    </p>
+                  </div>
+
+                  {/* Pinned tabs first */}
+                  {pinnedTabs.length > 0 && (
+                    <>
+                      <div className="flex items-center gap-1.5 px-2 pb-3 font-['Outfit',_sans-serif] text-sm text-white/60">
+                        <Pin className="size-3.5" />
+                        Pinned
+                      </div>
+                      <div className="grid grid-cols-2 gap-4 pb-6">
+                        <AnimatePresence mode="popLayout">{pinnedTabs.map(renderCard)}</AnimatePresence>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Closes every tab of the task but the pinned ones */}
+                  {pinnedTabs.length > 0 && unpinnedTabs.length > 0 && !isViewer && (
+                    <div className="flex items-center justify-between px-2 pb-3">
+                      <p className="font-['Outfit',_sans-serif] text-sm text-white/60">Other Tabs</p>
+                      <button
+                        onClick={() => onUnpinnedTabsClose(task.id)}
+                        className="font-['Outfit',_sans-serif] text-sm text-[rgb(245,88,88)] hover:opacity-80 transition-opacity"
+                      >
+                        Close unpinned
+                      </button>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <AnimatePresence mode="popLayout">{unpinnedTabs.map(renderCard)}</AnimatePresence>
+                  </div>
+                </section>
+              );
+            })}
+
+            <button
+              onClick={() => setIsShowingClosed(true)}
+              className="flex items-center gap-3 w-full mb-8 rounded-2xl bg-white/10 hover:bg-white/20 px-4 py-3 font-['Outfit',_sans-serif] text-base text-white transition-colors"
+            >
+              <History className="size-5 text-white/60" />
+              <span className="flex-1 text-left">Recently Closed</span>
+              <ChevronRight className="size-5 text-white/40" />
+            </button>
           </div>
 
           {/* Bottom action buttons */}
@@ -94,7 +308,8 @@ export default function TabSwitcher({
                   onNewTab();
                   onClose();
                 }}
-                className="flex-1 h-12 bg-blue-500 hover:bg-blue-600 backdrop-blur-md rounded-full font-['Outfit',_sans-serif] text-white transition-colors text-center flex items-center justify-center gap-2"
+                disabled={isActiveTaskReadOnly}
+                className="flex-1 h-12 bg-blue-500 hover:bg-blue-600 backdrop-blur-md rounded-full font-['Outfit',_sans-serif] text-white transition-colors text-center flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:bg-blue-500"
               >
                 <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
                   <path d="M10 4V16M4 10H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
@@ -117,6 +332,32 @@ export default function TabSwitcher({
   );
 }
 
+// The tabs in the given order; any not in it (added meanwhile) keep their place at the end
+function orderTabs(tabs: Tab[], tabIds: string[]): Tab[] {
+  const position = (id: string) => (tabIds.includes(id) ? tabIds.indexOf(id) : tabIds.length);
+  return [...tabs].sort((a, b) => position(a.id) - position(b.id));
+}
+
+// Holding a card this long picks it up; moving further than LONG_PRESS_SLOP_PX first is a scroll
+const LONG_PRESS_MS = 400;
+const LONG_PRESS_SLOP_PX = 8;
+
+// Swipe to close: the gesture locks to the dominant direction after SWIPE_LOCK_PX (as in
+// TabBar.handlePointerMove); letting go past SWIPE_CLOSE_PX (half a card), or flicking left
+// faster than SWIPE_CLOSE_VELOCITY px/ms, closes the tab. Dragging right meets resistance
+const SWIPE_LOCK_PX = 15;
+const SWIPE_CLOSE_PX = 80;
+const SWIPE_CLOSE_VELOCITY = 0.5;
+const SWIPE_RESISTANCE = 0.2;
+const SWIPE_VELOCITY_WINDOW_MS = 100; // Only the end of the swipe counts towards its velocity
+
+interface SwipeGesture {
+  startX: number;
+  startY: number;
+  lock: 'horizontal' | 'vertical' | null;
+  samples: { x: number; time: number }[]; // Recent pointer positions, for the velocity
+}
+
 // Separate component for individual tab cards
 // Using forwardRef for AnimatePresence compatibility
 const TabCardMotion = forwardRef<
@@ -124,28 +365,172 @@ const TabCardMotion = forwardRef<
   { 
     tab: Tab; 
     isActive: boolean; 
+    viewers: TabViewer[]; // Others with the tab open
     onSelect: () => void; 
-    onClose: () => void;
+    onClose?: () => void; // Missing on a viewer's tabs, which have no close button
+    onPin?: () => void; // Toggles the pin; missing on a viewer's tabs
+    isMoving: boolean; // Picked up and following the finger
+    onMoveStart?: () => void; // Missing where tabs can't be reordered
+    onMoveOver: (tabId: string) => void; // Dragged over another card
+    onMoveEnd: () => void;
   }
->(({ tab, isActive, onSelect, onClose }, ref) => {
+>(({ tab, isActive, viewers, onSelect, onClose, onPin, isMoving, onMoveStart, onMoveOver, onMoveEnd }, ref) => {
+  const dragControls = useDragControls();
+  const longPressRef = useRef<{ timer: number; x: number; y: number } | null>(null);
+  const wasMovedRef = useRef(false); // The click that ends a drag or swipe doesn't select the tab
+
+  // Swipe to close; the same x is used by the reorder drag, which never runs at the same time
+  const x = useMotionValue(0);
+  const swipeOpacity = useTransform(x, [-2 * SWIPE_CLOSE_PX, 0], [0.4, 1]);
+  const swipeRef = useRef<SwipeGesture | null>(null);
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  useEffect(() => cancelLongPress, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    wasMovedRef.current = false;
+    if ((e.target as HTMLElement).closest('button')) return;
+
+    if (onClose) {
+      swipeRef.current = {
+        startX: e.clientX,
+        startY: e.clientY,
+        lock: null,
+        samples: [{ x: e.clientX, time: e.timeStamp }],
+      };
+    }
+    if (!onMoveStart) return;
+
+    const pressEvent = e.nativeEvent;
+    cancelLongPress();
+    longPressRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      timer: window.setTimeout(() => {
+        longPressRef.current = null;
+        swipeRef.current = null; // Picked up to move, not to swipe
+        wasMovedRef.current = true;
+        onMoveStart();
+        dragControls.start(pressEvent);
+      }, LONG_PRESS_MS),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const press = longPressRef.current;
+    if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > LONG_PRESS_SLOP_PX) {
+      cancelLongPress();
+    }
+
+    const swipe = swipeRef.current;
+    if (!swipe || isMoving) return;
+
+    const deltaX = e.clientX - swipe.startX;
+    const deltaY = e.clientY - swipe.startY;
+
+    // Lock to the dominant direction on the first significant movement
+    if (swipe.lock === null && (Math.abs(deltaX) > SWIPE_LOCK_PX || Math.abs(deltaY) > SWIPE_LOCK_PX)) {
+      swipe.lock = Math.abs(deltaX) > Math.abs(deltaY) ? 'horizontal' : 'vertical';
+      if (swipe.lock === 'horizontal') {
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }
+    }
+    if (swipe.lock !== 'horizontal') return;
+
+    swipe.samples = [
+      ...swipe.samples.filter((sample) => e.timeStamp - sample.time <= SWIPE_VELOCITY_WINDOW_MS),
+      { x: e.clientX, time: e.timeStamp },
+    ];
+    x.set(deltaX < 0 ? deltaX : deltaX * SWIPE_RESISTANCE);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    cancelLongPress();
+
+    const swipe = swipeRef.current;
+    swipeRef.current = null;
+    if (!swipe || swipe.lock !== 'horizontal') return;
+
+    wasMovedRef.current = true;
+    // Left velocity over the end of the swipe; none if the finger rested before letting go
+    const recent = swipe.samples.filter((sample) => e.timeStamp - sample.time <= SWIPE_VELOCITY_WINDOW_MS);
+    const velocity = recent.length > 1
+      ? (recent[recent.length - 1].x - recent[0].x) / Math.max(1, recent[recent.length - 1].time - recent[0].time)
+      : 0;
+    const offset = x.get();
+
+    if (onClose && (offset < -SWIPE_CLOSE_PX || (offset < 0 && velocity < -SWIPE_CLOSE_VELOCITY))) {
+      if (tab.pinned) {
+        // Closing a pinned tab is confirmed first, so the card stays until then
+        animate(x, 0, { type: 'spring', stiffness: 500, damping: 35 });
+        onClose();
+        return;
+      }
+      // Off to the left, then close (the card's exit animation finishes the job)
+      animate(x, -window.innerWidth, { duration: 0.2, ease: 'easeOut', onComplete: onClose });
+    } else {
+      animate(x, 0, { type: 'spring', stiffness: 500, damping: 35 });
+    }
+  };
+
+  // The browser took over (e.g. to scroll): put the card back
+  const handlePointerCancel = () => {
+    cancelLongPress();
+    swipeRef.current = null;
+    animate(x, 0, { type: 'spring', stiffness: 500, damping: 35 });
+  };
+
+  // The card under the finger, other than this one
+  const handleDrag = (_event: PointerEvent | MouseEvent | TouchEvent, info: { point: { x: number; y: number } }) => {
+    const overCard = document
+      .elementsFromPoint(info.point.x - window.scrollX, info.point.y - window.scrollY)
+      .map((element) => element.closest<HTMLElement>('[data-tab-card]'))
+      .find((card) => card && card.dataset.tabCard !== tab.id);
+    if (overCard?.dataset.tabCard) onMoveOver(overCard.dataset.tabCard);
+  };
+
   return (
     <motion.div
       ref={ref}
+      layout
       initial={{ opacity: 0, y: 10 }}
-      animate={{ opacity: 1, y: 0 }}
+      animate={{ opacity: 1, y: 0, scale: isMoving ? 1.05 : 1 }}
       exit={{ opacity: 0, scale: 0.9 }}
       transition={{ duration: 0.15 }}
-      className="relative cursor-pointer flex flex-col items-center gap-3"
+      drag={!!onMoveStart}
+      dragControls={dragControls}
+      dragListener={false}
+      dragSnapToOrigin
+      dragMomentum={false}
+      onDrag={handleDrag}
+      onDragEnd={onMoveEnd}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onContextMenu={(e) => onMoveStart && e.preventDefault()} // Long press picks the card up instead
+      style={{ x, zIndex: isMoving ? 20 : undefined, touchAction: 'pan-y' }}
+      className="relative cursor-pointer flex flex-col items-center gap-3 select-none"
+      data-tab-card={tab.id}
     >
-      {/* Tab Card Rectangle */}
-      <div 
+      {/* Tab Card Rectangle - fades as it is swiped away */}
+      <motion.div 
+        style={{ opacity: swipeOpacity }}
         onClick={(e) => {
+          if (wasMovedRef.current) {
+            wasMovedRef.current = false;
+            return;
+          }
           const target = e.target as HTMLElement;
           if (!target.closest('button')) {
             onSelect();
           }
         }}
-        className="relative aspect-[3/4] w-40 rounded-2xl overflow-hidden shadow-lg"
+        className={`relative aspect-[3/4] w-40 rounded-2xl overflow-hidden ${isMoving ? 'shadow-2xl' : 'shadow-lg'}`}
       >
         {/* Content layer */}
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-neutral-50 to-neutral-100">
@@ -204,13 +589,31 @@ const TabCardMotion = forwardRef<
           )}
         </div>
 
+        {/* Who else is viewing the tab */}
+        <PresenceAvatars viewers={viewers} className="absolute bottom-2 left-2" />
+
         {/* Active indicator */}
         {isActive && (
           <div className="absolute inset-0 border-4 border-blue-500 rounded-2xl pointer-events-none" />
         )}
 
+        {/* Pin button; a pinned tab always shows its pin */}
+        {(onPin || tab.pinned) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onPin?.();
+            }}
+            disabled={!onPin}
+            aria-label={tab.pinned ? 'Unpin tab' : 'Pin tab'}
+            className={`absolute top-2 left-2 w-8 h-8 rounded-full flex items-center justify-center backdrop-blur-sm transition-colors z-10 ${tab.pinned ? 'bg-[#7482FF]' : 'bg-black/20 hover:bg-black/40'}`}
+          >
+            <Pin className={`size-4 text-white ${tab.pinned ? 'fill-white' : ''}`} />
+          </button>
+        )}
+
         {/* Close button */}
-        <button
+        {onClose && <button
           onClick={(e) => {
             e.stopPropagation();
             onClose();
@@ -220,8 +623,8 @@ const TabCardMotion = forwardRef<
           <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
             <path d="M4 4L12 12M12 4L4 12" stroke="white" strokeWidth="2" strokeLinecap="round"/>
           </svg>
-        </button>
-      </div>
+        </button>}
+      </motion.div>
 
       {/* Tab Name - positioned below the card */}
       <p className="font-['Outfit',_sans-serif] text-sm text-white px-4 text-center capitalize w-full overflow-hidden text-ellipsis whitespace-nowrap text-[16px]">
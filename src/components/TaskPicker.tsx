@@ -0,0 +1,274 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Task } from '../types';
+
+/**
+ * TaskPicker Component
+ * Bottom sheet opened from the Task Name pill in the TabBar
+ * - Lists all tasks with their tab counts
+ * - Tap a task to switch to it (each task keeps its own active tab)
+ * - Rename a task inline, delete a task (two-step confirm)
+ * - Tasks shared with you are marked Shared; deleting one only leaves it, and viewers
+ *   can't rename it
+ * - "New Task" creates a task with a single blank tab and switches to it
+ * - Footer shows the signed-in account with a Sign Out button
+ */
+
+interface TaskPickerProps {
+  isOpen: boolean;
+  tasks: Task[];
+  activeTaskId: string | null;
+  onTaskSelect: (taskId: string) => void;
+  onTaskCreate: () => void;
+  onTaskRename: (taskId: string, newName: string) => void;
+  onTaskDelete: (taskId: string) => void;
+  userEmail: string | null;
+  onSignOut: () => void;
+  onClose: () => void;
+}
+
+export default function TaskPicker({
+  isOpen,
+  tasks,
+  activeTaskId,
+  onTaskSelect,
+  onTaskCreate,
+  onTaskRename,
+  onTaskDelete,
+  userEmail,
+  onSignOut,
+  onClose,
+}: TaskPickerProps) {
+  // Only one row can be renamed or pending delete confirmation at a time
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  // Reset row state whenever the picker closes
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingTaskId(null);
+      setPendingDeleteId(null);
+    }
+  }, [isOpen]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop - tap to dismiss */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 z-[110] bg-black/40"
+            onClick={onClose}
+          />
+
+          {/* Sheet */}
+          <motion.div
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ duration: 0.25, ease: [0.4, 0, 0.2, 1] }}
+            className="fixed bottom-0 left-0 right-0 z-[120] bg-white rounded-t-[24px] max-h-[75vh] flex flex-col"
+            data-name="Task-Picker"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 pt-5 pb-3">
+              <h2 className="font-['Outfit',_sans-serif] text-xl text-neutral-950">Tasks</h2>
+              <button
+                onClick={onClose}
+                className="h-11 px-2 font-['Outfit',_sans-serif] text-[#7482FF]"
+              >
+                Done
+              </button>
+            </div>
+
+            {/* Task list */}
+            <ul className="flex-1 overflow-y-auto px-4">
+              {tasks.map((task) => (
+                <TaskRow
+                  key={task.id}
+                  task={task}
+                  isActive={task.id === activeTaskId}
+                  isEditing={task.id === editingTaskId}
+                  isPendingDelete={task.id === pendingDeleteId}
+                  onSelect={() => onTaskSelect(task.id)}
+                  onStartEdit={() => {
+                    setPendingDeleteId(null);
+                    setEditingTaskId(task.id);
+                  }}
+                  onRename={(newName) => {
+                    onTaskRename(task.id, newName);
+                    setEditingTaskId(null);
+                  }}
+                  onCancelEdit={() => setEditingTaskId(null)}
+                  onDeleteRequest={() => {
+                    setEditingTaskId(null);
+                    setPendingDeleteId(task.id);
+                  }}
+                  onDeleteConfirm={() => {
+                    onTaskDelete(task.id);
+                    setPendingDeleteId(null);
+                  }}
+                />
+              ))}
+            </ul>
+
+            {/* New Task button */}
+            <div className="px-6 pt-3 pb-2">
+              <button
+                onClick={onTaskCreate}
+                className="w-full h-12 bg-[#7482FF] rounded-full font-['Outfit',_sans-serif] text-white flex items-center justify-center gap-2 active:opacity-80 transition-opacity"
+              >
+                <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M10 4V16M4 10H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                </svg>
+                New Task
+              </button>
+            </div>
+
+            {/* Account */}
+            <div className="flex items-center justify-between gap-2 px-6 pb-8">
+              <span className="flex-1 min-w-0 truncate font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">
+                {userEmail ?? 'Signed in'}
+              </span>
+              <button
+                onClick={onSignOut}
+                className="h-11 px-2 shrink-0 font-['Outfit',_sans-serif] text-sm text-[#FF453A]"
+              >
+                Sign Out
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
+
+// Single task row with inline rename and two-step delete
+function TaskRow({
+  task,
+  isActive,
+  isEditing,
+  isPendingDelete,
+  onSelect,
+  onStartEdit,
+  onRename,
+  onCancelEdit,
+  onDeleteRequest,
+  onDeleteConfirm,
+}: {
+  task: Task;
+  isActive: boolean;
+  isEditing: boolean;
+  isPendingDelete: boolean;
+  onSelect: () => void;
+  onStartEdit: () => void;
+  onRename: (newName: string) => void;
+  onCancelEdit: () => void;
+  onDeleteRequest: () => void;
+  onDeleteConfirm: () => void;
+}) {
+  const [editingText, setEditingText] = useState(task.name);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isShared = task.role !== 'owner';
+
+  // Focus and select the name when rename starts
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      setEditingText(task.name);
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing, task.name]);
+
+  const saveName = () => {
+    const trimmedName = editingText.trim();
+
+    // If empty or unchanged, keep original name
+    if (trimmedName === '' || trimmedName === task.name) {
+      onCancelEdit();
+      return;
+    }
+
+    onRename(trimmedName);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      saveName();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancelEdit();
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-2 border-b border-[#f2f2f7] last:border-b-0">
+      {/* Task name + tab count (tap to switch) */}
+      {isEditing ? (
+        <input
+          ref={inputRef}
+          type="text"
+          value={editingText}
+          onChange={(e) => setEditingText(e.target.value)}
+          onBlur={saveName}
+          onKeyDown={handleKeyDown}
+          className="flex-1 min-w-0 h-14 px-2 font-['Outfit',_sans-serif] text-base text-neutral-950 bg-[#f2f2f7] rounded-xl outline-none"
+        />
+      ) : (
+        <button
+          onClick={onSelect}
+          className="flex-1 min-w-0 h-14 px-2 flex items-center gap-3 text-left"
+        >
+          <span className={`size-2 rounded-full shrink-0 ${isActive ? 'bg-[#7482FF]' : 'bg-transparent'}`} />
+          <span className="flex-1 min-w-0 truncate font-['Outfit',_sans-serif] text-base text-neutral-950">
+            {task.name}
+          </span>
+          <span className="shrink-0 font-['Outfit',_sans-serif] text-sm text-[#8e8e93]">
+            {isShared && 'Shared · '}
+            {task.tabs.length} {task.tabs.length === 1 ? 'Tab' : 'Tabs'}
+          </span>
+        </button>
+      )}
+
+      {/* Row actions */}
+      {!isEditing && !isPendingDelete && (
+        <>
+          {task.role !== 'viewer' && <button
+            onClick={onStartEdit}
+            aria-label={`Rename ${task.name}`}
+            className="size-11 shrink-0 flex items-center justify-center rounded-full active:bg-[#f2f2f7]"
+          >
+            <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M11.5 3.5L14.5 6.5M3 15L3.75 11.75L12.5 3C13.05 2.45 13.95 2.45 14.5 3L15 3.5C15.55 4.05 15.55 4.95 15 5.5L6.25 14.25L3 15Z" stroke="#8E8E93" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+          </button>}
+          <button
+            onClick={onDeleteRequest}
+            aria-label={isShared ? `Leave ${task.name}` : `Delete ${task.name}`}
+            className="size-11 shrink-0 flex items-center justify-center rounded-full active:bg-[#f2f2f7]"
+          >
+            <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M3 5H15M7 5V3.5C7 3.22 7.22 3 7.5 3H10.5C10.78 3 11 3.22 11 3.5V5M5 5L5.75 15H12.25L13 5" stroke="#FF453A" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+          </button>
+        </>
+      )}
+
+      {/* Delete confirmation */}
+      {isPendingDelete && (
+        <button
+          onClick={onDeleteConfirm}
+          className="h-9 px-4 shrink-0 rounded-full bg-[#FF453A] font-['Outfit',_sans-serif] text-sm text-white"
+        >
+          {isShared ? 'Leave' : 'Delete'}
+        </button>
+      )}
+    </li>
+  );
+}
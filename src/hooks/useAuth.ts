@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import { AuthUser } from '../utils/supabase/auth';
+
+/**
+ * useAuth Hook
+ * The signed-in user and sign-out, for components rendered inside AuthGate
+ * (AuthGate only renders the app once someone is signed in, so user is never null here)
+ */
+
+export interface AuthContextValue {
+  user: AuthUser;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export default function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) {
+    throw new Error('useAuth must be used inside AuthGate');
+  }
+  return value;
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { ChatMessage } from '../types';
+import { generateId } from '../utils/tasks';
+import {
+  fetchMessages,
+  sendMessage,
+  editMessage,
+  deleteMessage,
+  markMessagesRead,
+} from '../utils/supabase/api';
+import useAuth from './useAuth';
+
+/**
+ * useChatMessages Hook
+ * Messages of a chat tab, for ChatCanvas
+ * - Loads the latest page when the canvas mounts; loadOlder() pages further back
+ * - send/edit/remove update the list right away and then call the server; a failed send
+ *   stays in the list, marked 'failed', until it is retried or removed
+ * - While the tab is active, its messages are marked read on the server. The marker position
+ *   (firstUnreadId) is worked out from the last read time the chat was opened with, so it
+ *   stays put for the rest of the visit
+ */
+
+export interface ChatEntry extends ChatMessage {
+  sendStatus?: 'sending' | 'failed'; // Only set on your own messages until the server has them
+}
+
+// Keep messages in history order (optimistic ones may be placed before the server's timestamps arrive)
+function sortMessages(messages: ChatEntry[]): ChatEntry[] {
+  return [...messages].sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+export default function useChatMessages(tabId: string, isActive: boolean) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [lastReadAt, setLastReadAt] = useState<number | null>(null); // As of opening the chat
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by retry()
+
+  // Load the latest page
+  useEffect(() => {
+    let isCancelled = false;
+    setStatus('loading');
+
+    fetchMessages(tabId).then((result) => {
+      if (isCancelled) return;
+      if (!result.success) {
+        setError(result.error);
+        setStatus('error');
+        return;
+      }
+      setMessages(result.messages);
+      setNextCursor(result.nextCursor);
+      setLastReadAt(result.lastReadAt);
+      setStatus('ready');
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [tabId, loadAttempt]);
+
+  // Mark the chat read while it is the active tab (not while it is only the swipe preview)
+  useEffect(() => {
+    if (isActive && status === 'ready') {
+      markMessagesRead(tabId);
+    }
+  }, [tabId, isActive, status]);
+
+  const loadOlder = async () => {
+    if (!nextCursor || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    const result = await fetchMessages(tabId, nextCursor);
+    setIsLoadingOlder(false);
+
+    if (!result.success) {
+      toast.error('Could not load older messages');
+      return;
+    }
+    setMessages((current) => [...result.messages, ...current]);
+    setNextCursor(result.nextCursor);
+  };
+
+  // Post a message that is already in the list
+  const deliver = async (message: ChatEntry) => {
+    const result = await sendMessage(tabId, message.id, message.text);
+    setMessages((current) =>
+      sortMessages(
+        current.map((m) => {
+          if (m.id !== message.id) return m;
+          return result.success ? result.message : { ...m, sendStatus: 'failed' as const };
+        })
+      )
+    );
+  };
+
+  const send = (text: string) => {
+    const message: ChatEntry = {
+      id: generateId('msg'),
+      authorId: user.id,
+      authorName: user.email ?? 'You',
+      text: text.trim(),
+      createdAt: Date.now(),
+      editedAt: null,
+      sendStatus: 'sending',
+    };
+    setMessages((current) => [...current, message]);
+    deliver(message);
+  };
+
+  const retrySend = (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message) return;
+    setMessages((current) => current.map((m) => (m.id === messageId ? { ...m, sendStatus: 'sending' as const } : m)));
+    deliver(message);
+  };
+
+  const edit = async (messageId: string, text: string) => {
+    const previous = messages.find((m) => m.id === messageId);
+    if (!previous || previous.text === text.trim()) return;
+
+    setMessages((current) =>
+      current.map((m) => (m.id === messageId ? { ...m, text: text.trim(), editedAt: Date.now() } : m))
+    );
+    const result = await editMessage(tabId, messageId, text);
+    setMessages((current) =>
+      current.map((m) => (m.id !== messageId ? m : result.success ? result.message : previous))
+    );
+    if (!result.success) {
+      toast.error('Could not edit the message');
+    }
+  };
+
+  const remove = async (messageId: string) => {
+    const previous = messages.find((m) => m.id === messageId);
+    if (!previous) return;
+
+    setMessages((current) => current.filter((m) => m.id !== messageId));
+    // A message the server never got only exists here
+    if (previous.sendStatus === 'failed') return;
+
+    const result = await deleteMessage(tabId, messageId);
+    if (!result.success) {
+      setMessages((current) => sortMessages([...current, previous]));
+      toast.error('Could not delete the message');
+    }
+  };
+
+  // First message from someone else that arrived after the last visit (the whole history on a first visit)
+  const firstUnreadId =
+    messages.find((m) => m.authorId !== user.id && (lastReadAt === null || m.createdAt > lastReadAt))?.id ?? null;
+
+  return {
+    status,
+    error,
+    messages,
+    hasOlder: nextCursor !== null,
+    isLoadingOlder,
+    firstUnreadId,
+    currentUserId: user.id,
+    loadOlder,
+    send,
+    retrySend,
+    edit,
+    remove,
+    retry: () => setLoadAttempt((n) => n + 1),
+  };
+}
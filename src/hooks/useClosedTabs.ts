@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { ClosedTabSummary } from '../types';
+import { fetchClosedTabs } from '../utils/supabase/api';
+
+/**
+ * useClosedTabs Hook
+ * The tab switcher's Recently Closed list
+ * - Loaded each time the list opens, so tabs closed on other devices or by collaborators show up
+ * - Tabs that are open again (restored, or their close undone) are left out, since the server
+ *   only forgets a closed tab once the restore has synced
+ */
+
+export default function useClosedTabs(isOpen: boolean, openTabIds: string[]) {
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [closedTabs, setClosedTabs] = useState<ClosedTabSummary[]>([]);
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by retry()
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isCancelled = false;
+    setStatus('loading');
+
+    fetchClosedTabs().then((result) => {
+      if (isCancelled) return;
+      if (!result.success) {
+        setError(result.error);
+        setStatus('error');
+        return;
+      }
+      setClosedTabs(result.closedTabs);
+      setStatus('ready');
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, loadAttempt]);
+
+  return {
+    status,
+    error,
+    closedTabs: closedTabs.filter((closedTab) => !openTabIds.includes(closedTab.tab.id)),
+    retry: () => setLoadAttempt((n) => n + 1),
+  };
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { TabComment } from '../types';
+import { generateId } from '../utils/tasks';
+import { fetchComments, postComment, setCommentResolved, markCommentsRead } from '../utils/supabase/api';
+import { countOpenThreads } from '../utils/comments';
+import useAuth from './useAuth';
+
+/**
+ * useComments Hook
+ * Comments of a tab, for CommentsModal
+ * - Loads the tab's comments each time the modal opens, then marks them read on the server.
+ *   Unread comments are worked out from the last read time the modal was opened with, so
+ *   their badges stay for the rest of the visit
+ * - post/setResolved update the list right away and then call the server; a failed post
+ *   stays in the list, marked 'failed', until it is retried
+ * - Reports the number of unresolved threads through onCountChange whenever it changes, so
+ *   the Comments button's count stays in step without reloading the tasks
+ */
+
+export interface CommentEntry extends TabComment {
+  sendStatus?: 'sending' | 'failed'; // Only set on your own comments until the server has them
+}
+
+export default function useComments(
+  tabId: string | null,
+  isOpen: boolean,
+  onCountChange: (tabId: string, count: number) => void
+) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [comments, setComments] = useState<CommentEntry[]>([]);
+  const [lastReadAt, setLastReadAt] = useState<number | null>(null); // As of opening the modal
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by retry()
+
+  const onCountChangeRef = useRef(onCountChange);
+  onCountChangeRef.current = onCountChange;
+
+  // Load the comments (and mark them read) each time the modal opens
+  useEffect(() => {
+    if (!isOpen || !tabId) return;
+
+    let isCancelled = false;
+    setStatus('loading');
+    setComments([]);
+
+    fetchComments(tabId).then((result) => {
+      if (isCancelled) return;
+      if (!result.success) {
+        setError(result.error);
+        setStatus('error');
+        return;
+      }
+      setComments(result.comments);
+      setLastReadAt(result.lastReadAt);
+      setStatus('ready');
+      markCommentsRead(tabId);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [tabId, isOpen, loadAttempt]);
+
+  // Keep the tab's comment count in step with the list (failed posts never reached the server)
+  const openThreadCount = countOpenThreads(comments.filter((c) => c.sendStatus !== 'failed'));
+  useEffect(() => {
+    if (tabId && status === 'ready') {
+      onCountChangeRef.current(tabId, openThreadCount);
+    }
+  }, [tabId, status, openThreadCount]);
+
+  // Post a comment that is already in the list
+  const deliver = async (comment: CommentEntry) => {
+    if (!tabId) return;
+
+    const result = await postComment(tabId, comment.id, comment.body, comment.parentId);
+    setComments((current) =>
+      current.map((c) => {
+        if (c.id !== comment.id) return c;
+        return result.success ? result.comment : { ...c, sendStatus: 'failed' as const };
+      })
+    );
+  };
+
+  // Add a comment, or a reply when parentId is a top-level comment's id
+  const post = (body: string, parentId: string | null) => {
+    const comment: CommentEntry = {
+      id: generateId('comment'),
+      authorId: user.id,
+      authorName: user.email ?? 'You',
+      body: body.trim(),
+      createdAt: Date.now(),
+      parentId,
+      resolved: false,
+      sendStatus: 'sending',
+    };
+    setComments((current) => [...current, comment]);
+    deliver(comment);
+  };
+
+  const retryPost = (commentId: string) => {
+    const comment = comments.find((c) => c.id === commentId);
+    if (!comment) return;
+    setComments((current) => current.map((c) => (c.id === commentId ? { ...c, sendStatus: 'sending' as const } : c)));
+    deliver(comment);
+  };
+
+  // Resolve or reopen a thread
+  const setResolved = async (commentId: string, resolved: boolean) => {
+    if (!tabId) return;
+
+    setComments((current) => current.map((c) => (c.id === commentId ? { ...c, resolved } : c)));
+    const result = await setCommentResolved(tabId, commentId, resolved);
+    if (!result.success) {
+      setComments((current) => current.map((c) => (c.id === commentId ? { ...c, resolved: !resolved } : c)));
+      toast.error(resolved ? 'Could not resolve the comment' : 'Could not reopen the comment');
+    }
+  };
+
+  // Someone else's comment added after the last visit (the whole list on a first visit)
+  const isUnread = (comment: TabComment) =>
+    comment.authorId !== user.id && (lastReadAt === null || comment.createdAt > lastReadAt);
+
+  return {
+    status,
+    error,
+    comments,
+    isUnread,
+    post,
+    retryPost,
+    setResolved,
+    retry: () => setLoadAttempt((n) => n + 1),
+  };
+}
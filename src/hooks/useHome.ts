@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { RecentTab, UnreadComments } from '../types';
+import { fetchHome } from '../utils/supabase/api';
+
+/**
+ * useHome Hook
+ * The Home screen's recent tabs and tabs with unread comments
+ * - Loaded each time the screen opens, so it reflects what happened since it was last shown
+ * - Tabs are matched up with the tasks by HomeScreen, which skips any the app no longer has
+ */
+
+export default function useHome(isOpen: boolean) {
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [recentTabs, setRecentTabs] = useState<RecentTab[]>([]);
+  const [unreadComments, setUnreadComments] = useState<UnreadComments[]>([]);
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by retry()
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isCancelled = false;
+    setStatus('loading');
+
+    fetchHome().then((result) => {
+      if (isCancelled) return;
+      if (!result.success) {
+        setError(result.error);
+        setStatus('error');
+        return;
+      }
+      setRecentTabs(result.recentTabs);
+      setUnreadComments(result.unreadComments);
+      setStatus('ready');
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, loadAttempt]);
+
+  return {
+    status,
+    error,
+    recentTabs,
+    unreadComments,
+    retry: () => setLoadAttempt((n) => n + 1),
+  };
+}
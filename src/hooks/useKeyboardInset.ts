@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * useKeyboardInset Hook
+ * How many pixels of the layout viewport the on-screen keyboard covers, measured with
+ * the Visual Viewport API. This is 0 while the keyboard is closed, and also on browsers
+ * that resize the whole page for the keyboard (there everything already fits)
+ */
+
+export default function useKeyboardInset() {
+  const [inset, setInset] = useState(0);
+
+  useEffect(() => {
+    const viewport = window.visualViewport;
+    if (!viewport) return;
+
+    const updateInset = () => {
+      setInset(Math.max(0, Math.round(window.innerHeight - viewport.height - viewport.offsetTop)));
+    };
+
+    updateInset();
+    viewport.addEventListener('resize', updateInset);
+    viewport.addEventListener('scroll', updateInset);
+    return () => {
+      viewport.removeEventListener('resize', updateInset);
+      viewport.removeEventListener('scroll', updateInset);
+    };
+  }, []);
+
+  return inset;
+}
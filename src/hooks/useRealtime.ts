@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef } from 'react';
+import { RealtimeEvent, TabViewer } from '../types';
+import { announceViewing, fetchViewers, openEventStream } from '../utils/supabase/api';
+import {
+  applyViewingEvent,
+  pruneViewers,
+  readEventStream,
+  replaceTaskViewers,
+  VIEWING_HEARTBEAT_MS,
+} from '../utils/realtime';
+import { generateId } from '../utils/tasks';
+
+/**
+ * useRealtime Hook
+ * Keeps the app connected to the server's realtime event stream while `isEnabled`
+ * - Task events go to onTaskEvent (useTaskSync pulls the changes in); every time the stream
+ *   (re)opens, onConnect is called so anything missed while it was down is caught up on
+ * - Reconnects when the server ends the stream (it does every couple of minutes) or the
+ *   connection drops, backing off while the server can't be reached
+ * - Announces which tab of which task this app is showing, again every VIEWING_HEARTBEAT_MS
+ *   and once more (tabId null) when the app is hidden or closed
+ * - Loads who is already viewing the task on screen when it is opened and whenever the
+ *   stream (re)opens, so viewers missed while it was down aren't lost until their next heartbeat
+ * - Returns the other apps showing a tab right now; your own other devices are left out
+ */
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Wait this long on a tab before announcing it, so swiping through tabs sends one request
+const ANNOUNCE_DEBOUNCE_MS = 1000;
+
+export default function useRealtime({
+  isEnabled,
+  userId,
+  taskId,
+  tabId,
+  onTaskEvent,
+  onConnect,
+}: {
+  isEnabled: boolean;
+  userId: string;
+  taskId: string | null;
+  tabId: string | null;
+  onTaskEvent: (event: Exclude<RealtimeEvent, { type: 'viewing' }>) => void;
+  onConnect: () => void;
+}): TabViewer[] {
+  const [viewers, setViewers] = useState<TabViewer[]>([]);
+  // Counts the times the stream opened, so the viewers are reloaded each time
+  const [connectionCount, setConnectionCount] = useState(0);
+
+  // Identifies this app instance in viewing events (the same user can have several open)
+  const clientIdRef = useRef(generateId('client'));
+
+  // Always call the latest callbacks without reopening the stream
+  const onTaskEventRef = useRef(onTaskEvent);
+  onTaskEventRef.current = onTaskEvent;
+  const onConnectRef = useRef(onConnect);
+  onConnectRef.current = onConnect;
+
+  // Keep the stream open while enabled
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const controller = new AbortController();
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+    let wasReady = false; // Whether the current stream got as far as the server's ready event
+
+    const handleEvent = (event: RealtimeEvent) => {
+      if (event.type !== 'viewing') {
+        onTaskEventRef.current(event);
+      } else if (event.userId !== userId) {
+        setViewers((current) => applyViewingEvent(current, event));
+      }
+    };
+
+    const handleReady = () => {
+      wasReady = true;
+      retryDelay = INITIAL_RETRY_DELAY_MS;
+      setConnectionCount((count) => count + 1);
+      onConnectRef.current();
+    };
+
+    async function connect() {
+      while (!controller.signal.aborted) {
+        wasReady = false;
+        const response = await openEventStream(controller.signal);
+        if (response) {
+          try {
+            await readEventStream(response, handleEvent, handleReady);
+          } catch (error) {
+            if (!controller.signal.aborted) {
+              console.error('Realtime event stream dropped:', error);
+            }
+          }
+          if (controller.signal.aborted) return;
+        }
+
+        // A stream the server ended reopens right away; a failed one waits a little longer each time
+        const delay = wasReady ? 0 : retryDelay;
+        if (!wasReady) retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    connect();
+    return () => controller.abort();
+  }, [isEnabled, userId]);
+
+  // Load who is viewing the task on screen
+  useEffect(() => {
+    if (!isEnabled || !taskId) return;
+
+    let isCancelled = false;
+    fetchViewers(taskId).then((result) => {
+      if (isCancelled || !result.success) return;
+      const others = result.viewers.filter((viewer) => viewer.userId !== userId);
+      setViewers((current) => replaceTaskViewers(current, taskId, others, result.now));
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isEnabled, userId, taskId, connectionCount]);
+
+  // Forget viewers whose apps went quiet
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const interval = window.setInterval(() => setViewers((current) => pruneViewers(current)), VIEWING_HEARTBEAT_MS / 2);
+    return () => clearInterval(interval);
+  }, [isEnabled]);
+
+  // Announce the tab on screen after a short pause, then keep announcing it
+  useEffect(() => {
+    if (!isEnabled || !taskId) return;
+
+    const clientId = clientIdRef.current;
+    const announce = () => {
+      if (document.visibilityState === 'visible') {
+        announceViewing(clientId, taskId, tabId);
+      }
+    };
+    const leave = () => announceViewing(clientId, taskId, null, true);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') leave();
+      else announce();
+    };
+
+    const timeout = window.setTimeout(announce, ANNOUNCE_DEBOUNCE_MS);
+    const interval = window.setInterval(announce, VIEWING_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', leave);
+
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', leave);
+    };
+  }, [isEnabled, taskId, tabId]);
+
+  // Moving to another task: the old one no longer shows this app (switching tabs within a
+  // task is covered by announcing the new tab)
+  useEffect(() => {
+    if (!isEnabled || !taskId) return;
+
+    const clientId = clientIdRef.current;
+    return () => {
+      announceViewing(clientId, taskId, null);
+    };
+  }, [isEnabled, taskId]);
+
+  return viewers;
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { checkHealth } from '../utils/supabase/api';
+
+/**
+ * useServerReconnect Hook
+ * While `isOffline` is true, polls the server's /health endpoint and calls
+ * `onReconnect` once it responds again
+ * - Backs off exponentially (1s, 2s, 4s ... up to 30s) so a long outage costs few requests
+ * - Checks right away when the browser reports it is back online
+ * - Timers only live in memory (no browser storage, per Guidelines.md)
+ */
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export default function useServerReconnect(isOffline: boolean, onReconnect: () => void) {
+  // Always call the latest callback without restarting the polling loop
+  const onReconnectRef = useRef(onReconnect);
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    if (!isOffline) return;
+
+    let isCancelled = false;
+    let isChecking = false;
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+    let retryTimeout: number | null = null;
+
+    const scheduleCheck = (delay: number) => {
+      if (retryTimeout) clearTimeout(retryTimeout);
+      retryTimeout = window.setTimeout(check, delay);
+    };
+
+    async function check() {
+      if (isChecking) return;
+      isChecking = true;
+      const isHealthy = await checkHealth();
+      isChecking = false;
+      if (isCancelled) return;
+
+      if (isHealthy) {
+        onReconnectRef.current();
+      } else {
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+        scheduleCheck(retryDelay);
+      }
+    }
+
+    // The browser noticed the network is back: check now instead of waiting out the backoff
+    const handleOnline = () => {
+      retryDelay = INITIAL_RETRY_DELAY_MS;
+      scheduleCheck(0);
+    };
+
+    scheduleCheck(retryDelay);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      isCancelled = true;
+      if (retryTimeout) clearTimeout(retryTimeout);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [isOffline]);
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { MemberRole, ShareLink, TaskMember, TaskRole } from '../types';
+import {
+  fetchSharing,
+  inviteMember,
+  removeMember,
+  createShareLink,
+  expireShareLink,
+} from '../utils/supabase/api';
+
+/**
+ * useSharing Hook
+ * Who a task is shared with, for ShareModal
+ * - Loads the members, your role and (if you own the task) its share links each time the
+ *   modal opens
+ * - Each change waits for the server before updating the lists, and shows a toast if it fails
+ */
+
+export default function useSharing(taskId: string | null, isOpen: boolean) {
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<TaskRole | null>(null);
+  const [members, setMembers] = useState<TaskMember[]>([]);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by retry()
+
+  useEffect(() => {
+    if (!isOpen || !taskId) return;
+
+    let isCancelled = false;
+    setStatus('loading');
+
+    fetchSharing(taskId).then((result) => {
+      if (isCancelled) return;
+      if (!result.success) {
+        setError(result.error);
+        setStatus('error');
+        return;
+      }
+      setRole(result.role);
+      setMembers(result.members);
+      setLinks(result.links);
+      setStatus('ready');
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [taskId, isOpen, loadAttempt]);
+
+  // Share with someone, or change their role; resolves to whether it worked
+  const invite = async (email: string, memberRole: MemberRole): Promise<boolean> => {
+    if (!taskId) return false;
+
+    const result = await inviteMember(taskId, email, memberRole);
+    if (!result.success) {
+      toast.error(`Could not share: ${result.error}`);
+      return false;
+    }
+    setMembers((current) => {
+      const isNew = !current.some((m) => m.email === result.member.email);
+      return isNew
+        ? [...current, result.member]
+        : current.map((m) => (m.email === result.member.email ? result.member : m));
+    });
+    return true;
+  };
+
+  const remove = async (email: string) => {
+    if (!taskId) return;
+
+    const result = await removeMember(taskId, email);
+    if (!result.success) {
+      toast.error(`Could not remove ${email}`);
+      return;
+    }
+    setMembers((current) => current.filter((m) => m.email !== email));
+  };
+
+  // Create a link; resolves to it (or null if that failed)
+  const createLink = async (linkRole: MemberRole, expiresInDays: number | null): Promise<ShareLink | null> => {
+    if (!taskId) return null;
+
+    const result = await createShareLink(taskId, linkRole, expiresInDays);
+    if (!result.success) {
+      toast.error(`Could not create a link: ${result.error}`);
+      return null;
+    }
+    setLinks((current) => [...current, result.link]);
+    return result.link;
+  };
+
+  const expireLink = async (token: string) => {
+    if (!taskId) return;
+
+    const result = await expireShareLink(taskId, token);
+    if (!result.success) {
+      toast.error('Could not expire the link');
+      return;
+    }
+    setLinks((current) => current.filter((link) => link.token !== token));
+  };
+
+  return {
+    status,
+    error,
+    role,
+    members,
+    links,
+    invite,
+    remove,
+    createLink,
+    expireLink,
+    retry: () => setLoadAttempt((n) => n + 1),
+  };
+}
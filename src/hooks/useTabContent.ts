@@ -0,0 +1,60 @@
+import { createContext, useContext, useEffect, useState, useSyncExternalStore } from 'react';
+import { createTabContentStore, TabContentStore } from '../utils/tabContent';
+
+/**
+ * useTabContent Hook
+ * A tab's canvas content from the TabContentStore provided by App.tsx
+ * - Loads the content the first time a canvas for the tab is rendered
+ * - update() changes it locally right away; the store saves it in the background
+ * - generation changes when a version is restored; canvases that hold their own copy of
+ *   the content (an editor) key it on generation to start over from the restored content
+ *
+ * useTabContentStore creates the store for App.tsx and saves pending edits when the
+ * app is hidden (switching apps, locking the phone)
+ */
+
+export const TabContentContext = createContext<TabContentStore | null>(null);
+
+export function useTabContentStore(): TabContentStore {
+  const [store] = useState(createTabContentStore);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        store.flush();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      store.dispose();
+    };
+  }, [store]);
+
+  return store;
+}
+
+export default function useTabContent(tabId: string) {
+  const store = useContext(TabContentContext);
+  if (!store) {
+    throw new Error('useTabContent must be used inside TabContentContext');
+  }
+
+  const entry = useSyncExternalStore(store.subscribe, () => store.getEntry(tabId));
+
+  // Lazy load: nothing is fetched until a canvas for this tab is on screen
+  useEffect(() => {
+    store.load(tabId);
+  }, [store, tabId]);
+
+  return {
+    status: entry?.status ?? 'loading',
+    content: entry?.content ?? null,
+    error: entry?.error ?? null,
+    saveError: entry?.saveError ?? null,
+    generation: entry?.generation ?? 0,
+    update: (content: unknown) => store.update(tabId, content),
+    retry: () => store.load(tabId),
+  };
+}
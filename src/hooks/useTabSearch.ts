@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { TabSearchResult } from '../types';
+import { searchTabs } from '../utils/supabase/api';
+
+/**
+ * useTabSearch Hook
+ * The server's search of the text inside tabs, for the TabSwitcher's search field
+ * - Runs once typing pauses for SEARCH_DEBOUNCE_MS; queries shorter than MIN_QUERY_LENGTH
+ *   aren't sent (the server refuses them) and have no results
+ * - Results of an older query never replace those of a newer one, and are cleared as soon as
+ *   the query changes (they'd be highlighted against the new query)
+ * - A failed search leaves the name matches the switcher finds by itself, with the error
+ *   shown under them
+ */
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export default function useTabSearch(query: string) {
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<TabSearchResult[]>([]);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    setResults([]);
+    setError(null);
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setStatus('idle');
+      return;
+    }
+
+    let isCancelled = false;
+    setStatus('loading');
+
+    const timeout = window.setTimeout(() => {
+      searchTabs(trimmedQuery).then((result) => {
+        if (isCancelled) return;
+        if (!result.success) {
+          setError(result.error);
+          setStatus('error');
+          return;
+        }
+        setResults(result.results);
+        setError(null);
+        setStatus('ready');
+      });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [trimmedQuery]);
+
+  return { status, error, results };
+}
@@ -0,0 +1,356 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { RealtimeEvent, Task } from '../types';
+import {
+  ApiResult,
+  isServerUnreachable,
+  fetchTask,
+  fetchTasks,
+  syncTask,
+  createTask as createTaskOnServer,
+  deleteTask as deleteTaskOnServer,
+} from '../utils/supabase/api';
+import { applyOperation } from '../utils/operations';
+import { diffTask, mergeRemoteTask, planSync, rebaseTask, recordSyncedTask, SyncOperation } from '../utils/sync';
+import { createTask, getNextTaskName } from '../utils/tasks';
+import useServerReconnect from './useServerReconnect';
+
+/**
+ * useTaskSync Hook
+ * Saves task changes to the server in the background, so handlers in App.tsx only update state
+ * - Debounced: edits in quick succession (typing, swiping through tabs) go out as one save
+ * - Diffed: only the tasks, tabs and fields that changed since the last sync are sent
+ * - Ordered: one request at a time, each naming the task revision it was based on
+ * - Conflict-aware: when the server rejects a stale revision, the task is refetched and the
+ *   local changes are replayed on top of it, so an older save never overwrites a newer one
+ * - Offline-tolerant: if the server can't be reached, edits keep piling up in state and are
+ *   saved (rebased onto the server's latest version if needed) once /health responds again
+ * - Realtime: changes made elsewhere (another device, or someone else on a shared task) arrive
+ *   as realtime events and are pulled in between saves, merged like a rebase except that the
+ *   tab on screen stays put. While isRemoteHeld() is true (a swipe is in progress) they wait,
+ *   and App calls pullRemoteChanges once the gesture is over
+ */
+
+export type SyncStatus = 'saved' | 'pending' | 'saving' | 'offline' | 'error';
+
+// Wait this long after the last change before saving
+const SAVE_DEBOUNCE_MS = 800;
+
+// Stop retrying after this many conflicts in a row (another device keeps changing the same task)
+const MAX_CONSECUTIVE_CONFLICTS = 3;
+
+const getTaskId = (operation: SyncOperation) =>
+  operation.type === 'create' ? operation.task.id : operation.taskId;
+
+// A change made elsewhere that still has to be pulled in: refetch the task (unless the synced
+// copy has already reached revision), or drop it (deleted, or no longer shared with the user)
+type RemoteChange = { type: 'refetch'; revision: number | null } | { type: 'remove' };
+
+export default function useTaskSync(
+  tasks: Task[],
+  setTasks: Dispatch<SetStateAction<Task[]>>,
+  isRemoteHeld: () => boolean = () => false
+) {
+  const [status, setStatus] = useState<SyncStatus>('saved');
+  const [error, setError] = useState<string | null>(null);
+
+  // Last state the server is known to have, by task id (null until the initial load marks it)
+  const syncedRef = useRef<Map<string, Task> | null>(null);
+  // Latest local state; the save loop reads it between requests to pick up new edits
+  const tasksRef = useRef(tasks);
+  const isSavingRef = useRef(false);
+  const isOfflineRef = useRef(false);
+  const debounceTimeoutRef = useRef<number | null>(null);
+  // Remote changes waiting to be pulled in, by task id, and whether to check every task
+  const remoteQueueRef = useRef(new Map<string, RemoteChange>());
+  const needsFullPullRef = useRef(false);
+  const isRemoteHeldRef = useRef(isRemoteHeld);
+  isRemoteHeldRef.current = isRemoteHeld;
+
+  // Schedule a save whenever local state drifts from the synced state
+  useEffect(() => {
+    tasksRef.current = tasks;
+
+    // Nothing to compare against before the initial load; a running save picks up the change
+    // itself, and while offline everything is saved on reconnect
+    const synced = syncedRef.current;
+    if (!synced || isSavingRef.current || isOfflineRef.current || planSync(synced, tasks).length === 0) {
+      return;
+    }
+
+    setStatus('pending');
+    if (debounceTimeoutRef.current) {
+      clearTimeout(debounceTimeoutRef.current);
+    }
+    debounceTimeoutRef.current = window.setTimeout(saveChanges, SAVE_DEBOUNCE_MS);
+  }, [tasks]);
+
+  // Save right away when the app is hidden (switching apps, locking the phone)
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveChanges();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (debounceTimeoutRef.current) {
+        clearTimeout(debounceTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // Once the server responds again, save everything that piled up while offline
+  useServerReconnect(status === 'offline', () => {
+    isOfflineRef.current = false;
+    saveChanges();
+  });
+
+  // Record what the server has after the initial load; saving starts from here
+  function markSynced(serverTasks: Task[]) {
+    syncedRef.current = new Map(serverTasks.map((task) => [task.id, task]));
+  }
+
+  // Send one operation and record the server's copy of the task on success
+  async function sendOperation(operation: SyncOperation, synced: Map<string, Task>): Promise<ApiResult> {
+    if (operation.type === 'delete') {
+      const result = await deleteTaskOnServer(operation.taskId);
+      // A task that is already gone counts as deleted
+      if (!result.success && result.status !== 404) return result;
+      synced.delete(operation.taskId);
+      return { success: true };
+    }
+
+    const result = operation.type === 'create'
+      ? await createTaskOnServer(operation.task)
+      : await syncTask(operation.taskId, operation.baseRevision, operation.changes);
+    if (result.success) {
+      recordSyncedTask(synced, result.task);
+    }
+    return result;
+  }
+
+  // Refetch a task the server has a different version of, and replay local changes on top of it
+  async function rebaseOnServer(operation: SyncOperation, synced: Map<string, Task>): Promise<ApiResult> {
+    const taskId = getTaskId(operation);
+    const latest = await fetchTask(taskId);
+    if (!latest.success) return latest;
+
+    // For a create that already landed (e.g. its response was lost), the created task is the base
+    const base = synced.get(taskId) ?? (operation.type === 'create' ? operation.task : latest.task);
+    const rebase = (list: Task[]) =>
+      list.map((task) => (task.id === taskId ? rebaseTask(latest.task, base, task) : task));
+
+    recordSyncedTask(synced, latest.task);
+    tasksRef.current = rebase(tasksRef.current);
+    setTasks(rebase);
+    return { success: true };
+  }
+
+  // Send everything that is not yet on the server, one request at a time
+  async function saveChanges() {
+    if (debounceTimeoutRef.current) {
+      clearTimeout(debounceTimeoutRef.current);
+      debounceTimeoutRef.current = null;
+    }
+
+    const synced = syncedRef.current;
+    if (!synced || isSavingRef.current || isOfflineRef.current) return;
+
+    if (planSync(synced, tasksRef.current).length === 0) {
+      setStatus('saved');
+      setError(null);
+      return;
+    }
+
+    isSavingRef.current = true;
+    setStatus('saving');
+    setError(null);
+
+    let failure: ApiResult | null = null;
+    let conflicts = 0;
+
+    // Re-plan after every request so edits made while saving are included
+    while (true) {
+      const [operation] = planSync(synced, tasksRef.current);
+      if (!operation) break;
+
+      const result = await sendOperation(operation, synced);
+      if (result.success) {
+        conflicts = 0;
+        continue;
+      }
+
+      // The server has a newer version of the task: rebase onto it and try again
+      if (result.status === 409 && conflicts < MAX_CONSECUTIVE_CONFLICTS) {
+        conflicts++;
+        const rebased = await rebaseOnServer(operation, synced);
+        if (rebased.success) continue;
+        failure = rebased;
+        break;
+      }
+
+      // Deleted on another device while edited here: forget the synced copy so it is
+      // recreated with the local edits rather than losing them. A shared task that is gone
+      // can't be recreated (it is the owner's), so that is reported as a failure
+      const isOwnTask = tasksRef.current.find((task) => task.id === getTaskId(operation))?.role === 'owner';
+      if (result.status === 404 && operation.type === 'update' && isOwnTask) {
+        synced.delete(operation.taskId);
+        continue;
+      }
+
+      failure = result;
+      break;
+    }
+
+    isSavingRef.current = false;
+    pullRemoteChanges();
+
+    if (!failure || failure.success) {
+      setStatus('saved');
+    } else if (isServerUnreachable(failure)) {
+      // Not an error yet: keep the changes and wait for the server to come back
+      isOfflineRef.current = true;
+      setStatus('offline');
+    } else {
+      console.error('Failed to save tasks:', failure.error);
+      setStatus('error');
+      setError(failure.error);
+    }
+  }
+
+  // Queue the change a realtime task event reports; changes this app made itself are skipped
+  // once their save has been recorded
+  function receiveRemoteEvent(event: Exclude<RealtimeEvent, { type: 'viewing' }>) {
+    remoteQueueRef.current.set(
+      event.taskId,
+      event.type === 'task-deleted'
+        ? { type: 'remove' }
+        : { type: 'refetch', revision: event.type === 'task-updated' ? event.revision : null }
+    );
+    pullRemoteChanges();
+  }
+
+  // Check every task against the server (events may have been missed while the stream was down)
+  function catchUpRemote() {
+    needsFullPullRef.current = true;
+    pullRemoteChanges();
+  }
+
+  // Pull in the queued remote changes, unless a save is running (it pulls them when done) or
+  // they are being held
+  async function pullRemoteChanges() {
+    const synced = syncedRef.current;
+    const queue = remoteQueueRef.current;
+    if (!synced || isSavingRef.current || isRemoteHeldRef.current()) return;
+    if (queue.size === 0 && !needsFullPullRef.current) return;
+
+    // Saves wait until the pull is done, so the two never work on the same task at once
+    isSavingRef.current = true;
+
+    if (needsFullPullRef.current) {
+      needsFullPullRef.current = false;
+      const result = await fetchTasks();
+      if (isRemoteHeldRef.current()) {
+        needsFullPullRef.current = true;
+      } else if (result.success) {
+        const serverIds = new Set(result.tasks.map((task) => task.id));
+        for (const task of result.tasks) {
+          const syncedTask = synced.get(task.id);
+          if (!syncedTask || syncedTask.revision < task.revision || syncedTask.role !== task.role) {
+            applyRemoteTask(task, synced);
+          }
+        }
+        for (const taskId of [...synced.keys()]) {
+          if (!serverIds.has(taskId)) removeRemoteTask(taskId, synced);
+        }
+      }
+    }
+
+    while (queue.size > 0 && !isRemoteHeldRef.current()) {
+      const [taskId, change] = queue.entries().next().value!;
+      queue.delete(taskId);
+
+      const syncedRevision = synced.get(taskId)?.revision ?? -1;
+      if (change.type === 'refetch' && change.revision !== null && syncedRevision >= change.revision) {
+        continue;
+      }
+
+      const result = change.type === 'refetch' ? await fetchTask(taskId) : null;
+      // A swipe started while the task was on its way: try again once it is over
+      if (isRemoteHeldRef.current()) {
+        if (!queue.has(taskId)) queue.set(taskId, change);
+        break;
+      }
+
+      if (result?.success) {
+        applyRemoteTask(result.task, synced);
+      } else if (!result || result.status === 404) {
+        removeRemoteTask(taskId, synced);
+      }
+      // Any other failure is left for the catch-up after the event stream reconnects
+    }
+
+    isSavingRef.current = false;
+
+    // Edits made during the pull waited for it
+    if (planSync(synced, tasksRef.current).length > 0) {
+      saveChanges();
+    }
+  }
+
+  // Merge the server's copy of a task changed elsewhere into local state
+  function applyRemoteTask(server: Task, synced: Map<string, Task>) {
+    const local = tasksRef.current.find((task) => task.id === server.id);
+    const base = synced.get(server.id);
+    let update: (list: Task[]) => Task[];
+
+    if (local) {
+      const merged = mergeRemoteTask(server, base ?? local, local);
+      recordSyncedTask(synced, merged.synced);
+      update = (list) => list.map((task) => (task.id === server.id ? merged.task : task));
+    } else if (base) {
+      // Deleted (or left) here and not saved yet: the delete still goes out
+      recordSyncedTask(synced, { ...server, isActive: false });
+      return;
+    } else {
+      // New to this app (created on another device, or just shared with the user); which
+      // task is active stays this app's choice
+      const added = { ...server, isActive: false };
+      recordSyncedTask(synced, added);
+      update = (list) => (list.some((task) => task.id === added.id) ? list : [...list, added]);
+    }
+
+    tasksRef.current = update(tasksRef.current);
+    setTasks(update);
+  }
+
+  // Drop a task that was deleted elsewhere, or that the user no longer has access to
+  function removeRemoteTask(taskId: string, synced: Map<string, Task>) {
+    const local = tasksRef.current.find((task) => task.id === taskId);
+    const base = synced.get(taskId);
+    synced.delete(taskId);
+    if (!local) return;
+
+    // Edited here since the last save: keep it, so it is recreated with the edits (as when a
+    // save finds the task deleted)
+    if (local.role === 'owner' && base && diffTask(base, local)) return;
+
+    // Removing the only task leaves a fresh one in its place, as deleting it here would
+    const replacementTask = createTask(getNextTaskName(tasksRef.current));
+    const update = (list: Task[]) => applyOperation(list, { type: 'deleteTask', taskId, replacementTask });
+    tasksRef.current = update(tasksRef.current);
+    setTasks(update);
+  }
+
+  return {
+    status,
+    error,
+    markSynced,
+    retry: saveChanges,
+    receiveRemoteEvent,
+    catchUpRemote,
+    pullRemoteChanges,
+  };
+}
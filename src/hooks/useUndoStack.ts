@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { Task } from '../types';
+import { getInverseOperations, TaskOperation } from '../utils/operations';
+
+/**
+ * useUndoStack Hook
+ * App-wide undo/redo for the edits App.tsx records as undoable (renaming a tab or the task,
+ * picking a canvas type, moving or closing a tab)
+ * - perform() applies an edit (one operation, or several that undo and redo together) and records
+ *   it with its inverse operations, returning the id of its entry (null if it can't be undone)
+ * - undo() applies the inverse of the latest edit, redo() applies the edit again; both go
+ *   through dispatch like any other edit, so they are synced (and queued offline) as usual
+ * - undoEntry(id) undoes one particular edit (e.g. from the toast shown for it), only while it
+ *   is still the latest: its inverse was worked out from the state before it, which later
+ *   edits have changed. Otherwise a toast says why nothing happened
+ * - Undo/redo show a toast with a button for the opposite action
+ * - Desktop shortcuts: Cmd/Ctrl+Z undoes, Cmd/Ctrl+Shift+Z and Ctrl+Y redo (text fields and
+ *   the doc editor keep their own undo)
+ * - Making a new edit clears redo; only the last MAX_UNDO_STEPS edits are kept (in memory only)
+ */
+
+export interface UndoEntry {
+  id: number;
+  label: string; // Shown in the toast, e.g. "Close tab"
+  operations: TaskOperation[];
+  inverses: TaskOperation[]; // In the order to apply them
+}
+
+const MAX_UNDO_STEPS = 50;
+
+// Keyboard shortcuts typed here belong to the field, not the app
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')
+  );
+}
+
+export default function useUndoStack(tasks: Task[], dispatch: (operation: TaskOperation) => void) {
+  // Stacks live in refs so quick repeated undos (a held shortcut) never reuse an entry;
+  // the counts are state so the Undo button re-renders
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+  const nextEntryIdRef = useRef(1);
+
+  const updateCounts = () => {
+    setCounts({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  };
+
+  // Apply an edit and remember how to undo it
+  const perform = (operation: TaskOperation | TaskOperation[], label: string): number | null => {
+    const operations = Array.isArray(operation) ? operation : [operation];
+    const inverses = getInverseOperations(tasks, operations);
+    operations.forEach(dispatch);
+    if (inverses.length === 0) return null;
+
+    const id = nextEntryIdRef.current++;
+    undoStackRef.current = [...undoStackRef.current, { id, label, operations, inverses }].slice(-MAX_UNDO_STEPS);
+    redoStackRef.current = [];
+    updateCounts();
+    return id;
+  };
+
+  const undo = () => {
+    const entry = undoStackRef.current.pop();
+    if (!entry) return;
+
+    entry.inverses.forEach(dispatch);
+    redoStackRef.current.push(entry);
+    updateCounts();
+    toast(`Undid: ${entry.label}`, { action: { label: 'Redo', onClick: () => actionsRef.current.redo() } });
+  };
+
+  const undoEntry = (id: number) => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (entry?.id === id) {
+      undo();
+    } else if (undoStackRef.current.some((e) => e.id === id)) {
+      toast.error("Can't undo this any more: other edits were made since");
+    }
+  };
+
+  const redo = () => {
+    const entry = redoStackRef.current.pop();
+    if (!entry) return;
+
+    entry.operations.forEach(dispatch);
+    undoStackRef.current.push(entry);
+    updateCounts();
+    toast(`Redid: ${entry.label}`, { action: { label: 'Undo', onClick: () => actionsRef.current.undo() } });
+  };
+
+  // Toast buttons and the shortcut listener always call the latest undo/redo
+  const actionsRef = useRef({ undo, undoEntry, redo });
+  actionsRef.current = { undo, undoEntry, redo };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        actionsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey && !e.shiftKey)) {
+        e.preventDefault();
+        actionsRef.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return {
+    perform,
+    undo,
+    undoEntry,
+    redo,
+    canUndo: counts.undo > 0,
+    canRedo: counts.redo > 0,
+  };
+}
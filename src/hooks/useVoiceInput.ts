@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef } from 'react';
+import { useMotionValue } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { SpeechRecognizer, SpeechSession } from '../utils/speech';
+
+/**
+ * useVoiceInput Hook
+ * Sparo's voice input: one utterance per start(), handed to onCommand once it's over
+ * - Listening ends by itself when the user stops speaking, or early with stop() (what was
+ *   heard so far still counts)
+ * - transcript is what has been heard so far, for showing while listening
+ * - level is the microphone's loudness (0 to 1) as a MotionValue, so the meter animates
+ *   without re-rendering
+ * - Problems (no microphone access, nothing heard) are shown as toasts
+ */
+
+export default function useVoiceInput(recognizer: SpeechRecognizer, onCommand: (text: string) => void) {
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const level = useMotionValue(0);
+
+  const sessionRef = useRef<SpeechSession | null>(null);
+  const finalTranscriptRef = useRef('');
+
+  // The session ends after renders that may have replaced onCommand
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  const start = () => {
+    if (sessionRef.current) return;
+    if (!recognizer.isSupported) {
+      toast.error("Voice input isn't available in this browser");
+      return;
+    }
+
+    finalTranscriptRef.current = '';
+    setTranscript('');
+    setIsListening(true);
+
+    sessionRef.current = recognizer.start({
+      onLevel: (value) => level.set(value),
+      onTranscript: (text, isFinal) => {
+        setTranscript(text);
+        if (isFinal) finalTranscriptRef.current = text;
+      },
+      onError: (message) => toast.error(message),
+      onEnd: () => {
+        sessionRef.current = null;
+        setIsListening(false);
+        level.set(0);
+
+        const text = finalTranscriptRef.current.trim();
+        if (text) onCommandRef.current(text);
+      },
+    });
+  };
+
+  const stop = () => {
+    sessionRef.current?.stop();
+  };
+
+  // Stop listening (without running anything) if the app goes away mid-utterance
+  useEffect(() => {
+    return () => {
+      finalTranscriptRef.current = '';
+      sessionRef.current?.abort();
+    };
+  }, []);
+
+  return {
+    isListening,
+    transcript,
+    level,
+    start,
+    stop,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Task access
+ * A task is stored under the user who created it (its owner); other users reach it as
+ * members, invited by email or through a share link (see share-routes.tsx)
+ *
+ * Routes resolve the requesting user's role here, check it, and then call storage with
+ * the owner's id. A task or tab the user can't reach is reported as not found
+ */
+
+import { Context } from "npm:hono";
+import { AuthEnv } from "./auth.tsx";
+import { TabLocation, TaskStorage } from "./storage.tsx";
+import { Task, TaskRole } from "./types.tsx";
+
+export interface TaskAccess {
+  taskId: string;
+  ownerId: string; // Pass this to storage, not the requesting user's id
+  role: TaskRole;
+}
+
+export type TabAccess = TaskAccess & TabLocation;
+
+export async function getTaskAccess(
+  storage: TaskStorage,
+  c: Context<AuthEnv>,
+  taskId: string,
+): Promise<TaskAccess | null> {
+  const userId = c.get("userId");
+  const ownerId = await storage.getTaskOwnerId(taskId);
+  if (!ownerId) return null;
+  if (ownerId === userId) return { taskId, ownerId, role: "owner" };
+
+  const member = await storage.findTaskMember(taskId, userId, c.get("userEmail"));
+  return member ? { taskId, ownerId, role: member.role } : null;
+}
+
+export async function getTabAccess(
+  storage: TaskStorage,
+  c: Context<AuthEnv>,
+  tabId: string,
+): Promise<TabAccess | null> {
+  const taskId = await storage.getTabTaskId(tabId);
+  const access = taskId ? await getTaskAccess(storage, c, taskId) : null;
+  const found = access ? await storage.findTab(access.ownerId, tabId) : null;
+  return access && found ? { ...access, ...found } : null;
+}
+
+// Every task the user can reach as they see it: their own, then the ones shared with them
+export async function listAccessibleTasks(storage: TaskStorage, c: Context<AuthEnv>): Promise<Task[]> {
+  const userId = c.get("userId");
+  const ownTasks = await storage.listTasks(userId);
+  const shares = await storage.listSharedTasks(userId, c.get("userEmail"));
+  const sharedTasks = await Promise.all(
+    shares.map(async ({ taskId, ownerId, role }) => {
+      const task = await storage.getTask(ownerId, taskId);
+      return task ? withRole(task, role) : null;
+    }),
+  );
+
+  return [
+    ...ownTasks.map((task) => withRole(task, "owner")),
+    ...sharedTasks.filter((task): task is Task => task !== null),
+  ];
+}
+
+// Viewers can read a task but change nothing in it
+export function canEdit(role: TaskRole): boolean {
+  return role !== "viewer";
+}
+
+// A task as the requesting user sees it: with their role, and never active when it is shared
+// with them (which task is active is the owner's choice, kept on the owner's tasks)
+export function withRole(task: Task, role: TaskRole): Task {
+  return { ...task, role, isActive: role === "owner" ? task.isActive : false };
+}
@@ -0,0 +1,76 @@
+/**
+ * Hono app factory
+ * Builds the server around a given storage, auth provider, mail transport and realtime hub
+ * so the same routes can run against Postgres and Supabase Auth (index.tsx) or
+ * in-memory/fake ones (local testing)
+ */
+
+import { Hono } from "npm:hono";
+import { cors } from "npm:hono/cors";
+import { logger } from "npm:hono/logger";
+import { AuthProvider, requireAuth } from "./auth.tsx";
+import { createChatRoutes } from "./chat-routes.tsx";
+import { createClosedTabRoutes } from "./closed-tab-routes.tsx";
+import { createCommentRoutes } from "./comment-routes.tsx";
+import { createCommRoutes } from "./comm-routes.tsx";
+import { createContentRoutes } from "./content-routes.tsx";
+import { createEventRoutes } from "./event-routes.tsx";
+import { createHomeRoutes } from "./home-routes.tsx";
+import { createPresenceRoutes } from "./presence-routes.tsx";
+import { RealtimeHub } from "./realtime.tsx";
+import { createSearchRoutes } from "./search-routes.tsx";
+import { createShareRoutes } from "./share-routes.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { createTaskRoutes } from "./task-routes.tsx";
+import { MailTransport } from "./transport.tsx";
+import { createVersionRoutes } from "./version-routes.tsx";
+
+const ROUTE_PREFIX = "/make-server-9c4af64c";
+
+export function createApp(storage: TaskStorage, auth: AuthProvider, transport: MailTransport, hub: RealtimeHub) {
+  const app = new Hono();
+
+  // Enable logger
+  app.use('*', logger(console.log));
+
+  // Enable CORS for all routes and methods
+  app.use(
+    "/*",
+    cors({
+      origin: "*",
+      allowHeaders: ["Content-Type", "Authorization"],
+      allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+      exposeHeaders: ["Content-Length"],
+      maxAge: 600,
+    }),
+  );
+
+  // Health check endpoint
+  app.get(`${ROUTE_PREFIX}/health`, (c) => {
+    return c.json({ status: "ok" });
+  });
+
+  // Everything else acts on the signed-in user's data
+  app.use(`${ROUTE_PREFIX}/tasks/*`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/tabs/*`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/share-links/*`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/events`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/viewing`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/home`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/closed-tabs/*`, requireAuth(auth));
+  app.use(`${ROUTE_PREFIX}/search`, requireAuth(auth));
+  app.route(ROUTE_PREFIX, createTaskRoutes(storage, hub));
+  app.route(ROUTE_PREFIX, createContentRoutes(storage));
+  app.route(ROUTE_PREFIX, createChatRoutes(storage));
+  app.route(ROUTE_PREFIX, createCommRoutes(storage, transport));
+  app.route(ROUTE_PREFIX, createVersionRoutes(storage, hub));
+  app.route(ROUTE_PREFIX, createCommentRoutes(storage));
+  app.route(ROUTE_PREFIX, createShareRoutes(storage, hub));
+  app.route(ROUTE_PREFIX, createEventRoutes(hub));
+  app.route(ROUTE_PREFIX, createPresenceRoutes(storage, hub));
+  app.route(ROUTE_PREFIX, createHomeRoutes(storage));
+  app.route(ROUTE_PREFIX, createClosedTabRoutes(storage));
+  app.route(ROUTE_PREFIX, createSearchRoutes(storage));
+
+  return app;
+}
@@ -0,0 +1,111 @@
+/**
+ * Authentication
+ * Routes never see tokens: the middleware below resolves the bearer token to a user
+ * through an AuthProvider and stores the user id on the request context
+ *
+ * Two providers:
+ * - Supabase Auth (production): verifies the access token the client got from signing in
+ * - Fake (local testing): accepts "fake:<userId>" tokens, so tests can act as any user
+ */
+
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import { createMiddleware } from "npm:hono/factory";
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export interface AuthProvider {
+  // Resolve an access token to its user, or null if the token is invalid or expired
+  getUser(token: string): Promise<AuthUser | null>;
+}
+
+// Hono environment for routes behind requireAuth
+export type AuthEnv = {
+  Variables: {
+    userId: string;
+    userEmail: string | null;
+  };
+};
+
+const FAKE_TOKEN_PREFIX = "fake:";
+
+export function createSupabaseAuth(supabaseUrl: string, serviceRoleKey: string): AuthProvider {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return {
+    async getUser(token) {
+      const { data, error } = await supabase.auth.getUser(token);
+      if (error || !data.user) return null;
+      return { id: data.user.id, email: data.user.email ?? null };
+    },
+  };
+}
+
+export function createFakeAuth(): AuthProvider {
+  return {
+    async getUser(token) {
+      if (!token.startsWith(FAKE_TOKEN_PREFIX)) return null;
+      const id = token.slice(FAKE_TOKEN_PREFIX.length);
+      return id ? { id, email: `${id}@example.test` } : null;
+    },
+  };
+}
+
+/**
+ * Pick the auth provider from the environment
+ * - AUTH=fake uses the fake provider (local testing without Supabase)
+ * - Otherwise Supabase Auth is used through SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY,
+ *   which Supabase provides to edge functions
+ *
+ * As with storage, there is no silent fallback: a missing key must never turn into
+ * a server that accepts fake tokens
+ */
+export function createAuthProvider(): AuthProvider {
+  if (Deno.env.get("AUTH") === "fake") {
+    console.log("Using fake auth");
+    return createFakeAuth();
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required (or set AUTH=fake)");
+  }
+
+  return createSupabaseAuth(supabaseUrl, serviceRoleKey);
+}
+
+/**
+ * Middleware that rejects requests without a valid bearer token (401)
+ * and sets c.get("userId") / c.get("userEmail") for the routes behind it
+ */
+export function requireAuth(auth: AuthProvider) {
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    const header = c.req.header("Authorization") ?? "";
+    const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+
+    if (!token) {
+      return c.json({ success: false, error: "Missing access token" }, 401);
+    }
+
+    let user: AuthUser | null;
+    try {
+      user = await auth.getUser(token);
+    } catch (err) {
+      console.error("Error verifying access token:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+
+    if (!user) {
+      return c.json({ success: false, error: "Invalid or expired access token" }, 401);
+    }
+
+    c.set("userId", user.id);
+    c.set("userEmail", user.email);
+    await next();
+  });
+}
@@ -0,0 +1,200 @@
+/**
+ * Chat routes
+ * Messages of chat tabs, stored per tab. History is paged from the newest message
+ * backwards, so opening a long chat only loads its last page
+ *
+ * Only a message's author can edit or delete it. Each user's last read time per tab
+ * is kept so the client can mark the messages that arrived since their last visit
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId"); viewers of a shared
+ * task can read the chat (and mark it read) but not post
+ */
+
+import { Hono } from "npm:hono";
+import { canEdit, getTabAccess } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { ChatMessage, MessageCursor } from "./types.tsx";
+import {
+  readBody,
+  validateMessageCreate,
+  validateMessageQuery,
+  validateMessageUpdate,
+} from "./validation.tsx";
+
+// Opaque to the client; parsed back by validateMessageQuery
+function encodeMessageCursor(cursor: MessageCursor): string {
+  return `${cursor.createdAt}:${cursor.id}`;
+}
+
+export function createChatRoutes(storage: TaskStorage) {
+  const routes = new Hono<AuthEnv>();
+
+  // Get a page of messages, oldest first: the latest ones, or the ones before a cursor.
+  // nextCursor loads the page before this one (null at the start of the history)
+  routes.get("/tabs/:tabId/messages", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateMessageQuery({ limit: c.req.query("limit"), before: c.req.query("before") });
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      // One extra message tells whether there is an older page
+      const { limit, before } = validation.value;
+      const newestFirst = await storage.listMessages(tabId, limit + 1, before);
+      const hasMore = newestFirst.length > limit;
+      const messages = newestFirst.slice(0, limit).reverse();
+
+      return c.json({
+        success: true,
+        messages,
+        nextCursor: hasMore ? encodeMessageCursor(messages[0]) : null,
+        lastReadAt: await storage.getLastReadAt(userId, tabId),
+      });
+    } catch (err) {
+      console.error("Error fetching messages:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Post a message. Sending the same id again returns the stored message, so retries are safe
+  routes.post("/tabs/:tabId/messages", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateMessageCreate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+
+      const access = await getTabAccess(storage, c, tabId);
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const existing = await storage.getMessage(tabId, validation.value.id);
+      if (existing) {
+        if (existing.authorId !== userId) {
+          return c.json({ success: false, error: "Message id already in use" }, 409);
+        }
+        return c.json({ success: true, message: existing });
+      }
+
+      const message: ChatMessage = {
+        id: validation.value.id,
+        authorId: userId,
+        authorName: c.get("userEmail") ?? "Unknown",
+        text: validation.value.text,
+        createdAt: Date.now(),
+        editedAt: null,
+      };
+      // The id may be taken on another tab, or by a request that got in since the check above
+      if (!(await storage.insertMessage(tabId, message))) {
+        return c.json({ success: false, error: "Message id already in use" }, 409);
+      }
+      // Your own message doesn't count as unread
+      await storage.setLastReadAt(userId, tabId, message.createdAt);
+
+      return c.json({ success: true, message }, 201);
+    } catch (err) {
+      console.error("Error posting message:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Edit a message's text (author only)
+  routes.put("/tabs/:tabId/messages/:messageId", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateMessageUpdate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+      const messageId = c.req.param("messageId");
+
+      const access = await getTabAccess(storage, c, tabId);
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const message = await storage.getMessage(tabId, messageId);
+      if (!message) {
+        return c.json({ success: false, error: "Message not found" }, 404);
+      }
+      if (message.authorId !== userId) {
+        return c.json({ success: false, error: "Only the author can edit a message" }, 403);
+      }
+
+      const updates = { text: validation.value.text, editedAt: Date.now() };
+      await storage.updateMessage(tabId, messageId, updates);
+      return c.json({ success: true, message: { ...message, ...updates } });
+    } catch (err) {
+      console.error("Error editing message:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Delete a message (author only); deleting one that is already gone succeeds
+  routes.delete("/tabs/:tabId/messages/:messageId", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const tabId = c.req.param("tabId");
+      const messageId = c.req.param("messageId");
+
+      const access = await getTabAccess(storage, c, tabId);
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const message = await storage.getMessage(tabId, messageId);
+      if (message && message.authorId !== userId) {
+        return c.json({ success: false, error: "Only the author can delete a message" }, 403);
+      }
+
+      if (message) {
+        await storage.deleteMessage(tabId, messageId);
+      }
+      return c.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting message:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Mark the tab's messages as read up to now
+  routes.put("/tabs/:tabId/last-read", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      const lastReadAt = Date.now();
+      await storage.setLastReadAt(userId, tabId, lastReadAt);
+      return c.json({ success: true, lastReadAt });
+    } catch (err) {
+      console.error("Error marking messages read:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
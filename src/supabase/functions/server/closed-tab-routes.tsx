@@ -0,0 +1,54 @@
+/**
+ * Closed tab routes
+ * The tab switcher's Recently Closed list: tabs are kept by the routes that delete them (see
+ * closed-tabs.tsx); these routes list the ones closed within the retention window and return one
+ * with its content. Restoring goes through the task routes, by creating the tab again
+ *
+ * Only closed tabs of tasks the user can still reach are included. Mounted behind
+ * requireAuth, so every handler acts on c.get("userId")
+ */
+
+import { Hono } from "npm:hono";
+import { getTaskAccess, listAccessibleTasks } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { CLOSED_TAB_RETENTION_MS } from "./closed-tabs.tsx";
+import { TaskStorage } from "./storage.tsx";
+
+export function createClosedTabRoutes(storage: TaskStorage) {
+  const routes = new Hono<AuthEnv>();
+
+  // List the tabs closed within the retention window without their content, newest first
+  routes.get("/closed-tabs", async (c) => {
+    try {
+      const tasks = await listAccessibleTasks(storage, c);
+      const closedTabs = await storage.listClosedTabs(
+        tasks.map((task) => task.id),
+        Date.now() - CLOSED_TAB_RETENTION_MS,
+      );
+
+      return c.json({ success: true, closedTabs });
+    } catch (err) {
+      console.error("Error fetching closed tabs:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Get one closed tab with its content
+  routes.get("/closed-tabs/:tabId", async (c) => {
+    try {
+      const closedTab = await storage.getClosedTab(c.req.param("tabId"));
+      const isKept = closedTab && closedTab.closedAt >= Date.now() - CLOSED_TAB_RETENTION_MS;
+
+      if (!isKept || !(await getTaskAccess(storage, c, closedTab.taskId))) {
+        return c.json({ success: false, error: "Closed tab not found" }, 404);
+      }
+
+      return c.json({ success: true, closedTab });
+    } catch (err) {
+      console.error("Error fetching closed tab:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,60 @@
+/**
+ * Recently closed tabs
+ * Before a tab is deleted, the routes call recordClosedTab to keep it (name, canvas type,
+ * position and content) for CLOSED_TAB_RETENTION_MS, so it can be restored from the tab
+ * switcher's Recently Closed list
+ *
+ * - Restoring is creating the tab again with the same id (as undoing a close does); the routes
+ *   then call reattachClosedTab, which puts the kept content back and forgets the closed tab
+ * - Only the tab and its content are kept: its chat messages, sent mail, comments and edit
+ *   history are deleted with it
+ * - Closed tabs past the retention window are pruned whenever another tab is closed
+ * - Like the edit history, this is best effort: a failure is logged and never fails the close
+ *   or the restore itself
+ */
+
+import { TaskStorage } from "./storage.tsx";
+
+export const CLOSED_TAB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// userId is the task owner's (see access.tsx); closedBy is whoever closed the tab
+export async function recordClosedTab(
+  storage: TaskStorage,
+  userId: string,
+  tabId: string,
+  closedBy: string,
+): Promise<void> {
+  try {
+    const found = await storage.findTab(userId, tabId);
+    if (!found) return;
+
+    const stored = await storage.getTabContent(userId, tabId);
+    const now = Date.now();
+    await storage.upsertClosedTab({
+      taskId: found.taskId,
+      tab: { ...found.tab, isActive: false, commentCount: 0 },
+      index: found.index,
+      content: stored?.content ?? null,
+      closedBy,
+      closedAt: now,
+    });
+    await storage.deleteClosedTabsBefore(now - CLOSED_TAB_RETENTION_MS);
+  } catch (err) {
+    console.error("Error recording closed tab:", err);
+  }
+}
+
+// Call after a tab is created: if it is a closed tab coming back, its content comes back too
+export async function reattachClosedTab(storage: TaskStorage, userId: string, tabId: string): Promise<void> {
+  try {
+    const closedTab = await storage.getClosedTab(tabId);
+    if (!closedTab) return;
+
+    if (closedTab.content !== null && !(await storage.getTabContent(userId, tabId))) {
+      await storage.setTabContent(userId, tabId, closedTab.content);
+    }
+    await storage.deleteClosedTab(tabId);
+  } catch (err) {
+    console.error("Error restoring closed tab:", err);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Comm routes
+ * Sending from comm tabs. The draft being written is ordinary tab content (saved through
+ * the content routes); sending hands it to the MailTransport and keeps a record of the
+ * sent message on the tab
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId"); viewers of a shared
+ * task can see what was sent but not send
+ */
+
+import { Hono } from "npm:hono";
+import { canEdit, getTabAccess } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { MailTransport } from "./transport.tsx";
+import { SentMail } from "./types.tsx";
+import { readBody, validateMailSend } from "./validation.tsx";
+
+export function createCommRoutes(storage: TaskStorage, transport: MailTransport) {
+  const routes = new Hono<AuthEnv>();
+
+  // Get the messages sent from a tab, oldest first
+  routes.get("/tabs/:tabId/mail", async (c) => {
+    try {
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      const mail = await storage.listSentMail(tabId);
+      return c.json({ success: true, mail });
+    } catch (err) {
+      console.error("Error fetching sent mail:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Send a message. Sending the same id again returns the earlier record without delivering twice
+  routes.post("/tabs/:tabId/mail", async (c) => {
+    try {
+      const validation = validateMailSend(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+
+      const access = await getTabAccess(storage, c, tabId);
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const existing = await storage.getSentMail(tabId, validation.value.id);
+      if (existing) {
+        return c.json({ success: true, mail: existing });
+      }
+
+      const { id, attachments, ...message } = validation.value;
+      const from = c.get("userEmail");
+
+      // A transport failure is reported as 502 and nothing is recorded, so the client keeps its draft
+      let deliveryId: string;
+      try {
+        ({ deliveryId } = await transport.send({ from, ...message, attachments }));
+      } catch (err) {
+        console.error("Error delivering mail:", err);
+        return c.json({ success: false, error: `Could not send: ${String(err)}` }, 502);
+      }
+
+      const mail: SentMail = {
+        id,
+        from,
+        ...message,
+        attachments: attachments.map(({ name, type, size }) => ({ name, type, size })),
+        sentAt: Date.now(),
+        deliveryId,
+      };
+      await storage.insertSentMail(tabId, mail);
+
+      return c.json({ success: true, mail }, 201);
+    } catch (err) {
+      console.error("Error sending mail:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,161 @@
+/**
+ * Comment routes
+ * Comments on a tab, of any canvas type. A top-level comment starts a thread; replies
+ * answer a top-level comment (threads are one level deep). Resolving a top-level comment
+ * resolves its thread, and the tab's commentCount is its number of unresolved threads
+ *
+ * Each user's last read time per tab is kept so the client can mark the comments that
+ * were added since their last visit
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId"); viewers of a shared
+ * task can read the comments (and mark them read) but not post or resolve
+ */
+
+import { Hono } from "npm:hono";
+import { canEdit, getTabAccess } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { TabComment } from "./types.tsx";
+import { readBody, validateCommentCreate, validateCommentUpdate } from "./validation.tsx";
+
+export function createCommentRoutes(storage: TaskStorage) {
+  const routes = new Hono<AuthEnv>();
+
+  // List a tab's comments, oldest first, with when the user last read them
+  routes.get("/tabs/:tabId/comments", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      return c.json({
+        success: true,
+        comments: await storage.listComments(tabId),
+        lastReadAt: await storage.getCommentsReadAt(userId, tabId),
+      });
+    } catch (err) {
+      console.error("Error fetching comments:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Post a comment or a reply. Sending the same id again returns the stored comment, so
+  // retries are safe
+  routes.post("/tabs/:tabId/comments", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateCommentCreate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+      const { id, body, parentId } = validation.value;
+
+      const access = await getTabAccess(storage, c, tabId);
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const existing = await storage.getComment(tabId, id);
+      if (existing) {
+        if (existing.authorId !== userId) {
+          return c.json({ success: false, error: "Comment id already in use" }, 409);
+        }
+        return c.json({ success: true, comment: existing });
+      }
+
+      if (parentId !== null) {
+        const parent = await storage.getComment(tabId, parentId);
+        if (!parent) {
+          return c.json({ success: false, error: "Parent comment not found" }, 404);
+        }
+        if (parent.parentId !== null) {
+          return c.json({ success: false, error: "Replies must answer a top-level comment" }, 400);
+        }
+      }
+
+      const comment: TabComment = {
+        id,
+        authorId: userId,
+        authorName: c.get("userEmail") ?? "Unknown",
+        body,
+        createdAt: Date.now(),
+        parentId,
+        resolved: false,
+      };
+      // The id may be taken on another tab, or by a request that got in since the check above
+      if (!(await storage.insertComment(tabId, comment))) {
+        return c.json({ success: false, error: "Comment id already in use" }, 409);
+      }
+      // Your own comment doesn't count as unread
+      await storage.setCommentsReadAt(userId, tabId, comment.createdAt);
+
+      return c.json({ success: true, comment }, 201);
+    } catch (err) {
+      console.error("Error posting comment:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Resolve or reopen a thread (its top-level comment)
+  routes.put("/tabs/:tabId/comments/:commentId", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateCommentUpdate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+      const commentId = c.req.param("commentId");
+
+      const access = await getTabAccess(storage, c, tabId);
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const comment = await storage.getComment(tabId, commentId);
+      if (!comment) {
+        return c.json({ success: false, error: "Comment not found" }, 404);
+      }
+      if (comment.parentId !== null) {
+        return c.json({ success: false, error: "Only a top-level comment can be resolved" }, 400);
+      }
+
+      await storage.setCommentResolved(tabId, commentId, validation.value.resolved);
+      return c.json({ success: true, comment: { ...comment, resolved: validation.value.resolved } });
+    } catch (err) {
+      console.error("Error updating comment:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Mark the tab's comments as read up to now
+  routes.put("/tabs/:tabId/comments-last-read", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      const lastReadAt = Date.now();
+      await storage.setCommentsReadAt(userId, tabId, lastReadAt);
+      return c.json({ success: true, lastReadAt });
+    } catch (err) {
+      console.error("Error marking comments read:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
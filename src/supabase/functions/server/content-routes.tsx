@@ -0,0 +1,70 @@
+/**
+ * Tab content routes
+ * Canvas content (the doc's text, ...) is loaded and saved per tab, separately from
+ * the task/tab routes, so the task list stays small and content is only fetched when
+ * a tab is shown. Saves replace the whole content (last write wins) and do not change
+ * the task's revision. Every save is recorded in the tab's edit history (history.tsx)
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId"); viewers of a shared
+ * task can load content but not save it
+ */
+
+import { Hono } from "npm:hono";
+import { canEdit, getTabAccess } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { recordTabVersion } from "./history.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { readBody, validateTabContent } from "./validation.tsx";
+
+export function createContentRoutes(storage: TaskStorage) {
+  const routes = new Hono<AuthEnv>();
+
+  // Get a tab's content (null if nothing has been saved yet)
+  routes.get("/tabs/:tabId/content", async (c) => {
+    try {
+      const access = await getTabAccess(storage, c, c.req.param("tabId"));
+
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      const stored = await storage.getTabContent(access.ownerId, access.tab.id);
+      return c.json({
+        success: true,
+        content: stored?.content ?? null,
+        updatedAt: stored?.updatedAt ?? null,
+      });
+    } catch (err) {
+      console.error("Error fetching tab content:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Replace a tab's content
+  routes.put("/tabs/:tabId/content", async (c) => {
+    try {
+      const validation = validateTabContent(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const access = await getTabAccess(storage, c, c.req.param("tabId"));
+
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const { ownerId, tab } = access;
+      const stored = await storage.setTabContent(ownerId, tab.id, validation.value.content);
+      await recordTabVersion(storage, ownerId, tab.id, "content");
+      return c.json({ success: true, updatedAt: stored.updatedAt });
+    } catch (err) {
+      console.error("Error saving tab content:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
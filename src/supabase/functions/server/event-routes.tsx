@@ -0,0 +1,63 @@
+/**
+ * Event routes
+ * GET /events is a server-sent event stream of the realtime events (see realtime.tsx) for the
+ * tasks the user can reach. Each event is named by its type, with the event as JSON data;
+ * a comment line every PING_INTERVAL_MS keeps proxies from closing an idle stream
+ *
+ * Edge functions have a wall-clock limit, so a stream ends after STREAM_DURATION_MS and the
+ * client reconnects (refetching anything it may have missed in between)
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId")
+ */
+
+import { Hono } from "npm:hono";
+import { streamSSE } from "npm:hono/streaming";
+import { AuthEnv } from "./auth.tsx";
+import { isInAudience, RealtimeHub, RealtimeMessage } from "./realtime.tsx";
+
+const PING_INTERVAL_MS = 25 * 1000;
+const STREAM_DURATION_MS = 2 * 60 * 1000;
+
+export function createEventRoutes(hub: RealtimeHub) {
+  const routes = new Hono<AuthEnv>();
+
+  // The user's realtime events, from now until the stream ends
+  routes.get("/events", (c) => {
+    const userId = c.get("userId");
+    const email = c.get("userEmail");
+
+    return streamSSE(c, async (stream) => {
+      // Messages arrive while a write is still in flight, so writes are chained
+      let writing = Promise.resolve();
+      const send = (write: () => Promise<void>) => {
+        writing = writing.then(write).catch((err) => console.error("Error writing event:", err));
+      };
+
+      const unsubscribe = hub.subscribe((message: RealtimeMessage) => {
+        if (!isInAudience(message.audience, userId, email)) return;
+        send(() => stream.writeSSE({ event: message.event.type, data: JSON.stringify(message.event) }));
+      });
+
+      // Tell the client the stream is open, so it knows to catch up on what it missed
+      send(() => stream.writeSSE({ event: "ready", data: "{}" }));
+      const ping = setInterval(() => send(() => stream.write(": ping\n\n")), PING_INTERVAL_MS);
+
+      // Until the client goes away or the stream has run its course
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, STREAM_DURATION_MS);
+        stream.onAbort(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+
+      clearInterval(ping);
+      unsubscribe();
+      await writing;
+    }, async (err) => {
+      console.error("Error streaming events:", err);
+    });
+  });
+
+  return routes;
+}
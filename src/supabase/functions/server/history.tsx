@@ -0,0 +1,62 @@
+/**
+ * Tab edit history
+ * After a tab is renamed, given a canvas type, has its content saved or is restored, the
+ * routes call recordTabVersion to snapshot the tab (name, canvas type and content)
+ *
+ * - Content saves arrive every second or so while typing, so saves within
+ *   CONTENT_MERGE_WINDOW_MS of the latest content version update it instead of adding one
+ * - A snapshot identical to the latest version is not recorded (saving unchanged content,
+ *   renaming to the same name)
+ * - Only the newest MAX_TAB_VERSIONS are kept per tab
+ * - History is best effort: a failed snapshot is logged and never fails the change itself
+ */
+
+import { TaskStorage } from "./storage.tsx";
+import { TabVersion, TabVersionKind } from "./types.tsx";
+
+export const MAX_TAB_VERSIONS = 100;
+
+const CONTENT_MERGE_WINDOW_MS = 5 * 60 * 1000;
+
+// userId is the task owner's (see access.tsx), whoever made the change
+export async function recordTabVersion(
+  storage: TaskStorage,
+  userId: string,
+  tabId: string,
+  kind: TabVersionKind,
+): Promise<void> {
+  try {
+    const found = await storage.findTab(userId, tabId);
+    if (!found) return;
+
+    const stored = await storage.getTabContent(userId, tabId);
+    const snapshot = {
+      name: found.tab.name,
+      canvasType: found.tab.canvasType,
+      content: stored?.content ?? null,
+    };
+    const now = Date.now();
+
+    const [latestSummary] = await storage.listTabVersions(tabId, 1);
+    const latest = latestSummary ? await storage.getTabVersion(tabId, latestSummary.id) : null;
+
+    if (latest) {
+      const isUnchanged =
+        latest.name === snapshot.name &&
+        latest.canvasType === snapshot.canvasType &&
+        JSON.stringify(latest.content) === JSON.stringify(snapshot.content);
+      if (isUnchanged) return;
+
+      if (kind === "content" && latest.kind === "content" && now - latest.createdAt < CONTENT_MERGE_WINDOW_MS) {
+        await storage.updateTabVersion(tabId, latest.id, { ...snapshot, updatedAt: now });
+        return;
+      }
+    }
+
+    const version: TabVersion = { id: crypto.randomUUID(), kind, ...snapshot, createdAt: now, updatedAt: now };
+    await storage.insertTabVersion(tabId, version);
+    await storage.pruneTabVersions(tabId, MAX_TAB_VERSIONS);
+  } catch (err) {
+    console.error("Error recording tab version:", err);
+  }
+}
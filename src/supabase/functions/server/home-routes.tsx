@@ -0,0 +1,51 @@
+/**
+ * Home routes
+ * GET /home is what the Home screen shows besides the tasks the app already has: the tabs the
+ * user had on screen most recently (recorded by the viewing heartbeats, see presence-routes.tsx)
+ * and the tabs with comments they haven't read
+ *
+ * Only tabs of tasks the user can still reach are included, so a task that is no longer shared
+ * with them drops out. Mounted behind requireAuth, so every handler acts on c.get("userId")
+ */
+
+import { Hono } from "npm:hono";
+import { listAccessibleTasks } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { TaskStorage } from "./storage.tsx";
+
+const RECENT_TAB_LIMIT = 8;
+
+export function createHomeRoutes(storage: TaskStorage) {
+  const routes = new Hono<AuthEnv>();
+
+  routes.get("/home", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const tasks = await listAccessibleTasks(storage, c);
+
+      // tabId -> the task it is in, for every tab the user can reach
+      const taskIdByTab = new Map(tasks.flatMap((task) => task.tabs.map((tab) => [tab.id, task.id])));
+
+      // Visits to tabs the user lost access to are skipped, so ask for a few extra
+      const visits = await storage.listTabVisits(userId, RECENT_TAB_LIMIT * 2);
+      const recentTabs = visits
+        .filter((visit) => taskIdByTab.has(visit.tabId))
+        .slice(0, RECENT_TAB_LIMIT)
+        .map((visit) => ({ taskId: taskIdByTab.get(visit.tabId)!, ...visit }));
+
+      const unreadCounts = await storage.countUnreadComments(userId, [...taskIdByTab.keys()]);
+      const unreadComments = Object.entries(unreadCounts).map(([tabId, count]) => ({
+        taskId: taskIdByTab.get(tabId)!,
+        tabId,
+        count,
+      }));
+
+      return c.json({ success: true, recentTabs, unreadComments });
+    } catch (err) {
+      console.error("Error fetching home:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
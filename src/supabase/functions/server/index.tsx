@@ -1,67 +1,29 @@
-import { Hono } from "npm:hono";
-import { cors } from "npm:hono/cors";
-import { logger } from "npm:hono/logger";
-import * as kv from "./kv_store.tsx";
-
-const app = new Hono();
-
-// Hardcoded user ID for MVP
-const HARDCODED_USER_ID = "sparo-user-1";
-const TASKS_KEY = `${HARDCODED_USER_ID}:tasks`;
-
-// Enable logger
-app.use('*', logger(console.log));
-
-// Enable CORS for all routes and methods
-app.use(
-  "/*",
-  cors({
-    origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
-    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    exposeHeaders: ["Content-Length"],
-    maxAge: 600,
-  }),
-);
-
-// Health check endpoint
-app.get("/make-server-9c4af64c/health", (c) => {
-  return c.json({ status: "ok" });
-});
-
-// Get all tasks and tabs for the user
-app.get("/make-server-9c4af64c/tasks", async (c) => {
-  try {
-    const tasks = await kv.get(TASKS_KEY);
-    
-    if (!tasks) {
-      return c.json({ success: true, tasks: [] });
-    }
-
-    return c.json({ success: true, tasks: JSON.parse(tasks) });
-  } catch (err) {
-    console.error("Error fetching tasks from KV store:", err);
-    return c.json({ success: false, error: String(err) }, 500);
-  }
-});
-
-// Save all tasks (create or update)
-app.post("/make-server-9c4af64c/tasks", async (c) => {
-  try {
-    const body = await c.req.json();
-    const { tasks } = body;
-
-    if (!tasks || !Array.isArray(tasks)) {
-      return c.json({ success: false, error: "tasks array is required" }, 400);
-    }
-
-    await kv.set(TASKS_KEY, JSON.stringify(tasks));
-
-    return c.json({ success: true });
-  } catch (err) {
-    console.error("Error saving tasks to KV store:", err);
-    return c.json({ success: false, error: String(err) }, 500);
-  }
-});
-
-Deno.serve(app.fetch);
\ No newline at end of file
+import { createApp } from "./app.tsx";
+import { createAuthProvider } from "./auth.tsx";
+import { createRealtimeHub } from "./realtime.tsx";
+import { createStorage } from "./storage.tsx";
+import { createMailTransport } from "./transport.tsx";
+
+/**
+ * Edge function entry point
+ * Uses Postgres storage, Postgres realtime events and Supabase Auth on Supabase, and the
+ * mock mail transport unless MAIL_TRANSPORT says otherwise; run locally without Supabase with:
+ *   STORAGE=memory AUTH=fake deno run --allow-net --allow-env index.tsx
+ * (the fake provider accepts "Authorization: Bearer fake:<userId>")
+ */
+
+const storage = createStorage();
+const auth = createAuthProvider();
+const transport = createMailTransport();
+const hub = createRealtimeHub();
+
+// Create tables and import old KV data before serving; a failure is logged rather than
+// taking the whole function down, and the next instance to start tries again. Schema
+// changes only run from here: there is no HTTP route that runs DDL
+try {
+  await storage.init();
+} catch (err) {
+  console.error("Error initializing storage:", err);
+}
+
+Deno.serve(createApp(storage, auth, transport, hub).fetch);
@@ -1,35 +1,232 @@
 /**
  * Database Initialization Script
- * Run this once to create the tables for Sparo tab management
+ * Creates the tables for Sparo tab management; run by the Postgres storage on startup
+ * (every statement is idempotent, so running it again is safe)
+ *
+ * Ids are TEXT rather than UUID because the client generates ids like "tab-<timestamp>-<suffix>"
+ * and data imported from the KV store keeps its original ids
  */
 
 export const createTablesSQL = `
 -- Create tasks table
 CREATE TABLE IF NOT EXISTS tasks (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
   name TEXT NOT NULL,
   user_id TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT false,
+  revision INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- Tasks created before the active task was stored, or before revisions were tracked
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT false;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+
 -- Create tabs table
 CREATE TABLE IF NOT EXISTS tabs (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   canvas_type TEXT CHECK (canvas_type IN ('doc', 'sheet', 'comm', 'chat')),
   is_active BOOLEAN DEFAULT false,
-  comment_count INTEGER DEFAULT 0,
+  pinned BOOLEAN NOT NULL DEFAULT false,
   position INTEGER NOT NULL,
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- The first version of this script used UUID ids; convert them to TEXT before any table
+-- below references them. The foreign key has to go while the two sides differ in type
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = 'tasks' AND column_name = 'id') = 'uuid' THEN
+    ALTER TABLE tabs DROP CONSTRAINT IF EXISTS tabs_task_id_fkey;
+    ALTER TABLE tasks
+      ALTER COLUMN id DROP DEFAULT,
+      ALTER COLUMN id TYPE TEXT,
+      ALTER COLUMN id SET DEFAULT gen_random_uuid()::text;
+    ALTER TABLE tabs
+      ALTER COLUMN id DROP DEFAULT,
+      ALTER COLUMN id TYPE TEXT,
+      ALTER COLUMN id SET DEFAULT gen_random_uuid()::text,
+      ALTER COLUMN task_id TYPE TEXT;
+    ALTER TABLE tabs
+      ADD CONSTRAINT tabs_task_id_fkey FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Comment counts are derived from the comments table (tabs created before that stored one)
+ALTER TABLE tabs DROP COLUMN IF EXISTS comment_count;
+
+-- Tabs created before tabs could be pinned
+ALTER TABLE tabs ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false;
+
+-- Canvas content per tab (doc text, ...), loaded lazily by the client
+CREATE TABLE IF NOT EXISTS tab_contents (
+  tab_id TEXT PRIMARY KEY REFERENCES tabs(id) ON DELETE CASCADE,
+  content JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Chat messages on chat tabs
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id TEXT PRIMARY KEY,
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  author_id TEXT NOT NULL,
+  author_name TEXT NOT NULL,
+  text TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  edited_at TIMESTAMPTZ
+);
+
+-- When each user last read each chat tab
+CREATE TABLE IF NOT EXISTS chat_reads (
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  last_read_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (tab_id, user_id)
+);
+
+-- Messages sent from comm tabs (attachment metadata only)
+CREATE TABLE IF NOT EXISTS sent_mail (
+  id TEXT PRIMARY KEY,
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  from_address TEXT,
+  to_addresses TEXT[] NOT NULL,
+  cc_addresses TEXT[] NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  attachments JSONB NOT NULL,
+  delivery_id TEXT NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Comments on tabs; replies point at the top-level comment they answer
+CREATE TABLE IF NOT EXISTS comments (
+  id TEXT PRIMARY KEY,
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  parent_id TEXT REFERENCES comments(id) ON DELETE CASCADE,
+  author_id TEXT NOT NULL,
+  author_name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  resolved BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- When each user last looked at each tab's comments
+CREATE TABLE IF NOT EXISTS comment_reads (
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  last_read_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (tab_id, user_id)
+);
+
+-- Snapshots of tabs after each change (the Edit-History timeline)
+CREATE TABLE IF NOT EXISTS tab_versions (
+  id TEXT PRIMARY KEY,
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  name TEXT NOT NULL,
+  canvas_type TEXT,
+  content JSONB,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+-- Tabs as they were when closed, kept for a while so they can be restored (the Recently
+-- Closed list); the tab row itself is gone, so this keeps what's needed to bring it back
+CREATE TABLE IF NOT EXISTS closed_tabs (
+  tab_id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  canvas_type TEXT,
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL,
+  content JSONB,
+  tab_created_at TIMESTAMPTZ NOT NULL,
+  closed_by TEXT NOT NULL,
+  closed_at TIMESTAMPTZ NOT NULL
+);
+
+-- Collaborators on tasks, keyed by email (invites come before the invitee has an account)
+CREATE TABLE IF NOT EXISTS task_members (
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  user_id TEXT,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, email)
+);
+
+-- Links that add whoever opens them to a task
+CREATE TABLE IF NOT EXISTS share_links (
+  token TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ
+);
+
+-- Whose app is showing which tab, one row per app instance (kept alive by heartbeats)
+CREATE TABLE IF NOT EXISTS tab_viewers (
+  client_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  seen_at TIMESTAMPTZ NOT NULL
+);
+
+-- When each user last had a tab on screen (the Home screen's recent tabs)
+CREATE TABLE IF NOT EXISTS tab_visits (
+  user_id TEXT NOT NULL,
+  tab_id TEXT NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  visited_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (user_id, tab_id)
+);
+
+-- Track one-time data migrations (e.g. importing the old KV store blobs)
+CREATE TABLE IF NOT EXISTS sparo_migrations (
+  name TEXT PRIMARY KEY,
+  applied_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable Row Level Security; with no policies, only the server's direct
+-- database connection can read or write these tables
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tabs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_contents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_reads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sent_mail ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE closed_tabs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_reads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_viewers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_visits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sparo_migrations ENABLE ROW LEVEL SECURITY;
+
 -- Create indexes
 CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON tasks(user_id);
 CREATE INDEX IF NOT EXISTS idx_tabs_task_id ON tabs(task_id);
 CREATE INDEX IF NOT EXISTS idx_tabs_position ON tabs(task_id, position);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_tab ON chat_messages(tab_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_sent_mail_tab ON sent_mail(tab_id, sent_at);
+CREATE INDEX IF NOT EXISTS idx_tab_versions_tab ON tab_versions(tab_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_closed_tabs_task ON closed_tabs(task_id, closed_at);
+CREATE INDEX IF NOT EXISTS idx_closed_tabs_closed ON closed_tabs(closed_at);
+CREATE INDEX IF NOT EXISTS idx_comments_tab ON comments(tab_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_members_user ON task_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_members_email ON task_members(email);
+CREATE INDEX IF NOT EXISTS idx_share_links_task ON share_links(task_id);
+CREATE INDEX IF NOT EXISTS idx_tab_viewers_task ON tab_viewers(task_id, seen_at);
+CREATE INDEX IF NOT EXISTS idx_tab_viewers_seen ON tab_viewers(seen_at);
+CREATE INDEX IF NOT EXISTS idx_tab_visits_user ON tab_visits(user_id, visited_at);
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -0,0 +1,98 @@
+/**
+ * One-time migration from the KV store to the relational tables
+ * Before the tasks/tabs tables were used, every user's tasks lived as one JSON
+ * blob in kv_store_9c4af64c under "<userId>:tasks". This imports those blobs once;
+ * the KV rows are left in place so the import can be checked or redone by hand
+ */
+
+import postgres from "npm:postgres@3.4.5";
+
+const MIGRATION_NAME = "kv_tasks_to_relational";
+
+// Before accounts existed every task was saved under this user id, which nobody can sign in as;
+// GET /tasks hands its tasks to the first user who loads theirs
+export const LEGACY_USER_ID = "sparo-user-1";
+const KV_TASKS_SUFFIX = ":tasks";
+
+interface LegacyTab {
+  id: string;
+  name: string;
+  canvasType: string | null;
+  createdAt?: number;
+  isActive?: boolean;
+  commentCount?: number;
+}
+
+interface LegacyTask {
+  id: string;
+  name: string;
+  createdAt?: number;
+  isActive?: boolean;
+  tabs?: LegacyTab[];
+}
+
+// Blobs were written with JSON.stringify into a JSONB column, so the value may be a string
+function parseBlob(value: unknown): LegacyTask[] {
+  const parsed = typeof value === "string" ? JSON.parse(value) : value;
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+export async function migrateKvBlobs(sql: postgres.Sql): Promise<void> {
+  await sql.begin(async (tx) => {
+    // Take the migration row first; a concurrent instance blocks here and then sees it exists
+    const claimed = await tx`
+      INSERT INTO sparo_migrations (name) VALUES (${MIGRATION_NAME})
+      ON CONFLICT (name) DO NOTHING
+      RETURNING name
+    `;
+    if (claimed.length === 0) return;
+
+    // The KV table only exists for projects that used the old storage
+    const [{ exists }] = await tx<{ exists: boolean }[]>`
+      SELECT to_regclass('kv_store_9c4af64c') IS NOT NULL AS exists
+    `;
+    if (!exists) return;
+
+    const blobs = await tx<{ key: string; value: unknown }[]>`
+      SELECT key, value FROM kv_store_9c4af64c WHERE key LIKE ${"%" + KV_TASKS_SUFFIX}
+    `;
+
+    let importedTasks = 0;
+    for (const { key, value } of blobs) {
+      const userId = key.slice(0, -KV_TASKS_SUFFIX.length);
+
+      let tasks: LegacyTask[];
+      try {
+        tasks = parseBlob(value);
+      } catch (err) {
+        console.error(`Skipping unreadable KV blob ${key}:`, err);
+        continue;
+      }
+
+      for (const [taskIndex, task] of tasks.entries()) {
+        // Blobs saved before multi-task support have no isActive; the first task was the active one
+        const taskIsActive = task.isActive ?? taskIndex === 0;
+        const inserted = await tx`
+          INSERT INTO tasks (id, name, user_id, is_active, created_at)
+          VALUES (${task.id}, ${task.name}, ${userId}, ${taskIsActive},
+                  ${new Date(task.createdAt ?? Date.now())})
+          ON CONFLICT (id) DO NOTHING
+          RETURNING id
+        `;
+        if (inserted.length === 0) continue;
+        importedTasks++;
+
+        for (const [position, tab] of (task.tabs ?? []).entries()) {
+          await tx`
+            INSERT INTO tabs (id, task_id, name, canvas_type, is_active, position, created_at)
+            VALUES (${tab.id}, ${task.id}, ${tab.name}, ${tab.canvasType}, ${tab.isActive ?? false},
+                    ${position}, ${new Date(tab.createdAt ?? Date.now())})
+            ON CONFLICT (id) DO NOTHING
+          `;
+        }
+      }
+    }
+
+    console.log(`Migrated ${importedTasks} tasks from ${blobs.length} KV blobs`);
+  });
+}
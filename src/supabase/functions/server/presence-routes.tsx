@@ -0,0 +1,85 @@
+/**
+ * Presence routes
+ * Who is looking at which tab. Each app instance (clientId) sends a heartbeat with the tab it
+ * is showing; the server keeps the latest one per app and forgets apps it hasn't heard from
+ * in PRESENCE_TIMEOUT_MS (closed without saying goodbye, or offline)
+ *
+ * Every heartbeat is also passed on to the other people on the task as a viewing event, so
+ * their avatar stacks update right away; GET /tasks/:taskId/viewers fills them in when a task
+ * is opened or the event stream reconnects
+ *
+ * Heartbeats also record when the user last had each tab on screen, for the Home screen's
+ * recent tabs (see home-routes.tsx)
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId")
+ */
+
+import { Hono } from "npm:hono";
+import { getTabAccess, getTaskAccess } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { publishEvent, RealtimeHub } from "./realtime.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { readBody, validateViewing } from "./validation.tsx";
+
+// Apps send a heartbeat every 30s, so this allows for one that's late or lost
+const PRESENCE_TIMEOUT_MS = 75 * 1000;
+
+export function createPresenceRoutes(storage: TaskStorage, hub: RealtimeHub) {
+  const routes = new Hono<AuthEnv>();
+
+  // Heartbeat: the tab the user's app is showing (tabId null once it isn't showing the task)
+  routes.post("/viewing", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateViewing(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { clientId, taskId, tabId } = validation.value;
+
+      const access = tabId === null
+        ? await getTaskAccess(storage, c, taskId)
+        : await getTabAccess(storage, c, tabId);
+      if (!access || access.taskId !== taskId) {
+        return c.json({ success: false, error: tabId === null ? "Task not found" : "Tab not found" }, 404);
+      }
+
+      const now = Date.now();
+      const userName = c.get("userEmail") ?? "Someone";
+      if (tabId === null) {
+        await storage.deleteTabViewer(clientId, userId);
+      } else {
+        await storage.upsertTabViewer({ clientId, userId, userName, taskId, tabId, seenAt: now });
+        await storage.recordTabVisit(userId, tabId, now);
+      }
+      await storage.deleteStaleTabViewers(now - PRESENCE_TIMEOUT_MS);
+
+      await publishEvent(storage, hub, { type: "viewing", clientId, userId, userName, taskId, tabId });
+      return c.json({ success: true });
+    } catch (err) {
+      console.error("Error announcing viewing:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Everyone viewing the task's tabs right now, with the server's clock to compare seenAt to
+  routes.get("/tasks/:taskId/viewers", async (c) => {
+    try {
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+
+      const now = Date.now();
+      const viewers = await storage.listTabViewers(taskId, now - PRESENCE_TIMEOUT_MS);
+      return c.json({ success: true, viewers, now });
+    } catch (err) {
+      console.error("Error fetching viewers:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,148 @@
+/**
+ * Realtime events
+ * Routes publish what they changed to a RealtimeHub, which hands every message to the open
+ * event streams (GET /events, see event-routes.tsx); each stream passes on the messages
+ * addressed to its user. Events only name what changed (clients refetch the task), so they
+ * stay small
+ *
+ * Two hubs:
+ * - Postgres (production): LISTEN/NOTIFY, so a message published by one edge function
+ *   instance reaches the streams held open by the others
+ * - Memory (local testing): delivers within the process
+ */
+
+import postgres from "npm:postgres@3.4.5";
+import { TaskStorage } from "./storage.tsx";
+
+export type RealtimeEvent =
+  // A task or its tabs changed; revision is the task's new revision
+  | { type: "task-updated"; taskId: string; revision: number }
+  // A task was shared with the user, or their role on it changed
+  | { type: "task-shared"; taskId: string }
+  // A task was deleted, or the user no longer has access to it
+  | { type: "task-deleted"; taskId: string }
+  // Someone's app (clientId) is showing a tab of the task; tabId null once it no longer is
+  | { type: "viewing"; clientId: string; userId: string; userName: string; taskId: string; tabId: string | null };
+
+// Who a message is for: users by id, and members who haven't joined yet by email (lowercase)
+export interface Audience {
+  userIds: string[];
+  emails: string[];
+}
+
+export interface RealtimeMessage {
+  event: RealtimeEvent;
+  audience: Audience;
+}
+
+export interface RealtimeHub {
+  publish(message: RealtimeMessage): Promise<void>;
+  // Called with every message published from now on; returns the unsubscribe function
+  subscribe(listener: (message: RealtimeMessage) => void): () => void;
+}
+
+const CHANNEL = "realtime_events";
+
+export function createMemoryHub(): RealtimeHub {
+  const listeners = new Set<(message: RealtimeMessage) => void>();
+
+  return {
+    async publish(message) {
+      for (const listener of listeners) listener(message);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// Needs a direct database connection: the transaction pooler doesn't support LISTEN
+export function createPostgresHub(databaseUrl: string): RealtimeHub {
+  const sql = postgres(databaseUrl, { prepare: false });
+  const listeners = new Set<(message: RealtimeMessage) => void>();
+  let listening: Promise<unknown> | null = null;
+
+  // LISTEN once for the whole instance, on the first subscriber
+  const startListening = () => {
+    listening = sql
+      .listen(CHANNEL, (payload) => {
+        const message = JSON.parse(payload) as RealtimeMessage;
+        for (const listener of listeners) listener(message);
+      })
+      .catch((err) => {
+        console.error("Error listening for realtime events:", err);
+        listening = null;
+      });
+  };
+
+  return {
+    async publish(message) {
+      await sql.notify(CHANNEL, JSON.stringify(message));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      if (!listening) startListening();
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Pick the hub the same way createStorage picks storage
+ * - STORAGE=memory: the memory hub
+ * - Otherwise Postgres LISTEN/NOTIFY through SUPABASE_DB_URL, which is required
+ */
+export function createRealtimeHub(): RealtimeHub {
+  if (Deno.env.get("STORAGE") === "memory") {
+    console.log("Using in-memory realtime hub");
+    return createMemoryHub();
+  }
+
+  const databaseUrl = Deno.env.get("SUPABASE_DB_URL");
+  if (!databaseUrl) {
+    throw new Error("SUPABASE_DB_URL is required (or set STORAGE=memory)");
+  }
+
+  return createPostgresHub(databaseUrl);
+}
+
+/**
+ * Everyone with access to a task: its owner and its members (null if the task is gone)
+ */
+export async function taskAudience(storage: TaskStorage, taskId: string): Promise<Audience | null> {
+  const ownerId = await storage.getTaskOwnerId(taskId);
+  if (!ownerId) return null;
+
+  const members = await storage.listTaskMembers(taskId);
+  return {
+    userIds: [ownerId, ...members.flatMap((m) => (m.userId ? [m.userId] : []))],
+    emails: members.map((m) => m.email),
+  };
+}
+
+export function isInAudience(audience: Audience, userId: string, email: string | null): boolean {
+  return audience.userIds.includes(userId) || (email !== null && audience.emails.includes(email.toLowerCase()));
+}
+
+/**
+ * Publish an event, to everyone with access to its task unless an audience is given
+ * The change it reports is already saved, so a failure is only logged
+ */
+export async function publishEvent(
+  storage: TaskStorage,
+  hub: RealtimeHub,
+  event: RealtimeEvent,
+  audience?: Audience,
+) {
+  try {
+    const to = audience ?? (await taskAudience(storage, event.taskId));
+    if (to) {
+      await hub.publish({ event, audience: to });
+    }
+  } catch (err) {
+    console.error("Error publishing realtime event:", err);
+  }
+}
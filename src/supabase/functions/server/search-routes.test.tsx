@@ -0,0 +1,66 @@
+/**
+ * GET /search against the in-memory store; run with:
+ *   deno test --allow-env search-routes.test.tsx
+ */
+
+import { assertEquals } from "jsr:@std/assert";
+import { createApp } from "./app.tsx";
+import { createFakeAuth } from "./auth.tsx";
+import { createMemoryHub } from "./realtime.tsx";
+import { createMemoryStorage } from "./storage-memory.tsx";
+import { createMockTransport } from "./transport.tsx";
+
+const ROUTE_PREFIX = "/make-server-9c4af64c";
+
+// A doc whose JSON has "paragraph" in its keys (node types) but not in its text
+const docWith = (text: string) => ({
+  type: "doc",
+  content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+});
+
+function createTestClient() {
+  const app = createApp(createMemoryStorage(), createFakeAuth(), createMockTransport(), createMemoryHub());
+  return async (method: string, path: string, body?: unknown) => {
+    const response = await app.request(`${ROUTE_PREFIX}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Authorization: "Bearer fake:alice" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return await response.json();
+  };
+}
+
+Deno.test("search finds text past more key-only matches than its limit", async () => {
+  const request = createTestClient();
+  const { task } = await request("POST", "/tasks", { name: "Notes" });
+
+  for (let i = 0; i < 40; i++) {
+    await request("POST", `/tasks/${task.id}/tabs`, { tab: { id: `key-only-${i}`, name: `Doc ${i}`, canvasType: "doc" } });
+    await request("PUT", `/tabs/key-only-${i}/content`, { content: docWith(`Nothing to see ${i}`) });
+  }
+  await request("POST", `/tasks/${task.id}/tabs`, { tab: { id: "match", name: "Essay", canvasType: "doc" } });
+  await request("PUT", "/tabs/match/content", { content: docWith("The opening paragraph sets the tone") });
+
+  const { success, results } = await request("GET", "/search?q=paragraph");
+
+  assertEquals(success, true);
+  assertEquals(results, [
+    { taskId: task.id, tabId: "match", source: "content", snippet: "The opening paragraph sets the tone" },
+  ]);
+});
+
+Deno.test("search lists every chat tab, however many messages one of them matches", async () => {
+  const request = createTestClient();
+  const { task } = await request("POST", "/tasks", { name: "Chats" });
+  await request("POST", `/tasks/${task.id}/tabs`, { tab: { id: "quiet", name: "Quiet", canvasType: "chat" } });
+  await request("POST", `/tasks/${task.id}/tabs`, { tab: { id: "busy", name: "Busy", canvasType: "chat" } });
+
+  await request("POST", "/tabs/quiet/messages", { id: "q1", text: "Lunch on Friday?" });
+  for (let i = 0; i < 40; i++) {
+    await request("POST", "/tabs/busy/messages", { id: `b${i}`, text: `Lunch plan ${i}` });
+  }
+
+  const { results } = await request("GET", "/search?q=lunch");
+
+  assertEquals(results.map((result: { tabId: string }) => result.tabId), ["quiet", "busy"]);
+});
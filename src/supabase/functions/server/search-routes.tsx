@@ -0,0 +1,123 @@
+/**
+ * Search routes
+ * GET /search finds the tabs whose text contains the query: the text of doc and sheet tabs
+ * (their saved content) and the messages of chat tabs. Names, task names and canvas types are
+ * matched by the app itself, which already has them
+ *
+ * Storage narrows the tabs down (content is JSON, so its keys can match too); the text is then
+ * pulled out of each content by canvas type and searched again, which also gives the snippet.
+ * Storage applies that check before its limit, so tabs matching only on keys never crowd out
+ * real matches. One result per tab, in the order of the user's tasks and their tabs
+ *
+ * Only tasks the user can reach are searched. Mounted behind requireAuth, so every handler
+ * acts on c.get("userId")
+ */
+
+import { Hono } from "npm:hono";
+import { listAccessibleTasks } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { TabContentMatch, TaskStorage } from "./storage.tsx";
+import { CanvasType, TabSearchResult } from "./types.tsx";
+import { validateSearchQuery } from "./validation.tsx";
+
+const SEARCH_RESULT_LIMIT = 30;
+
+// Characters of text kept on each side of the match in a snippet
+const SNIPPET_CONTEXT = 40;
+
+export function createSearchRoutes(storage: TaskStorage) {
+  const routes = new Hono<AuthEnv>();
+
+  routes.get("/search", async (c) => {
+    try {
+      const validation = validateSearchQuery({ q: c.req.query("q") });
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { query } = validation.value;
+      const tasks = await listAccessibleTasks(storage, c);
+
+      const tabs = tasks.flatMap((task) => task.tabs.map((tab) => ({ taskId: task.id, tab })));
+      const tabIdsOf = (types: CanvasType[]) =>
+        tabs.filter(({ tab }) => tab.canvasType && types.includes(tab.canvasType)).map(({ tab }) => tab.id);
+
+      // tabId -> the first match found in it
+      const found = new Map<string, Pick<TabSearchResult, "source" | "snippet">>();
+
+      const contentSnippet = ({ tabId, content }: TabContentMatch) => {
+        const canvasType = tabs.find(({ tab }) => tab.id === tabId)!.tab.canvasType;
+        return findSnippet(contentText(canvasType, content), query);
+      };
+      const contentMatches = await storage.searchTabContents(
+        tabIdsOf(["doc", "sheet"]),
+        query,
+        SEARCH_RESULT_LIMIT,
+        (match) => contentSnippet(match) !== null,
+      );
+      for (const match of contentMatches) {
+        found.set(match.tabId, { source: "content", snippet: contentSnippet(match)! });
+      }
+
+      const messageMatches = await storage.searchMessages(tabIdsOf(["chat"]), query, SEARCH_RESULT_LIMIT);
+      for (const { tabId, message } of messageMatches) {
+        if (!found.has(tabId)) {
+          found.set(tabId, { source: "message", snippet: findSnippet(message.text, query)! });
+        }
+      }
+
+      const results: TabSearchResult[] = tabs
+        .filter(({ tab }) => found.has(tab.id))
+        .slice(0, SEARCH_RESULT_LIMIT)
+        .map(({ taskId, tab }) => ({ taskId, tabId: tab.id, ...found.get(tab.id)! }));
+
+      return c.json({ success: true, results });
+    } catch (err) {
+      console.error("Error searching tabs:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
+
+interface DocNode {
+  type?: string;
+  text?: string;
+  content?: DocNode[];
+}
+
+// The searchable text of a tab's content: a doc's text (the editor's JSON, as in the app's
+// utils/history.ts), or a sheet's cells as typed (formulas left out)
+function contentText(canvasType: CanvasType | null, content: unknown): string {
+  if (!content || typeof content !== "object") return "";
+
+  if (canvasType === "sheet") {
+    const cells = (content as { cells?: Record<string, unknown> }).cells ?? {};
+    return Object.values(cells)
+      .filter((raw): raw is string => typeof raw === "string" && !raw.startsWith("="))
+      .join(" · ");
+  }
+
+  const parts: string[] = [];
+  const visit = (node: DocNode) => {
+    if (node.type === "text" && typeof node.text === "string") parts.push(node.text);
+    if (node.type === "hardBreak") parts.push(" ");
+    if (Array.isArray(node.content)) {
+      node.content.forEach(visit);
+      if (node.type !== "text") parts.push(" "); // Between paragraphs, headings and list items
+    }
+  };
+  visit(content as DocNode);
+  return parts.join("");
+}
+
+// The match with some text on either side, on one line; null if the text doesn't contain the query
+function findSnippet(text: string, query: string): string | null {
+  const line = text.replace(/\s+/g, " ").trim();
+  const index = line.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return null;
+
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(line.length, index + query.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? "…" : ""}${line.slice(start, end).trim()}${end < line.length ? "…" : ""}`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Share routes
+ * Who a task is shared with, and how. The owner invites members by email as an editor or a
+ * viewer, removes them, and creates share links that anyone signed in can open to join the
+ * task with the link's role. Links can be set to expire, or expired right away
+ *
+ * Everyone on a task can see its members; only the owner sees its links and changes who
+ * has access. Mounted behind requireAuth, so every handler acts on c.get("userId")
+ *
+ * The people whose access changes are told through the realtime hub, so the task shows up
+ * in (or disappears from) their apps without a reload
+ */
+
+import { Hono } from "npm:hono";
+import { getTaskAccess, withRole } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { publishEvent, RealtimeHub } from "./realtime.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { MemberRole, ShareLink } from "./types.tsx";
+import { readBody, validateMemberInvite, validateShareLinkCreate } from "./validation.tsx";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isExpired(link: ShareLink, now = Date.now()): boolean {
+  return link.expiresAt !== null && link.expiresAt <= now;
+}
+
+// Joining through a link never lowers the role a member already has
+function higherRole(a: MemberRole, b: MemberRole): MemberRole {
+  return a === "editor" || b === "editor" ? "editor" : "viewer";
+}
+
+export function createShareRoutes(storage: TaskStorage, hub: RealtimeHub) {
+  const routes = new Hono<AuthEnv>();
+
+  // The task's members, with the user's own role, and (for the owner) its open share links
+  routes.get("/tasks/:taskId/sharing", async (c) => {
+    try {
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+
+      const links = access.role === "owner" ? await storage.listShareLinks(taskId) : [];
+      return c.json({
+        success: true,
+        role: access.role,
+        ownerId: access.ownerId,
+        members: await storage.listTaskMembers(taskId),
+        links: links.filter((link) => !isExpired(link)),
+      });
+    } catch (err) {
+      console.error("Error fetching sharing:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Invite someone by email, or change an existing member's role
+  routes.post("/tasks/:taskId/members", async (c) => {
+    try {
+      const validation = validateMemberInvite(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { email, role } = validation.value;
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (access.role !== "owner") {
+        return c.json({ success: false, error: "Only the owner can share this task" }, 403);
+      }
+      if (email === c.get("userEmail")?.toLowerCase()) {
+        return c.json({ success: false, error: "You already own this task" }, 400);
+      }
+
+      const existing = (await storage.listTaskMembers(taskId)).find((m) => m.email === email);
+      const member = {
+        email,
+        userId: existing?.userId ?? null,
+        role,
+        addedAt: existing?.addedAt ?? Date.now(),
+      };
+      await storage.upsertTaskMember(taskId, member);
+      await publishEvent(
+        storage,
+        hub,
+        { type: "task-shared", taskId },
+        { userIds: member.userId ? [member.userId] : [], emails: [email] },
+      );
+
+      return c.json({ success: true, member }, existing ? 200 : 201);
+    } catch (err) {
+      console.error("Error inviting member:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Revoke a member's access
+  routes.delete("/tasks/:taskId/members/:email", async (c) => {
+    try {
+      const taskId = c.req.param("taskId");
+      const email = c.req.param("email").toLowerCase();
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (access.role !== "owner") {
+        return c.json({ success: false, error: "Only the owner can share this task" }, 403);
+      }
+      const member = (await storage.listTaskMembers(taskId)).find((m) => m.email === email);
+      if (!member) {
+        return c.json({ success: false, error: "Member not found" }, 404);
+      }
+
+      await storage.deleteTaskMember(taskId, email);
+      await publishEvent(
+        storage,
+        hub,
+        { type: "task-deleted", taskId },
+        { userIds: member.userId ? [member.userId] : [], emails: [email] },
+      );
+      return c.json({ success: true });
+    } catch (err) {
+      console.error("Error removing member:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Create a share link
+  routes.post("/tasks/:taskId/links", async (c) => {
+    try {
+      const validation = validateShareLinkCreate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { role, expiresInDays } = validation.value;
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (access.role !== "owner") {
+        return c.json({ success: false, error: "Only the owner can share this task" }, 403);
+      }
+
+      const createdAt = Date.now();
+      const link: ShareLink = {
+        token: crypto.randomUUID(),
+        taskId,
+        role,
+        createdAt,
+        expiresAt: expiresInDays === null ? null : createdAt + expiresInDays * DAY_MS,
+      };
+      await storage.insertShareLink(link);
+
+      return c.json({ success: true, link }, 201);
+    } catch (err) {
+      console.error("Error creating share link:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Expire a share link now; people who already joined through it keep their access
+  routes.delete("/tasks/:taskId/links/:token", async (c) => {
+    try {
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (access.role !== "owner") {
+        return c.json({ success: false, error: "Only the owner can share this task" }, 403);
+      }
+
+      const link = await storage.getShareLink(c.req.param("token"));
+      if (!link || link.taskId !== taskId) {
+        return c.json({ success: false, error: "Share link not found" }, 404);
+      }
+
+      if (!isExpired(link)) {
+        await storage.expireShareLink(link.token, Date.now());
+      }
+      return c.json({ success: true });
+    } catch (err) {
+      console.error("Error expiring share link:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Join a task through a share link, returning the task as the user now sees it
+  routes.post("/share-links/:token/accept", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const email = c.get("userEmail")?.toLowerCase();
+      const link = await storage.getShareLink(c.req.param("token"));
+
+      if (!link) {
+        return c.json({ success: false, error: "Share link not found" }, 404);
+      }
+      if (isExpired(link)) {
+        return c.json({ success: false, error: "This share link has expired" }, 410);
+      }
+
+      const ownerId = await storage.getTaskOwnerId(link.taskId);
+      const task = ownerId && (await storage.getTask(ownerId, link.taskId));
+      if (!ownerId || !task) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (ownerId === userId) {
+        return c.json({ success: true, task: withRole(task, "owner") });
+      }
+      if (!email) {
+        return c.json({ success: false, error: "An account with an email address is required" }, 400);
+      }
+
+      const existing = await storage.findTaskMember(link.taskId, userId, email);
+      const role = existing ? higherRole(existing.role, link.role) : link.role;
+      await storage.upsertTaskMember(link.taskId, {
+        email: existing?.email ?? email,
+        userId,
+        role,
+        addedAt: existing?.addedAt ?? Date.now(),
+      });
+      // The user's other devices add the task too
+      await publishEvent(storage, hub, { type: "task-shared", taskId: link.taskId }, { userIds: [userId], emails: [] });
+
+      return c.json({ success: true, task: withRole(task, role) });
+    } catch (err) {
+      console.error("Error accepting share link:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,506 @@
+/**
+ * In-memory TaskStorage
+ * Used for local testing without Supabase; data lives only as long as the process
+ */
+
+import { TaskStorage } from "./storage.tsx";
+import {
+  ChatMessage,
+  ClosedTab,
+  SentMail,
+  ShareLink,
+  Tab,
+  TabComment,
+  TabContent,
+  TabVersion,
+  TabViewer,
+  TabVisit,
+  Task,
+  TaskMember,
+} from "./types.tsx";
+
+export function createMemoryStorage(): TaskStorage {
+  // userId -> tasks (tabs kept in position order)
+  const tasksByUser = new Map<string, Task[]>();
+  // taskId -> collaborators
+  const membersByTask = new Map<string, TaskMember[]>();
+  // token -> share link
+  const shareLinks = new Map<string, ShareLink>();
+  // clientId -> the tab that app is showing
+  const viewersByClient = new Map<string, TabViewer>();
+  // userId -> tabId -> when the user last had the tab on screen
+  const visitsByUser = new Map<string, Map<string, number>>();
+  // tabId -> content
+  const contentsByTab = new Map<string, TabContent>();
+  // tabId -> chat messages (oldest first)
+  const messagesByTab = new Map<string, ChatMessage[]>();
+  // tabId -> userId -> last read time
+  const readsByTab = new Map<string, Map<string, number>>();
+  // tabId -> sent comm messages (oldest first)
+  const sentMailByTab = new Map<string, SentMail[]>();
+  // tabId -> comments (oldest first)
+  const commentsByTab = new Map<string, TabComment[]>();
+  // tabId -> userId -> when the user last looked at the comments
+  const commentReadsByTab = new Map<string, Map<string, number>>();
+  // tabId -> tab versions (oldest first)
+  const versionsByTab = new Map<string, TabVersion[]>();
+  // tabId -> the tab as it was when it was closed
+  const closedTabsByTab = new Map<string, ClosedTab>();
+
+  const userTasks = (userId: string): Task[] => {
+    if (!tasksByUser.has(userId)) {
+      tasksByUser.set(userId, []);
+    }
+    return tasksByUser.get(userId)!;
+  };
+
+  const allTasks = (): Task[] => [...tasksByUser.values()].flat();
+
+  // Everything stored alongside a tab
+  const deleteTabData = (tabId: string) => {
+    contentsByTab.delete(tabId);
+    messagesByTab.delete(tabId);
+    readsByTab.delete(tabId);
+    sentMailByTab.delete(tabId);
+    versionsByTab.delete(tabId);
+    commentsByTab.delete(tabId);
+    commentReadsByTab.delete(tabId);
+    for (const viewer of viewersByClient.values()) {
+      if (viewer.tabId === tabId) viewersByClient.delete(viewer.clientId);
+    }
+    for (const visits of visitsByUser.values()) visits.delete(tabId);
+  };
+
+  const tabMessages = (tabId: string): ChatMessage[] => {
+    if (!messagesByTab.has(tabId)) {
+      messagesByTab.set(tabId, []);
+    }
+    return messagesByTab.get(tabId)!;
+  };
+
+  // commentCount is derived from the comments: a tab's unresolved threads
+  const withCommentCount = (tab: Tab): Tab => ({
+    ...tab,
+    commentCount: (commentsByTab.get(tab.id) ?? []).filter((c) => c.parentId === null && !c.resolved).length,
+  });
+  const withCommentCounts = (task: Task): Task => ({ ...task, tabs: task.tabs.map(withCommentCount) });
+
+  const isMember = (member: TaskMember, userId: string, email: string | null) =>
+    member.userId === userId || (email !== null && member.email === email.toLowerCase());
+
+  const findTask = (userId: string, taskId: string) =>
+    userTasks(userId).find((task) => task.id === taskId);
+
+  // Callers get copies so they can never mutate stored state by accident
+  const clone = <T,>(value: T): T => structuredClone(value);
+
+  const storage: TaskStorage = {
+    async init() {},
+
+    async listTasks(userId) {
+      return clone(userTasks(userId).map(withCommentCounts));
+    },
+
+    async getTask(userId, taskId) {
+      const task = findTask(userId, taskId);
+      return task ? clone(withCommentCounts(task)) : null;
+    },
+
+    async findTab(userId, tabId) {
+      for (const task of userTasks(userId)) {
+        const index = task.tabs.findIndex((tab) => tab.id === tabId);
+        if (index !== -1) {
+          return { taskId: task.id, tab: clone(withCommentCount(task.tabs[index])), index };
+        }
+      }
+      return null;
+    },
+
+    async taskExists(taskId) {
+      return allTasks().some((task) => task.id === taskId);
+    },
+
+    async tabExists(tabId) {
+      return allTasks().some((task) => task.tabs.some((tab) => tab.id === tabId));
+    },
+
+    async getTaskOwnerId(taskId) {
+      for (const [userId, tasks] of tasksByUser) {
+        if (tasks.some((task) => task.id === taskId)) return userId;
+      }
+      return null;
+    },
+
+    async getTabTaskId(tabId) {
+      return allTasks().find((task) => task.tabs.some((tab) => tab.id === tabId))?.id ?? null;
+    },
+
+    async listTaskMembers(taskId) {
+      return clone(membersByTask.get(taskId) ?? []);
+    },
+
+    async findTaskMember(taskId, userId, email) {
+      const member = membersByTask.get(taskId)?.find((m) => isMember(m, userId, email));
+      return member ? clone(member) : null;
+    },
+
+    async upsertTaskMember(taskId, member) {
+      const others = (membersByTask.get(taskId) ?? []).filter((m) => m.email !== member.email);
+      membersByTask.set(taskId, [...others, clone(member)]);
+    },
+
+    async deleteTaskMember(taskId, email) {
+      membersByTask.set(taskId, (membersByTask.get(taskId) ?? []).filter((m) => m.email !== email));
+    },
+
+    async listSharedTasks(userId, email) {
+      const shared: Array<{ taskId: string; ownerId: string; role: TaskMember["role"]; addedAt: number }> = [];
+      for (const [ownerId, tasks] of tasksByUser) {
+        if (ownerId === userId) continue;
+        for (const task of tasks) {
+          const member = membersByTask.get(task.id)?.find((m) => isMember(m, userId, email));
+          if (member) shared.push({ taskId: task.id, ownerId, role: member.role, addedAt: member.addedAt });
+        }
+      }
+      return shared.sort((a, b) => a.addedAt - b.addedAt).map(({ addedAt: _addedAt, ...entry }) => entry);
+    },
+
+    async listShareLinks(taskId) {
+      return clone([...shareLinks.values()].filter((link) => link.taskId === taskId));
+    },
+
+    async getShareLink(token) {
+      const link = shareLinks.get(token);
+      return link ? clone(link) : null;
+    },
+
+    async insertShareLink(link) {
+      shareLinks.set(link.token, clone(link));
+    },
+
+    async expireShareLink(token, expiresAt) {
+      const link = shareLinks.get(token);
+      if (link) link.expiresAt = expiresAt;
+    },
+
+    async listTabViewers(taskId, since) {
+      return clone(
+        [...viewersByClient.values()]
+          .filter((viewer) => viewer.taskId === taskId && viewer.seenAt >= since)
+          .sort((a, b) => a.seenAt - b.seenAt),
+      );
+    },
+
+    async upsertTabViewer(viewer) {
+      viewersByClient.set(viewer.clientId, clone(viewer));
+    },
+
+    async deleteTabViewer(clientId, userId) {
+      if (viewersByClient.get(clientId)?.userId === userId) viewersByClient.delete(clientId);
+    },
+
+    async deleteStaleTabViewers(before) {
+      for (const viewer of viewersByClient.values()) {
+        if (viewer.seenAt < before) viewersByClient.delete(viewer.clientId);
+      }
+    },
+
+    async listTabVisits(userId, limit) {
+      const visits: TabVisit[] = [...(visitsByUser.get(userId) ?? [])].map(([tabId, visitedAt]) => ({ tabId, visitedAt }));
+      return visits.sort((a, b) => b.visitedAt - a.visitedAt).slice(0, limit);
+    },
+
+    async recordTabVisit(userId, tabId, visitedAt) {
+      if (!visitsByUser.has(userId)) {
+        visitsByUser.set(userId, new Map());
+      }
+      visitsByUser.get(userId)!.set(tabId, visitedAt);
+    },
+
+    // Writes apply as they are made, so there is nothing to roll back if fn throws
+    async transaction(fn) {
+      return await fn(storage);
+    },
+
+    async claimRevision(userId, taskId, expectedRevision) {
+      const task = findTask(userId, taskId);
+      if (!task || (expectedRevision !== undefined && task.revision !== expectedRevision)) {
+        return null;
+      }
+      return ++task.revision;
+    },
+
+    async insertTask(userId, task) {
+      userTasks(userId).push(clone(task));
+    },
+
+    async updateTask(userId, taskId, updates) {
+      const task = findTask(userId, taskId);
+      if (task) Object.assign(task, updates);
+    },
+
+    async setActiveTask(userId, taskId) {
+      userTasks(userId).forEach((task) => (task.isActive = task.id === taskId));
+    },
+
+    async deleteTask(userId, taskId) {
+      findTask(userId, taskId)?.tabs.forEach((tab) => deleteTabData(tab.id));
+      membersByTask.delete(taskId);
+      for (const closedTab of closedTabsByTab.values()) {
+        if (closedTab.taskId === taskId) closedTabsByTab.delete(closedTab.tab.id);
+      }
+      for (const link of shareLinks.values()) {
+        if (link.taskId === taskId) shareLinks.delete(link.token);
+      }
+      tasksByUser.set(userId, userTasks(userId).filter((task) => task.id !== taskId));
+    },
+
+    async reassignTasks(fromUserId, toUserId) {
+      const moved = tasksByUser.get(fromUserId) ?? [];
+      tasksByUser.delete(fromUserId);
+      if (userTasks(toUserId).some((task) => task.isActive)) {
+        moved.forEach((task) => (task.isActive = false));
+      }
+      userTasks(toUserId).push(...moved);
+      return moved.length;
+    },
+
+    async insertTab(userId, taskId, tab, index) {
+      findTask(userId, taskId)?.tabs.splice(index, 0, clone(tab));
+    },
+
+    async updateTab(userId, tabId, updates) {
+      for (const task of userTasks(userId)) {
+        const tab = task.tabs.find((t) => t.id === tabId);
+        if (tab) Object.assign(tab, updates);
+      }
+    },
+
+    async setActiveTab(userId, taskId, tabId) {
+      findTask(userId, taskId)?.tabs.forEach((tab) => (tab.isActive = tab.id === tabId));
+    },
+
+    async setTabOrder(userId, taskId, tabIds) {
+      const task = findTask(userId, taskId);
+      if (!task) return;
+      const tabsById = new Map(task.tabs.map((tab) => [tab.id, tab]));
+      task.tabs = tabIds.map((id) => tabsById.get(id)!).filter(Boolean);
+    },
+
+    async deleteTab(userId, tabId) {
+      for (const task of userTasks(userId)) {
+        if (task.tabs.some((tab) => tab.id === tabId)) {
+          task.tabs = task.tabs.filter((tab) => tab.id !== tabId);
+          deleteTabData(tabId);
+        }
+      }
+    },
+
+    async getTabContent(_userId, tabId) {
+      const stored = contentsByTab.get(tabId);
+      return stored ? clone(stored) : null;
+    },
+
+    async setTabContent(_userId, tabId, content) {
+      const stored = { content: clone(content), updatedAt: Date.now() };
+      contentsByTab.set(tabId, stored);
+      return clone(stored);
+    },
+
+    async listMessages(tabId, limit, before) {
+      const isBefore = (message: ChatMessage) =>
+        !before ||
+        message.createdAt < before.createdAt ||
+        (message.createdAt === before.createdAt && message.id < before.id);
+      return clone(tabMessages(tabId).filter(isBefore).slice(-limit).reverse());
+    },
+
+    async getMessage(tabId, messageId) {
+      const message = tabMessages(tabId).find((m) => m.id === messageId);
+      return message ? clone(message) : null;
+    },
+
+    async insertMessage(tabId, message) {
+      for (const messages of messagesByTab.values()) {
+        if (messages.some((m) => m.id === message.id)) return false;
+      }
+
+      // Keep createdAt/id order (messages arrive in order, so this is almost always an append)
+      const messages = tabMessages(tabId);
+      let index = messages.length;
+      while (
+        index > 0 &&
+        (messages[index - 1].createdAt > message.createdAt ||
+          (messages[index - 1].createdAt === message.createdAt && messages[index - 1].id > message.id))
+      ) {
+        index--;
+      }
+      messages.splice(index, 0, clone(message));
+      return true;
+    },
+
+    async updateMessage(tabId, messageId, updates) {
+      const message = tabMessages(tabId).find((m) => m.id === messageId);
+      if (message) Object.assign(message, updates);
+    },
+
+    async deleteMessage(tabId, messageId) {
+      messagesByTab.set(tabId, tabMessages(tabId).filter((m) => m.id !== messageId));
+    },
+
+    async searchTabContents(tabIds, query, limit, isMatch) {
+      const wanted = query.toLowerCase();
+      return tabIds
+        .filter((tabId) => contentsByTab.has(tabId))
+        .filter((tabId) => JSON.stringify(contentsByTab.get(tabId)!.content).toLowerCase().includes(wanted))
+        .map((tabId) => ({ tabId, content: clone(contentsByTab.get(tabId)!.content) }))
+        .filter(isMatch)
+        .slice(0, limit);
+    },
+
+    async searchMessages(tabIds, query, limit) {
+      const wanted = query.toLowerCase();
+      return tabIds
+        .flatMap((tabId) => {
+          // Messages are kept oldest first, so the last match is the newest
+          const message = tabMessages(tabId).findLast((m) => m.text.toLowerCase().includes(wanted));
+          return message ? [{ tabId, message }] : [];
+        })
+        .sort((a, b) => b.message.createdAt - a.message.createdAt)
+        .slice(0, limit)
+        .map((match) => clone(match));
+    },
+
+    async getLastReadAt(userId, tabId) {
+      return readsByTab.get(tabId)?.get(userId) ?? null;
+    },
+
+    async setLastReadAt(userId, tabId, readAt) {
+      if (!readsByTab.has(tabId)) {
+        readsByTab.set(tabId, new Map());
+      }
+      readsByTab.get(tabId)!.set(userId, readAt);
+    },
+
+    async listSentMail(tabId) {
+      return clone(sentMailByTab.get(tabId) ?? []);
+    },
+
+    async getSentMail(tabId, mailId) {
+      const mail = sentMailByTab.get(tabId)?.find((m) => m.id === mailId);
+      return mail ? clone(mail) : null;
+    },
+
+    async insertSentMail(tabId, mail) {
+      if (!sentMailByTab.has(tabId)) {
+        sentMailByTab.set(tabId, []);
+      }
+      sentMailByTab.get(tabId)!.push(clone(mail));
+    },
+
+    async listComments(tabId) {
+      return clone(commentsByTab.get(tabId) ?? []);
+    },
+
+    async getComment(tabId, commentId) {
+      const comment = commentsByTab.get(tabId)?.find((c) => c.id === commentId);
+      return comment ? clone(comment) : null;
+    },
+
+    async insertComment(tabId, comment) {
+      for (const comments of commentsByTab.values()) {
+        if (comments.some((c) => c.id === comment.id)) return false;
+      }
+      if (!commentsByTab.has(tabId)) {
+        commentsByTab.set(tabId, []);
+      }
+      commentsByTab.get(tabId)!.push(clone(comment));
+      return true;
+    },
+
+    async setCommentResolved(tabId, commentId, resolved) {
+      const comment = commentsByTab.get(tabId)?.find((c) => c.id === commentId);
+      if (comment) comment.resolved = resolved;
+    },
+
+    async getCommentsReadAt(userId, tabId) {
+      return commentReadsByTab.get(tabId)?.get(userId) ?? null;
+    },
+
+    async setCommentsReadAt(userId, tabId, readAt) {
+      if (!commentReadsByTab.has(tabId)) {
+        commentReadsByTab.set(tabId, new Map());
+      }
+      commentReadsByTab.get(tabId)!.set(userId, readAt);
+    },
+
+    async countUnreadComments(userId, tabIds) {
+      const counts: Record<string, number> = {};
+      for (const tabId of tabIds) {
+        const readAt = commentReadsByTab.get(tabId)?.get(userId) ?? null;
+        const count = (commentsByTab.get(tabId) ?? []).filter(
+          (comment) => comment.authorId !== userId && (readAt === null || comment.createdAt > readAt),
+        ).length;
+        if (count > 0) counts[tabId] = count;
+      }
+      return counts;
+    },
+
+    async listTabVersions(tabId, limit) {
+      const versions = (versionsByTab.get(tabId) ?? []).slice(-limit).reverse();
+      return versions.map(({ content: _content, ...summary }) => clone(summary));
+    },
+
+    async getTabVersion(tabId, versionId) {
+      const version = versionsByTab.get(tabId)?.find((v) => v.id === versionId);
+      return version ? clone(version) : null;
+    },
+
+    async insertTabVersion(tabId, version) {
+      if (!versionsByTab.has(tabId)) {
+        versionsByTab.set(tabId, []);
+      }
+      versionsByTab.get(tabId)!.push(clone(version));
+    },
+
+    async updateTabVersion(tabId, versionId, updates) {
+      const version = versionsByTab.get(tabId)?.find((v) => v.id === versionId);
+      if (version) Object.assign(version, clone(updates));
+    },
+
+    async pruneTabVersions(tabId, keep) {
+      const versions = versionsByTab.get(tabId);
+      if (versions && versions.length > keep) {
+        versionsByTab.set(tabId, versions.slice(-keep));
+      }
+    },
+
+    async listClosedTabs(taskIds, since) {
+      return [...closedTabsByTab.values()]
+        .filter((closedTab) => taskIds.includes(closedTab.taskId) && closedTab.closedAt >= since)
+        .sort((a, b) => b.closedAt - a.closedAt)
+        .map(({ content: _content, ...summary }) => clone(summary));
+    },
+
+    async getClosedTab(tabId) {
+      const closedTab = closedTabsByTab.get(tabId);
+      return closedTab ? clone(closedTab) : null;
+    },
+
+    async upsertClosedTab(closedTab) {
+      closedTabsByTab.set(closedTab.tab.id, clone(closedTab));
+    },
+
+    async deleteClosedTab(tabId) {
+      closedTabsByTab.delete(tabId);
+    },
+
+    async deleteClosedTabsBefore(before) {
+      for (const closedTab of closedTabsByTab.values()) {
+        if (closedTab.closedAt < before) closedTabsByTab.delete(closedTab.tab.id);
+      }
+    },
+  };
+
+  return storage;
+}
@@ -0,0 +1,877 @@
+/**
+ * Postgres TaskStorage
+ * Reads and writes the relational tasks/tabs tables from init-db.tsx through a
+ * direct database connection (SUPABASE_DB_URL), so position shifts run in transactions
+ */
+
+import postgres from "npm:postgres@3.4.5";
+import { TabContentMatch, TaskStorage } from "./storage.tsx";
+import {
+  CanvasType,
+  ChatMessage,
+  ClosedTabSummary,
+  MemberRole,
+  SentMail,
+  ShareLink,
+  Tab,
+  TabComment,
+  TabVersionKind,
+  TabVersionSummary,
+  TabViewer,
+  Task,
+  TaskMember,
+} from "./types.tsx";
+import { createTablesSQL } from "./init-db.tsx";
+import { migrateKvBlobs } from "./migrate-kv.tsx";
+
+type Sql = postgres.Sql | postgres.TransactionSql;
+
+interface TaskRow {
+  id: string;
+  name: string;
+  is_active: boolean;
+  revision: number;
+  created_at: Date;
+}
+
+interface TabContentRow {
+  content: unknown;
+  updated_at: Date;
+}
+
+interface ChatMessageRow {
+  id: string;
+  author_id: string;
+  author_name: string;
+  text: string;
+  created_at: Date;
+  edited_at: Date | null;
+}
+
+interface SentMailRow {
+  id: string;
+  from_address: string | null;
+  to_addresses: string[];
+  cc_addresses: string[];
+  subject: string;
+  body: string;
+  attachments: SentMail["attachments"];
+  delivery_id: string;
+  sent_at: Date;
+}
+
+interface CommentRow {
+  id: string;
+  author_id: string;
+  author_name: string;
+  body: string;
+  created_at: Date;
+  parent_id: string | null;
+  resolved: boolean;
+}
+
+interface TaskMemberRow {
+  email: string;
+  user_id: string | null;
+  role: MemberRole;
+  added_at: Date;
+}
+
+interface ShareLinkRow {
+  token: string;
+  task_id: string;
+  role: MemberRole;
+  created_at: Date;
+  expires_at: Date | null;
+}
+
+interface TabViewerRow {
+  client_id: string;
+  user_id: string;
+  user_name: string;
+  task_id: string;
+  tab_id: string;
+  seen_at: Date;
+}
+
+interface TabVersionRow {
+  id: string;
+  kind: TabVersionKind;
+  name: string;
+  canvas_type: CanvasType | null;
+  content?: unknown; // Only selected when the content is needed
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ClosedTabRow {
+  tab_id: string;
+  task_id: string;
+  name: string;
+  canvas_type: CanvasType | null;
+  pinned: boolean;
+  position: number;
+  content?: unknown; // Only selected when the content is needed
+  tab_created_at: Date;
+  closed_by: string;
+  closed_at: Date;
+}
+
+interface TabRow {
+  id: string;
+  task_id: string;
+  name: string;
+  canvas_type: CanvasType | null;
+  is_active: boolean;
+  pinned: boolean;
+  comment_count: number; // Derived by the SELECT from unresolved top-level comments
+  position: number;
+  created_at: Date;
+}
+
+function toTab(row: TabRow): Tab {
+  return {
+    id: row.id,
+    name: row.name,
+    canvasType: row.canvas_type,
+    createdAt: row.created_at.getTime(),
+    isActive: row.is_active,
+    pinned: row.pinned,
+    commentCount: row.comment_count,
+  };
+}
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    text: row.text,
+    createdAt: row.created_at.getTime(),
+    editedAt: row.edited_at ? row.edited_at.getTime() : null,
+  };
+}
+
+function toSentMail(row: SentMailRow): SentMail {
+  return {
+    id: row.id,
+    from: row.from_address,
+    to: row.to_addresses,
+    cc: row.cc_addresses,
+    subject: row.subject,
+    body: row.body,
+    attachments: row.attachments,
+    sentAt: row.sent_at.getTime(),
+    deliveryId: row.delivery_id,
+  };
+}
+
+function toComment(row: CommentRow): TabComment {
+  return {
+    id: row.id,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    body: row.body,
+    createdAt: row.created_at.getTime(),
+    parentId: row.parent_id,
+    resolved: row.resolved,
+  };
+}
+
+function toTaskMember(row: TaskMemberRow): TaskMember {
+  return {
+    email: row.email,
+    userId: row.user_id,
+    role: row.role,
+    addedAt: row.added_at.getTime(),
+  };
+}
+
+function toShareLink(row: ShareLinkRow): ShareLink {
+  return {
+    token: row.token,
+    taskId: row.task_id,
+    role: row.role,
+    createdAt: row.created_at.getTime(),
+    expiresAt: row.expires_at ? row.expires_at.getTime() : null,
+  };
+}
+
+function toTabViewer(row: TabViewerRow): TabViewer {
+  return {
+    clientId: row.client_id,
+    userId: row.user_id,
+    userName: row.user_name,
+    taskId: row.task_id,
+    tabId: row.tab_id,
+    seenAt: row.seen_at.getTime(),
+  };
+}
+
+function toTabVersionSummary(row: TabVersionRow): TabVersionSummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    name: row.name,
+    canvasType: row.canvas_type,
+    createdAt: row.created_at.getTime(),
+    updatedAt: row.updated_at.getTime(),
+  };
+}
+
+function toClosedTabSummary(row: ClosedTabRow): ClosedTabSummary {
+  return {
+    taskId: row.task_id,
+    tab: {
+      id: row.tab_id,
+      name: row.name,
+      canvasType: row.canvas_type,
+      createdAt: row.tab_created_at.getTime(),
+      isActive: false,
+      pinned: row.pinned,
+      commentCount: 0, // A closed tab's comments went with it
+    },
+    index: row.position,
+    closedBy: row.closed_by,
+    closedAt: row.closed_at.getTime(),
+  };
+}
+
+// Version (and closed tab) content is stored as SQL NULL when the tab had none
+const toJsonColumn = (sql: Sql, content: unknown) =>
+  content === null ? null : sql.json(content as postgres.JSONValue);
+
+// A LIKE pattern matching the text anywhere, with LIKE's own wildcards in it taken literally
+const toLikePattern = (text: string) => `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+
+// Rows read at a time by searchTabContents
+const SEARCH_BATCH_SIZE = 50;
+
+// Attach tabs (already ordered by position) to their tasks
+function toTasks(taskRows: TaskRow[], tabRows: TabRow[]): Task[] {
+  return taskRows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at.getTime(),
+    isActive: row.is_active,
+    revision: row.revision,
+    tabs: tabRows.filter((tab) => tab.task_id === row.id).map(toTab),
+  }));
+}
+
+// Insert a tab row at a fixed position
+async function insertTabRow(sql: Sql, taskId: string, tab: Tab, position: number) {
+  await sql`
+    INSERT INTO tabs (id, task_id, name, canvas_type, is_active, pinned, position, created_at)
+    VALUES (${tab.id}, ${taskId}, ${tab.name}, ${tab.canvasType}, ${tab.isActive}, ${tab.pinned},
+            ${position}, ${new Date(tab.createdAt)})
+  `;
+}
+
+// Run fn in a transaction, or in a savepoint when sql is already inside one
+function inTransaction<T>(sql: Sql, fn: (tx: postgres.TransactionSql) => Promise<T>): Promise<T> {
+  return ("savepoint" in sql ? sql.savepoint(fn) : sql.begin(fn)) as Promise<T>;
+}
+
+export function createPostgresStorage(databaseUrl: string): TaskStorage {
+  // prepare: false is required when connecting through Supabase's transaction pooler
+  return createSqlStorage(postgres(databaseUrl, { prepare: false }));
+}
+
+// Storage over the connection pool, or over one open transaction (see transaction below)
+function createSqlStorage(sql: Sql): TaskStorage {
+
+  // A tab's comment count is its unresolved threads (top-level comments)
+  const commentCountColumn = sql`
+    (SELECT count(*)::int FROM comments
+     WHERE comments.tab_id = tabs.id AND comments.parent_id IS NULL AND NOT comments.resolved) AS comment_count
+  `;
+
+  const selectTabs = (userId: string, taskId?: string) => sql<TabRow[]>`
+    SELECT tabs.id, tabs.task_id, tabs.name, tabs.canvas_type, tabs.is_active, tabs.pinned,
+           ${commentCountColumn}, tabs.position, tabs.created_at
+    FROM tabs
+    JOIN tasks ON tasks.id = tabs.task_id
+    WHERE tasks.user_id = ${userId}
+      ${taskId ? sql`AND tabs.task_id = ${taskId}` : sql``}
+    ORDER BY tabs.task_id, tabs.position
+  `;
+
+  // Member rows matching a user, by user id or email
+  const matchesMember = (userId: string, email: string | null) =>
+    email === null
+      ? sql`task_members.user_id = ${userId}`
+      : sql`(task_members.user_id = ${userId} OR task_members.email = ${email.toLowerCase()})`;
+
+  return {
+    async init() {
+      if ("savepoint" in sql) {
+        throw new Error("Storage can only be initialised outside a transaction");
+      }
+      await sql.unsafe(createTablesSQL);
+      await migrateKvBlobs(sql);
+    },
+
+    async listTasks(userId) {
+      const taskRows = await sql<TaskRow[]>`
+        SELECT id, name, is_active, revision, created_at FROM tasks
+        WHERE user_id = ${userId}
+        ORDER BY created_at, id
+      `;
+      return toTasks(taskRows, await selectTabs(userId));
+    },
+
+    async getTask(userId, taskId) {
+      const taskRows = await sql<TaskRow[]>`
+        SELECT id, name, is_active, revision, created_at FROM tasks
+        WHERE user_id = ${userId} AND id = ${taskId}
+      `;
+      if (taskRows.length === 0) return null;
+      return toTasks(taskRows, await selectTabs(userId, taskId))[0];
+    },
+
+    async findTab(userId, tabId) {
+      const [row] = await sql<TabRow[]>`
+        SELECT tabs.id, tabs.task_id, tabs.name, tabs.canvas_type, tabs.is_active, tabs.pinned,
+               ${commentCountColumn}, tabs.position, tabs.created_at
+        FROM tabs
+        JOIN tasks ON tasks.id = tabs.task_id
+        WHERE tasks.user_id = ${userId} AND tabs.id = ${tabId}
+      `;
+      return row ? { taskId: row.task_id, tab: toTab(row), index: row.position } : null;
+    },
+
+    async taskExists(taskId) {
+      const rows = await sql`SELECT 1 FROM tasks WHERE id = ${taskId}`;
+      return rows.length > 0;
+    },
+
+    async tabExists(tabId) {
+      const rows = await sql`SELECT 1 FROM tabs WHERE id = ${tabId}`;
+      return rows.length > 0;
+    },
+
+    async getTaskOwnerId(taskId) {
+      const [row] = await sql<{ user_id: string }[]>`SELECT user_id FROM tasks WHERE id = ${taskId}`;
+      return row ? row.user_id : null;
+    },
+
+    async getTabTaskId(tabId) {
+      const [row] = await sql<{ task_id: string }[]>`SELECT task_id FROM tabs WHERE id = ${tabId}`;
+      return row ? row.task_id : null;
+    },
+
+    async listTaskMembers(taskId) {
+      const rows = await sql<TaskMemberRow[]>`
+        SELECT email, user_id, role, added_at FROM task_members
+        WHERE task_id = ${taskId}
+        ORDER BY added_at, email
+      `;
+      return rows.map(toTaskMember);
+    },
+
+    async findTaskMember(taskId, userId, email) {
+      const [row] = await sql<TaskMemberRow[]>`
+        SELECT email, user_id, role, added_at FROM task_members
+        WHERE task_id = ${taskId} AND ${matchesMember(userId, email)}
+        LIMIT 1
+      `;
+      return row ? toTaskMember(row) : null;
+    },
+
+    async upsertTaskMember(taskId, member) {
+      await sql`
+        INSERT INTO task_members (task_id, email, user_id, role, added_at)
+        VALUES (${taskId}, ${member.email}, ${member.userId}, ${member.role}, ${new Date(member.addedAt)})
+        ON CONFLICT (task_id, email) DO UPDATE SET user_id = EXCLUDED.user_id, role = EXCLUDED.role
+      `;
+    },
+
+    async deleteTaskMember(taskId, email) {
+      await sql`DELETE FROM task_members WHERE task_id = ${taskId} AND email = ${email}`;
+    },
+
+    async listSharedTasks(userId, email) {
+      const rows = await sql<{ task_id: string; owner_id: string; role: MemberRole }[]>`
+        SELECT task_members.task_id, tasks.user_id AS owner_id, task_members.role
+        FROM task_members
+        JOIN tasks ON tasks.id = task_members.task_id
+        WHERE ${matchesMember(userId, email)} AND tasks.user_id <> ${userId}
+        ORDER BY task_members.added_at, task_members.task_id
+      `;
+      return rows.map((row) => ({ taskId: row.task_id, ownerId: row.owner_id, role: row.role }));
+    },
+
+    async listShareLinks(taskId) {
+      const rows = await sql<ShareLinkRow[]>`
+        SELECT token, task_id, role, created_at, expires_at FROM share_links
+        WHERE task_id = ${taskId}
+        ORDER BY created_at, token
+      `;
+      return rows.map(toShareLink);
+    },
+
+    async getShareLink(token) {
+      const [row] = await sql<ShareLinkRow[]>`
+        SELECT token, task_id, role, created_at, expires_at FROM share_links WHERE token = ${token}
+      `;
+      return row ? toShareLink(row) : null;
+    },
+
+    async insertShareLink(link) {
+      await sql`
+        INSERT INTO share_links (token, task_id, role, created_at, expires_at)
+        VALUES (${link.token}, ${link.taskId}, ${link.role}, ${new Date(link.createdAt)},
+                ${link.expiresAt === null ? null : new Date(link.expiresAt)})
+      `;
+    },
+
+    async expireShareLink(token, expiresAt) {
+      await sql`UPDATE share_links SET expires_at = ${new Date(expiresAt)} WHERE token = ${token}`;
+    },
+
+    async listTabViewers(taskId, since) {
+      const rows = await sql<TabViewerRow[]>`
+        SELECT client_id, user_id, user_name, task_id, tab_id, seen_at FROM tab_viewers
+        WHERE task_id = ${taskId} AND seen_at >= ${new Date(since)}
+        ORDER BY seen_at, client_id
+      `;
+      return rows.map(toTabViewer);
+    },
+
+    async upsertTabViewer(viewer) {
+      await sql`
+        INSERT INTO tab_viewers (client_id, user_id, user_name, task_id, tab_id, seen_at)
+        VALUES (${viewer.clientId}, ${viewer.userId}, ${viewer.userName}, ${viewer.taskId}, ${viewer.tabId},
+                ${new Date(viewer.seenAt)})
+        ON CONFLICT (client_id) DO UPDATE SET
+          user_id = EXCLUDED.user_id, user_name = EXCLUDED.user_name, task_id = EXCLUDED.task_id,
+          tab_id = EXCLUDED.tab_id, seen_at = EXCLUDED.seen_at
+      `;
+    },
+
+    async deleteTabViewer(clientId, userId) {
+      await sql`DELETE FROM tab_viewers WHERE client_id = ${clientId} AND user_id = ${userId}`;
+    },
+
+    async deleteStaleTabViewers(before) {
+      await sql`DELETE FROM tab_viewers WHERE seen_at < ${new Date(before)}`;
+    },
+
+    async listTabVisits(userId, limit) {
+      const rows = await sql<{ tab_id: string; visited_at: Date }[]>`
+        SELECT tab_id, visited_at FROM tab_visits
+        WHERE user_id = ${userId}
+        ORDER BY visited_at DESC
+        LIMIT ${limit}
+      `;
+      return rows.map((row) => ({ tabId: row.tab_id, visitedAt: row.visited_at.getTime() }));
+    },
+
+    async recordTabVisit(userId, tabId, visitedAt) {
+      await sql`
+        INSERT INTO tab_visits (user_id, tab_id, visited_at)
+        VALUES (${userId}, ${tabId}, ${new Date(visitedAt)})
+        ON CONFLICT (user_id, tab_id) DO UPDATE SET visited_at = EXCLUDED.visited_at
+      `;
+    },
+
+    async transaction(fn) {
+      return await inTransaction(sql, (tx) => fn(createSqlStorage(tx)));
+    },
+
+    async claimRevision(userId, taskId, expectedRevision) {
+      const [row] = await sql<{ revision: number }[]>`
+        UPDATE tasks SET revision = revision + 1
+        WHERE id = ${taskId} AND user_id = ${userId}
+          ${expectedRevision === undefined ? sql`` : sql`AND revision = ${expectedRevision}`}
+        RETURNING revision
+      `;
+      return row ? row.revision : null;
+    },
+
+    async insertTask(userId, task) {
+      await inTransaction(sql, async (tx) => {
+        await tx`
+          INSERT INTO tasks (id, name, user_id, is_active, revision, created_at)
+          VALUES (${task.id}, ${task.name}, ${userId}, ${task.isActive}, ${task.revision},
+                  ${new Date(task.createdAt)})
+        `;
+        for (const [position, tab] of task.tabs.entries()) {
+          await insertTabRow(tx, task.id, tab, position);
+        }
+      });
+    },
+
+    async updateTask(userId, taskId, updates) {
+      if (updates.name === undefined) return;
+      await sql`UPDATE tasks SET name = ${updates.name} WHERE id = ${taskId} AND user_id = ${userId}`;
+    },
+
+    async setActiveTask(userId, taskId) {
+      await sql`UPDATE tasks SET is_active = (id = ${taskId}) WHERE user_id = ${userId}`;
+    },
+
+    async deleteTask(userId, taskId) {
+      // Tabs are removed by ON DELETE CASCADE
+      await sql`DELETE FROM tasks WHERE id = ${taskId} AND user_id = ${userId}`;
+    },
+
+    async reassignTasks(fromUserId, toUserId) {
+      const moved = await sql`
+        UPDATE tasks
+        SET user_id = ${toUserId},
+            is_active = is_active AND NOT EXISTS (SELECT 1 FROM tasks WHERE user_id = ${toUserId} AND is_active)
+        WHERE user_id = ${fromUserId}
+      `;
+      return moved.count;
+    },
+
+    async insertTab(userId, taskId, tab, index) {
+      await inTransaction(sql, async (tx) => {
+        // Make room at the target position, then insert
+        await tx`
+          UPDATE tabs SET position = position + 1
+          WHERE task_id = ${taskId} AND position >= ${index}
+            AND task_id IN (SELECT id FROM tasks WHERE user_id = ${userId})
+        `;
+        await insertTabRow(tx, taskId, tab, index);
+      });
+    },
+
+    async updateTab(userId, tabId, updates) {
+      const columns: Record<string, unknown> = {};
+      if (updates.name !== undefined) columns.name = updates.name;
+      if (updates.canvasType !== undefined) columns.canvas_type = updates.canvasType;
+      if (updates.pinned !== undefined) columns.pinned = updates.pinned;
+      if (Object.keys(columns).length === 0) return;
+
+      await sql`
+        UPDATE tabs SET ${sql(columns)}
+        WHERE id = ${tabId} AND task_id IN (SELECT id FROM tasks WHERE user_id = ${userId})
+      `;
+    },
+
+    async setActiveTab(userId, taskId, tabId) {
+      await sql`
+        UPDATE tabs SET is_active = (id = ${tabId})
+        WHERE task_id = ${taskId} AND task_id IN (SELECT id FROM tasks WHERE user_id = ${userId})
+      `;
+    },
+
+    async setTabOrder(userId, taskId, tabIds) {
+      // unnest ... WITH ORDINALITY numbers the ids 1..n in the order given
+      await sql`
+        UPDATE tabs SET position = ordered.position - 1
+        FROM unnest(${sql.array(tabIds)}::text[]) WITH ORDINALITY AS ordered(id, position)
+        WHERE tabs.id = ordered.id AND tabs.task_id = ${taskId}
+          AND tabs.task_id IN (SELECT id FROM tasks WHERE user_id = ${userId})
+      `;
+    },
+
+    async deleteTab(userId, tabId) {
+      await inTransaction(sql, async (tx) => {
+        const [deleted] = await tx<{ task_id: string; position: number }[]>`
+          DELETE FROM tabs
+          WHERE id = ${tabId} AND task_id IN (SELECT id FROM tasks WHERE user_id = ${userId})
+          RETURNING task_id, position
+        `;
+        if (!deleted) return;
+
+        // Close the gap left by the deleted tab
+        await tx`
+          UPDATE tabs SET position = position - 1
+          WHERE task_id = ${deleted.task_id} AND position > ${deleted.position}
+        `;
+      });
+    },
+
+    async getTabContent(userId, tabId) {
+      const [row] = await sql<TabContentRow[]>`
+        SELECT tab_contents.content, tab_contents.updated_at
+        FROM tab_contents
+        JOIN tabs ON tabs.id = tab_contents.tab_id
+        JOIN tasks ON tasks.id = tabs.task_id
+        WHERE tasks.user_id = ${userId} AND tab_contents.tab_id = ${tabId}
+      `;
+      return row ? { content: row.content, updatedAt: row.updated_at.getTime() } : null;
+    },
+
+    async setTabContent(_userId, tabId, content) {
+      const [row] = await sql<TabContentRow[]>`
+        INSERT INTO tab_contents (tab_id, content, updated_at)
+        VALUES (${tabId}, ${sql.json(content as postgres.JSONValue)}, now())
+        ON CONFLICT (tab_id) DO UPDATE SET content = EXCLUDED.content, updated_at = now()
+        RETURNING content, updated_at
+      `;
+      return { content: row.content, updatedAt: row.updated_at.getTime() };
+    },
+
+    async listMessages(tabId, limit, before) {
+      const rows = await sql<ChatMessageRow[]>`
+        SELECT id, author_id, author_name, text, created_at, edited_at FROM chat_messages
+        WHERE tab_id = ${tabId}
+          ${before ? sql`AND (created_at, id) < (${new Date(before.createdAt)}, ${before.id})` : sql``}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${limit}
+      `;
+      return rows.map(toChatMessage);
+    },
+
+    async getMessage(tabId, messageId) {
+      const [row] = await sql<ChatMessageRow[]>`
+        SELECT id, author_id, author_name, text, created_at, edited_at FROM chat_messages
+        WHERE tab_id = ${tabId} AND id = ${messageId}
+      `;
+      return row ? toChatMessage(row) : null;
+    },
+
+    async insertMessage(tabId, message) {
+      const inserted = await sql`
+        INSERT INTO chat_messages (id, tab_id, author_id, author_name, text, created_at, edited_at)
+        VALUES (${message.id}, ${tabId}, ${message.authorId}, ${message.authorName}, ${message.text},
+                ${new Date(message.createdAt)}, ${message.editedAt ? new Date(message.editedAt) : null})
+        ON CONFLICT (id) DO NOTHING
+        RETURNING id
+      `;
+      return inserted.length > 0;
+    },
+
+    async updateMessage(tabId, messageId, updates) {
+      await sql`
+        UPDATE chat_messages
+        SET text = ${updates.text}, edited_at = ${updates.editedAt ? new Date(updates.editedAt) : null}
+        WHERE tab_id = ${tabId} AND id = ${messageId}
+      `;
+    },
+
+    async deleteMessage(tabId, messageId) {
+      await sql`DELETE FROM chat_messages WHERE tab_id = ${tabId} AND id = ${messageId}`;
+    },
+
+    // The ILIKE only narrows the rows down, so they are read in batches until enough pass isMatch
+    async searchTabContents(tabIds, query, limit, isMatch) {
+      if (tabIds.length === 0) return [];
+      const matches: TabContentMatch[] = [];
+      const batches = sql<{ tab_id: string; content: unknown }[]>`
+        SELECT tab_id, content FROM tab_contents
+        WHERE tab_id IN ${sql(tabIds)} AND content::text ILIKE ${toLikePattern(query)}
+      `.cursor(SEARCH_BATCH_SIZE);
+      for await (const rows of batches) {
+        for (const row of rows) {
+          const match = { tabId: row.tab_id, content: row.content };
+          if (isMatch(match)) matches.push(match);
+        }
+        if (matches.length >= limit) break;
+      }
+      return matches.slice(0, limit);
+    },
+
+    // One message per tab (its newest match), so a busy chat can't crowd the other tabs out
+    async searchMessages(tabIds, query, limit) {
+      if (tabIds.length === 0) return [];
+      const rows = await sql<(ChatMessageRow & { tab_id: string })[]>`
+        SELECT * FROM (
+          SELECT DISTINCT ON (tab_id) tab_id, id, author_id, author_name, text, created_at, edited_at
+          FROM chat_messages
+          WHERE tab_id IN ${sql(tabIds)} AND text ILIKE ${toLikePattern(query)}
+          ORDER BY tab_id, created_at DESC, id DESC
+        ) latest
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${limit}
+      `;
+      return rows.map((row) => ({ tabId: row.tab_id, message: toChatMessage(row) }));
+    },
+
+    async getLastReadAt(userId, tabId) {
+      const [row] = await sql<{ last_read_at: Date }[]>`
+        SELECT last_read_at FROM chat_reads WHERE tab_id = ${tabId} AND user_id = ${userId}
+      `;
+      return row ? row.last_read_at.getTime() : null;
+    },
+
+    async setLastReadAt(userId, tabId, readAt) {
+      await sql`
+        INSERT INTO chat_reads (tab_id, user_id, last_read_at)
+        VALUES (${tabId}, ${userId}, ${new Date(readAt)})
+        ON CONFLICT (tab_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at
+      `;
+    },
+
+    async listSentMail(tabId) {
+      const rows = await sql<SentMailRow[]>`
+        SELECT id, from_address, to_addresses, cc_addresses, subject, body, attachments, delivery_id, sent_at
+        FROM sent_mail
+        WHERE tab_id = ${tabId}
+        ORDER BY sent_at, id
+      `;
+      return rows.map(toSentMail);
+    },
+
+    async getSentMail(tabId, mailId) {
+      const [row] = await sql<SentMailRow[]>`
+        SELECT id, from_address, to_addresses, cc_addresses, subject, body, attachments, delivery_id, sent_at
+        FROM sent_mail
+        WHERE tab_id = ${tabId} AND id = ${mailId}
+      `;
+      return row ? toSentMail(row) : null;
+    },
+
+    async insertSentMail(tabId, mail) {
+      await sql`
+        INSERT INTO sent_mail
+          (id, tab_id, from_address, to_addresses, cc_addresses, subject, body, attachments, delivery_id, sent_at)
+        VALUES (${mail.id}, ${tabId}, ${mail.from}, ${sql.array(mail.to)}, ${sql.array(mail.cc)}, ${mail.subject},
+                ${mail.body}, ${sql.json(mail.attachments)}, ${mail.deliveryId}, ${new Date(mail.sentAt)})
+      `;
+    },
+
+    async listComments(tabId) {
+      const rows = await sql<CommentRow[]>`
+        SELECT id, author_id, author_name, body, created_at, parent_id, resolved FROM comments
+        WHERE tab_id = ${tabId}
+        ORDER BY created_at, id
+      `;
+      return rows.map(toComment);
+    },
+
+    async getComment(tabId, commentId) {
+      const [row] = await sql<CommentRow[]>`
+        SELECT id, author_id, author_name, body, created_at, parent_id, resolved FROM comments
+        WHERE tab_id = ${tabId} AND id = ${commentId}
+      `;
+      return row ? toComment(row) : null;
+    },
+
+    async insertComment(tabId, comment) {
+      const inserted = await sql`
+        INSERT INTO comments (id, tab_id, parent_id, author_id, author_name, body, resolved, created_at)
+        VALUES (${comment.id}, ${tabId}, ${comment.parentId}, ${comment.authorId}, ${comment.authorName},
+                ${comment.body}, ${comment.resolved}, ${new Date(comment.createdAt)})
+        ON CONFLICT (id) DO NOTHING
+        RETURNING id
+      `;
+      return inserted.length > 0;
+    },
+
+    async setCommentResolved(tabId, commentId, resolved) {
+      await sql`UPDATE comments SET resolved = ${resolved} WHERE tab_id = ${tabId} AND id = ${commentId}`;
+    },
+
+    async getCommentsReadAt(userId, tabId) {
+      const [row] = await sql<{ last_read_at: Date }[]>`
+        SELECT last_read_at FROM comment_reads WHERE tab_id = ${tabId} AND user_id = ${userId}
+      `;
+      return row ? row.last_read_at.getTime() : null;
+    },
+
+    async setCommentsReadAt(userId, tabId, readAt) {
+      await sql`
+        INSERT INTO comment_reads (tab_id, user_id, last_read_at)
+        VALUES (${tabId}, ${userId}, ${new Date(readAt)})
+        ON CONFLICT (tab_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at
+      `;
+    },
+
+    async countUnreadComments(userId, tabIds) {
+      if (tabIds.length === 0) return {};
+      const rows = await sql<{ tab_id: string; count: number }[]>`
+        SELECT c.tab_id, COUNT(*)::int AS count FROM comments c
+        LEFT JOIN comment_reads r ON r.tab_id = c.tab_id AND r.user_id = ${userId}
+        WHERE c.tab_id IN ${sql(tabIds)} AND c.author_id <> ${userId}
+          AND (r.last_read_at IS NULL OR c.created_at > r.last_read_at)
+        GROUP BY c.tab_id
+      `;
+      return Object.fromEntries(rows.map((row) => [row.tab_id, row.count]));
+    },
+
+    async listTabVersions(tabId, limit) {
+      const rows = await sql<TabVersionRow[]>`
+        SELECT id, kind, name, canvas_type, created_at, updated_at FROM tab_versions
+        WHERE tab_id = ${tabId}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${limit}
+      `;
+      return rows.map(toTabVersionSummary);
+    },
+
+    async getTabVersion(tabId, versionId) {
+      const [row] = await sql<TabVersionRow[]>`
+        SELECT id, kind, name, canvas_type, content, created_at, updated_at FROM tab_versions
+        WHERE tab_id = ${tabId} AND id = ${versionId}
+      `;
+      return row ? { ...toTabVersionSummary(row), content: row.content ?? null } : null;
+    },
+
+    async insertTabVersion(tabId, version) {
+      await sql`
+        INSERT INTO tab_versions (id, tab_id, kind, name, canvas_type, content, created_at, updated_at)
+        VALUES (${version.id}, ${tabId}, ${version.kind}, ${version.name}, ${version.canvasType},
+                ${toJsonColumn(sql, version.content)}, ${new Date(version.createdAt)}, ${new Date(version.updatedAt)})
+      `;
+    },
+
+    async updateTabVersion(tabId, versionId, updates) {
+      await sql`
+        UPDATE tab_versions
+        SET name = ${updates.name}, canvas_type = ${updates.canvasType},
+            content = ${toJsonColumn(sql, updates.content)}, updated_at = ${new Date(updates.updatedAt)}
+        WHERE tab_id = ${tabId} AND id = ${versionId}
+      `;
+    },
+
+    async pruneTabVersions(tabId, keep) {
+      await sql`
+        DELETE FROM tab_versions
+        WHERE tab_id = ${tabId} AND id NOT IN (
+          SELECT id FROM tab_versions WHERE tab_id = ${tabId}
+          ORDER BY created_at DESC, id DESC
+          LIMIT ${keep}
+        )
+      `;
+    },
+
+    async listClosedTabs(taskIds, since) {
+      if (taskIds.length === 0) return [];
+      const rows = await sql<ClosedTabRow[]>`
+        SELECT tab_id, task_id, name, canvas_type, pinned, position, tab_created_at, closed_by, closed_at
+        FROM closed_tabs
+        WHERE task_id IN ${sql(taskIds)} AND closed_at >= ${new Date(since)}
+        ORDER BY closed_at DESC, tab_id
+      `;
+      return rows.map(toClosedTabSummary);
+    },
+
+    async getClosedTab(tabId) {
+      const [row] = await sql<ClosedTabRow[]>`
+        SELECT tab_id, task_id, name, canvas_type, pinned, position, content, tab_created_at, closed_by, closed_at
+        FROM closed_tabs
+        WHERE tab_id = ${tabId}
+      `;
+      return row ? { ...toClosedTabSummary(row), content: row.content ?? null } : null;
+    },
+
+    async upsertClosedTab(closedTab) {
+      const { tab } = closedTab;
+      await sql`
+        INSERT INTO closed_tabs
+          (tab_id, task_id, name, canvas_type, pinned, position, content, tab_created_at, closed_by, closed_at)
+        VALUES (${tab.id}, ${closedTab.taskId}, ${tab.name}, ${tab.canvasType}, ${tab.pinned}, ${closedTab.index},
+                ${toJsonColumn(sql, closedTab.content)}, ${new Date(tab.createdAt)}, ${closedTab.closedBy},
+                ${new Date(closedTab.closedAt)})
+        ON CONFLICT (tab_id) DO UPDATE
+        SET task_id = EXCLUDED.task_id, name = EXCLUDED.name, canvas_type = EXCLUDED.canvas_type,
+            pinned = EXCLUDED.pinned, position = EXCLUDED.position, content = EXCLUDED.content, tab_created_at = EXCLUDED.tab_created_at,
+            closed_by = EXCLUDED.closed_by, closed_at = EXCLUDED.closed_at
+      `;
+    },
+
+    async deleteClosedTab(tabId) {
+      await sql`DELETE FROM closed_tabs WHERE tab_id = ${tabId}`;
+    },
+
+    async deleteClosedTabsBefore(before) {
+      await sql`DELETE FROM closed_tabs WHERE closed_at < ${new Date(before)}`;
+    },
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Storage interface for tasks and tabs
+ * The routes only talk to this interface, so the same server runs against
+ * Postgres in production and an in-memory store when testing locally
+ *
+ * Methods are deliberately small (one row-level change each); the rules about
+ * which task/tab becomes active live in the routes, not in each implementation
+ */
+
+import {
+  ChatMessage,
+  ClosedTab,
+  ClosedTabSummary,
+  MemberRole,
+  MessageCursor,
+  SentMail,
+  ShareLink,
+  Tab,
+  TabComment,
+  TabContent,
+  TabVersion,
+  TabVersionSummary,
+  TabViewer,
+  TabVisit,
+  Task,
+  TaskMember,
+} from "./types.tsx";
+import { createMemoryStorage } from "./storage-memory.tsx";
+import { createPostgresStorage } from "./storage-postgres.tsx";
+
+export interface TabLocation {
+  taskId: string;
+  tab: Tab;
+  index: number;
+}
+
+// Search prefilters (see search-routes.tsx): stored content is JSON, so its keys can match too
+export interface TabContentMatch {
+  tabId: string;
+  content: unknown;
+}
+
+export interface MessageMatch {
+  tabId: string;
+  message: ChatMessage;
+}
+
+export interface TaskStorage {
+  // Prepare the backing store (create tables, run migrations)
+  init(): Promise<void>;
+
+  // Reads
+  listTasks(userId: string): Promise<Task[]>;
+  getTask(userId: string, taskId: string): Promise<Task | null>;
+  findTab(userId: string, tabId: string): Promise<TabLocation | null>;
+
+  // Ids are globally unique, so existence checks are not scoped to a user
+  taskExists(taskId: string): Promise<boolean>;
+  tabExists(tabId: string): Promise<boolean>;
+
+  // Who owns a task, and which task a tab is in (not scoped to a user; access.tsx uses them to
+  // work out the requesting user's role). Every other method taking a userId expects the owner's
+  getTaskOwnerId(taskId: string): Promise<string | null>;
+  getTabTaskId(tabId: string): Promise<string | null>;
+
+  // Collaborators on a task (removed together with the task); a member matches a user by
+  // user id or by email
+  listTaskMembers(taskId: string): Promise<TaskMember[]>;
+  findTaskMember(taskId: string, userId: string, email: string | null): Promise<TaskMember | null>;
+  upsertTaskMember(taskId: string, member: TaskMember): Promise<void>;
+  deleteTaskMember(taskId: string, email: string): Promise<void>;
+  // Tasks shared with a user (not the ones they own), oldest share first
+  listSharedTasks(
+    userId: string,
+    email: string | null,
+  ): Promise<Array<{ taskId: string; ownerId: string; role: MemberRole }>>;
+
+  // Share links (removed together with their task); expired links are kept so opening one
+  // can say it has expired
+  listShareLinks(taskId: string): Promise<ShareLink[]>;
+  getShareLink(token: string): Promise<ShareLink | null>;
+  insertShareLink(link: ShareLink): Promise<void>;
+  expireShareLink(token: string, expiresAt: number): Promise<void>;
+
+  // Who is viewing a task's tabs (removed together with their tab or task); rows last seen
+  // before `since` are left out, and deleteStaleTabViewers removes them for good
+  listTabViewers(taskId: string, since: number): Promise<TabViewer[]>;
+  upsertTabViewer(viewer: TabViewer): Promise<void>;
+  deleteTabViewer(clientId: string, userId: string): Promise<void>;
+  deleteStaleTabViewers(before: number): Promise<void>;
+
+  // When a user last had each tab on screen (removed together with the tab or task);
+  // listTabVisits returns the `limit` latest, newest first
+  listTabVisits(userId: string, limit: number): Promise<TabVisit[]>;
+  recordTabVisit(userId: string, tabId: string, visitedAt: number): Promise<void>;
+
+  // Run fn against a storage whose writes commit together, or not at all if fn throws.
+  // Routes claim a revision and make its writes inside one, so a failed write never leaves a
+  // revision bump without its change
+  transaction<T>(fn: (storage: TaskStorage) => Promise<T>): Promise<T>;
+
+  // Increment a task's revision and return the new one. With expectedRevision this is a
+  // compare-and-set: null is returned if the task is missing or was changed in the meantime
+  claimRevision(userId: string, taskId: string, expectedRevision?: number): Promise<number | null>;
+
+  // Task writes
+  insertTask(userId: string, task: Task): Promise<void>;
+  updateTask(userId: string, taskId: string, updates: { name?: string }): Promise<void>;
+  setActiveTask(userId: string, taskId: string): Promise<void>;
+  deleteTask(userId: string, taskId: string): Promise<void>;
+  // Give every task of fromUserId to toUserId and return how many moved; they stay active only
+  // if toUserId has no active task yet
+  reassignTasks(fromUserId: string, toUserId: string): Promise<number>;
+
+  // Tab writes
+  insertTab(userId: string, taskId: string, tab: Tab, index: number): Promise<void>;
+  updateTab(userId: string, tabId: string, updates: Partial<Pick<Tab, "name" | "canvasType" | "pinned">>): Promise<void>;
+  setActiveTab(userId: string, taskId: string, tabId: string): Promise<void>;
+  setTabOrder(userId: string, taskId: string, tabIds: string[]): Promise<void>;
+  deleteTab(userId: string, tabId: string): Promise<void>;
+
+  // Tab content (removed together with its tab or task); callers check the tab belongs to the user
+  getTabContent(userId: string, tabId: string): Promise<TabContent | null>;
+  setTabContent(userId: string, tabId: string, content: unknown): Promise<TabContent>;
+
+  // Chat messages (removed together with their tab or task); callers check the tab belongs to the user
+  // listMessages returns up to `limit` messages before the cursor (or the latest ones), newest first.
+  // Message ids are unique across all tabs; insertMessage writes nothing and returns false if the id is taken
+  listMessages(tabId: string, limit: number, before?: MessageCursor): Promise<ChatMessage[]>;
+  getMessage(tabId: string, messageId: string): Promise<ChatMessage | null>;
+  insertMessage(tabId: string, message: ChatMessage): Promise<boolean>;
+  updateMessage(tabId: string, messageId: string, updates: Pick<ChatMessage, "text" | "editedAt">): Promise<void>;
+  deleteMessage(tabId: string, messageId: string): Promise<void>;
+
+  // Case-insensitive text search within the given tabs, for GET /search: up to `limit` tabs whose
+  // content contains the query anywhere in its JSON and passes `isMatch` (the caller's check of the
+  // text itself, so tabs matching only on keys don't use up the limit), and up to `limit` chat
+  // tabs with their newest matching message (newest first)
+  searchTabContents(
+    tabIds: string[],
+    query: string,
+    limit: number,
+    isMatch: (match: TabContentMatch) => boolean,
+  ): Promise<TabContentMatch[]>;
+  searchMessages(tabIds: string[], query: string, limit: number): Promise<MessageMatch[]>;
+
+  // When a user last read a chat tab (for "new messages" markers)
+  getLastReadAt(userId: string, tabId: string): Promise<number | null>;
+  setLastReadAt(userId: string, tabId: string, readAt: number): Promise<void>;
+
+  // Messages sent from a comm tab, oldest first (removed together with their tab or task)
+  listSentMail(tabId: string): Promise<SentMail[]>;
+  getSentMail(tabId: string, mailId: string): Promise<SentMail | null>;
+  insertSentMail(tabId: string, mail: SentMail): Promise<void>;
+
+  // Comments on a tab, oldest first (removed together with their tab or task); a tab's
+  // commentCount is worked out from them when tabs are read. Comment ids are unique across all
+  // tabs; insertComment writes nothing and returns false if the id is taken
+  listComments(tabId: string): Promise<TabComment[]>;
+  getComment(tabId: string, commentId: string): Promise<TabComment | null>;
+  insertComment(tabId: string, comment: TabComment): Promise<boolean>;
+  setCommentResolved(tabId: string, commentId: string, resolved: boolean): Promise<void>;
+
+  // When a user last looked at a tab's comments (for unread badges)
+  getCommentsReadAt(userId: string, tabId: string): Promise<number | null>;
+  setCommentsReadAt(userId: string, tabId: string, readAt: number): Promise<void>;
+  // Per tab, the comments others wrote since the user last looked (tabs with none are left out)
+  countUnreadComments(userId: string, tabIds: string[]): Promise<Record<string, number>>;
+
+  // Tab edit history (removed together with its tab or task); listTabVersions returns up to
+  // `limit` versions without their content, newest first
+  listTabVersions(tabId: string, limit: number): Promise<TabVersionSummary[]>;
+  getTabVersion(tabId: string, versionId: string): Promise<TabVersion | null>;
+  insertTabVersion(tabId: string, version: TabVersion): Promise<void>;
+  updateTabVersion(
+    tabId: string,
+    versionId: string,
+    updates: Pick<TabVersion, "name" | "canvasType" | "content" | "updatedAt">,
+  ): Promise<void>;
+  // Delete all but the `keep` newest versions of a tab
+  pruneTabVersions(tabId: string, keep: number): Promise<void>;
+
+  // Recently closed tabs, keyed by tab id (removed together with their task, or once restored);
+  // listClosedTabs returns those in the given tasks closed since `since`, newest first
+  listClosedTabs(taskIds: string[], since: number): Promise<ClosedTabSummary[]>;
+  getClosedTab(tabId: string): Promise<ClosedTab | null>;
+  upsertClosedTab(closedTab: ClosedTab): Promise<void>;
+  deleteClosedTab(tabId: string): Promise<void>;
+  // Delete every closed tab closed before `before`
+  deleteClosedTabsBefore(before: number): Promise<void>;
+}
+
+/**
+ * Pick the storage implementation from the environment
+ * - STORAGE=memory forces the in-memory store (local testing without Supabase)
+ * - Otherwise Postgres is used through SUPABASE_DB_URL, which Supabase provides to edge functions
+ *
+ * A missing SUPABASE_DB_URL is an error rather than a fallback to memory: a misconfigured
+ * deploy would otherwise look healthy and lose every task on each cold start
+ */
+export function createStorage(): TaskStorage {
+  if (Deno.env.get("STORAGE") === "memory") {
+    console.log("Using in-memory storage");
+    return createMemoryStorage();
+  }
+
+  const databaseUrl = Deno.env.get("SUPABASE_DB_URL");
+  if (!databaseUrl) {
+    throw new Error("SUPABASE_DB_URL is required (or set STORAGE=memory)");
+  }
+
+  return createPostgresStorage(databaseUrl);
+}
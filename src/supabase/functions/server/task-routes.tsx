@@ -0,0 +1,508 @@
+/**
+ * Task and tab resource routes
+ * Validation and the "which task/tab becomes active" rules live here;
+ * persistence goes through the TaskStorage interface
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId"). Tasks shared with
+ * the user are listed and edited like their own (see access.tsx), except that:
+ * - viewers can't change anything
+ * - which task and tab are active stays the owner's; the flags sent by members are ignored
+ * - deleting a shared task only removes the user from it
+ *
+ * Every change is published to the realtime hub (see realtime.tsx), so the user's other
+ * devices and the task's other members pick it up
+ */
+
+import { Hono } from "npm:hono";
+import { canEdit, getTabAccess, getTaskAccess, listAccessibleTasks, withRole } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { recordClosedTab, reattachClosedTab } from "./closed-tabs.tsx";
+import { recordTabVersion } from "./history.tsx";
+import { LEGACY_USER_ID } from "./migrate-kv.tsx";
+import { publishEvent, RealtimeHub, taskAudience } from "./realtime.tsx";
+import { TaskStorage } from "./storage.tsx";
+import { Tab, Task } from "./types.tsx";
+import {
+  readBody,
+  TabInput,
+  validateTabCreate,
+  validateTabOrder,
+  validateTabUpdate,
+  validateTaskCreate,
+  validateTaskSync,
+  validateTaskUpdate,
+} from "./validation.tsx";
+
+// Build a full tab from validated input
+function buildTab(input: TabInput, isActive: boolean): Tab {
+  return {
+    id: input.id ?? crypto.randomUUID(),
+    name: input.name,
+    canvasType: input.canvasType,
+    createdAt: input.createdAt ?? Date.now(),
+    isActive,
+    pinned: input.pinned ?? false,
+    commentCount: 0,
+  };
+}
+
+// Which kind of history version a tab update makes (a canvas type pick also renames the tab)
+function updateKind(updates: Partial<Pick<Tab, "name" | "canvasType" | "pinned">>) {
+  return updates.canvasType !== undefined ? "canvasType" : "rename";
+}
+
+// Pick the item next to a removed one (or the previous one if the last item was removed)
+function adjacentItem<T>(items: T[], removedIndex: number): T | undefined {
+  return removedIndex < items.length ? items[removedIndex] : items[removedIndex - 1];
+}
+
+export function createTaskRoutes(storage: TaskStorage, hub: RealtimeHub) {
+  const routes = new Hono<AuthEnv>();
+
+  // Tell everyone on the task that it is now at this revision
+  const publishUpdate = async (taskId: string, revision: number | null) => {
+    if (revision !== null) {
+      await publishEvent(storage, hub, { type: "task-updated", taskId, revision });
+    }
+  };
+
+  // Get all tasks and tabs for the user: their own, then the ones shared with them.
+  // Tasks saved before accounts existed go to the first user who gets here
+  routes.get("/tasks", async (c) => {
+    try {
+      const adopted = await storage.reassignTasks(LEGACY_USER_ID, c.get("userId"));
+      if (adopted > 0) {
+        console.log(`Gave ${adopted} tasks saved before accounts existed to ${c.get("userId")}`);
+      }
+      const tasks = await listAccessibleTasks(storage, c);
+      return c.json({ success: true, tasks });
+    } catch (err) {
+      console.error("Error fetching tasks:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Get a single task with its tabs
+  routes.get("/tasks/:taskId", async (c) => {
+    try {
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+      const task = access && (await storage.getTask(access.ownerId, taskId));
+
+      if (!access || !task) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+
+      return c.json({ success: true, task: withRole(task, access.role) });
+    } catch (err) {
+      console.error("Error fetching task:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Create a task (with a blank tab unless tabs are provided)
+  routes.post("/tasks", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const validation = validateTaskCreate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const input = validation.value;
+
+      if (input.id && (await storage.taskExists(input.id))) {
+        return c.json({ success: false, error: "Task already exists" }, 409);
+      }
+
+      const tabInputs = input.tabs && input.tabs.length > 0
+        ? input.tabs
+        : [{ name: "Blank Tab", canvasType: null }];
+      const tabIds = tabInputs.map((tab) => tab.id).filter((id): id is string => !!id);
+      const tabIdTaken = await Promise.all(tabIds.map((id) => storage.tabExists(id)));
+      if (new Set(tabIds).size !== tabIds.length || tabIdTaken.some(Boolean)) {
+        return c.json({ success: false, error: "Tab already exists" }, 409);
+      }
+
+      // Exactly one tab is active: the flagged one, or the first
+      const activeTabIndex = Math.max(0, tabInputs.findIndex((tab) => tab.isActive));
+      const task: Task = {
+        id: input.id ?? crypto.randomUUID(),
+        name: input.name,
+        tabs: tabInputs.map((tab, index) => buildTab(tab, index === activeTabIndex)),
+        createdAt: input.createdAt ?? Date.now(),
+        isActive: input.isActive ?? true,
+        revision: 0,
+      };
+
+      await storage.insertTask(userId, task);
+      if (task.isActive) {
+        await storage.setActiveTask(userId, task.id);
+      }
+      await publishUpdate(task.id, task.revision);
+
+      return c.json({ success: true, task: withRole(task, "owner") }, 201);
+    } catch (err) {
+      console.error("Error creating task:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Update a task: rename, activate, or change its active tab
+  routes.put("/tasks/:taskId", async (c) => {
+    try {
+      const validation = validateTaskUpdate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { name, isActive, activeTabId } = validation.value;
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+      const task = access && (await storage.getTask(access.ownerId, taskId));
+
+      if (!access || !task) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+      if (activeTabId && !task.tabs.some((tab) => tab.id === activeTabId)) {
+        return c.json({ success: false, error: "Tab not found in task" }, 404);
+      }
+
+      const { ownerId, role } = access;
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, taskId);
+        if (name !== undefined) {
+          await tx.updateTask(ownerId, taskId, { name });
+        }
+        if (isActive && role === "owner") {
+          await tx.setActiveTask(ownerId, taskId);
+        }
+        if (activeTabId && role === "owner") {
+          await tx.setActiveTab(ownerId, taskId, activeTabId);
+        }
+        return revision;
+      });
+      await publishUpdate(taskId, revision);
+
+      return c.json({ success: true, task: withRole((await storage.getTask(ownerId, taskId))!, role) });
+    } catch (err) {
+      console.error("Error updating task:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Apply every change made to a task since baseRevision in one request (used by the client's
+  // sync engine). A stale baseRevision is rejected with 409, so a slow earlier save can never
+  // overwrite a newer one; the client refetches the task and rebases its changes instead
+  routes.patch("/tasks/:taskId", async (c) => {
+    try {
+      const validation = validateTaskSync(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+      const task = access && (await storage.getTask(access.ownerId, taskId));
+
+      if (!access || !task) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const { ownerId, role } = access;
+      const {
+        baseRevision,
+        name,
+        createdTabs = [],
+        updatedTabs = [],
+        deletedTabIds = [],
+        tabOrder,
+      } = validation.value;
+      // Which task and tab are active is the owner's choice
+      const isActive = role === "owner" ? validation.value.isActive : undefined;
+      const activeTabId = role === "owner" ? validation.value.activeTabId : undefined;
+
+      if (task.revision !== baseRevision) {
+        return c.json({ success: false, error: "Task has changed since revision " + baseRevision }, 409);
+      }
+
+      // Deleted and updated tabs must exist at baseRevision; created tabs must not exist anywhere
+      const currentIds = task.tabs.map((tab) => tab.id);
+      const missingId = [...deletedTabIds, ...updatedTabs.map((tab) => tab.id)]
+        .find((id) => !currentIds.includes(id));
+      if (missingId) {
+        return c.json({ success: false, error: `Tab not found in task: ${missingId}` }, 404);
+      }
+      const createdIds = createdTabs.map((tab) => tab.id!);
+      const createdIdTaken = await Promise.all(createdIds.map((id) => storage.tabExists(id)));
+      if (new Set(createdIds).size !== createdIds.length || createdIdTaken.some(Boolean)) {
+        return c.json({ success: false, error: "Tab already exists" }, 409);
+      }
+
+      // Tabs once the change is applied: the remaining ones in order, then the created ones
+      const remainingIds = currentIds.filter((id) => !deletedTabIds.includes(id));
+      const finalIds = [...remainingIds, ...createdIds];
+      if (tabOrder && (tabOrder.length !== finalIds.length || tabOrder.some((id) => !finalIds.includes(id)))) {
+        return c.json({ success: false, error: "tabOrder does not match the task's tabs" }, 409);
+      }
+      if (activeTabId && !finalIds.includes(activeTabId)) {
+        return c.json({ success: false, error: "Tab not found in task" }, 404);
+      }
+
+      // Claim the next revision and write in one transaction; a concurrent request based on the
+      // same revision loses at the claim, and a failed write leaves the task at baseRevision
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, taskId, baseRevision);
+        if (revision === null) return null;
+
+        for (const tabId of deletedTabIds) {
+          await recordClosedTab(tx, ownerId, tabId, c.get("userEmail") ?? "Someone");
+          await tx.deleteTab(ownerId, tabId);
+        }
+        for (const { id, ...updates } of updatedTabs) {
+          await tx.updateTab(ownerId, id, updates);
+        }
+        for (const [offset, tabInput] of createdTabs.entries()) {
+          const tab = buildTab(tabInput, false);
+          await tx.insertTab(ownerId, taskId, tab, remainingIds.length + offset);
+          await reattachClosedTab(tx, ownerId, tab.id);
+        }
+        if (tabOrder) {
+          await tx.setTabOrder(ownerId, taskId, tabOrder);
+        }
+
+        // Keep exactly one active tab: the requested one, or the first tab if the active one was deleted
+        const activeTabRemains = task.tabs.some((tab) => tab.isActive && remainingIds.includes(tab.id));
+        const nextActiveTabId = activeTabId ?? (activeTabRemains ? undefined : (tabOrder ?? finalIds)[0]);
+        if (nextActiveTabId) {
+          await tx.setActiveTab(ownerId, taskId, nextActiveTabId);
+        }
+
+        if (name !== undefined) {
+          await tx.updateTask(ownerId, taskId, { name });
+        }
+        if (isActive) {
+          await tx.setActiveTask(ownerId, taskId);
+        }
+
+        for (const { id, ...updates } of updatedTabs) {
+          await recordTabVersion(tx, ownerId, id, updateKind(updates));
+        }
+        return revision;
+      });
+      if (revision === null) {
+        return c.json({ success: false, error: "Task has changed since revision " + baseRevision }, 409);
+      }
+      await publishUpdate(taskId, revision);
+
+      return c.json({ success: true, task: withRole((await storage.getTask(ownerId, taskId))!, role) });
+    } catch (err) {
+      console.error("Error syncing task:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Delete a task and all of its tabs; if it was active, the adjacent task becomes active.
+  // On a task shared with the user, this removes them from it instead
+  routes.delete("/tasks/:taskId", async (c) => {
+    try {
+      const userId = c.get("userId");
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+
+      if (access && access.role !== "owner") {
+        const member = await storage.findTaskMember(taskId, userId, c.get("userEmail"));
+        if (member) {
+          await storage.deleteTaskMember(taskId, member.email);
+          // Only the user's own devices drop the task
+          await publishEvent(
+            storage,
+            hub,
+            { type: "task-deleted", taskId },
+            { userIds: [userId], emails: [member.email] },
+          );
+        }
+        return c.json({ success: true });
+      }
+
+      const tasks = await storage.listTasks(userId);
+      const taskIndex = tasks.findIndex((t) => t.id === taskId);
+
+      if (taskIndex === -1) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+
+      // Work out who had the task before its members go with it
+      const audience = await taskAudience(storage, taskId);
+      await storage.deleteTask(userId, taskId);
+      await publishEvent(storage, hub, { type: "task-deleted", taskId }, audience ?? undefined);
+
+      const [deletedTask] = tasks.splice(taskIndex, 1);
+      const nextActiveTask = deletedTask.isActive ? adjacentItem(tasks, taskIndex) : undefined;
+      if (nextActiveTask) {
+        await storage.setActiveTask(userId, nextActiveTask.id);
+      }
+
+      return c.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting task:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Create a tab in a task (appended unless an index is given)
+  routes.post("/tasks/:taskId/tabs", async (c) => {
+    try {
+      const validation = validateTabCreate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { tab: tabInput, index } = validation.value;
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+      const task = access && (await storage.getTask(access.ownerId, taskId));
+
+      if (!access || !task) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+      if (tabInput.id && (await storage.tabExists(tabInput.id))) {
+        return c.json({ success: false, error: "Tab already exists" }, 409);
+      }
+
+      // A task with no tabs always gets an active tab
+      const tab = buildTab(tabInput, tabInput.isActive ?? task.tabs.length === 0);
+      const { ownerId } = access;
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, taskId);
+        await tx.insertTab(ownerId, taskId, tab, Math.min(index ?? task.tabs.length, task.tabs.length));
+        await reattachClosedTab(tx, ownerId, tab.id);
+        if (tab.isActive) {
+          await tx.setActiveTab(ownerId, taskId, tab.id);
+        }
+        return revision;
+      });
+      await publishUpdate(taskId, revision);
+
+      return c.json({ success: true, tab }, 201);
+    } catch (err) {
+      console.error("Error creating tab:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Reorder the tabs of a task; tabIds must list exactly the task's current tabs
+  routes.put("/tasks/:taskId/tabs/order", async (c) => {
+    try {
+      const validation = validateTabOrder(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const { tabIds } = validation.value;
+      const taskId = c.req.param("taskId");
+      const access = await getTaskAccess(storage, c, taskId);
+      const task = access && (await storage.getTask(access.ownerId, taskId));
+
+      if (!access || !task) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const currentIds = new Set(task.tabs.map((tab) => tab.id));
+      if (tabIds.length !== currentIds.size || tabIds.some((id) => !currentIds.has(id))) {
+        return c.json({ success: false, error: "tabIds do not match the task's current tabs" }, 409);
+      }
+
+      const { ownerId, role } = access;
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, taskId);
+        await tx.setTabOrder(ownerId, taskId, tabIds);
+        return revision;
+      });
+      await publishUpdate(taskId, revision);
+
+      return c.json({ success: true, task: withRole((await storage.getTask(ownerId, taskId))!, role) });
+    } catch (err) {
+      console.error("Error reordering tabs:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Update a tab's name and/or canvas type
+  routes.put("/tabs/:tabId", async (c) => {
+    try {
+      const validation = validateTabUpdate(await readBody(c));
+      if (!validation.ok) {
+        return c.json({ success: false, error: validation.error }, 400);
+      }
+      const tabId = c.req.param("tabId");
+      const found = await getTabAccess(storage, c, tabId);
+
+      if (!found) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(found.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const { ownerId } = found;
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, found.taskId);
+        await tx.updateTab(ownerId, tabId, validation.value);
+        await recordTabVersion(tx, ownerId, tabId, updateKind(validation.value));
+        return revision;
+      });
+      await publishUpdate(found.taskId, revision);
+
+      return c.json({ success: true, tab: { ...found.tab, ...validation.value } });
+    } catch (err) {
+      console.error("Error updating tab:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Delete a tab; if it was active, the adjacent tab becomes active
+  routes.delete("/tabs/:tabId", async (c) => {
+    try {
+      const tabId = c.req.param("tabId");
+      const found = await getTabAccess(storage, c, tabId);
+
+      if (!found) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(found.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const { ownerId } = found;
+      const task = await storage.getTask(ownerId, found.taskId);
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, found.taskId);
+        await recordClosedTab(tx, ownerId, tabId, c.get("userEmail") ?? "Someone");
+        await tx.deleteTab(ownerId, tabId);
+
+        const remainingTabs = task ? task.tabs.filter((tab) => tab.id !== tabId) : [];
+        const nextActiveTab = found.tab.isActive ? adjacentItem(remainingTabs, found.index) : undefined;
+        if (nextActiveTab) {
+          await tx.setActiveTab(ownerId, found.taskId, nextActiveTab.id);
+        }
+        return revision;
+      });
+      await publishUpdate(found.taskId, revision);
+
+      return c.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting tab:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,70 @@
+/**
+ * Mail transport
+ * Comm tabs send their messages through a MailTransport, so the routes never depend on
+ * a particular mail service. A real service plugs in by implementing `send` and being
+ * picked in createMailTransport
+ *
+ * The mock transport (the default) delivers nothing: it logs each message and keeps it
+ * in an in-memory outbox, so the whole compose/send flow works without a mail service
+ */
+
+export interface MailAttachment {
+  name: string;
+  type: string;
+  size: number; // Bytes
+  data: string; // Base64
+}
+
+export interface OutgoingMail {
+  from: string | null; // The sender's account email
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailTransport {
+  // Hand a message to the mail service; resolves with the service's id for it, throws if it was not accepted
+  send(mail: OutgoingMail): Promise<{ deliveryId: string }>;
+}
+
+export interface MockTransport extends MailTransport {
+  // Everything "sent" so far, oldest first
+  outbox: Array<OutgoingMail & { deliveryId: string }>;
+}
+
+export function createMockTransport(): MockTransport {
+  const outbox: MockTransport["outbox"] = [];
+
+  return {
+    outbox,
+
+    async send(mail) {
+      const deliveryId = `mock-${crypto.randomUUID()}`;
+      outbox.push({ ...mail, deliveryId });
+      console.log(
+        `Mock transport: "${mail.subject}" from ${mail.from ?? "unknown"} to ${[...mail.to, ...mail.cc].join(", ")}` +
+          ` (${mail.attachments.length} attachments, ${deliveryId})`,
+      );
+      return { deliveryId };
+    },
+  };
+}
+
+/**
+ * Pick the mail transport from the environment
+ * - MAIL_TRANSPORT unset or "mock": the mock transport
+ * An unknown value is an error rather than a silent fallback, so a misconfigured
+ * deployment never pretends to deliver mail
+ */
+export function createMailTransport(): MailTransport {
+  const name = Deno.env.get("MAIL_TRANSPORT") ?? "mock";
+
+  if (name === "mock") {
+    console.log("Using mock mail transport");
+    return createMockTransport();
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT "${name}" (supported: mock)`);
+}
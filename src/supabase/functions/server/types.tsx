@@ -0,0 +1,160 @@
+/**
+ * Server-side data types
+ * Mirrors /types/index.ts on the client (the edge function is deployed on its own,
+ * so it cannot import from the app bundle)
+ */
+
+export type CanvasType = "doc" | "sheet" | "comm" | "chat";
+
+export const CANVAS_TYPES: CanvasType[] = ["doc", "sheet", "comm", "chat"];
+
+export interface Tab {
+  id: string;
+  name: string;
+  canvasType: CanvasType | null;
+  createdAt: number;
+  isActive: boolean;
+  pinned: boolean; // Pinned tabs come first in their task (the app keeps them there)
+  commentCount: number; // Unresolved comment threads, derived from the tab's comments (never stored)
+}
+
+export interface Task {
+  id: string;
+  name: string;
+  tabs: Tab[];
+  createdAt: number;
+  isActive: boolean;
+  revision: number; // Incremented on every change; sync requests must name the revision they were based on
+  role?: TaskRole; // The requesting user's role, added by the routes (storage never sets it)
+}
+
+// Access to a task: its owner created it; editors and viewers were invited or joined through a
+// share link. Viewers can read everything but change nothing
+export type TaskRole = "owner" | "editor" | "viewer";
+
+export type MemberRole = Exclude<TaskRole, "owner">;
+
+export const MEMBER_ROLES: MemberRole[] = ["editor", "viewer"];
+
+// A collaborator on a task. Invites are by email, before the invitee may have an account, so
+// members are keyed by email; userId is known once they join through a share link
+export interface TaskMember {
+  email: string; // Lowercase
+  userId: string | null;
+  role: MemberRole;
+  addedAt: number;
+}
+
+// A link that adds whoever opens it to a task with its role, until it expires
+export interface ShareLink {
+  token: string;
+  taskId: string;
+  role: MemberRole;
+  createdAt: number;
+  expiresAt: number | null; // null never expires
+}
+
+// Someone's app showing a tab (one per app instance, so a user can appear on several devices)
+// Kept alive by the app's heartbeats; seenAt is the latest one
+export interface TabViewer {
+  clientId: string;
+  userId: string;
+  userName: string;
+  taskId: string;
+  tabId: string;
+  seenAt: number;
+}
+
+// The last time a user had a tab on screen (recorded from their viewing heartbeats)
+export interface TabVisit {
+  tabId: string;
+  visitedAt: number;
+}
+
+// Canvas content of one tab (the doc's text, ...), stored apart from the tab so task lists stay small
+// The server treats content as opaque JSON; its shape depends on the tab's canvas type
+export interface TabContent {
+  content: unknown;
+  updatedAt: number;
+}
+
+// A message on a chat tab
+export interface ChatMessage {
+  id: string;
+  authorId: string;
+  authorName: string; // Shown with the message (the author's email for now)
+  text: string;
+  createdAt: number;
+  editedAt: number | null;
+}
+
+// Position in a tab's message history: messages are ordered by createdAt, then id
+export interface MessageCursor {
+  createdAt: number;
+  id: string;
+}
+
+// A message sent from a comm tab (attachment contents go to the transport and are not kept)
+export interface SentMail {
+  id: string;
+  from: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: Array<{ name: string; type: string; size: number }>;
+  sentAt: number;
+  deliveryId: string; // The mail transport's id for the message
+}
+
+// A comment on a tab. Replies point at the top-level comment they answer (one level deep), and
+// resolving a top-level comment resolves its whole thread
+export interface TabComment {
+  id: string;
+  authorId: string;
+  authorName: string; // Shown with the comment (the author's email for now)
+  body: string;
+  createdAt: number;
+  parentId: string | null; // null for a top-level comment
+  resolved: boolean; // Always false for replies
+}
+
+// What change produced a tab version
+export type TabVersionKind = "rename" | "canvasType" | "content" | "restore";
+
+// A snapshot of a tab taken after it changed, for the tab's edit history
+// Content edits made in quick succession update one version instead of adding many
+export interface TabVersion {
+  id: string;
+  kind: TabVersionKind;
+  name: string;
+  canvasType: CanvasType | null;
+  content: unknown; // The tab's content at the time (null if nothing was saved yet)
+  createdAt: number;
+  updatedAt: number; // Last time the snapshot was updated (equals createdAt unless edits were merged in)
+}
+
+// A version without its content, for listing the history
+export type TabVersionSummary = Omit<TabVersion, "content">;
+
+// A tab as it was when it was closed, kept for a while so it can be restored (see closed-tabs.tsx)
+export interface ClosedTab {
+  taskId: string;
+  tab: Tab;
+  index: number; // Where the tab was in its task
+  content: unknown; // The tab's content when it was closed (null if nothing was saved yet)
+  closedBy: string; // Who closed it (their email), for showing in the list
+  closedAt: number;
+}
+
+// A closed tab without its content, for listing
+export type ClosedTabSummary = Omit<ClosedTab, "content">;
+
+// A tab whose content matched a search (GET /search): where the text was found and the text
+// around the match
+export interface TabSearchResult {
+  taskId: string;
+  tabId: string;
+  source: "content" | "message"; // The canvas's own content, or a chat tab's messages
+  snippet: string;
+}
@@ -0,0 +1,679 @@
+/**
+ * Request body validation for the task and tab routes
+ * Each validator returns either the cleaned value or a user-facing error message,
+ * which the routes turn into a 400 response
+ */
+
+import { Context } from "npm:hono";
+import { CANVAS_TYPES, CanvasType, MEMBER_ROLES, MemberRole, MessageCursor } from "./types.tsx";
+import { MailAttachment } from "./transport.tsx";
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+const MAX_NAME_LENGTH = 200;
+
+// Serialized size limit for one tab's content (a long document fits comfortably)
+const MAX_CONTENT_BYTES = 1024 * 1024;
+
+const MAX_MESSAGE_LENGTH = 4000;
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// Messages per page of chat history
+const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// Comm messages
+const MAX_RECIPIENTS = 50;
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_MAIL_BODY_LENGTH = 100_000;
+const MAX_ATTACHMENTS = 10;
+const MAX_ATTACHMENT_BYTES = 512 * 1024; // All attachments together (they also travel in the saved draft)
+
+// Search text (GET /search); shorter queries match too much to be useful
+const MIN_SEARCH_LENGTH = 2;
+const MAX_SEARCH_LENGTH = 100;
+
+// Longest a share link can be set to last; links without an expiry never expire
+const MAX_SHARE_LINK_DAYS = 365;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Parse a JSON body, returning undefined for malformed JSON so validation reports a 400
+export async function readBody(c: Context): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+export interface TabInput {
+  id?: string;
+  name: string;
+  canvasType: CanvasType | null;
+  createdAt?: number;
+  isActive?: boolean;
+  pinned?: boolean;
+}
+
+export interface TaskCreateInput {
+  id?: string;
+  name: string;
+  createdAt?: number;
+  isActive?: boolean;
+  tabs?: TabInput[];
+}
+
+export interface TaskUpdateInput {
+  name?: string;
+  isActive?: true;
+  activeTabId?: string;
+}
+
+export interface TabCreateInput {
+  tab: TabInput;
+  index?: number;
+}
+
+export interface TabUpdateInput {
+  name?: string;
+  canvasType?: CanvasType | null;
+  pinned?: boolean;
+}
+
+export interface TabOrderInput {
+  tabIds: string[];
+}
+
+export interface TabContentInput {
+  content: unknown;
+}
+
+export interface MessageCreateInput {
+  id: string; // Generated by the client, so a retried send doesn't post the message twice
+  text: string;
+}
+
+export interface MessageUpdateInput {
+  text: string;
+}
+
+export interface CommentCreateInput {
+  id: string; // Generated by the client, so a retried post doesn't add the comment twice
+  body: string;
+  parentId: string | null;
+}
+
+export interface CommentUpdateInput {
+  resolved: boolean;
+}
+
+export interface MemberInviteInput {
+  email: string; // Lowercase
+  role: MemberRole;
+}
+
+export interface ShareLinkCreateInput {
+  role: MemberRole;
+  expiresInDays: number | null;
+}
+
+export interface ViewingInput {
+  clientId: string;
+  taskId: string;
+  tabId: string | null;
+}
+
+export interface MessageQueryInput {
+  limit: number;
+  before?: MessageCursor;
+}
+
+export interface SearchQueryInput {
+  query: string;
+}
+
+export interface MailSendInput {
+  id: string; // Generated by the client, so a retried send doesn't deliver the message twice
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: MailAttachment[];
+}
+
+export interface TabChangeInput extends TabUpdateInput {
+  id: string;
+}
+
+// Everything that changed in a task since baseRevision; the client only sends the fields that differ
+export interface TaskSyncInput extends TaskUpdateInput {
+  baseRevision: number;
+  createdTabs?: TabInput[];
+  updatedTabs?: TabChangeInput[];
+  deletedTabIds?: string[];
+  tabOrder?: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkName(value: unknown, field: string): string | null {
+  if (typeof value !== "string" || value.trim() === "") {
+    return `${field} must be a non-empty string`;
+  }
+  if (value.length > MAX_NAME_LENGTH) {
+    return `${field} must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+function checkId(value: unknown, field: string): string | null {
+  if (value !== undefined && (typeof value !== "string" || value.trim() === "")) {
+    return `${field} must be a non-empty string`;
+  }
+  return null;
+}
+
+function checkMessageText(value: unknown): string | null {
+  if (typeof value !== "string" || value.trim() === "") {
+    return "text must be a non-empty string";
+  }
+  if (value.length > MAX_MESSAGE_LENGTH) {
+    return `text must be at most ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+}
+
+function checkRecipients(value: unknown, field: string): string | null {
+  if (!Array.isArray(value)) {
+    return `${field} must be an array of email addresses`;
+  }
+  if (value.length > MAX_RECIPIENTS) {
+    return `${field} must have at most ${MAX_RECIPIENTS} addresses`;
+  }
+  const invalid = value.find((address) => typeof address !== "string" || !EMAIL_PATTERN.test(address));
+  if (invalid !== undefined) {
+    return `${field} contains an invalid email address: ${String(invalid)}`;
+  }
+  return null;
+}
+
+// Bytes encoded by a base64 string
+function decodedLength(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+function checkCanvasType(value: unknown): string | null {
+  if (value !== null && !CANVAS_TYPES.includes(value as CanvasType)) {
+    return `canvasType must be null or one of: ${CANVAS_TYPES.join(", ")}`;
+  }
+  return null;
+}
+
+function validateTabInput(body: unknown, field: string): ValidationResult<TabInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: `${field} must be an object` };
+  }
+
+  const error =
+    checkId(body.id, `${field}.id`) ??
+    checkName(body.name, `${field}.name`) ??
+    checkCanvasType(body.canvasType ?? null);
+  if (error) return { ok: false, error };
+
+  if (body.createdAt !== undefined && typeof body.createdAt !== "number") {
+    return { ok: false, error: `${field}.createdAt must be a number` };
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    return { ok: false, error: `${field}.isActive must be a boolean` };
+  }
+  if (body.pinned !== undefined && typeof body.pinned !== "boolean") {
+    return { ok: false, error: `${field}.pinned must be a boolean` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: body.id as string | undefined,
+      name: (body.name as string).trim(),
+      canvasType: (body.canvasType ?? null) as CanvasType | null,
+      createdAt: body.createdAt as number | undefined,
+      isActive: body.isActive as boolean | undefined,
+      pinned: body.pinned as boolean | undefined,
+    },
+  };
+}
+
+export function validateTaskCreate(body: unknown): ValidationResult<TaskCreateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const error = checkId(body.id, "id") ?? checkName(body.name, "name");
+  if (error) return { ok: false, error };
+
+  if (body.createdAt !== undefined && typeof body.createdAt !== "number") {
+    return { ok: false, error: "createdAt must be a number" };
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    return { ok: false, error: "isActive must be a boolean" };
+  }
+
+  let tabs: TabInput[] | undefined;
+  if (body.tabs !== undefined) {
+    if (!Array.isArray(body.tabs)) {
+      return { ok: false, error: "tabs must be an array" };
+    }
+    tabs = [];
+    for (const [index, tabBody] of body.tabs.entries()) {
+      const result = validateTabInput(tabBody, `tabs[${index}]`);
+      if (!result.ok) return result;
+      tabs.push(result.value);
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: body.id as string | undefined,
+      name: (body.name as string).trim(),
+      createdAt: body.createdAt as number | undefined,
+      isActive: body.isActive as boolean | undefined,
+      tabs,
+    },
+  };
+}
+
+export function validateTaskUpdate(body: unknown): ValidationResult<TaskUpdateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const value: TaskUpdateInput = {};
+
+  if (body.name !== undefined) {
+    const error = checkName(body.name, "name");
+    if (error) return { ok: false, error };
+    value.name = (body.name as string).trim();
+  }
+  if (body.isActive !== undefined) {
+    // A task can only be activated; deactivation happens by activating another task
+    if (body.isActive !== true) {
+      return { ok: false, error: "isActive can only be set to true" };
+    }
+    value.isActive = true;
+  }
+  if (body.activeTabId !== undefined) {
+    const error = checkId(body.activeTabId, "activeTabId");
+    if (error) return { ok: false, error };
+    value.activeTabId = body.activeTabId as string;
+  }
+
+  if (Object.keys(value).length === 0) {
+    return { ok: false, error: "At least one of name, isActive or activeTabId is required" };
+  }
+
+  return { ok: true, value };
+}
+
+export function validateTabCreate(body: unknown): ValidationResult<TabCreateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const tabResult = validateTabInput(body.tab, "tab");
+  if (!tabResult.ok) return tabResult;
+
+  if (body.index !== undefined && (!Number.isInteger(body.index) || (body.index as number) < 0)) {
+    return { ok: false, error: "index must be a non-negative integer" };
+  }
+
+  return { ok: true, value: { tab: tabResult.value, index: body.index as number | undefined } };
+}
+
+export function validateTabUpdate(body: unknown): ValidationResult<TabUpdateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const value: TabUpdateInput = {};
+
+  if (body.name !== undefined) {
+    const error = checkName(body.name, "name");
+    if (error) return { ok: false, error };
+    value.name = (body.name as string).trim();
+  }
+  if (body.canvasType !== undefined) {
+    const error = checkCanvasType(body.canvasType);
+    if (error) return { ok: false, error };
+    value.canvasType = body.canvasType as CanvasType | null;
+  }
+  if (body.pinned !== undefined) {
+    if (typeof body.pinned !== "boolean") {
+      return { ok: false, error: "pinned must be a boolean" };
+    }
+    value.pinned = body.pinned;
+  }
+
+  if (Object.keys(value).length === 0) {
+    return { ok: false, error: "At least one of name, canvasType or pinned is required" };
+  }
+
+  return { ok: true, value };
+}
+
+function checkIdList(value: unknown, field: string): string | null {
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string")) {
+    return `${field} must be an array of strings`;
+  }
+  if (new Set(value).size !== value.length) {
+    return `${field} must not contain duplicates`;
+  }
+  return null;
+}
+
+export function validateTabOrder(body: unknown): ValidationResult<TabOrderInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const error = checkIdList(body.tabIds, "tabIds");
+  if (error) return { ok: false, error };
+
+  return { ok: true, value: { tabIds: body.tabIds as string[] } };
+}
+
+export function validateTabContent(body: unknown): ValidationResult<TabContentInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (body.content === undefined || body.content === null) {
+    return { ok: false, error: "content is required" };
+  }
+  if (new TextEncoder().encode(JSON.stringify(body.content)).length > MAX_CONTENT_BYTES) {
+    return { ok: false, error: `content must be at most ${MAX_CONTENT_BYTES} bytes` };
+  }
+
+  return { ok: true, value: { content: body.content } };
+}
+
+export function validateMessageCreate(body: unknown): ValidationResult<MessageCreateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (body.id === undefined) {
+    return { ok: false, error: "id is required" };
+  }
+
+  const error = checkId(body.id, "id") ?? checkMessageText(body.text);
+  if (error) return { ok: false, error };
+
+  return { ok: true, value: { id: body.id as string, text: (body.text as string).trim() } };
+}
+
+export function validateMessageUpdate(body: unknown): ValidationResult<MessageUpdateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const error = checkMessageText(body.text);
+  if (error) return { ok: false, error };
+
+  return { ok: true, value: { text: (body.text as string).trim() } };
+}
+
+export function validateCommentCreate(body: unknown): ValidationResult<CommentCreateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (body.id === undefined) {
+    return { ok: false, error: "id is required" };
+  }
+  if (typeof body.body !== "string" || body.body.trim() === "") {
+    return { ok: false, error: "body must be a non-empty string" };
+  }
+  if (body.body.length > MAX_COMMENT_LENGTH) {
+    return { ok: false, error: `body must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+
+  const parentId = body.parentId ?? null;
+  const error = checkId(body.id, "id") ?? (parentId === null ? null : checkId(parentId, "parentId"));
+  if (error) return { ok: false, error };
+
+  return {
+    ok: true,
+    value: { id: body.id as string, body: body.body.trim(), parentId: parentId as string | null },
+  };
+}
+
+export function validateCommentUpdate(body: unknown): ValidationResult<CommentUpdateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (typeof body.resolved !== "boolean") {
+    return { ok: false, error: "resolved must be a boolean" };
+  }
+
+  return { ok: true, value: { resolved: body.resolved } };
+}
+
+function checkMemberRole(value: unknown): string | null {
+  if (typeof value !== "string" || !MEMBER_ROLES.includes(value as MemberRole)) {
+    return `role must be one of: ${MEMBER_ROLES.join(", ")}`;
+  }
+  return null;
+}
+
+export function validateMemberInvite(body: unknown): ValidationResult<MemberInviteInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (typeof body.email !== "string" || !EMAIL_PATTERN.test(body.email.trim())) {
+    return { ok: false, error: "email must be a valid email address" };
+  }
+  const error = checkMemberRole(body.role);
+  if (error) return { ok: false, error };
+
+  return { ok: true, value: { email: body.email.trim().toLowerCase(), role: body.role as MemberRole } };
+}
+
+export function validateShareLinkCreate(body: unknown): ValidationResult<ShareLinkCreateInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  const error = checkMemberRole(body.role);
+  if (error) return { ok: false, error };
+
+  const expiresInDays = body.expiresInDays ?? null;
+  if (
+    expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > MAX_SHARE_LINK_DAYS)
+  ) {
+    return { ok: false, error: `expiresInDays must be an integer from 1 to ${MAX_SHARE_LINK_DAYS}` };
+  }
+
+  return { ok: true, value: { role: body.role as MemberRole, expiresInDays: expiresInDays as number | null } };
+}
+
+export function validateViewing(body: unknown): ValidationResult<ViewingInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  const tabId = body.tabId ?? null;
+  const error =
+    (body.clientId === undefined ? "clientId is required" : checkId(body.clientId, "clientId")) ??
+    (body.taskId === undefined ? "taskId is required" : checkId(body.taskId, "taskId")) ??
+    (tabId === null ? null : checkId(tabId, "tabId"));
+  if (error) return { ok: false, error };
+
+  return {
+    ok: true,
+    value: { clientId: body.clientId as string, taskId: body.taskId as string, tabId: tabId as string | null },
+  };
+}
+
+// Query of GET /tabs/:tabId/messages: ?limit=<n>&before=<cursor from the previous page>
+export function validateMessageQuery(query: { limit?: string; before?: string }): ValidationResult<MessageQueryInput> {
+  const value: MessageQueryInput = { limit: DEFAULT_MESSAGE_PAGE_SIZE };
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MESSAGE_PAGE_SIZE) {
+      return { ok: false, error: `limit must be an integer from 1 to ${MAX_MESSAGE_PAGE_SIZE}` };
+    }
+    value.limit = limit;
+  }
+
+  if (query.before !== undefined) {
+    // "<createdAt>:<id>", see encodeMessageCursor in chat-routes.tsx
+    const separator = query.before.indexOf(":");
+    const createdAt = Number(query.before.slice(0, separator));
+    const id = query.before.slice(separator + 1);
+    if (separator === -1 || !Number.isInteger(createdAt) || id === "") {
+      return { ok: false, error: "before must be a cursor returned by a previous request" };
+    }
+    value.before = { createdAt, id };
+  }
+
+  return { ok: true, value };
+}
+
+// Query of GET /search: ?q=<text>
+export function validateSearchQuery(query: { q?: string }): ValidationResult<SearchQueryInput> {
+  const text = (query.q ?? "").trim();
+  if (text.length < MIN_SEARCH_LENGTH || text.length > MAX_SEARCH_LENGTH) {
+    return { ok: false, error: `q must be ${MIN_SEARCH_LENGTH} to ${MAX_SEARCH_LENGTH} characters` };
+  }
+  return { ok: true, value: { query: text } };
+}
+
+export function validateMailSend(body: unknown): ValidationResult<MailSendInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (body.id === undefined) {
+    return { ok: false, error: "id is required" };
+  }
+
+  const cc = body.cc ?? [];
+  const error =
+    checkId(body.id, "id") ?? checkRecipients(body.to, "to") ?? checkRecipients(cc, "cc");
+  if (error) return { ok: false, error };
+  if ((body.to as string[]).length === 0) {
+    return { ok: false, error: "to must have at least one address" };
+  }
+
+  if (typeof body.subject !== "string" || body.subject.length > MAX_SUBJECT_LENGTH) {
+    return { ok: false, error: `subject must be a string of at most ${MAX_SUBJECT_LENGTH} characters` };
+  }
+  if (typeof body.body !== "string" || body.body.length > MAX_MAIL_BODY_LENGTH) {
+    return { ok: false, error: `body must be a string of at most ${MAX_MAIL_BODY_LENGTH} characters` };
+  }
+
+  const attachmentsBody = body.attachments ?? [];
+  if (!Array.isArray(attachmentsBody) || attachmentsBody.length > MAX_ATTACHMENTS) {
+    return { ok: false, error: `attachments must be an array of at most ${MAX_ATTACHMENTS} files` };
+  }
+  const attachments: MailAttachment[] = [];
+  for (const [index, attachment] of attachmentsBody.entries()) {
+    if (
+      !isObject(attachment) ||
+      typeof attachment.name !== "string" ||
+      attachment.name.trim() === "" ||
+      typeof attachment.type !== "string" ||
+      typeof attachment.data !== "string" ||
+      !BASE64_PATTERN.test(attachment.data)
+    ) {
+      return { ok: false, error: `attachments[${index}] must have a name, a type and base64 data` };
+    }
+    attachments.push({
+      name: attachment.name,
+      type: attachment.type,
+      size: decodedLength(attachment.data),
+      data: attachment.data,
+    });
+  }
+  if (attachments.reduce((total, attachment) => total + attachment.size, 0) > MAX_ATTACHMENT_BYTES) {
+    return { ok: false, error: `attachments must be at most ${MAX_ATTACHMENT_BYTES} bytes in total` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: body.id as string,
+      to: body.to as string[],
+      cc: cc as string[],
+      subject: body.subject.trim(),
+      body: body.body,
+      attachments,
+    },
+  };
+}
+
+export function validateTaskSync(body: unknown): ValidationResult<TaskSyncInput> {
+  if (!isObject(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+  if (!Number.isInteger(body.baseRevision) || (body.baseRevision as number) < 0) {
+    return { ok: false, error: "baseRevision must be a non-negative integer" };
+  }
+
+  // Task fields use the same rules as PUT /tasks/:taskId, but may all be absent
+  const { baseRevision, createdTabs, updatedTabs, deletedTabIds, tabOrder, ...taskFields } = body;
+  const value: TaskSyncInput = { baseRevision: baseRevision as number };
+  if (Object.keys(taskFields).length > 0) {
+    const taskResult = validateTaskUpdate(taskFields);
+    if (!taskResult.ok) return taskResult;
+    Object.assign(value, taskResult.value);
+  }
+
+  if (createdTabs !== undefined) {
+    if (!Array.isArray(createdTabs)) {
+      return { ok: false, error: "createdTabs must be an array" };
+    }
+    value.createdTabs = [];
+    for (const [index, tabBody] of createdTabs.entries()) {
+      const result = validateTabInput(tabBody, `createdTabs[${index}]`);
+      if (!result.ok) return result;
+      if (!result.value.id) {
+        return { ok: false, error: `createdTabs[${index}].id is required` };
+      }
+      value.createdTabs.push(result.value);
+    }
+  }
+
+  if (updatedTabs !== undefined) {
+    if (!Array.isArray(updatedTabs)) {
+      return { ok: false, error: "updatedTabs must be an array" };
+    }
+    value.updatedTabs = [];
+    for (const [index, tabBody] of updatedTabs.entries()) {
+      if (!isObject(tabBody)) {
+        return { ok: false, error: `updatedTabs[${index}] must be an object` };
+      }
+      const { id, ...updates } = tabBody;
+      if (typeof id !== "string" || id === "") {
+        return { ok: false, error: `updatedTabs[${index}].id is required` };
+      }
+      const result = validateTabUpdate(updates);
+      if (!result.ok) return { ok: false, error: `updatedTabs[${index}]: ${result.error}` };
+      value.updatedTabs.push({ id, ...result.value });
+    }
+  }
+
+  for (const [field, ids] of [["deletedTabIds", deletedTabIds], ["tabOrder", tabOrder]] as const) {
+    if (ids === undefined) continue;
+    const error = checkIdList(ids, field);
+    if (error) return { ok: false, error };
+    value[field] = ids as string[];
+  }
+
+  return { ok: true, value };
+}
@@ -0,0 +1,99 @@
+/**
+ * Tab version routes
+ * The Edit-History timeline of a tab: versions are recorded by the routes that change a
+ * tab (see history.tsx); these routes list them, return one with its content for a
+ * preview, and restore one
+ *
+ * Mounted behind requireAuth, so every handler acts on c.get("userId"); viewers of a shared
+ * task can browse the history but not restore
+ */
+
+import { Hono } from "npm:hono";
+import { canEdit, getTabAccess } from "./access.tsx";
+import { AuthEnv } from "./auth.tsx";
+import { MAX_TAB_VERSIONS, recordTabVersion } from "./history.tsx";
+import { publishEvent, RealtimeHub } from "./realtime.tsx";
+import { TaskStorage } from "./storage.tsx";
+
+export function createVersionRoutes(storage: TaskStorage, hub: RealtimeHub) {
+  const routes = new Hono<AuthEnv>();
+
+  // List a tab's versions without their content, newest first
+  routes.get("/tabs/:tabId/versions", async (c) => {
+    try {
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      const versions = await storage.listTabVersions(tabId, MAX_TAB_VERSIONS);
+      return c.json({ success: true, versions });
+    } catch (err) {
+      console.error("Error fetching tab versions:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Get one version with its content
+  routes.get("/tabs/:tabId/versions/:versionId", async (c) => {
+    try {
+      const tabId = c.req.param("tabId");
+
+      if (!(await getTabAccess(storage, c, tabId))) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+
+      const version = await storage.getTabVersion(tabId, c.req.param("versionId"));
+      if (!version) {
+        return c.json({ success: false, error: "Version not found" }, 404);
+      }
+
+      return c.json({ success: true, version });
+    } catch (err) {
+      console.error("Error fetching tab version:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  // Put a tab back the way it was in a version (name, canvas type and content). The restore
+  // is recorded as a new version, so it can be undone by restoring the one before it
+  routes.post("/tabs/:tabId/versions/:versionId/restore", async (c) => {
+    try {
+      const tabId = c.req.param("tabId");
+      const access = await getTabAccess(storage, c, tabId);
+
+      if (!access) {
+        return c.json({ success: false, error: "Tab not found" }, 404);
+      }
+      if (!canEdit(access.role)) {
+        return c.json({ success: false, error: "You can only view this task" }, 403);
+      }
+
+      const version = await storage.getTabVersion(tabId, c.req.param("versionId"));
+      if (!version) {
+        return c.json({ success: false, error: "Version not found" }, 404);
+      }
+
+      const { name, canvasType, content } = version;
+      const { ownerId } = access;
+      const revision = await storage.transaction(async (tx) => {
+        const revision = await tx.claimRevision(ownerId, access.taskId);
+        await tx.updateTab(ownerId, tabId, { name, canvasType });
+        await tx.setTabContent(ownerId, tabId, content);
+        await recordTabVersion(tx, ownerId, tabId, "restore");
+        return revision;
+      });
+      if (revision !== null) {
+        await publishEvent(storage, hub, { type: "task-updated", taskId: access.taskId, revision });
+      }
+
+      return c.json({ success: true, tab: { ...access.tab, name, canvasType }, content });
+    } catch (err) {
+      console.error("Error restoring tab version:", err);
+      return c.json({ success: false, error: String(err) }, 500);
+    }
+  });
+
+  return routes;
+}
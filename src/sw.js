@@ -0,0 +1,167 @@
+/**
+ * Sparo Service Worker
+ * Emitted as /sw.js by the serviceWorker plugin in vite.config.ts, which replaces
+ * self.__PRECACHE_URLS with the files of the current build and __CACHE_VERSION__ with their hash
+ *
+ * - App shell (build output): precached on install, served cache-first
+ * - Outfit font (Google Fonts stylesheet and font files): precached on install, cache-first
+ * - API (/make-server-9c4af64c/*): network-first, falling back to the last cached GET response
+ *   (the app deletes this cache on sign-out, since it is keyed by URL and not by user); the
+ *   realtime event stream and /health are left to the network
+ * - Navigations that can't be served at all get an offline page matching the app's loading/error views
+ *
+ * A new version installs in the background and waits; the app shows an "update available"
+ * toast and posts SKIP_WAITING when the user chooses to reload
+ */
+
+const PRECACHE_URLS = self.__PRECACHE_URLS;
+const CACHE_VERSION = '__CACHE_VERSION__';
+
+const SHELL_CACHE = `sparo-shell-${CACHE_VERSION}`;
+const FONT_CACHE = 'sparo-fonts-v1';
+const API_CACHE = 'sparo-api-v1';
+const CURRENT_CACHES = [SHELL_CACHE, FONT_CACHE, API_CACHE];
+
+const FONT_STYLESHEET_URL = 'https://fonts.googleapis.com/css2?family=Outfit:wght@400;500;600;700&display=swap';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+const API_PATH = '/make-server-9c4af64c/';
+
+// /health must always hit the network: the app uses it to detect that the server is back.
+// /events is a long-lived event stream, which must reach the app as it arrives
+const NETWORK_ONLY_API_PATHS = [`${API_PATH}health`, `${API_PATH}events`];
+
+// Shown for navigations when neither the network nor the cache can serve the app
+const OFFLINE_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Sparo - Offline</title>
+    <style>
+      body { margin: 0; font-family: Outfit, sans-serif; background: #ffffff; }
+      main { display: flex; flex-direction: column; align-items: center; justify-content: center;
+             gap: 16px; min-height: 100vh; padding: 24px; box-sizing: border-box; text-align: center; }
+      p { margin: 0; color: #737373; }
+      button { background: #7482FF; color: #ffffff; border: 0; border-radius: 9999px;
+               padding: 8px 24px; font: inherit; min-height: 44px; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <p>You're offline. Sparo will open once you're back online.</p>
+      <button onclick="window.location.reload()">Retry</button>
+    </main>
+  </body>
+</html>`;
+
+// Cache the font stylesheet and every font file it references
+async function precacheFont() {
+  const cache = await caches.open(FONT_CACHE);
+  const response = await fetch(FONT_STYLESHEET_URL);
+  if (!response.ok) return;
+
+  await cache.put(FONT_STYLESHEET_URL, response.clone());
+  const css = await response.text();
+  const fontUrls = [...css.matchAll(/url\((https:[^)]+)\)/g)].map((match) => match[1]);
+  await cache.addAll(fontUrls);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll(PRECACHE_URLS);
+
+      // The font is nice to have offline, but must not stop the app shell from installing
+      try {
+        await precacheFont();
+      } catch (err) {
+        console.warn('Could not precache the Outfit font:', err);
+      }
+    })()
+  );
+});
+
+// Drop app shell caches from previous builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cacheNames = await caches.keys();
+      await Promise.all(
+        cacheNames
+          .filter((name) => name.startsWith('sparo-') && !CURRENT_CACHES.includes(name))
+          .map((name) => caches.delete(name))
+      );
+    })()
+  );
+});
+
+// The app asks a waiting worker to take over when the user accepts the update prompt
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Serve from the cache, fetching (and caching) on a miss
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Try the network, keeping the latest GET response for when the network is gone. The copy is
+// cached in the background: cache.put reads the whole body, which would hold the response back
+async function networkFirst(event) {
+  const { request } = event;
+  try {
+    const response = await fetch(request);
+    const isEventStream = response.headers.get('Content-Type')?.startsWith('text/event-stream');
+    if (request.method === 'GET' && response.ok && !isEventStream) {
+      const copy = response.clone();
+      event.waitUntil(caches.open(API_CACHE).then((cache) => cache.put(request, copy)));
+    }
+    return response;
+  } catch (err) {
+    const cached = request.method === 'GET' ? await caches.match(request) : undefined;
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// App shell navigations all load the single-page app from "/"
+async function handleNavigation(request) {
+  try {
+    return (await caches.match('/')) ?? (await fetch(request));
+  } catch {
+    return new Response(OFFLINE_PAGE, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (url.pathname.includes(API_PATH)) {
+    if (!NETWORK_ONLY_API_PATHS.some((path) => url.pathname.endsWith(path))) {
+      event.respondWith(networkFirst(event));
+    }
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
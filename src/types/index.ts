@@ -14,7 +14,8 @@ export interface Tab {
   canvasType: CanvasType | null; // null means blank tab (no canvas selected yet)
   createdAt: number; // Unix timestamp for chronological ordering
   isActive: boolean;
-  commentCount: number;
+  pinned: boolean; // Pinned tabs come first in their task and need confirming to close
+  commentCount: number; // Unresolved comment threads, worked out by the server from the tab's comments
 }
 
 /**
@@ -24,4 +25,187 @@ export interface Task {
   id: string;
   name: string;
   tabs: Tab[];
+  createdAt: number; // Unix timestamp for ordering tasks in the picker and switcher
+  isActive: boolean; // Only one task is active at a time; each task keeps its own active tab
+  revision: number; // Server revision this task was last synced at (0 until it is first saved)
+  role: TaskRole; // Your role on the task; 'owner' unless it was shared with you
+}
+
+/**
+ * Roles on a task: its owner, and the members it is shared with
+ * Viewers can open the task and its tabs but change nothing
+ */
+export type TaskRole = 'owner' | 'editor' | 'viewer';
+
+export type MemberRole = Exclude<TaskRole, 'owner'>;
+
+/**
+ * Someone a task is shared with (GET /tasks/:taskId/sharing)
+ * Invites are by email; userId is set once they join through a share link
+ */
+export interface TaskMember {
+  email: string;
+  userId: string | null;
+  role: MemberRole;
+  addedAt: number;
+}
+
+/**
+ * A link that lets anyone signed in join a task with its role
+ */
+export interface ShareLink {
+  token: string;
+  taskId: string;
+  role: MemberRole;
+  createdAt: number;
+  expiresAt: number | null; // null never expires
+}
+
+/**
+ * What the server streams to the app as it happens (GET /events)
+ * Task events only name what changed; the app refetches the task to see how
+ */
+export type RealtimeEvent =
+  // A task or its tabs changed; revision is the task's new revision
+  | { type: 'task-updated'; taskId: string; revision: number }
+  // A task was shared with you, or your role on it changed
+  | { type: 'task-shared'; taskId: string }
+  // A task was deleted, or you no longer have access to it
+  | { type: 'task-deleted'; taskId: string }
+  // Someone's app (clientId) is showing a tab of the task; tabId null once it no longer is
+  | { type: 'viewing'; clientId: string; userId: string; userName: string; taskId: string; tabId: string | null };
+
+/**
+ * Someone else who has a tab open right now (from the viewing events)
+ */
+export interface TabViewer {
+  clientId: string;
+  userId: string;
+  userName: string;
+  taskId: string;
+  tabId: string;
+  seenAt: number; // When their app last announced it
+}
+
+/**
+ * A tab you had on screen recently, for the Home screen (GET /home)
+ */
+export interface RecentTab {
+  taskId: string;
+  tabId: string;
+  visitedAt: number;
+}
+
+/**
+ * Comments others wrote on a tab since you last looked at them, for the Home screen (GET /home)
+ */
+export interface UnreadComments {
+  taskId: string;
+  tabId: string;
+  count: number;
+}
+
+/**
+ * A message on a chat tab (GET /tabs/:tabId/messages)
+ */
+export interface ChatMessage {
+  id: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  createdAt: number;
+  editedAt: number | null; // Set once the author has edited the message
+}
+
+/**
+ * A comment on a tab (GET /tabs/:tabId/comments)
+ * Replies point at the top-level comment they answer; resolving a top-level comment
+ * resolves its thread. Tab.commentCount is the tab's number of unresolved threads
+ */
+export interface TabComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  createdAt: number;
+  parentId: string | null; // null for a top-level comment
+  resolved: boolean; // Always false for replies
+}
+
+/**
+ * A message sent from a comm tab (GET /tabs/:tabId/mail)
+ * Only the attachments' names, types and sizes are kept once sent
+ */
+export interface SentMail {
+  id: string;
+  from: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: Array<{ name: string; type: string; size: number }>;
+  sentAt: number;
+  deliveryId: string; // The mail transport's id for the message
+}
+
+/**
+ * An entry in a tab's edit history (GET /tabs/:tabId/versions): a snapshot of the tab
+ * taken after it was renamed, given a canvas type, edited or restored
+ * Listed without content; fetching one version includes it (TabVersion)
+ */
+export type TabVersionKind = 'rename' | 'canvasType' | 'content' | 'restore';
+
+export interface TabVersionSummary {
+  id: string;
+  kind: TabVersionKind;
+  name: string;
+  canvasType: CanvasType | null;
+  createdAt: number;
+  updatedAt: number; // Later than createdAt when edits made soon after were merged in
+}
+
+export interface TabVersion extends TabVersionSummary {
+  content: unknown | null;
+}
+
+/**
+ * A tab that was closed recently, for the tab switcher's Recently Closed list (GET /closed-tabs)
+ * Kept by the server for a week with its position and content, so it can be restored where it
+ * was; listed without content, fetching one includes it (ClosedTab)
+ */
+export interface ClosedTabSummary {
+  taskId: string;
+  tab: Tab;
+  index: number; // Where the tab was in its task
+  closedBy: string; // Who closed it (their email)
+  closedAt: number;
+}
+
+export interface ClosedTab extends ClosedTabSummary {
+  content: unknown | null;
+}
+
+/**
+ * A tab whose text matched a search (GET /search): a doc or sheet's content, or a chat
+ * tab's messages, with the text around the match
+ */
+export interface TabSearchResult {
+  taskId: string;
+  tabId: string;
+  source: 'content' | 'message';
+  snippet: string;
+}
+
+/**
+ * Everything that changed in a task since the revision it was last synced at
+ * Sent by the sync engine to PATCH /tasks/:taskId; only fields that differ are present
+ */
+export interface TaskChanges {
+  name?: string;
+  isActive?: true; // Activating a task deactivates the others, so false is never sent
+  activeTabId?: string;
+  createdTabs?: Tab[]; // Appended in this order, before tabOrder is applied
+  updatedTabs?: Array<{ id: string; name?: string; canvasType?: CanvasType | null; pinned?: boolean }>;
+  deletedTabIds?: string[];
+  tabOrder?: string[]; // Full tab order, only sent when it differs from the order above
 }
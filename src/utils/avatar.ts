@@ -0,0 +1,22 @@
+/**
+ * Avatar helpers
+ * Colour and initials for the avatars shown in chat messages, comments and the share modal
+ */
+
+const AVATAR_COLORS = ['#7482FF', '#FF9F0A', '#30D158', '#FF453A', '#64D2FF', '#BF5AF2'];
+
+/**
+ * Stable colour per author
+ */
+export function avatarColor(authorId: string): string {
+  let hash = 0;
+  for (const char of authorId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+/**
+ * The first letters of a name (or of an email address's local part)
+ */
+export function initials(name: string, length = 2): string {
+  return name.replace(/@.*$/, '').slice(0, length).toUpperCase();
+}
@@ -0,0 +1,67 @@
+/**
+ * Cell address helpers for the sheet canvas
+ * Rows and columns are 0-based internally; addresses are A1-style ("A1" is row 0, column 0)
+ */
+
+export interface CellPosition {
+  row: number;
+  column: number;
+}
+
+const ADDRESS_PATTERN = /^\$?([A-Za-z]{1,3})\$?(\d{1,7})$/;
+
+/**
+ * Column label for a 0-based index: 0 -> A, 25 -> Z, 26 -> AA
+ */
+export function columnLabel(index: number): string {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+/**
+ * 0-based index of a column label: A -> 0, AA -> 26
+ */
+export function columnIndex(label: string): number {
+  let index = 0;
+  for (const char of label.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+export function toCellAddress(row: number, column: number): string {
+  return `${columnLabel(column)}${row + 1}`;
+}
+
+/**
+ * Parse an address like "B12" (absolute markers and lowercase are accepted), or null if invalid
+ */
+export function parseCellAddress(address: string): CellPosition | null {
+  const match = ADDRESS_PATTERN.exec(address);
+  if (!match || Number(match[2]) === 0) return null;
+  return { row: Number(match[2]) - 1, column: columnIndex(match[1]) };
+}
+
+/**
+ * Normalize an address to its canonical form ("$b$3" -> "B3"), or null if invalid
+ */
+export function normalizeCellAddress(address: string): string | null {
+  const position = parseCellAddress(address);
+  return position ? toCellAddress(position.row, position.column) : null;
+}
+
+/**
+ * Every address in the rectangle between two corners (in any order), row by row
+ */
+export function expandRange(start: CellPosition, end: CellPosition): string[] {
+  const addresses: string[] = [];
+  for (let row = Math.min(start.row, end.row); row <= Math.max(start.row, end.row); row++) {
+    for (let column = Math.min(start.column, end.column); column <= Math.max(start.column, end.column); column++) {
+      addresses.push(toCellAddress(row, column));
+    }
+  }
+  return addresses;
+}
@@ -0,0 +1,98 @@
+/**
+ * Comm draft helpers
+ * A comm tab's content is the draft being written; it is saved like any other tab
+ * content, and sent through the server's mail transport (api.sendMail)
+ */
+
+export interface CommAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number; // Bytes
+  data: string; // Base64 file contents
+}
+
+export interface CommDraft {
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: CommAttachment[];
+}
+
+// All attachments of a draft together; matches the server's limit (the draft is saved as
+// tab content, which is capped at 1MB, and base64 adds a third)
+export const MAX_ATTACHMENT_BYTES = 512 * 1024;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(address: string): boolean {
+  return EMAIL_PATTERN.test(address);
+}
+
+export function createEmptyDraft(): CommDraft {
+  return { to: [], cc: [], subject: '', body: '', attachments: [] };
+}
+
+export function isDraftEmpty(draft: CommDraft): boolean {
+  return (
+    draft.to.length === 0 &&
+    draft.cc.length === 0 &&
+    draft.subject.trim() === '' &&
+    draft.body.trim() === '' &&
+    draft.attachments.length === 0
+  );
+}
+
+/**
+ * Accept saved content only if it looks like a draft (content is untyped JSON from the server)
+ */
+export function toCommDraft(content: unknown): CommDraft {
+  const candidate = content as Partial<CommDraft> | null;
+  if (!candidate || typeof candidate !== 'object') {
+    return createEmptyDraft();
+  }
+
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+  return {
+    to: strings(candidate.to),
+    cc: strings(candidate.cc),
+    subject: typeof candidate.subject === 'string' ? candidate.subject : '',
+    body: typeof candidate.body === 'string' ? candidate.body : '',
+    attachments: Array.isArray(candidate.attachments)
+      ? candidate.attachments.filter(
+          (attachment) => typeof attachment?.name === 'string' && typeof attachment?.data === 'string'
+        )
+      : [],
+  };
+}
+
+/**
+ * Read a picked file into an attachment
+ */
+export function readAttachment(file: File): Promise<CommAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Data URL: "data:<type>;base64,<data>"
+      const dataUrl = reader.result as string;
+      resolve({
+        id: crypto.randomUUID(),
+        name: file.name,
+        type: file.type || 'application/octet-stream',
+        size: file.size,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
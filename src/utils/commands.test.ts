@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createCommandRegistry, DEFAULT_COMMANDS, normalizeCommand } from './commands';
+import { makeTab, makeTask } from './testing';
+
+const registry = createCommandRegistry(DEFAULT_COMMANDS);
+
+const task = makeTask('t1', [
+  makeTab('notes', { name: 'Notes', canvasType: 'doc', pinned: true, isActive: true }),
+  makeTab('budget', { name: 'Budget', canvasType: 'sheet' }),
+  makeTab('draft', { name: 'Draft', canvasType: 'doc' }),
+  makeTab('blank', { name: 'Blank Tab' }),
+]);
+const context = { tasks: [task], activeTaskId: 't1', activeTabId: 'notes' };
+
+describe('command registry', () => {
+  it('tidies commands before matching them', () => {
+    expect(normalizeCommand('  Hey Sparo,  new   doc please!! ')).toBe('new doc');
+    expect(registry.match('please close this tab.')?.command.id).toBe('close-tab');
+  });
+
+  it('passes named groups as arguments, without quotes', () => {
+    expect(registry.match('new sheet called "Q3 Budget"')).toMatchObject({
+      command: { id: 'new-tab' },
+      args: { type: 'sheet', name: 'Q3 Budget' },
+    });
+  });
+
+  it('tries commands in the order they were registered', () => {
+    const custom = createCommandRegistry([
+      { id: 'first', label: '', example: '', undoLabel: '', patterns: [/^go$/], run: () => ({ ok: true, message: '', operations: [] }) },
+      { id: 'second', label: '', example: '', undoLabel: '', patterns: [/^go$/], run: () => ({ ok: true, message: '', operations: [] }) },
+    ]);
+    expect(custom.match('go')?.command.id).toBe('first');
+  });
+
+  it('explains commands it does not understand', () => {
+    expect(registry.run('make coffee', context)).toEqual({
+      ok: false,
+      error: `Sparo doesn't understand "make coffee" yet`,
+      command: null,
+    });
+  });
+});
+
+describe('default commands', () => {
+  it('creates a tab of the asked canvas type and name', () => {
+    const result = registry.run('new sheet called Forecast', context);
+    expect(result.ok && result.operations).toMatchObject([
+      { type: 'createTab', taskId: 't1', tab: { name: 'Forecast', canvasType: 'sheet' } },
+    ]);
+  });
+
+  it('closes the tabs of a type, last first, leaving pinned ones open', () => {
+    const result = registry.run('close all doc tabs', context);
+    expect(result.ok && result.operations.map((operation) => operation.type === 'closeTab' && operation.tabId)).toEqual([
+      'draft',
+    ]);
+  });
+
+  it('refuses to close a pinned tab', () => {
+    expect(registry.run('close this tab', context)).toMatchObject({ ok: false, error: 'This tab is pinned; unpin it to close it' });
+  });
+
+  it('switches to a tab by the start of its name', () => {
+    expect(registry.run('switch to bud', context)).toMatchObject({
+      ok: true,
+      operations: [{ type: 'selectTab', taskId: 't1', tabId: 'budget' }],
+    });
+  });
+
+  it('changes nothing on a task shared as view only', () => {
+    const viewerContext = { ...context, tasks: [{ ...task, role: 'viewer' as const }] };
+    expect(registry.run('rename this tab to Plan', viewerContext)).toMatchObject({ ok: false, error: 'This task is view only' });
+  });
+});
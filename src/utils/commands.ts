@@ -0,0 +1,316 @@
+/**
+ * Sparo commands
+ * Typed (and spoken) commands like "new sheet called Budget" or "switch to Notes", matched
+ * against a registry of the app's own actions
+ *
+ * Matching is rule-based and deterministic: the input is tidied up (spacing, trailing
+ * punctuation, "please") and tried against each command's patterns in the order the commands
+ * were registered; the first pattern that matches wins, and its named groups are the
+ * command's arguments. Nothing leaves the device, so commands work offline
+ *
+ * A command doesn't change anything itself: it returns the task operations to apply (see
+ * operations.ts), so App.tsx applies them like any other edit (undoable where supported)
+ */
+
+import { CanvasType, Tab, Task } from '../types';
+import { TaskOperation } from './operations';
+import { createBlankTab, createTask, getCanvasTabName, getNextTaskName } from './tasks';
+
+/**
+ * What a command sees of the app
+ */
+export interface CommandContext {
+  tasks: Task[];
+  activeTaskId: string;
+  activeTabId: string | null;
+}
+
+export type CommandResult =
+  | { ok: true; message: string; operations: TaskOperation[] }
+  | { ok: false; error: string };
+
+export interface CommandDefinition {
+  id: string;
+  label: string; // Shown in the command bar, e.g. "New tab"
+  example: string; // Suggested to the user, e.g. "new sheet called Budget"
+  undoLabel: string; // For the undo stack, e.g. "Close tab"
+  patterns: RegExp[]; // Named groups become the arguments
+  run: (args: Record<string, string>, context: CommandContext) => CommandResult;
+}
+
+export interface CommandMatch {
+  command: CommandDefinition;
+  args: Record<string, string>;
+}
+
+export interface CommandRegistry {
+  register: (command: CommandDefinition) => void;
+  list: () => CommandDefinition[];
+  match: (input: string) => CommandMatch | null;
+  run: (input: string, context: CommandContext) => CommandResult & { command: CommandDefinition | null };
+}
+
+/**
+ * Create a registry; commands are tried in the order they are registered
+ */
+export function createCommandRegistry(commands: CommandDefinition[] = []): CommandRegistry {
+  const registered = [...commands];
+
+  const match = (input: string): CommandMatch | null => {
+    const text = normalizeCommand(input);
+    if (!text) return null;
+
+    for (const command of registered) {
+      for (const pattern of command.patterns) {
+        const found = text.match(pattern);
+        if (found) {
+          const args = Object.fromEntries(
+            Object.entries(found.groups ?? {})
+              .filter(([, value]) => value !== undefined)
+              .map(([key, value]) => [key, unquote(value)])
+          );
+          return { command, args };
+        }
+      }
+    }
+    return null;
+  };
+
+  return {
+    register: (command) => {
+      registered.push(command);
+    },
+    list: () => [...registered],
+    match,
+    run: (input, context) => {
+      const found = match(input);
+      if (!found) {
+        return { ok: false, error: `Sparo doesn't understand "${normalizeCommand(input)}" yet`, command: null };
+      }
+      return { ...found.command.run(found.args, context), command: found.command };
+    },
+  };
+}
+
+/**
+ * Tidy up a command before matching: single spaces, no trailing punctuation, no "please"
+ */
+export function normalizeCommand(input: string): string {
+  return input
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/[.!?]+$/, '')
+    .replace(/^(?:please|hey sparo|sparo),? /i, '')
+    .replace(/,? please$/i, '')
+    .trim();
+}
+
+// "Budget" and 'Budget' mean Budget
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'“‘])(.*)(["'”’])$/, '$2');
+}
+
+// Words people use for each canvas type
+const CANVAS_TYPE_WORDS: Record<string, CanvasType> = {
+  doc: 'doc',
+  document: 'doc',
+  note: 'doc',
+  sheet: 'sheet',
+  spreadsheet: 'sheet',
+  table: 'sheet',
+  comm: 'comm',
+  email: 'comm',
+  mail: 'comm',
+  chat: 'chat',
+};
+const CANVAS_TYPE_PATTERN = Object.keys(CANVAS_TYPE_WORDS).join('|');
+
+function toCanvasType(word: string | undefined): CanvasType | null {
+  return word ? CANVAS_TYPE_WORDS[word.toLowerCase().replace(/s$/, '')] ?? null : null;
+}
+
+function activeTask(context: CommandContext): Task | undefined {
+  return context.tasks.find((task) => task.id === context.activeTaskId);
+}
+
+const VIEW_ONLY_ERROR = 'This task is view only';
+
+/**
+ * Find a tab by name: an exact match, then one that starts with the name, then one that
+ * contains it; the active task's tabs are searched before the others
+ */
+export function findTabByName(context: CommandContext, name: string): { task: Task; tab: Tab } | null {
+  const wanted = name.toLowerCase();
+  const tasks = [
+    ...context.tasks.filter((task) => task.id === context.activeTaskId),
+    ...context.tasks.filter((task) => task.id !== context.activeTaskId),
+  ];
+  const tabs = tasks.flatMap((task) => task.tabs.map((tab) => ({ task, tab, tabName: tab.name.toLowerCase() })));
+
+  const found =
+    tabs.find(({ tabName }) => tabName === wanted) ??
+    tabs.find(({ tabName }) => tabName.startsWith(wanted)) ??
+    tabs.find(({ tabName }) => tabName.includes(wanted));
+  return found ? { task: found.task, tab: found.tab } : null;
+}
+
+/**
+ * The commands Sparo understands out of the box
+ */
+export const DEFAULT_COMMANDS: CommandDefinition[] = [
+  {
+    id: 'new-task',
+    label: 'New task',
+    example: 'new task called Trip',
+    undoLabel: 'New task',
+    patterns: [/^(?:create|make|add|start|open)?(?: a)? ?new task(?: (?:called|named) (?<name>.+))?$/i],
+    run: ({ name }, context) => {
+      const task = createTask(name || getNextTaskName(context.tasks));
+      return { ok: true, message: `Created ${task.name}`, operations: [{ type: 'createTask', task }] };
+    },
+  },
+  {
+    id: 'new-tab',
+    label: 'New tab',
+    example: 'new sheet called Budget',
+    undoLabel: 'New tab',
+    patterns: [
+      new RegExp(
+        `^(?:create|make|add|open)?(?: an?)? ?new (?:(?<type>${CANVAS_TYPE_PATTERN})s? ?)?(?:tab)?(?: (?:called|named) (?<name>.+))?$`,
+        'i'
+      ),
+    ],
+    run: ({ type, name }, context) => {
+      const task = activeTask(context);
+      if (!task) return { ok: false, error: 'There is no task to add a tab to' };
+      if (task.role === 'viewer') return { ok: false, error: VIEW_ONLY_ERROR };
+
+      const canvasType = toCanvasType(type);
+      const blankTab = createBlankTab();
+      const tab: Tab = {
+        ...blankTab,
+        canvasType,
+        name: name || (canvasType ? getCanvasTabName(canvasType) : blankTab.name),
+      };
+      return { ok: true, message: `Created ${tab.name}`, operations: [{ type: 'createTab', taskId: task.id, tab }] };
+    },
+  },
+  {
+    id: 'close-tabs',
+    label: 'Close tabs',
+    example: 'close all blank tabs',
+    undoLabel: 'Close tab',
+    patterns: [new RegExp(`^close (?:all )?(?:the )?(?<kind>blank|empty|${CANVAS_TYPE_PATTERN})s? tabs$`, 'i')],
+    run: ({ kind }, context) => {
+      const task = activeTask(context);
+      if (!task) return { ok: false, error: 'There are no tabs to close' };
+      if (task.role === 'viewer') return { ok: false, error: VIEW_ONLY_ERROR };
+
+      const canvasType = toCanvasType(kind);
+      // Pinned tabs are only closed one at a time, by hand
+      let toClose = task.tabs.filter((tab) => tab.canvasType === canvasType && !tab.pinned);
+      // Closing every tab would only bring back a blank one, so the active tab stays
+      if (toClose.length === task.tabs.length) {
+        toClose = toClose.filter((tab) => !tab.isActive);
+      }
+      if (toClose.length === 0) return { ok: false, error: `There are no ${kind.toLowerCase()} tabs to close` };
+
+      return {
+        ok: true,
+        message: `Closed ${toClose.length} ${toClose.length === 1 ? 'tab' : 'tabs'}`,
+        // Last tab first, so each close leaves the places of the tabs still to close as they were
+        operations: [...toClose].reverse().map((tab) => ({
+          type: 'closeTab',
+          taskId: task.id,
+          tabId: tab.id,
+          replacementTab: createBlankTab(),
+        })),
+      };
+    },
+  },
+  {
+    id: 'close-tab',
+    label: 'Close this tab',
+    example: 'close this tab',
+    undoLabel: 'Close tab',
+    patterns: [/^close (?:this|the current|current) tab$/i],
+    run: (_args, context) => {
+      const task = activeTask(context);
+      if (!task || !context.activeTabId) return { ok: false, error: 'There is no tab to close' };
+      if (task.role === 'viewer') return { ok: false, error: VIEW_ONLY_ERROR };
+      if (task.tabs.find((tab) => tab.id === context.activeTabId)?.pinned) {
+        return { ok: false, error: 'This tab is pinned; unpin it to close it' };
+      }
+
+      return {
+        ok: true,
+        message: 'Closed the tab',
+        operations: [
+          { type: 'closeTab', taskId: task.id, tabId: context.activeTabId, replacementTab: createBlankTab() },
+        ],
+      };
+    },
+  },
+  {
+    id: 'rename-tab',
+    label: 'Rename this tab',
+    example: 'rename this tab to Q3 plan',
+    undoLabel: 'Rename tab',
+    patterns: [/^(?:rename|call) (?:this|the|current)? ?tab (?:to |as )?(?<name>.+)$/i],
+    run: ({ name }, context) => {
+      const task = activeTask(context);
+      if (!task || !context.activeTabId) return { ok: false, error: 'There is no tab to rename' };
+      if (task.role === 'viewer') return { ok: false, error: VIEW_ONLY_ERROR };
+
+      return {
+        ok: true,
+        message: `Renamed the tab to ${name}`,
+        operations: [{ type: 'updateTab', taskId: task.id, tabId: context.activeTabId, changes: { name } }],
+      };
+    },
+  },
+  {
+    id: 'rename-task',
+    label: 'Rename this task',
+    example: 'rename this task to Launch',
+    undoLabel: 'Rename task',
+    patterns: [/^(?:rename|call) (?:this|the|current)? ?task (?:to |as )?(?<name>.+)$/i],
+    run: ({ name }, context) => {
+      const task = activeTask(context);
+      if (!task) return { ok: false, error: 'There is no task to rename' };
+      if (task.role === 'viewer') return { ok: false, error: VIEW_ONLY_ERROR };
+
+      return {
+        ok: true,
+        message: `Renamed the task to ${name}`,
+        operations: [{ type: 'renameTask', taskId: task.id, name }],
+      };
+    },
+  },
+  {
+    id: 'switch',
+    label: 'Switch to a tab or task',
+    example: 'switch to Notes',
+    undoLabel: 'Switch',
+    patterns: [/^(?:switch|go|jump|change) (?:back )?to (?:the )?(?<name>.+?)(?: (?<kind>tab|task))?$/i, /^open (?<name>.+)$/i],
+    run: ({ name, kind }, context) => {
+      const wanted = name.toLowerCase();
+      const found = kind?.toLowerCase() === 'task' ? null : findTabByName(context, name);
+      if (found) {
+        return {
+          ok: true,
+          message: `Switched to ${found.tab.name}`,
+          operations: [{ type: 'selectTab', taskId: found.task.id, tabId: found.tab.id }],
+        };
+      }
+
+      const task =
+        context.tasks.find((t) => t.name.toLowerCase() === wanted) ??
+        context.tasks.find((t) => t.name.toLowerCase().includes(wanted));
+      if (task && kind?.toLowerCase() !== 'tab') {
+        return { ok: true, message: `Switched to ${task.name}`, operations: [{ type: 'selectTask', taskId: task.id }] };
+      }
+      return { ok: false, error: `There is no ${kind?.toLowerCase() ?? 'tab or task'} called ${name}` };
+    },
+  },
+];
@@ -0,0 +1,54 @@
+/**
+ * Comment helpers
+ * A tab's comments come from the server as a flat list (oldest first); the Comments modal
+ * shows them as threads, a top-level comment followed by its replies
+ */
+
+import { TabComment } from '../types';
+
+export interface CommentThread<T extends TabComment = TabComment> {
+  comment: T; // The top-level comment; its resolved flag is the thread's
+  replies: T[];
+}
+
+/**
+ * Group comments into threads, in the order the threads were started
+ * Replies whose top-level comment is missing are dropped
+ */
+export function buildThreads<T extends TabComment>(comments: T[]): CommentThread<T>[] {
+  const threads = comments
+    .filter((comment) => comment.parentId === null)
+    .map((comment) => ({ comment, replies: [] as T[] }));
+  const byId = new Map(threads.map((thread) => [thread.comment.id, thread]));
+
+  for (const comment of comments) {
+    if (comment.parentId !== null) {
+      byId.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+  return threads;
+}
+
+/**
+ * Number of unresolved threads (what the server reports as Tab.commentCount)
+ */
+export function countOpenThreads(comments: TabComment[]): number {
+  return comments.filter((comment) => comment.parentId === null && !comment.resolved).length;
+}
+
+/**
+ * Short relative time for a comment: "now", "5m ago", "9h ago", "3d ago", then the date
+ */
+export function formatRelativeTime(timestamp: number, now = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+
+  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
@@ -0,0 +1,67 @@
+/**
+ * CSV import and export for the sheet canvas (RFC 4180)
+ * Fields with commas, quotes or line breaks are quoted, and quotes inside them doubled
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * Accepts \n, \r\n and \r line endings; a trailing line break does not add an empty row
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  // Strip a byte order mark (spreadsheet apps often add one)
+  const input = text.startsWith('﻿') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (isQuoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function escapeField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Serialize rows of fields as CSV (\r\n line endings)
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CellValue, evaluateFormula, getFormulaReferences, parseFormula } from './formula';
+
+// Evaluate "=..." text against a map of cell values
+function evaluate(text: string, cells: Record<string, CellValue> = {}): CellValue {
+  return evaluateFormula(parseFormula(text), (address) => cells[address] ?? null);
+}
+
+describe('formula', () => {
+  it('follows spreadsheet operator precedence', () => {
+    expect(evaluate('1+2*3')).toBe(7);
+    expect(evaluate('(1+2)*3')).toBe(9);
+    expect(evaluate('2^3^2')).toBe(64);
+    expect(evaluate('-2^2')).toBe(4);
+    expect(evaluate('50%')).toBe(0.5);
+  });
+
+  it('compares and concatenates', () => {
+    expect(evaluate('1<2')).toBe(true);
+    expect(evaluate('"a"<>"a"')).toBe(false);
+    expect(evaluate('"Total: "&3')).toBe('Total: 3');
+  });
+
+  it('reads cells and ranges', () => {
+    const cells = { A1: 1, A2: 2, A3: 3, B1: 'x' };
+    expect(evaluate('A1+$A$2', cells)).toBe(3);
+    expect(evaluate('SUM(A1:A3)', cells)).toBe(6);
+    expect(evaluate('AVERAGE(A1:A3)', cells)).toBe(2);
+    expect(evaluate('COUNT(A1:B1)', cells)).toBe(1);
+    expect(evaluate('COUNTA(A1:B1)', cells)).toBe(2);
+    expect(evaluate('IF(A3>A2, "up", "down")', cells)).toBe('up');
+  });
+
+  it('lists the cells a formula reads, ranges expanded', () => {
+    expect(getFormulaReferences(parseFormula('SUM(A1:B2)+C3'))).toEqual(['A1', 'B1', 'A2', 'B2', 'C3']);
+  });
+
+  it('turns problems into error values instead of throwing', () => {
+    expect(evaluate('1/0')).toEqual({ error: '#DIV/0!' });
+    expect(evaluate('NOPE(1)')).toEqual({ error: '#NAME?' });
+    expect(evaluate('1+')).toEqual({ error: '#ERROR!' });
+    expect(evaluate('A1+1', { A1: { error: '#DIV/0!' } })).toEqual({ error: '#DIV/0!' });
+  });
+});
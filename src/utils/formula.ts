@@ -0,0 +1,502 @@
+/**
+ * Formula engine for the sheet canvas
+ * Parses spreadsheet formulas (the text after "=") into a tree and evaluates it
+ *
+ * - Arithmetic: + - * / ^, unary minus, postfix %, parentheses
+ * - Comparison (= <> < > <= >=) and text concatenation (&)
+ * - Cell references (A1, $B$2) and ranges (A1:B10)
+ * - Functions: SUM, AVERAGE, MIN, MAX, COUNT, COUNTA, IF, AND, OR, NOT, ABS, ROUND, CONCAT
+ *
+ * Operator precedence follows common spreadsheet apps (so -2^2 is 4).
+ * Evaluation never throws: problems become error values such as #DIV/0! that
+ * propagate through the formulas that use them
+ */
+
+import { CellPosition, expandRange, normalizeCellAddress, parseCellAddress } from './cellAddress';
+
+export type CellError = '#DIV/0!' | '#VALUE!' | '#REF!' | '#NAME?' | '#CYCLE!' | '#ERROR!';
+
+export interface ErrorValue {
+  error: CellError;
+}
+
+// null is an empty cell
+export type CellValue = number | string | boolean | null | ErrorValue;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; address: string }
+  | { type: 'range'; start: CellPosition; end: CellPosition }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'percent'; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+  // The formula could not be parsed; evaluates to this error
+  | { type: 'error'; error: CellError };
+
+export function isErrorValue(value: unknown): value is ErrorValue {
+  return typeof value === 'object' && value !== null && 'error' in value;
+}
+
+const errorValue = (error: CellError): ErrorValue => ({ error });
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'ref'; value: string }
+  | { kind: 'name'; value: string }
+  | { kind: 'operator'; value: string };
+
+const TOKEN_PATTERNS: Array<[Token['kind'] | 'space', RegExp]> = [
+  ['space', /^\s+/],
+  ['number', /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/],
+  ['string', /^"(?:[^"]|"")*"/],
+  ['ref', /^\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_(])/],
+  ['name', /^[A-Za-z_][A-Za-z0-9_.]*/],
+  ['operator', /^(<=|>=|<>|[-+*/^&=<>%(),:;])/],
+];
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const match = TOKEN_PATTERNS.map(([kind, pattern]) => [kind, pattern.exec(rest)] as const).find(
+      ([, result]) => result !== null
+    );
+    if (!match) return null;
+
+    const [kind, result] = match;
+    const value = result![0];
+    rest = rest.slice(value.length);
+
+    if (kind === 'space') continue;
+    if (kind === 'number') tokens.push({ kind, value: Number(value) });
+    else if (kind === 'string') tokens.push({ kind, value: value.slice(1, -1).replace(/""/g, '"') });
+    // ";" is accepted as an argument separator too
+    else if (kind === 'operator') tokens.push({ kind, value: value === ';' ? ',' : value });
+    else tokens.push({ kind, value });
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser (recursive descent, lowest precedence first)
+// ---------------------------------------------------------------------------
+
+class ParseError extends Error {}
+
+function parseTokens(tokens: Token[]): FormulaNode {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.kind === 'operator' && values.includes(token.value as string);
+  };
+  const expectOperator = (value: string) => {
+    if (!isOperator(value)) throw new ParseError(`Expected "${value}"`);
+    position++;
+  };
+
+  // Left-associative binary level
+  const binaryLevel = (operators: BinaryOperator[], next: () => FormulaNode) => (): FormulaNode => {
+    let node = next();
+    while (isOperator(...operators)) {
+      const operator = tokens[position++].value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: next() };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) throw new ParseError('Unexpected end of formula');
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'string':
+        return { type: 'string', value: token.value };
+      case 'ref': {
+        const start = parseCellAddress(token.value);
+        if (!start) return { type: 'error', error: '#REF!' };
+        if (!isOperator(':')) {
+          return { type: 'ref', address: normalizeCellAddress(token.value)! };
+        }
+        position++;
+        const endToken = tokens[position++];
+        const end = endToken?.kind === 'ref' ? parseCellAddress(endToken.value) : null;
+        if (!end) throw new ParseError('Expected a cell after ":"');
+        return { type: 'range', start, end };
+      }
+      case 'name': {
+        const name = token.value.toUpperCase();
+        if (isOperator('(')) {
+          position++;
+          const args: FormulaNode[] = [];
+          if (!isOperator(')')) {
+            args.push(parseComparison());
+            while (isOperator(',')) {
+              position++;
+              args.push(parseComparison());
+            }
+          }
+          expectOperator(')');
+          return { type: 'call', name, args };
+        }
+        if (name === 'TRUE' || name === 'FALSE') {
+          return { type: 'boolean', value: name === 'TRUE' };
+        }
+        return { type: 'error', error: '#NAME?' };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const node = parseComparison();
+          expectOperator(')');
+          return node;
+        }
+        throw new ParseError(`Unexpected "${token.value}"`);
+    }
+  };
+
+  const parsePercent = (): FormulaNode => {
+    let node = parsePrimary();
+    while (isOperator('%')) {
+      position++;
+      node = { type: 'percent', operand: node };
+    }
+    return node;
+  };
+
+  // Unary minus binds tighter than ^
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-', '+')) {
+      const operator = tokens[position++].value;
+      const operand = parseUnary();
+      return operator === '-' ? { type: 'negate', operand } : operand;
+    }
+    return parsePercent();
+  };
+
+  const parseExponent = binaryLevel(['^'], parseUnary);
+  const parseMultiplicative = binaryLevel(['*', '/'], parseExponent);
+  const parseAdditive = binaryLevel(['+', '-'], parseMultiplicative);
+  const parseConcat = binaryLevel(['&'], parseAdditive);
+  const parseComparison: () => FormulaNode = binaryLevel(['=', '<>', '<', '>', '<=', '>='], parseConcat);
+
+  const node = parseComparison();
+  if (position < tokens.length) {
+    throw new ParseError('Unexpected input after formula');
+  }
+  return node;
+}
+
+/**
+ * Parse the text of a formula without the leading "="
+ * Syntax errors give an error node, so the cell shows #ERROR!
+ */
+export function parseFormula(text: string): FormulaNode {
+  const tokens = tokenize(text);
+  if (!tokens || tokens.length === 0) return { type: 'error', error: '#ERROR!' };
+
+  try {
+    return parseTokens(tokens);
+  } catch (err) {
+    if (err instanceof ParseError) return { type: 'error', error: '#ERROR!' };
+    throw err;
+  }
+}
+
+/**
+ * Every cell a formula reads (ranges expanded), for dependency tracking
+ */
+export function getFormulaReferences(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'ref':
+      return [node.address];
+    case 'range':
+      return expandRange(node.start, node.end);
+    case 'negate':
+    case 'percent':
+      return getFormulaReferences(node.operand);
+    case 'binary':
+      return [...getFormulaReferences(node.left), ...getFormulaReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(getFormulaReferences);
+    default:
+      return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+// A function argument: a range gives all of its cells, anything else a single value
+type Argument = { kind: 'range'; values: CellValue[] } | { kind: 'value'; value: CellValue };
+
+type FormulaFunction = (args: Array<() => Argument>) => CellValue;
+
+const NUMERIC_TEXT = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+function toNumber(value: CellValue): number | ErrorValue {
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    return NUMERIC_TEXT.test(value) ? Number(value) : errorValue('#VALUE!');
+  }
+  return value;
+}
+
+function toText(value: CellValue): string | ErrorValue {
+  if (value === null) return '';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'string') return value;
+  return value;
+}
+
+function toBoolean(value: CellValue): boolean | ErrorValue {
+  if (value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    const upper = value.trim().toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE') return false;
+    return errorValue('#VALUE!');
+  }
+  return value;
+}
+
+// Numbers show at most 10 significant digits, which hides floating point noise (0.1 + 0.2)
+export function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(10)));
+}
+
+// Numbers for SUM, AVERAGE, ...: ranges skip text and empty cells, direct arguments must be numeric
+function collectNumbers(args: Array<() => Argument>): number[] | ErrorValue {
+  const numbers: number[] = [];
+  for (const getArg of args) {
+    const arg = getArg();
+    if (arg.kind === 'range') {
+      for (const value of arg.values) {
+        if (isErrorValue(value)) return value;
+        if (typeof value === 'number') numbers.push(value);
+      }
+    } else {
+      const number = toNumber(arg.value);
+      if (isErrorValue(number)) return number;
+      numbers.push(number);
+    }
+  }
+  return numbers;
+}
+
+// Every value of every argument, for the logical and text functions
+function collectValues(args: Array<() => Argument>): CellValue[] {
+  return args.flatMap((getArg) => {
+    const arg = getArg();
+    return arg.kind === 'range' ? arg.values : [arg.value];
+  });
+}
+
+const singleValue = (arg: Argument): CellValue =>
+  arg.kind === 'value' ? arg.value : arg.values.length === 1 ? arg.values[0] : errorValue('#VALUE!');
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  SUM: (args) => {
+    const numbers = collectNumbers(args);
+    return isErrorValue(numbers) ? numbers : numbers.reduce((sum, n) => sum + n, 0);
+  },
+
+  AVERAGE: (args) => {
+    const numbers = collectNumbers(args);
+    if (isErrorValue(numbers)) return numbers;
+    if (numbers.length === 0) return errorValue('#DIV/0!');
+    return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  },
+
+  MIN: (args) => {
+    const numbers = collectNumbers(args);
+    if (isErrorValue(numbers)) return numbers;
+    return numbers.length === 0 ? 0 : Math.min(...numbers);
+  },
+
+  MAX: (args) => {
+    const numbers = collectNumbers(args);
+    if (isErrorValue(numbers)) return numbers;
+    return numbers.length === 0 ? 0 : Math.max(...numbers);
+  },
+
+  // Counts numbers only (text, empty cells and errors are skipped)
+  COUNT: (args) => collectValues(args).filter((value) => typeof value === 'number').length,
+
+  // Counts non-empty values
+  COUNTA: (args) => collectValues(args).filter((value) => value !== null && value !== '').length,
+
+  // Only the chosen branch is evaluated
+  IF: (args) => {
+    if (args.length < 2 || args.length > 3) return errorValue('#VALUE!');
+    const condition = toBoolean(singleValue(args[0]()));
+    if (isErrorValue(condition)) return condition;
+    if (condition) return singleValue(args[1]());
+    return args[2] ? singleValue(args[2]()) : false;
+  },
+
+  AND: (args) => {
+    let result = true;
+    for (const value of collectValues(args)) {
+      const bool = toBoolean(value);
+      if (isErrorValue(bool)) return bool;
+      result = result && bool;
+    }
+    return result;
+  },
+
+  OR: (args) => {
+    let result = false;
+    for (const value of collectValues(args)) {
+      const bool = toBoolean(value);
+      if (isErrorValue(bool)) return bool;
+      result = result || bool;
+    }
+    return result;
+  },
+
+  NOT: (args) => {
+    if (args.length !== 1) return errorValue('#VALUE!');
+    const bool = toBoolean(singleValue(args[0]()));
+    return isErrorValue(bool) ? bool : !bool;
+  },
+
+  ABS: (args) => {
+    if (args.length !== 1) return errorValue('#VALUE!');
+    const number = toNumber(singleValue(args[0]()));
+    return isErrorValue(number) ? number : Math.abs(number);
+  },
+
+  ROUND: (args) => {
+    if (args.length < 1 || args.length > 2) return errorValue('#VALUE!');
+    const number = toNumber(singleValue(args[0]()));
+    const digits = args[1] ? toNumber(singleValue(args[1]())) : 0;
+    if (isErrorValue(number)) return number;
+    if (isErrorValue(digits)) return digits;
+    const factor = 10 ** Math.trunc(digits);
+    return Math.sign(number) * Math.round(Math.abs(number) * factor) / factor;
+  },
+
+  CONCAT: (args) => {
+    let result = '';
+    for (const value of collectValues(args)) {
+      const text = toText(value);
+      if (isErrorValue(text)) return text;
+      result += text;
+    }
+    return result;
+  },
+};
+
+function compare(left: CellValue, right: CellValue): number {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (!isErrorValue(leftNumber) && !isErrorValue(rightNumber) && typeof left !== 'string' && typeof right !== 'string') {
+    return leftNumber - rightNumber;
+  }
+  const leftText = String(toText(left)).toLowerCase();
+  const rightText = String(toText(right)).toLowerCase();
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+function evaluateBinary(operator: BinaryOperator, left: CellValue, right: CellValue): CellValue {
+  if (isErrorValue(left)) return left;
+  if (isErrorValue(right)) return right;
+
+  if (operator === '&') {
+    return `${toText(left)}${toText(right)}`;
+  }
+
+  if (['=', '<>', '<', '>', '<=', '>='].includes(operator)) {
+    const order = compare(left, right);
+    switch (operator) {
+      case '=': return order === 0;
+      case '<>': return order !== 0;
+      case '<': return order < 0;
+      case '>': return order > 0;
+      case '<=': return order <= 0;
+      default: return order >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isErrorValue(a)) return a;
+  if (isErrorValue(b)) return b;
+
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? errorValue('#DIV/0!') : a / b;
+    default: {
+      const result = a ** b;
+      return Number.isFinite(result) ? result : errorValue('#VALUE!');
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed formula; getCell returns the current value of a referenced cell
+ */
+export function evaluateFormula(node: FormulaNode, getCell: (address: string) => CellValue): CellValue {
+  const evaluateArgument = (arg: FormulaNode): Argument =>
+    arg.type === 'range'
+      ? { kind: 'range', values: expandRange(arg.start, arg.end).map(getCell) }
+      : { kind: 'value', value: evaluate(arg) };
+
+  function evaluate(current: FormulaNode): CellValue {
+    switch (current.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return current.value;
+      case 'error':
+        return errorValue(current.error);
+      case 'ref':
+        return getCell(current.address);
+      // A range on its own (outside a function) is only valid for a single cell
+      case 'range':
+        return singleValue(evaluateArgument(current));
+      case 'negate': {
+        const number = toNumber(evaluate(current.operand));
+        return isErrorValue(number) ? number : -number;
+      }
+      case 'percent': {
+        const number = toNumber(evaluate(current.operand));
+        return isErrorValue(number) ? number : number / 100;
+      }
+      case 'binary':
+        return evaluateBinary(current.operator, evaluate(current.left), evaluate(current.right));
+      case 'call': {
+        const fn = FUNCTIONS[current.name];
+        if (!fn) return errorValue('#NAME?');
+        return fn(current.args.map((arg) => () => evaluateArgument(arg)));
+      }
+    }
+  }
+
+  const result = evaluate(node);
+  // Formulas pointing at an empty cell show 0, like other spreadsheet apps
+  return result === null ? 0 : result;
+}
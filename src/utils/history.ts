@@ -0,0 +1,46 @@
+/**
+ * Edit history helpers
+ * Labels for a tab's versions and the plain-text views of their content used by the
+ * Edit-History sheet's previews (versions are recorded by the server, see api.fetchTabVersions)
+ */
+
+import { TabVersionKind } from '../types';
+
+export const VERSION_KIND_LABELS: Record<TabVersionKind, string> = {
+  rename: 'Renamed',
+  canvasType: 'Canvas type picked',
+  content: 'Edited',
+  restore: 'Restored an earlier version',
+};
+
+interface DocNode {
+  type?: string;
+  text?: string;
+  content?: DocNode[];
+}
+
+const isInlineNode = (node: DocNode) => node.type === 'text' || node.type === 'hardBreak';
+
+/**
+ * Text of a doc canvas's content (the editor's JSON), one line per paragraph, heading or list item
+ */
+export function getDocText(content: unknown): string {
+  const lines: string[] = [];
+
+  const inlineText = (node: DocNode): string => (node.type === 'hardBreak' ? '\n' : node.text ?? '');
+
+  const visit = (node: DocNode) => {
+    const children = Array.isArray(node.content) ? node.content : [];
+    // A block holding text (or nothing, like an empty paragraph) is one line
+    if (children.every(isInlineNode)) {
+      if (node.type !== 'doc') lines.push(children.map(inlineText).join(''));
+      return;
+    }
+    children.forEach(visit);
+  };
+
+  if (content && typeof content === 'object') {
+    visit(content as DocNode);
+  }
+  return lines.join('\n').trim();
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { applyOperation, getInverseOperation, getInverseOperations, TaskOperation } from './operations';
+import { makeTab, makeTask } from './testing';
+import { Task } from '../types';
+
+const tasks = [
+  makeTask('t1', [
+    makeTab('pinned', { pinned: true }),
+    makeTab('a', { isActive: true }),
+    makeTab('b'),
+    makeTab('c'),
+  ]),
+];
+
+const tabIds = (result: Task[]) => result[0].tabs.map((tab) => tab.id);
+const activeTabId = (result: Task[]) => result[0].tabs.find((tab) => tab.isActive)?.id;
+
+// Apply an operation, then its inverse
+function roundTrip(before: Task[], operation: TaskOperation): Task[] {
+  const inverse = getInverseOperation(before, operation);
+  expect(inverse).not.toBeNull();
+  return applyOperation(applyOperation(before, operation), inverse!);
+}
+
+describe('operations', () => {
+  it('closes a tab and focuses its neighbour', () => {
+    const result = applyOperation(tasks, { type: 'closeTab', taskId: 't1', tabId: 'a', replacementTab: makeTab('new') });
+    expect(tabIds(result)).toEqual(['pinned', 'b', 'c']);
+    expect(activeTabId(result)).toBe('b');
+  });
+
+  it('keeps moved and reopened tabs among the tabs with the same pinned flag', () => {
+    const moved = applyOperation(tasks, { type: 'moveTab', taskId: 't1', tabId: 'c', index: 0 });
+    expect(tabIds(moved)).toEqual(['pinned', 'c', 'a', 'b']);
+
+    const reopened = applyOperation(tasks, {
+      type: 'reopenTab', taskId: 't1', tab: makeTab('old', { pinned: true }), index: 3, activeTabId: 'a',
+    });
+    expect(tabIds(reopened)).toEqual(['pinned', 'old', 'a', 'b', 'c']);
+  });
+
+  it('pins a tab at the end of the pinned tabs', () => {
+    const result = applyOperation(tasks, { type: 'pinTab', taskId: 't1', tabId: 'c', pinned: true });
+    expect(tabIds(result)).toEqual(['pinned', 'c', 'a', 'b']);
+    expect(result[0].tabs[1].pinned).toBe(true);
+  });
+
+  it('ignores operations on tabs that no longer exist', () => {
+    expect(applyOperation(tasks, { type: 'moveTab', taskId: 't1', tabId: 'gone', index: 0 })).toEqual(tasks);
+  });
+});
+
+describe('inverse operations', () => {
+  it('undo a close, putting the tab back where it was with focus as it was', () => {
+    expect(roundTrip(tasks, { type: 'closeTab', taskId: 't1', tabId: 'b', replacementTab: makeTab('new') })).toEqual(tasks);
+  });
+
+  it('undo closing the last tab, removing the blank tab that replaced it', () => {
+    const single = [makeTask('t1', [makeTab('only')])];
+    expect(roundTrip(single, { type: 'closeTab', taskId: 't1', tabId: 'only', replacementTab: makeTab('new') })).toEqual(single);
+  });
+
+  it('undo moves, pins and renames', () => {
+    expect(roundTrip(tasks, { type: 'moveTab', taskId: 't1', tabId: 'a', index: 3 })).toEqual(tasks);
+    expect(roundTrip(tasks, { type: 'pinTab', taskId: 't1', tabId: 'b', pinned: true })).toEqual(tasks);
+    expect(roundTrip(tasks, { type: 'pinTab', taskId: 't1', tabId: 'pinned', pinned: false })).toEqual(tasks);
+    expect(roundTrip(tasks, { type: 'updateTab', taskId: 't1', tabId: 'a', changes: { name: 'Renamed' } })).toEqual(tasks);
+    expect(roundTrip(tasks, { type: 'renameTask', taskId: 't1', name: 'Renamed' })).toEqual(tasks);
+  });
+
+  it('are not recorded for edits that change nothing to undo', () => {
+    expect(getInverseOperation(tasks, { type: 'selectTab', taskId: 't1', tabId: 'b' })).toBeNull();
+    expect(getInverseOperation(tasks, { type: 'closeTab', taskId: 't1', tabId: 'gone', replacementTab: makeTab('new') })).toBeNull();
+  });
+});
+
+describe('inverses of several operations', () => {
+  // Apply the operations, then their inverses
+  const roundTripAll = (before: Task[], operations: TaskOperation[]) =>
+    [...operations, ...getInverseOperations(before, operations)].reduce(applyOperation, before);
+
+  it('undo a move followed by a close of the moved tab', () => {
+    const operations: TaskOperation[] = [
+      { type: 'moveTab', taskId: 't1', tabId: 'a', index: 3 },
+      { type: 'closeTab', taskId: 't1', tabId: 'a', replacementTab: makeTab('new') },
+    ];
+    expect(roundTripAll(tasks, operations)).toEqual(tasks);
+  });
+
+  it('undo closing every tab of a task, dropping the blank tab left in their place', () => {
+    const operations: TaskOperation[] = ['c', 'b', 'a', 'pinned'].map((tabId) => ({
+      type: 'closeTab', taskId: 't1', tabId, replacementTab: makeTab('new'),
+    }));
+    expect(tabIds(operations.reduce(applyOperation, tasks))).toEqual(['new']);
+    expect(roundTripAll(tasks, operations)).toEqual(tasks);
+  });
+
+  it('undo closing every unpinned tab, focusing the tab that was active', () => {
+    const operations: TaskOperation[] = ['c', 'b', 'a'].map((tabId) => ({
+      type: 'closeTab', taskId: 't1', tabId, replacementTab: makeTab('new'),
+    }));
+    const closed = operations.reduce(applyOperation, tasks);
+    expect(tabIds(closed)).toEqual(['pinned']);
+    expect(activeTabId(closed)).toBe('pinned');
+    expect(roundTripAll(tasks, operations)).toEqual(tasks);
+  });
+
+  it('leave out operations that have nothing to undo', () => {
+    expect(getInverseOperations(tasks, [
+      { type: 'selectTab', taskId: 't1', tabId: 'b' },
+      { type: 'renameTask', taskId: 't1', name: 'Renamed' },
+    ])).toEqual([{ type: 'renameTask', taskId: 't1', name: 't1' }]);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Task operations
+ * Every edit the user makes to tasks and tabs is described as an operation and applied
+ * by `applyOperation`, so the same edit can be applied right away and replayed later
+ * (edits made before the server was reachable are queued and replayed onto the real tasks)
+ *
+ * Operations carry any ids they create (new tabs, replacement tabs/tasks), so replaying
+ * one always gives the same result; operations on tasks or tabs that no longer exist do nothing
+ *
+ * Pinned tabs always come first in their task: moving, pinning and reopening a tab keep it
+ * among the tabs with the same pinned flag
+ *
+ * Undoable edits are recorded with an inverse operation (getInverseOperation), so undo and
+ * redo are just more operations (see hooks/useUndoStack.ts); an edit made of several operations
+ * (a Sparo command, closing every unpinned tab) is undone by getInverseOperations
+ */
+
+import { CanvasType, Tab, Task } from '../types';
+
+export type TaskOperation =
+  | { type: 'selectTab'; taskId: string; tabId: string }
+  | { type: 'createTab'; taskId: string; tab: Tab }
+  | { type: 'updateTab'; taskId: string; tabId: string; changes: { name?: string; canvasType?: CanvasType | null } }
+  // Move a tab to another index in its task (the tab order is the order of the array)
+  | { type: 'moveTab'; taskId: string; tabId: string; index: number }
+  // Pin or unpin a tab; it goes to the end of the pinned tabs (the start of the others), unless
+  // an index is given (undoing puts it back where it was)
+  | { type: 'pinTab'; taskId: string; tabId: string; pinned: boolean; index?: number }
+  // replacementTab is only used if the closed tab was the last one in its task
+  | { type: 'closeTab'; taskId: string; tabId: string; replacementTab: Tab }
+  // Put a closed tab back at its index with its id (undoes closeTab); replacementTabId is the
+  // blank tab that took the place of a task's last tab, which goes away again
+  | { type: 'reopenTab'; taskId: string; tab: Tab; index: number; activeTabId: string; replacementTabId?: string }
+  // The server works out a tab's comment count; this applies the latest one it reported
+  | { type: 'setCommentCount'; taskId: string; tabId: string; count: number }
+  | { type: 'createTask'; task: Task }
+  | { type: 'renameTask'; taskId: string; name: string }
+  | { type: 'selectTask'; taskId: string }
+  // replacementTask is only used if the deleted task was the last one
+  | { type: 'deleteTask'; taskId: string; replacementTask: Task };
+
+/**
+ * The task an operation belongs to
+ */
+export function getOperationTaskId(operation: TaskOperation): string {
+  return operation.type === 'createTask' ? operation.task.id : operation.taskId;
+}
+
+// Remove an item; if it was active, activate the next one (or the previous one if it was last)
+function removeAndActivateAdjacent<T extends { id: string; isActive: boolean }>(items: T[], id: string): T[] {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) return items;
+
+  const remaining = items.filter((item) => item.id !== id);
+  if (items[index].isActive && remaining.length > 0) {
+    const newActiveIndex = index < remaining.length ? index : index - 1;
+    remaining[newActiveIndex] = { ...remaining[newActiveIndex], isActive: true };
+  }
+  return remaining;
+}
+
+// Insert a tab at an index, kept among the tabs with the same pinned flag (pinned ones come first)
+function insertTab(tabs: Tab[], tab: Tab, index: number): Tab[] {
+  const pinnedCount = tabs.filter((t) => t.pinned).length;
+  const [min, max] = tab.pinned ? [0, pinnedCount] : [pinnedCount, tabs.length];
+  const result = [...tabs];
+  result.splice(Math.min(Math.max(index, min), max), 0, tab);
+  return result;
+}
+
+// Apply an update to one task by id
+function updateTask(tasks: Task[], taskId: string, updater: (task: Task) => Task): Task[] {
+  return tasks.map((task) => (task.id === taskId ? updater(task) : task));
+}
+
+/**
+ * Apply one operation to the task list
+ */
+export function applyOperation(tasks: Task[], operation: TaskOperation): Task[] {
+  switch (operation.type) {
+    // Focus a tab; its task becomes the active task too (the switcher can select across tasks)
+    case 'selectTab': {
+      const task = tasks.find((t) => t.id === operation.taskId);
+      if (!task?.tabs.some((tab) => tab.id === operation.tabId)) return tasks;
+
+      return tasks.map((t) =>
+        t.id === operation.taskId
+          ? {
+              ...t,
+              isActive: true,
+              tabs: t.tabs.map((tab) => ({ ...tab, isActive: tab.id === operation.tabId })),
+            }
+          : { ...t, isActive: false }
+      );
+    }
+
+    // Append a tab and focus it
+    case 'createTab':
+      return updateTask(tasks, operation.taskId, (task) => ({
+        ...task,
+        tabs: [
+          ...task.tabs.map((tab) => ({ ...tab, isActive: false })),
+          { ...operation.tab, isActive: true },
+        ],
+      }));
+
+    case 'updateTab':
+      return updateTask(tasks, operation.taskId, (task) => ({
+        ...task,
+        tabs: task.tabs.map((tab) =>
+          tab.id === operation.tabId ? { ...tab, ...operation.changes } : tab
+        ),
+      }));
+
+    case 'moveTab':
+      return updateTask(tasks, operation.taskId, (task) => {
+        const tab = task.tabs.find((t) => t.id === operation.tabId);
+        if (!tab) return task;
+
+        const tabs = task.tabs.filter((t) => t.id !== operation.tabId);
+        return { ...task, tabs: insertTab(tabs, tab, operation.index) };
+      });
+
+    case 'pinTab':
+      return updateTask(tasks, operation.taskId, (task) => {
+        const tab = task.tabs.find((t) => t.id === operation.tabId);
+        if (!tab) return task;
+
+        const tabs = task.tabs.filter((t) => t.id !== operation.tabId);
+        const index = operation.index ?? tabs.filter((t) => t.pinned).length;
+        return { ...task, tabs: insertTab(tabs, { ...tab, pinned: operation.pinned }, index) };
+      });
+
+    // Closing the last tab leaves a fresh blank tab instead of an empty task
+    case 'closeTab':
+      return updateTask(tasks, operation.taskId, (task) => {
+        if (!task.tabs.some((tab) => tab.id === operation.tabId)) return task;
+        if (task.tabs.length === 1) {
+          return { ...task, tabs: [{ ...operation.replacementTab, isActive: true }] };
+        }
+        return { ...task, tabs: removeAndActivateAdjacent(task.tabs, operation.tabId) };
+      });
+
+    // Focus goes back to the tab that was active when the tab was closed
+    case 'reopenTab':
+      return updateTask(tasks, operation.taskId, (task) => {
+        if (task.tabs.some((tab) => tab.id === operation.tab.id)) return task;
+
+        const remaining = task.tabs.filter((tab) => tab.id !== operation.replacementTabId);
+        const tabs = insertTab(remaining, operation.tab, operation.index);
+        const activeTabId = tabs.some((tab) => tab.id === operation.activeTabId)
+          ? operation.activeTabId
+          : operation.tab.id;
+        return { ...task, tabs: tabs.map((tab) => ({ ...tab, isActive: tab.id === activeTabId })) };
+      });
+
+    case 'setCommentCount':
+      return updateTask(tasks, operation.taskId, (task) => ({
+        ...task,
+        tabs: task.tabs.map((tab) =>
+          tab.id === operation.tabId ? { ...tab, commentCount: operation.count } : tab
+        ),
+      }));
+
+    // Add a task and switch to it
+    case 'createTask':
+      return [
+        ...tasks.map((task) => ({ ...task, isActive: false })),
+        { ...operation.task, isActive: true },
+      ];
+
+    case 'renameTask':
+      return updateTask(tasks, operation.taskId, (task) => ({ ...task, name: operation.name }));
+
+    // Switch tasks; the task's own active tab comes back into focus
+    case 'selectTask':
+      if (!tasks.some((task) => task.id === operation.taskId)) return tasks;
+      return tasks.map((task) => ({ ...task, isActive: task.id === operation.taskId }));
+
+    // Deleting the only task replaces it with a fresh task
+    case 'deleteTask':
+      if (!tasks.some((task) => task.id === operation.taskId)) return tasks;
+      if (tasks.length === 1) {
+        return [{ ...operation.replacementTask, isActive: true }];
+      }
+      return removeAndActivateAdjacent(tasks, operation.taskId);
+  }
+}
+
+/**
+ * The operation that undoes `operation`, worked out from the tasks before it is applied
+ * Only the edits App.tsx records as undoable are supported (tab rename and canvas type,
+ * moving, pinning and closing a tab, renaming a task); returns null for anything else or if the target is gone
+ */
+export function getInverseOperation(tasks: Task[], operation: TaskOperation): TaskOperation | null {
+  switch (operation.type) {
+    case 'updateTab': {
+      const tab = tasks.find((t) => t.id === operation.taskId)?.tabs.find((t) => t.id === operation.tabId);
+      if (!tab) return null;
+
+      const changes: Extract<TaskOperation, { type: 'updateTab' }>['changes'] = {};
+      if (operation.changes.name !== undefined) changes.name = tab.name;
+      if (operation.changes.canvasType !== undefined) changes.canvasType = tab.canvasType;
+      return { ...operation, changes };
+    }
+
+    case 'moveTab': {
+      const index = tasks.find((t) => t.id === operation.taskId)?.tabs.findIndex((t) => t.id === operation.tabId) ?? -1;
+      return index === -1 ? null : { ...operation, index };
+    }
+
+    case 'pinTab': {
+      const tabs = tasks.find((t) => t.id === operation.taskId)?.tabs ?? [];
+      const index = tabs.findIndex((t) => t.id === operation.tabId);
+      return index === -1 ? null : { ...operation, pinned: tabs[index].pinned, index };
+    }
+
+    case 'closeTab': {
+      const task = tasks.find((t) => t.id === operation.taskId);
+      const index = task?.tabs.findIndex((tab) => tab.id === operation.tabId) ?? -1;
+      if (!task || index === -1) return null;
+
+      return {
+        type: 'reopenTab',
+        taskId: task.id,
+        tab: task.tabs[index],
+        index,
+        activeTabId: task.tabs.find((tab) => tab.isActive)?.id ?? operation.tabId,
+        replacementTabId: task.tabs.length === 1 ? operation.replacementTab.id : undefined,
+      };
+    }
+
+    case 'renameTask': {
+      const task = tasks.find((t) => t.id === operation.taskId);
+      return task ? { ...operation, name: task.name } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The operations that undo `operations` applied one after another, in the order to apply them
+ * (last first). Each inverse is worked out from the tasks as the operations before it left them,
+ * so e.g. closing several tabs puts each back where it was; operations that can't be undone
+ * are left out
+ */
+export function getInverseOperations(tasks: Task[], operations: TaskOperation[]): TaskOperation[] {
+  const inverses: TaskOperation[] = [];
+  operations.reduce((current, operation) => {
+    const inverse = getInverseOperation(current, operation);
+    if (inverse) inverses.unshift(inverse);
+    return applyOperation(current, operation);
+  }, tasks);
+  return inverses;
+}
+
+/**
+ * Replay queued operations on top of tasks loaded from the server
+ * The placeholder task shown while the server was unreachable is only added if an
+ * operation changed it (switching to it does not count), so an untouched placeholder
+ * never shows up next to, or in place of, the real tasks
+ */
+export function replayOperations(tasks: Task[], operations: TaskOperation[], placeholder?: Task): Task[] {
+  const isPlaceholderChanged = !!placeholder && operations.some(
+    (op) => op.type !== 'selectTab' && op.type !== 'selectTask' && getOperationTaskId(op) === placeholder.id
+  );
+  const queued: TaskOperation[] = isPlaceholderChanged
+    ? [{ type: 'createTask', task: placeholder }, ...operations]
+    : operations;
+
+  return queued.reduce(applyOperation, tasks);
+}
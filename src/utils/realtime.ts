@@ -0,0 +1,119 @@
+/**
+ * Realtime helpers
+ * Reading the server's event stream (GET /events, server-sent events over fetch so the
+ * access token can go in the Authorization header) and keeping track of who else is
+ * viewing which tab: the server's list of viewers (GET /tasks/:taskId/viewers) to start
+ * from, kept current by viewing events
+ */
+
+import { RealtimeEvent, TabViewer } from '../types';
+
+// Apps re-announce the tab they show this often; a viewer not heard from in
+// VIEWER_TIMEOUT_MS is assumed gone (their app was closed without saying so)
+export const VIEWING_HEARTBEAT_MS = 30 * 1000;
+export const VIEWER_TIMEOUT_MS = 75 * 1000;
+
+/**
+ * Read an event stream until it ends, calling onEvent for each realtime event
+ * onReady is called once the server has started the stream
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: RealtimeEvent) => void,
+  onReady: () => void
+) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    // Events are separated by a blank line; the last piece may still be incomplete
+    buffer += value.replace(/\r\n/g, '\n');
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      const fields = parseEventBlock(block);
+      if (!fields) continue;
+
+      if (fields.event === 'ready') {
+        onReady();
+        continue;
+      }
+      try {
+        onEvent(JSON.parse(fields.data) as RealtimeEvent);
+      } catch (error) {
+        console.error('Ignoring a malformed realtime event:', error);
+      }
+    }
+  }
+}
+
+// The event name and data of one block; null for comments (keep-alive pings)
+function parseEventBlock(block: string): { event: string; data: string } | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice('event:'.length).trim();
+    else if (line.startsWith('data:')) data.push(line.slice('data:'.length).trimStart());
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Apply a viewing event to the list of viewers: add or move the app it came from, or
+ * drop it once it stopped showing the task
+ */
+export function applyViewingEvent(
+  viewers: TabViewer[],
+  event: Extract<RealtimeEvent, { type: 'viewing' }>,
+  now = Date.now()
+): TabViewer[] {
+  const others = viewers.filter((viewer) => viewer.clientId !== event.clientId);
+  if (event.tabId === null) return others;
+
+  const { clientId, userId, userName, taskId, tabId } = event;
+  return [...others, { clientId, userId, userName, taskId, tabId, seenAt: now }];
+}
+
+/**
+ * Replace the viewers of one task with the server's list of them
+ * The server's seenAt times are moved onto this device's clock (serverNow is the server's
+ * time when it answered), so they expire at the right moment here
+ */
+export function replaceTaskViewers(
+  viewers: TabViewer[],
+  taskId: string,
+  serverViewers: TabViewer[],
+  serverNow: number,
+  now = Date.now()
+): TabViewer[] {
+  const clockOffset = now - serverNow;
+  return [
+    ...viewers.filter((viewer) => viewer.taskId !== taskId),
+    ...serverViewers.map((viewer) => ({ ...viewer, seenAt: viewer.seenAt + clockOffset })),
+  ];
+}
+
+/**
+ * Drop viewers that haven't been heard from in a while
+ */
+export function pruneViewers(viewers: TabViewer[], now = Date.now()): TabViewer[] {
+  const fresh = viewers.filter((viewer) => now - viewer.seenAt < VIEWER_TIMEOUT_MS);
+  return fresh.length === viewers.length ? viewers : fresh;
+}
+
+/**
+ * The people viewing a tab, once each (someone can have it open on several devices)
+ */
+export function viewersOfTab(viewers: TabViewer[], taskId: string, tabId: string): TabViewer[] {
+  const seen = new Set<string>();
+  return viewers.filter((viewer) => {
+    if (viewer.taskId !== taskId || viewer.tabId !== tabId || seen.has(viewer.userId)) return false;
+    seen.add(viewer.userId);
+    return true;
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Tab search
+ * The TabSwitcher's search field matches tabs on what the app already has (tab name, task name
+ * and canvas type) as you type; the text inside tabs is searched by the server (api.searchTabs)
+ */
+
+import { CanvasType, Tab, Task } from '../types';
+
+// As on the BlankTab buttons ("New Doc"); tabs without a canvas type are "Blank"
+export const CANVAS_TYPE_LABELS: Record<CanvasType, string> = {
+  doc: 'Doc',
+  sheet: 'Sheet',
+  comm: 'Comm',
+  chat: 'Chat',
+};
+
+export function getCanvasTypeLabel(canvasType: CanvasType | null): string {
+  return canvasType ? CANVAS_TYPE_LABELS[canvasType] : 'Blank';
+}
+
+export interface TabMatch {
+  task: Task;
+  tab: Tab;
+}
+
+/**
+ * Tabs whose name, task name or canvas type contains the query (case-insensitive), in the
+ * given task order; every tab matches an empty query
+ */
+export function matchTabs(tasks: Task[], query: string): TabMatch[] {
+  const wanted = query.trim().toLowerCase();
+
+  return tasks.flatMap((task) =>
+    task.tabs
+      .filter(
+        (tab) =>
+          tab.name.toLowerCase().includes(wanted) ||
+          task.name.toLowerCase().includes(wanted) ||
+          getCanvasTypeLabel(tab.canvasType).toLowerCase().includes(wanted)
+      )
+      .map((tab) => ({ task, tab }))
+  );
+}
+
+/**
+ * Split text into the parts that match the query and the parts between them, for highlighting
+ */
+export function splitMatches(text: string, query: string): Array<{ text: string; isMatch: boolean }> {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return [{ text, isMatch: false }];
+
+  const parts: Array<{ text: string; isMatch: boolean }> = [];
+  const lowerText = text.toLowerCase();
+  let start = 0;
+  let index = lowerText.indexOf(wanted);
+
+  while (index !== -1) {
+    if (index > start) parts.push({ text: text.slice(start, index), isMatch: false });
+    parts.push({ text: text.slice(index, index + wanted.length), isMatch: true });
+    start = index + wanted.length;
+    index = lowerText.indexOf(wanted, start);
+  }
+  if (start < text.length) parts.push({ text: text.slice(start), isMatch: false });
+  return parts;
+}
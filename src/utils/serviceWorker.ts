@@ -0,0 +1,71 @@
+/**
+ * Service worker registration
+ * Registers /sw.js (built from src/sw.js) in production builds and reports when a new
+ * version has been downloaded, so the app can offer to reload into it
+ */
+
+// Must match API_CACHE in src/sw.js
+const API_CACHE = 'sparo-api-v1';
+
+/**
+ * Register the service worker
+ * onUpdateAvailable receives a function that activates the waiting version and reloads the page
+ */
+export function registerServiceWorker(onUpdateAvailable: (applyUpdate: () => void) => void) {
+  // The worker is only emitted by `vite build`, so there is nothing to register in dev
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  let isUpdating = false;
+
+  // Reload once the new version has taken over (only for updates the user accepted)
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (isUpdating) {
+      window.location.reload();
+    }
+  });
+
+  const promptForUpdate = (worker: ServiceWorker) => {
+    onUpdateAvailable(() => {
+      isUpdating = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  navigator.serviceWorker
+    .register('/sw.js')
+    .then((registration) => {
+      // An update downloaded during an earlier visit is already waiting
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        promptForUpdate(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installingWorker = registration.installing;
+        if (!installingWorker) return;
+
+        installingWorker.addEventListener('statechange', () => {
+          // Without a current controller this is the first install, which needs no reload
+          if (installingWorker.state === 'installed' && navigator.serviceWorker.controller) {
+            promptForUpdate(installingWorker);
+          }
+        });
+      });
+    })
+    .catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+}
+
+/**
+ * Delete cached API responses (called on sign-out, so the next user on this
+ * device never sees the previous user's tasks while offline)
+ */
+export async function clearApiCache() {
+  if (!('caches' in window)) return;
+
+  try {
+    await caches.delete(API_CACHE);
+  } catch (err) {
+    console.error('Failed to clear the API cache:', err);
+  }
+}
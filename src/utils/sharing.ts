@@ -0,0 +1,57 @@
+/**
+ * Sharing helpers
+ * A share link opens the app with ?share=<token>; App accepts it on load and then drops the
+ * parameter from the address bar
+ */
+
+import { MemberRole, ShareLink } from '../types';
+
+const SHARE_PARAM = 'share';
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  editor: 'Can edit',
+  viewer: 'Can view',
+};
+
+// How long a new link lasts (null never expires)
+export const LINK_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+/**
+ * The address to send someone for a share link
+ */
+export function shareLinkUrl(token: string): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SHARE_PARAM, token);
+  return url.toString();
+}
+
+/**
+ * The share link token the app was opened with, if any
+ */
+export function readShareToken(): string | null {
+  return new URLSearchParams(window.location.search).get(SHARE_PARAM);
+}
+
+/**
+ * Remove the share link token from the address bar (without reloading)
+ */
+export function clearShareToken() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+/**
+ * "Never expires" or "Expires Mar 4" for a link
+ */
+export function formatLinkExpiry(link: ShareLink): string {
+  if (link.expiresAt === null) return 'Never expires';
+  return `Expires ${new Date(link.expiresAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySheet, createSheetModel, getDisplayRows, getImportChanges, toSheetContent } from './sheet';
+
+function sheetWith(cells: Record<string, string>) {
+  return createSheetModel({ ...createEmptySheet(), cells });
+}
+
+describe('sheet model', () => {
+  it('recognizes numbers and booleans, and keeps the rest as text', () => {
+    const model = sheetWith({ A1: '12.5', A2: 'true', A3: 'hello' });
+    expect(model.getValue('A1')).toBe(12.5);
+    expect(model.getValue('A2')).toBe(true);
+    expect(model.getValue('A3')).toBe('hello');
+  });
+
+  it('recalculates every formula downstream of an edit', () => {
+    const model = sheetWith({ A1: '1', A2: '=A1*2', A3: '=A2+A1' });
+    expect(model.getValue('A3')).toBe(3);
+
+    model.setCells({ A1: '10' });
+    expect(model.getValue('A2')).toBe(20);
+    expect(model.getValue('A3')).toBe(30);
+  });
+
+  it('marks cycles, and what depends on them, as #CYCLE!', () => {
+    const model = sheetWith({ A1: '=B1', B1: '=A1', C1: '=A1+1', D1: '5' });
+    expect(model.getValue('A1')).toEqual({ error: '#CYCLE!' });
+    expect(model.getValue('B1')).toEqual({ error: '#CYCLE!' });
+    expect(model.getValue('C1')).toEqual({ error: '#CYCLE!' });
+    expect(model.getValue('D1')).toBe(5);
+
+    // Breaking the cycle recovers every cell in it
+    model.setCells({ B1: '7' });
+    expect(model.getValue('A1')).toBe(7);
+    expect(model.getValue('C1')).toBe(8);
+  });
+
+  it('treats a formula reading itself as a cycle', () => {
+    expect(sheetWith({ A1: '=A1+1' }).getValue('A1')).toEqual({ error: '#CYCLE!' });
+  });
+
+  it('clears a cell set to an empty string', () => {
+    const model = sheetWith({ A1: '4', B1: '=A1' });
+    model.setCells({ A1: '' });
+    expect(model.getRaw('A1')).toBe('');
+    expect(model.getValue('B1')).toBe(0); // An empty cell reads as 0, as in other spreadsheet apps
+    expect(model.getContent().cells).toEqual({ B1: '=A1' });
+  });
+
+  it('imports rows from A1, clearing the old cells, and displays the used range', () => {
+    const model = sheetWith({ C5: 'old' });
+    model.setCells(getImportChanges(model, [['a', '1'], ['b', '=B1+1']]));
+    expect(model.getContent().cells).toEqual({ A1: 'a', B1: '1', A2: 'b', B2: '=B1+1' });
+    expect(getDisplayRows(model)).toEqual([['a', '1'], ['b', '2']]);
+  });
+
+  it('accepts only saved content that looks like a sheet', () => {
+    expect(toSheetContent(null)).toEqual(createEmptySheet());
+    expect(toSheetContent({ rowCount: -3, columnCount: 1e9, cells: { A1: 'x', nope: 'y', B2: 3 } })).toEqual({
+      rowCount: 1,
+      columnCount: 200,
+      cells: { A1: 'x' },
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Sheet model for the sheet canvas
+ * Holds the raw input of every cell, the computed values and the dependency graph
+ * between formulas, so an edit only recalculates the cells that depend on it
+ *
+ * - A cell's raw input is what the user typed; "=..." is a formula, anything else a literal
+ * - Dependencies: each formula knows the cells it reads (precedents), and each cell the
+ *   formulas that read it (dependents)
+ * - Recalculation: the edited cells and everything downstream of them are evaluated in
+ *   dependency order (topological sort)
+ * - Cycles: formulas that depend on themselves, directly or through other cells, and
+ *   everything downstream of them show #CYCLE! instead of looping
+ */
+
+import { parseCellAddress, toCellAddress } from './cellAddress';
+import {
+  CellValue,
+  FormulaNode,
+  evaluateFormula,
+  formatNumber,
+  getFormulaReferences,
+  isErrorValue,
+  parseFormula,
+} from './formula';
+
+// Saved content of a sheet tab (through the tab content store)
+export interface SheetContent {
+  rowCount: number;
+  columnCount: number;
+  cells: Record<string, string>; // Address -> raw input; empty cells are left out
+}
+
+export const DEFAULT_ROW_COUNT = 100;
+export const DEFAULT_COLUMN_COUNT = 26;
+
+// Upper bounds so an imported file can't create a grid the device can't handle
+export const MAX_ROW_COUNT = 10000;
+export const MAX_COLUMN_COUNT = 200;
+
+const NUMERIC_LITERAL = /^[-+]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Value of a cell that is not a formula: numbers and TRUE/FALSE are recognized, the rest is text
+ */
+function parseLiteral(raw: string): CellValue {
+  const trimmed = raw.trim();
+  if (trimmed === '') return null;
+  if (NUMERIC_LITERAL.test(trimmed)) return Number(trimmed);
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  return raw;
+}
+
+/**
+ * Text shown in the grid for a value
+ */
+export function formatCellValue(value: CellValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (isErrorValue(value)) return value.error;
+  return value;
+}
+
+export function createEmptySheet(): SheetContent {
+  return { rowCount: DEFAULT_ROW_COUNT, columnCount: DEFAULT_COLUMN_COUNT, cells: {} };
+}
+
+/**
+ * Accept saved content only if it looks like a sheet (content is untyped JSON from the server)
+ */
+export function toSheetContent(content: unknown): SheetContent {
+  const candidate = content as Partial<SheetContent> | null;
+  if (!candidate || typeof candidate.cells !== 'object' || candidate.cells === null) {
+    return createEmptySheet();
+  }
+
+  const cells: Record<string, string> = {};
+  for (const [address, raw] of Object.entries(candidate.cells)) {
+    if (typeof raw === 'string' && raw !== '' && parseCellAddress(address)) {
+      cells[address] = raw;
+    }
+  }
+
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    Number.isInteger(value) ? Math.min(Math.max(value as number, 1), max) : fallback;
+
+  return {
+    rowCount: clamp(candidate.rowCount, DEFAULT_ROW_COUNT, MAX_ROW_COUNT),
+    columnCount: clamp(candidate.columnCount, DEFAULT_COLUMN_COUNT, MAX_COLUMN_COUNT),
+    cells,
+  };
+}
+
+export interface SheetModel {
+  getRaw(address: string): string;
+  getValue(address: string): CellValue;
+  // Set raw inputs (empty string clears a cell) and recalculate what depends on them
+  setCells(changes: Record<string, string>): void;
+  getContent(): SheetContent;
+}
+
+export function createSheetModel(content: SheetContent): SheetModel {
+  let rowCount = content.rowCount;
+  let columnCount = content.columnCount;
+  const raws = new Map<string, string>();
+  const formulas = new Map<string, FormulaNode>();
+  const values = new Map<string, CellValue>();
+  const precedents = new Map<string, Set<string>>(); // formula cell -> cells it reads
+  const dependents = new Map<string, Set<string>>(); // cell -> formula cells that read it
+
+  const setPrecedents = (address: string, references: string[]) => {
+    // Drop the old edges
+    precedents.get(address)?.forEach((precedent) => dependents.get(precedent)?.delete(address));
+    precedents.delete(address);
+    if (references.length === 0) return;
+
+    const referenceSet = new Set(references);
+    precedents.set(address, referenceSet);
+    referenceSet.forEach((precedent) => {
+      if (!dependents.has(precedent)) dependents.set(precedent, new Set());
+      dependents.get(precedent)!.add(address);
+    });
+  };
+
+  const storeRaw = (address: string, raw: string) => {
+    if (raw === '') {
+      raws.delete(address);
+      formulas.delete(address);
+      setPrecedents(address, []);
+      return;
+    }
+
+    raws.set(address, raw);
+    if (raw.startsWith('=') && raw.length > 1) {
+      const formula = parseFormula(raw.slice(1));
+      formulas.set(address, formula);
+      setPrecedents(address, getFormulaReferences(formula));
+    } else {
+      formulas.delete(address);
+      setPrecedents(address, []);
+    }
+  };
+
+  // Evaluate the changed cells and everything downstream of them, in dependency order
+  const recalculate = (changed: Iterable<string>) => {
+    // Collect every affected cell
+    const affected = new Set<string>();
+    const queue = [...changed];
+    while (queue.length > 0) {
+      const address = queue.pop()!;
+      if (affected.has(address)) continue;
+      affected.add(address);
+      dependents.get(address)?.forEach((dependent) => queue.push(dependent));
+    }
+
+    // Kahn's algorithm over the affected cells: a cell is ready once all of its
+    // affected precedents are evaluated. Cells never ready are in (or after) a cycle
+    const pendingCounts = new Map<string, number>();
+    affected.forEach((address) => {
+      let count = 0;
+      precedents.get(address)?.forEach((precedent) => {
+        if (affected.has(precedent)) count++;
+      });
+      pendingCounts.set(address, count);
+    });
+
+    const ready = [...affected].filter((address) => pendingCounts.get(address) === 0);
+    while (ready.length > 0) {
+      const address = ready.pop()!;
+      pendingCounts.delete(address);
+
+      const formula = formulas.get(address);
+      const value = formula
+        ? evaluateFormula(formula, (reference) => values.get(reference) ?? null)
+        : parseLiteral(raws.get(address) ?? '');
+      if (value === null) values.delete(address);
+      else values.set(address, value);
+
+      dependents.get(address)?.forEach((dependent) => {
+        const remaining = pendingCounts.get(dependent);
+        if (remaining === undefined) return;
+        pendingCounts.set(dependent, remaining - 1);
+        if (remaining === 1) ready.push(dependent);
+      });
+    }
+
+    pendingCounts.forEach((_count, address) => values.set(address, { error: '#CYCLE!' }));
+  };
+
+  // Load the saved cells
+  Object.entries(content.cells).forEach(([address, raw]) => storeRaw(address, raw));
+  recalculate(raws.keys());
+
+  return {
+    getRaw(address) {
+      return raws.get(address) ?? '';
+    },
+
+    getValue(address) {
+      return values.get(address) ?? null;
+    },
+
+    setCells(changes) {
+      Object.entries(changes).forEach(([address, raw]) => {
+        const position = parseCellAddress(address);
+        if (!position) return;
+        // Grow the grid for cells past its edge (CSV import)
+        rowCount = Math.min(Math.max(rowCount, position.row + 1), MAX_ROW_COUNT);
+        columnCount = Math.min(Math.max(columnCount, position.column + 1), MAX_COLUMN_COUNT);
+        storeRaw(address, raw);
+      });
+      recalculate(Object.keys(changes));
+    },
+
+    getContent() {
+      return { rowCount, columnCount, cells: Object.fromEntries(raws) };
+    },
+  };
+}
+
+/**
+ * Raw inputs for a block of rows (e.g. parsed CSV), placed from A1
+ * Cells of the current sheet that the block doesn't cover are cleared
+ */
+export function getImportChanges(model: SheetModel, rows: string[][]): Record<string, string> {
+  const changes: Record<string, string> = {};
+  Object.keys(model.getContent().cells).forEach((address) => (changes[address] = ''));
+
+  rows.slice(0, MAX_ROW_COUNT).forEach((row, rowIndex) => {
+    row.slice(0, MAX_COLUMN_COUNT).forEach((raw, columnIndex) => {
+      if (raw !== '') changes[toCellAddress(rowIndex, columnIndex)] = raw;
+    });
+  });
+  return changes;
+}
+
+/**
+ * Displayed values of the used part of the sheet (from A1 to the last non-empty cell), for CSV export
+ * and version previews
+ */
+export function getDisplayRows(model: SheetModel): string[][] {
+  let lastRow = -1;
+  let lastColumn = -1;
+  Object.keys(model.getContent().cells).forEach((address) => {
+    const position = parseCellAddress(address)!;
+    lastRow = Math.max(lastRow, position.row);
+    lastColumn = Math.max(lastColumn, position.column);
+  });
+
+  return Array.from({ length: lastRow + 1 }, (_, row) =>
+    Array.from({ length: lastColumn + 1 }, (_, column) => formatCellValue(model.getValue(toCellAddress(row, column))))
+  );
+}
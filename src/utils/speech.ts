@@ -0,0 +1,223 @@
+/**
+ * Speech recognition
+ * Voice input for Sparo goes through a SpeechRecognizer, so the rest of the app doesn't care
+ * where transcripts come from
+ *
+ * Two recognizers:
+ * - Web Speech (browsers): the browser's SpeechRecognition, which ends by itself once the
+ *   user stops speaking; a microphone analyser drives the level meter
+ * - Scripted (testing, development builds only): plays back transcripts word by word on timers,
+ *   with made-up levels, so voice commands can be exercised without a microphone (e.g. headless browsers)
+ */
+
+export interface SpeechHandlers {
+  onLevel: (level: number) => void; // Loudness from 0 (silence) to 1
+  onTranscript: (text: string, isFinal: boolean) => void; // The whole utterance so far
+  onError: (message: string) => void; // Readable, for a toast
+  onEnd: () => void; // Always called once, last (after silence, stop(), abort() or an error)
+}
+
+export interface SpeechSession {
+  stop: () => void; // Finish now, keeping what was heard
+  abort: () => void; // Finish now, dropping what was heard
+}
+
+export interface SpeechRecognizer {
+  isSupported: boolean;
+  start: (handlers: SpeechHandlers) => SpeechSession;
+}
+
+// The parts of the Web Speech API used here (not in every TypeScript DOM lib)
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+// Web Speech error codes worth explaining; the rest get a generic message
+const WEB_SPEECH_ERRORS: Record<string, string> = {
+  'not-allowed': 'Sparo needs access to the microphone',
+  'service-not-allowed': 'Sparo needs access to the microphone',
+  'audio-capture': 'No microphone was found',
+  'no-speech': "Sparo didn't hear anything",
+  network: 'Voice input needs a connection',
+};
+
+/**
+ * Recognizer backed by the browser's Web Speech API
+ */
+export function createWebSpeechRecognizer(lang = navigator.language): SpeechRecognizer {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+  };
+  const Recognition = speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+
+  return {
+    isSupported: Boolean(Recognition),
+    start: (handlers) => {
+      const recognition = new Recognition!();
+      recognition.lang = lang;
+      recognition.continuous = false; // End after the first pause
+      recognition.interimResults = true;
+      recognition.maxAlternatives = 1;
+
+      const stopMeter = startLevelMeter(handlers.onLevel);
+
+      recognition.onresult = (event) => {
+        const results = Array.from(event.results);
+        const text = results.map((result) => result[0].transcript).join('');
+        handlers.onTranscript(text, results.every((result) => result.isFinal));
+      };
+      recognition.onerror = (event) => {
+        // Aborting is ours, not an error
+        if (event.error === 'aborted') return;
+        handlers.onError(WEB_SPEECH_ERRORS[event.error] ?? `Voice input failed (${event.error})`);
+      };
+      recognition.onend = () => {
+        stopMeter();
+        handlers.onEnd();
+      };
+
+      recognition.start();
+      return {
+        stop: () => recognition.stop(),
+        abort: () => recognition.abort(),
+      };
+    },
+  };
+}
+
+// Report the microphone's loudness every frame until the returned function is called; without
+// microphone access there is no meter (the recognizer reports that itself)
+function startLevelMeter(onLevel: (level: number) => void): () => void {
+  let isStopped = false;
+  let cleanup = () => {};
+
+  navigator.mediaDevices
+    ?.getUserMedia({ audio: true })
+    .then((stream) => {
+      if (isStopped) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      context.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Uint8Array(analyser.fftSize);
+
+      let frame = requestAnimationFrame(function measure() {
+        analyser.getByteTimeDomainData(samples);
+        // Root mean square around the 128 midpoint, scaled so speech fills most of the range
+        let sum = 0;
+        for (const sample of samples) {
+          sum += ((sample - 128) / 128) ** 2;
+        }
+        onLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+        frame = requestAnimationFrame(measure);
+      });
+
+      cleanup = () => {
+        cancelAnimationFrame(frame);
+        stream.getTracks().forEach((track) => track.stop());
+        context.close();
+      };
+    })
+    .catch(() => {});
+
+  return () => {
+    isStopped = true;
+    cleanup();
+    onLevel(0);
+  };
+}
+
+export interface SpeechScript {
+  transcript: string; // Heard word by word, then as the final transcript
+  error?: string; // Reported instead of a transcript
+}
+
+const SCRIPTED_WORD_MS = 250;
+
+/**
+ * Recognizer that plays back scripts instead of listening: each session takes the next
+ * script (the last one repeats)
+ */
+export function createScriptedRecognizer(scripts: (string | SpeechScript)[], wordMs = SCRIPTED_WORD_MS): SpeechRecognizer {
+  let sessionCount = 0;
+
+  return {
+    isSupported: true,
+    start: (handlers) => {
+      const entry = scripts[Math.min(sessionCount, scripts.length - 1)] ?? '';
+      const script = typeof entry === 'string' ? { transcript: entry } : entry;
+      const words = script.transcript.split(/\s+/).filter(Boolean);
+      sessionCount++;
+
+      let heard = 0;
+      let isEnded = false;
+      let timer: ReturnType<typeof setTimeout>;
+
+      const end = (isKept: boolean) => {
+        if (isEnded) return;
+        isEnded = true;
+        clearTimeout(timer);
+        if (isKept && heard > 0) {
+          handlers.onTranscript(words.slice(0, heard).join(' '), true);
+        }
+        handlers.onLevel(0);
+        handlers.onEnd();
+      };
+
+      const hearNextWord = () => {
+        if (script.error) {
+          handlers.onError(script.error);
+          end(false);
+          return;
+        }
+        if (heard === words.length) {
+          end(true);
+          return;
+        }
+        heard++;
+        handlers.onLevel(heard % 2 === 0 ? 0.4 : 0.8);
+        handlers.onTranscript(words.slice(0, heard).join(' '), false);
+        timer = setTimeout(hearNextWord, wordMs);
+      };
+
+      timer = setTimeout(hearNextWord, wordMs);
+      return {
+        stop: () => end(true),
+        abort: () => end(false),
+      };
+    },
+  };
+}
+
+const SPEECH_PARAM = 'speech';
+
+/**
+ * Pick the recognizer: in development, opening the app with ?speech=<transcript> plays that
+ * transcript back on every press (the scripted recognizer); otherwise the browser's Web Speech.
+ * Production builds ignore the parameter, so a link can't put words in the user's mouth
+ */
+export function createSpeechRecognizer(): SpeechRecognizer {
+  const transcript = import.meta.env.DEV ? new URLSearchParams(window.location.search).get(SPEECH_PARAM) : null;
+
+  if (transcript !== null) {
+    return createScriptedRecognizer([transcript]);
+  }
+
+  return createWebSpeechRecognizer();
+}
@@ -1,77 +1,416 @@
 /**
  * Supabase API Client
- * Uses the KV store for persisting tasks and tabs
+ * Talks to the task and tab resource routes on the server, so each change
+ * only sends the task or tab it touches
  */
 
 import { projectId, publicAnonKey } from './info';
-import { Task } from '../../types';
+import {
+  Tab,
+  Task,
+  TaskChanges,
+  CanvasType,
+  ChatMessage,
+  SentMail,
+  TabComment,
+  TabVersion,
+  TabVersionSummary,
+  TaskRole,
+  MemberRole,
+  TaskMember,
+  ShareLink,
+  TabViewer,
+  RecentTab,
+  UnreadComments,
+  ClosedTab,
+  ClosedTabSummary,
+  TabSearchResult,
+} from '../../types';
+import { CommDraft } from '../comm';
 
 const supabaseUrl = `https://${projectId}.supabase.co`;
 const serverUrl = `${supabaseUrl}/functions/v1/make-server-9c4af64c`;
 
-// Hardcoded user ID for MVP
-export const HARDCODED_USER_ID = 'sparo-user-1';
+// Access token of the signed-in user (kept up to date by auth.ts); the server
+// scopes every task and tab to the user it belongs to
+let accessToken: string | null = null;
 
-// KV store keys
-const TASKS_KEY = `${HARDCODED_USER_ID}:tasks`;
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+// status is the HTTP status of a failed request (missing when the request never reached the server)
+export type ApiResult<T = {}> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status?: number };
 
 /**
- * Fetch all tasks and tabs for the user
+ * Send a request to the server and unwrap the `{ success, error }` envelope
+ * Non-2xx responses and `success: false` bodies are both returned as errors
  */
-export async function fetchTasks(): Promise<{ success: boolean; tasks: Task[]; error?: string }> {
+async function apiRequest<T extends object>(
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+  path: string,
+  body?: unknown,
+  keepalive = false // Lets the request finish while the page is being closed
+): Promise<ApiResult<T>> {
   try {
-    const response = await fetch(`${serverUrl}/tasks`, {
-      method: 'GET',
+    const response = await fetch(`${serverUrl}${path}`, {
+      method,
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${publicAnonKey}`,
+        Authorization: `Bearer ${accessToken ?? publicAnonKey}`,
       },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      keepalive,
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await response.json().catch(() => null);
 
-    if (!result.success) {
-      throw new Error(result.error || 'Unknown error fetching tasks');
+    if (!response.ok || !result?.success) {
+      const error = result?.error || `HTTP error! status: ${response.status}`;
+      console.error(`Failed to ${method} ${path}:`, error);
+      return { success: false, error, status: response.status };
     }
 
-    return { success: true, tasks: result.tasks || [] };
+    return { success: true, ...result } as ApiResult<T>;
   } catch (error) {
-    console.error('Failed to fetch tasks:', error);
-    return { success: false, error: String(error), tasks: [] };
+    console.error(`Failed to ${method} ${path}:`, error);
+    return { success: false, error: String(error) };
   }
 }
 
 /**
- * Save all tasks to the server
+ * Whether a failed request never got an answer from the server (network down, or the
+ * function is not running) rather than being rejected by it
  */
-export async function saveTasks(tasks: Task[]): Promise<{ success: boolean; error?: string }> {
+export function isServerUnreachable(result: { success: boolean; status?: number }): boolean {
+  return !result.success && (result.status === undefined || result.status >= 500);
+}
+
+/**
+ * Check whether the server responds again (used while offline)
+ */
+export async function checkHealth(): Promise<boolean> {
   try {
-    const response = await fetch(`${serverUrl}/tasks`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${publicAnonKey}`,
-      },
-      body: JSON.stringify({ tasks }),
+    const response = await fetch(`${serverUrl}/health`, {
+      headers: { Authorization: `Bearer ${publicAnonKey}` },
     });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+/**
+ * Fetch all tasks and tabs for the user
+ */
+export async function fetchTasks(): Promise<{ success: boolean; tasks: Task[]; error?: string; status?: number }> {
+  const result = await apiRequest<{ tasks: Task[] }>('GET', '/tasks');
+  return result.success
+    ? { success: true, tasks: result.tasks || [] }
+    : { success: false, error: result.error, status: result.status, tasks: [] };
+}
+
+/**
+ * Fetch a single task with its tabs
+ */
+export function fetchTask(taskId: string) {
+  return apiRequest<{ task: Task }>('GET', `/tasks/${taskId}`);
+}
 
-    const result = await response.json();
+/**
+ * Create a task along with its tabs
+ */
+export function createTask(task: Task) {
+  return apiRequest<{ task: Task }>('POST', '/tasks', task);
+}
 
-    if (!result.success) {
-      throw new Error(result.error || 'Unknown error saving tasks');
-    }
+/**
+ * Update a task: rename it, make it the active task, or change its active tab
+ */
+export function updateTask(
+  taskId: string,
+  updates: { name?: string; isActive?: true; activeTabId?: string }
+) {
+  return apiRequest<{ task: Task }>('PUT', `/tasks/${taskId}`, updates);
+}
+
+/**
+ * Apply everything that changed in a task since baseRevision
+ * Fails with status 409 if the task has been changed since (the caller should refetch and rebase)
+ */
+export function syncTask(taskId: string, baseRevision: number, changes: TaskChanges) {
+  return apiRequest<{ task: Task }>('PATCH', `/tasks/${taskId}`, { baseRevision, ...changes });
+}
+
+/**
+ * Delete a task and all of its tabs; on a task shared with you, leave it instead
+ */
+export function deleteTask(taskId: string) {
+  return apiRequest('DELETE', `/tasks/${taskId}`);
+}
+
+/**
+ * Create a tab in a task, appended unless an index is given
+ */
+export function createTab(taskId: string, tab: Tab, index?: number) {
+  return apiRequest<{ tab: Tab }>('POST', `/tasks/${taskId}/tabs`, { tab, index });
+}
+
+/**
+ * Update a tab (name and/or canvas type)
+ */
+export function updateTab(tabId: string, updates: { name?: string; canvasType?: CanvasType | null }) {
+  return apiRequest<{ tab: Tab }>('PUT', `/tabs/${tabId}`, updates);
+}
+
+/**
+ * Delete a tab
+ */
+export function deleteTab(tabId: string) {
+  return apiRequest('DELETE', `/tabs/${tabId}`);
+}
+
+/**
+ * Reorder the tabs of a task; tabIds must list every tab in the task
+ */
+export function reorderTabs(taskId: string, tabIds: string[]) {
+  return apiRequest<{ task: Task }>('PUT', `/tasks/${taskId}/tabs/order`, { tabIds });
+}
+
+/**
+ * Fetch a tab's canvas content (null if nothing has been saved yet)
+ */
+export function fetchTabContent(tabId: string) {
+  return apiRequest<{ content: unknown | null; updatedAt: number | null }>('GET', `/tabs/${tabId}/content`);
+}
+
+/**
+ * Replace a tab's canvas content
+ */
+export function saveTabContent(tabId: string, content: unknown) {
+  return apiRequest<{ updatedAt: number }>('PUT', `/tabs/${tabId}/content`, { content });
+}
+
+/**
+ * Fetch a page of a chat tab's messages (oldest first): the latest page, or the page before
+ * a cursor. nextCursor loads the page before this one and is null at the start of the history
+ */
+export function fetchMessages(tabId: string, before?: string) {
+  const query = before ? `?before=${encodeURIComponent(before)}` : '';
+  return apiRequest<{ messages: ChatMessage[]; nextCursor: string | null; lastReadAt: number | null }>(
+    'GET',
+    `/tabs/${tabId}/messages${query}`
+  );
+}
+
+/**
+ * Post a message; the client-generated id makes a retried send safe
+ */
+export function sendMessage(tabId: string, id: string, text: string) {
+  return apiRequest<{ message: ChatMessage }>('POST', `/tabs/${tabId}/messages`, { id, text });
+}
+
+/**
+ * Change the text of one of your messages
+ */
+export function editMessage(tabId: string, messageId: string, text: string) {
+  return apiRequest<{ message: ChatMessage }>('PUT', `/tabs/${tabId}/messages/${messageId}`, { text });
+}
+
+/**
+ * Delete one of your messages
+ */
+export function deleteMessage(tabId: string, messageId: string) {
+  return apiRequest('DELETE', `/tabs/${tabId}/messages/${messageId}`);
+}
+
+/**
+ * Mark a chat tab's messages as read up to now
+ */
+export function markMessagesRead(tabId: string) {
+  return apiRequest<{ lastReadAt: number }>('PUT', `/tabs/${tabId}/last-read`);
+}
+
+/**
+ * Fetch the messages sent from a comm tab (oldest first)
+ */
+export function fetchSentMail(tabId: string) {
+  return apiRequest<{ mail: SentMail[] }>('GET', `/tabs/${tabId}/mail`);
+}
 
-    return { success: true };
+/**
+ * Send a comm tab's draft through the server's mail transport
+ * Reusing the id of a failed attempt never delivers the message twice
+ */
+export function sendMail(tabId: string, id: string, draft: CommDraft) {
+  const { to, cc, subject, body, attachments } = draft;
+  return apiRequest<{ mail: SentMail }>('POST', `/tabs/${tabId}/mail`, {
+    id,
+    to,
+    cc,
+    subject,
+    body,
+    attachments: attachments.map(({ name, type, data }) => ({ name, type, data })),
+  });
+}
+
+/**
+ * Fetch a tab's edit history (newest first, without content)
+ */
+export function fetchTabVersions(tabId: string) {
+  return apiRequest<{ versions: TabVersionSummary[] }>('GET', `/tabs/${tabId}/versions`);
+}
+
+/**
+ * Fetch one version of a tab with its content (for previewing it)
+ */
+export function fetchTabVersion(tabId: string, versionId: string) {
+  return apiRequest<{ version: TabVersion }>('GET', `/tabs/${tabId}/versions/${versionId}`);
+}
+
+/**
+ * Put a tab back the way it was in a version; returns the tab and content as restored
+ */
+export function restoreTabVersion(tabId: string, versionId: string) {
+  return apiRequest<{ tab: Tab; content: unknown | null }>('POST', `/tabs/${tabId}/versions/${versionId}/restore`);
+}
+
+/**
+ * Fetch a tab's comments (oldest first) and when you last read them
+ */
+export function fetchComments(tabId: string) {
+  return apiRequest<{ comments: TabComment[]; lastReadAt: number | null }>('GET', `/tabs/${tabId}/comments`);
+}
+
+/**
+ * Post a comment, or a reply when parentId is a top-level comment's id; the
+ * client-generated id makes a retried post safe
+ */
+export function postComment(tabId: string, id: string, body: string, parentId: string | null) {
+  return apiRequest<{ comment: TabComment }>('POST', `/tabs/${tabId}/comments`, { id, body, parentId });
+}
+
+/**
+ * Resolve or reopen a comment thread (by its top-level comment)
+ */
+export function setCommentResolved(tabId: string, commentId: string, resolved: boolean) {
+  return apiRequest<{ comment: TabComment }>('PUT', `/tabs/${tabId}/comments/${commentId}`, { resolved });
+}
+
+/**
+ * Mark a tab's comments as read up to now
+ */
+export function markCommentsRead(tabId: string) {
+  return apiRequest<{ lastReadAt: number }>('PUT', `/tabs/${tabId}/comments-last-read`);
+}
+
+/**
+ * Fetch who a task is shared with, your role on it and (if you own it) its open share links
+ */
+export function fetchSharing(taskId: string) {
+  return apiRequest<{ role: TaskRole; ownerId: string; members: TaskMember[]; links: ShareLink[] }>(
+    'GET',
+    `/tasks/${taskId}/sharing`
+  );
+}
+
+/**
+ * Share a task with someone by email, or change the role of someone it is shared with
+ */
+export function inviteMember(taskId: string, email: string, role: MemberRole) {
+  return apiRequest<{ member: TaskMember }>('POST', `/tasks/${taskId}/members`, { email, role });
+}
+
+/**
+ * Stop sharing a task with someone
+ */
+export function removeMember(taskId: string, email: string) {
+  return apiRequest('DELETE', `/tasks/${taskId}/members/${encodeURIComponent(email)}`);
+}
+
+/**
+ * Create a share link; without expiresInDays it never expires
+ */
+export function createShareLink(taskId: string, role: MemberRole, expiresInDays: number | null) {
+  return apiRequest<{ link: ShareLink }>('POST', `/tasks/${taskId}/links`, { role, expiresInDays });
+}
+
+/**
+ * Expire a share link now (people who joined through it keep their access)
+ */
+export function expireShareLink(taskId: string, token: string) {
+  return apiRequest('DELETE', `/tasks/${taskId}/links/${token}`);
+}
+
+/**
+ * Join a task through a share link; fails with status 410 once the link has expired
+ */
+export function acceptShareLink(token: string) {
+  return apiRequest<{ task: Task }>('POST', `/share-links/${token}/accept`);
+}
+
+/**
+ * Open the stream of realtime events (see utils/realtime.ts for reading it)
+ * Resolves to the response, or null if the stream could not be opened; the server ends
+ * the stream after a couple of minutes, and aborting the signal closes it
+ */
+export async function openEventStream(signal: AbortSignal): Promise<Response | null> {
+  try {
+    const response = await fetch(`${serverUrl}/events`, {
+      headers: { Authorization: `Bearer ${accessToken ?? publicAnonKey}` },
+      signal,
+    });
+    return response.ok && response.body ? response : null;
   } catch (error) {
-    console.error('Failed to save tasks:', error);
-    return { success: false, error: String(error) };
+    if (!signal.aborted) {
+      console.error('Failed to open the event stream:', error);
+    }
+    return null;
   }
 }
+
+/**
+ * Tell the others on a task which of its tabs this app is showing (tabId null once it
+ * isn't showing the task); keepalive lets the last one go out as the page closes
+ */
+export function announceViewing(clientId: string, taskId: string, tabId: string | null, keepalive = false) {
+  return apiRequest('POST', '/viewing', { clientId, taskId, tabId }, keepalive);
+}
+
+/**
+ * Everyone viewing a task's tabs right now, with the server's clock (now) to compare
+ * their seenAt to
+ */
+export function fetchViewers(taskId: string) {
+  return apiRequest<{ viewers: TabViewer[]; now: number }>('GET', `/tasks/${taskId}/viewers`);
+}
+
+/**
+ * The Home screen's recent tabs and the tabs with unread comments
+ */
+export function fetchHome() {
+  return apiRequest<{ recentTabs: RecentTab[]; unreadComments: UnreadComments[] }>('GET', '/home');
+}
+
+/**
+ * The tabs closed recently in your tasks (newest first, without content)
+ */
+export function fetchClosedTabs() {
+  return apiRequest<{ closedTabs: ClosedTabSummary[] }>('GET', '/closed-tabs');
+}
+
+/**
+ * Fetch one closed tab with its content (for restoring it)
+ */
+export function fetchClosedTab(tabId: string) {
+  return apiRequest<{ closedTab: ClosedTab }>('GET', `/closed-tabs/${tabId}`);
+}
+
+/**
+ * Search the text of your tabs (doc and sheet content, chat messages); one result per tab
+ */
+export function searchTabs(query: string) {
+  return apiRequest<{ results: TabSearchResult[] }>('GET', `/search?q=${encodeURIComponent(query)}`);
+}
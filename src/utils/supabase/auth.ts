@@ -0,0 +1,113 @@
+/**
+ * Supabase Auth Client
+ * Sign-up, sign-in (password or emailed one-time code) and sign-out
+ *
+ * Sessions are kept in memory only (no browser storage, per Guidelines.md), so a
+ * reload asks the user to sign in again; the access token is refreshed automatically
+ * while the app is open. A launch without network therefore can't reach the user's
+ * data at all (AuthGate shows an offline page until the browser is back online)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { projectId, publicAnonKey } from './info';
+import { setAccessToken } from './api';
+import { clearApiCache } from '../serviceWorker';
+
+const supabaseUrl = `https://${projectId}.supabase.co`;
+
+const supabase = createClient(supabaseUrl, publicAnonKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: true,
+    detectSessionInUrl: false,
+  },
+});
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+// 'signup' confirms a new account, 'email' signs in to an existing one
+export type EmailCodeType = 'signup' | 'email';
+
+// user is null when sign-up still needs the emailed confirmation code (or after sending a code)
+export type AuthResult =
+  | { success: true; user: AuthUser | null }
+  | { success: false; error: string };
+
+function toAuthUser(user: { id: string; email?: string } | null): AuthUser | null {
+  return user ? { id: user.id, email: user.email ?? null } : null;
+}
+
+// Turn a Supabase auth response into an AuthResult; `user` is only set once signed in
+function toAuthResult(
+  data: { session: { user: { id: string; email?: string } } | null },
+  error: { message: string } | null
+): AuthResult {
+  if (error) {
+    console.error('Auth request failed:', error.message);
+    return { success: false, error: error.message };
+  }
+  return { success: true, user: toAuthUser(data.session?.user ?? null) };
+}
+
+/**
+ * Follow the signed-in user; called right away with the current user and on every
+ * sign-in, sign-out and token refresh. The API client always gets the latest token
+ * Returns a function that stops listening
+ */
+export function onAuthChange(callback: (user: AuthUser | null) => void): () => void {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    setAccessToken(session?.access_token ?? null);
+    callback(toAuthUser(session?.user ?? null));
+  });
+  return () => data.subscription.unsubscribe();
+}
+
+/**
+ * Create an account with a password
+ * If the project requires email confirmation, no user is returned and the
+ * emailed code has to be verified with verifyEmailCode(email, code, 'signup')
+ */
+export async function signUpWithPassword(email: string, password: string): Promise<AuthResult> {
+  const { data, error } = await supabase.auth.signUp({ email, password });
+  return toAuthResult(data, error);
+}
+
+/**
+ * Sign in to an existing account with a password
+ */
+export async function signInWithPassword(email: string, password: string): Promise<AuthResult> {
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+  return toAuthResult(data, error);
+}
+
+/**
+ * Email a one-time sign-in code (creates the account on first use)
+ */
+export async function sendEmailCode(email: string): Promise<AuthResult> {
+  const { error } = await supabase.auth.signInWithOtp({ email, options: { shouldCreateUser: true } });
+  return toAuthResult({ session: null }, error);
+}
+
+/**
+ * Verify an emailed code and sign in
+ */
+export async function verifyEmailCode(email: string, code: string, type: EmailCodeType): Promise<AuthResult> {
+  const { data, error } = await supabase.auth.verifyOtp({ email, token: code, type });
+  return toAuthResult(data, error);
+}
+
+/**
+ * Sign out and drop the signed-in user's cached API responses
+ */
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    // Revoking the session needs the network; this device is signed out either way
+    console.error('Sign-out failed:', error.message);
+    await supabase.auth.signOut({ scope: 'local' });
+  }
+  await clearApiCache();
+}
@@ -0,0 +1,194 @@
+/**
+ * Sync helpers
+ * Pure functions the sync engine (hooks/useTaskSync.ts) uses to work out what changed
+ * between the last state the server is known to have and the current local state
+ */
+
+import { Task, TaskChanges } from '../types';
+
+/**
+ * One request the sync engine still has to send
+ */
+export type SyncOperation =
+  | { type: 'create'; task: Task }
+  | { type: 'update'; taskId: string; baseRevision: number; changes: TaskChanges }
+  | { type: 'delete'; taskId: string };
+
+const getActiveTabId = (task: Task) => task.tabs.find((tab) => tab.isActive)?.id;
+
+/**
+ * Work out what changed in a task since it was synced
+ * Returns null when nothing the server stores has changed
+ */
+export function diffTask(synced: Task, local: Task): TaskChanges | null {
+  const changes: TaskChanges = {};
+  const syncedTabs = new Map(synced.tabs.map((tab) => [tab.id, tab]));
+  const localTabIds = new Set(local.tabs.map((tab) => tab.id));
+
+  if (local.name !== synced.name) {
+    changes.name = local.name;
+  }
+  // Which task and tab are active is only saved for your own tasks; on a shared task it
+  // is the owner's, and picking another one here stays on this device
+  const isOwnTask = local.role === 'owner';
+
+  // Deactivation is implied by activating another task, so only activation is sent
+  if (isOwnTask && local.isActive && !synced.isActive) {
+    changes.isActive = true;
+  }
+
+  const deletedTabIds = synced.tabs.filter((tab) => !localTabIds.has(tab.id)).map((tab) => tab.id);
+  const createdTabs = local.tabs.filter((tab) => !syncedTabs.has(tab.id));
+  const updatedTabs: NonNullable<TaskChanges['updatedTabs']> = [];
+
+  for (const tab of local.tabs) {
+    const syncedTab = syncedTabs.get(tab.id);
+    if (!syncedTab) continue;
+
+    const update: NonNullable<TaskChanges['updatedTabs']>[number] = { id: tab.id };
+    if (tab.name !== syncedTab.name) update.name = tab.name;
+    if (tab.canvasType !== syncedTab.canvasType) update.canvasType = tab.canvasType;
+    if (tab.pinned !== syncedTab.pinned) update.pinned = tab.pinned;
+    if (Object.keys(update).length > 1) updatedTabs.push(update);
+  }
+
+  if (deletedTabIds.length > 0) changes.deletedTabIds = deletedTabIds;
+  if (createdTabs.length > 0) changes.createdTabs = createdTabs;
+  if (updatedTabs.length > 0) changes.updatedTabs = updatedTabs;
+
+  // The server keeps the remaining tabs in order and appends created ones;
+  // the full order is only sent when that would not match the local order
+  const localOrder = local.tabs.map((tab) => tab.id);
+  const serverOrder = [
+    ...synced.tabs.filter((tab) => localTabIds.has(tab.id)),
+    ...createdTabs,
+  ].map((tab) => tab.id);
+  if (serverOrder.some((id, index) => id !== localOrder[index])) {
+    changes.tabOrder = localOrder;
+  }
+
+  const activeTabId = getActiveTabId(local);
+  if (isOwnTask && activeTabId && activeTabId !== getActiveTabId(synced)) {
+    changes.activeTabId = activeTabId;
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Apply changes to a task the same way the server does
+ * Used to replay local changes on top of a newer server version; changes that
+ * refer to tabs the server no longer has are dropped
+ */
+export function applyTaskChanges(task: Task, changes: TaskChanges): Task {
+  const deletedTabIds = new Set(changes.deletedTabIds ?? []);
+
+  let tabs = task.tabs
+    .filter((tab) => !deletedTabIds.has(tab.id))
+    .map((tab) => {
+      const update = changes.updatedTabs?.find((u) => u.id === tab.id);
+      return update ? { ...tab, ...update } : tab;
+    });
+  const existingIds = new Set(tabs.map((tab) => tab.id));
+  tabs = [...tabs, ...(changes.createdTabs ?? []).filter((tab) => !existingIds.has(tab.id))];
+
+  // Tabs missing from tabOrder (added on the server in the meantime) keep their place at the end
+  if (changes.tabOrder) {
+    const order = changes.tabOrder;
+    const position = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+    tabs = [...tabs].sort((a, b) => position(a.id) - position(b.id));
+  }
+
+  // Keep exactly one active tab: the requested one if it still exists, otherwise the current one
+  const activeTabId =
+    changes.activeTabId && tabs.some((tab) => tab.id === changes.activeTabId)
+      ? changes.activeTabId
+      : (tabs.find((tab) => tab.isActive) ?? tabs[0])?.id;
+
+  return {
+    ...task,
+    name: changes.name ?? task.name,
+    isActive: changes.isActive ?? task.isActive,
+    tabs: tabs.map((tab) => ({ ...tab, isActive: tab.id === activeTabId })),
+  };
+}
+
+/**
+ * Replay the local changes made since `base` on top of the server's newer version
+ * Which task is active stays a local decision, so the local flag wins
+ */
+export function rebaseTask(server: Task, base: Task, local: Task): Task {
+  const changes = diffTask(base, local) ?? {};
+  return applyTaskChanges({ ...server, isActive: local.isActive }, changes);
+}
+
+// The task with the given tab active, if it has that tab
+function withActiveTab(task: Task, tabId: string | undefined): Task {
+  if (!tabId || !task.tabs.some((tab) => tab.id === tabId)) return task;
+  return { ...task, tabs: task.tabs.map((tab) => ({ ...tab, isActive: tab.id === tabId })) };
+}
+
+/**
+ * Take in a change made elsewhere (another device, or someone else on a shared task)
+ * Like rebaseTask, but the tab showing on this device stays put as long as it exists, so
+ * a remote change never moves the user to another tab
+ *
+ * Returns the merged task and the copy to record as synced: the server's, with this
+ * device's selection unless that is a local change still waiting to be saved (so only
+ * a selection made here is ever sent back)
+ */
+export function mergeRemoteTask(server: Task, base: Task, local: Task): { task: Task; synced: Task } {
+  const localTabId = getActiveTabId(local);
+  const task = withActiveTab(rebaseTask(server, base, local), localTabId);
+
+  const isSelectionSaved = base.isActive === local.isActive && getActiveTabId(base) === localTabId;
+  const synced = isSelectionSaved ? withActiveTab({ ...server, isActive: local.isActive }, localTabId) : server;
+
+  return { task, synced };
+}
+
+/**
+ * Record a task as returned by the server
+ * Activating a task on the server deactivates all others, so their synced copies follow
+ */
+export function recordSyncedTask(synced: Map<string, Task>, task: Task) {
+  if (task.isActive) {
+    for (const [id, syncedTask] of synced) {
+      if (id !== task.id && syncedTask.isActive) {
+        synced.set(id, { ...syncedTask, isActive: false });
+      }
+    }
+  }
+  synced.set(task.id, task);
+}
+
+/**
+ * List the requests needed to bring the server in line with the local tasks
+ * Deletions go first, then new tasks, then changes to existing tasks
+ */
+export function planSync(synced: Map<string, Task>, local: Task[]): SyncOperation[] {
+  const localIds = new Set(local.map((task) => task.id));
+  const operations: SyncOperation[] = [];
+
+  for (const taskId of synced.keys()) {
+    if (!localIds.has(taskId)) {
+      operations.push({ type: 'delete', taskId });
+    }
+  }
+
+  for (const task of local) {
+    if (!synced.has(task.id)) {
+      operations.push({ type: 'create', task });
+    }
+  }
+
+  for (const task of local) {
+    const syncedTask = synced.get(task.id);
+    const changes = syncedTask && diffTask(syncedTask, task);
+    if (syncedTask && changes) {
+      operations.push({ type: 'update', taskId: task.id, baseRevision: syncedTask.revision, changes });
+    }
+  }
+
+  return operations;
+}
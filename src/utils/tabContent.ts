@@ -0,0 +1,214 @@
+/**
+ * Tab content store
+ * Canvas content (the doc's text, ...) lives apart from the task list: it is fetched the
+ * first time a tab is shown (as the active tab or as the adjacent tab during a swipe),
+ * kept in memory while the app is open, and saved in the background after edits
+ *
+ * - Loads are deduplicated: showing a tab again reuses what was loaded
+ * - Saves are debounced per tab and replace the whole content (last write wins)
+ * - Failed saves keep the local content and are retried, so a tab that is not on the
+ *   server yet (created moments ago, or while offline) is saved once it exists
+ * - Content is only kept in memory (no browser storage, per Guidelines.md)
+ * - restore() swaps in content the server already has (a restored Edit-History version)
+ *   and bumps the entry's generation, so canvases that keep their own copy start over
+ */
+
+import { ApiResult, fetchTabContent, isServerUnreachable, saveTabContent } from './supabase/api';
+
+export type TabContentStatus = 'loading' | 'ready' | 'error';
+
+export interface TabContentEntry {
+  status: TabContentStatus;
+  content: unknown | null; // null until something is saved (and while loading)
+  error: string | null; // Why loading failed
+  saveError: string | null; // Why the last save failed (cleared once a save succeeds)
+  isDirty: boolean; // Has local edits the server doesn't have yet
+  generation: number; // Bumped each time the content is replaced by restore()
+}
+
+export interface TabContentStore {
+  getEntry(tabId: string): TabContentEntry | undefined;
+  // Fetch a tab's content unless it is already loaded or loading (retries after an error)
+  load(tabId: string): void;
+  // Replace a tab's content locally and schedule a save
+  update(tabId: string, content: unknown): void;
+  // Replace a tab's content with what the server now has (nothing is saved)
+  restore(tabId: string, content: unknown): void;
+  // Save a tab's content again: a closed tab that is reopened lost its content on the server
+  resave(tabId: string): void;
+  // Save every tab with pending edits right away
+  flush(): Promise<void>;
+  hasUnsavedChanges(): boolean;
+  // Called whenever any entry changes
+  subscribe(listener: () => void): () => void;
+  // Stop pending timers (the store is dropped with the signed-in user's app)
+  dispose(): void;
+}
+
+// Wait this long after the last edit to a tab before saving it
+const SAVE_DEBOUNCE_MS = 1000;
+
+// Retry a failed save after this long (the tab may not exist on the server yet)
+const SAVE_RETRY_MS = 5000;
+
+// A tab still missing after this many retries was deleted, so its edits are dropped
+const MAX_NOT_FOUND_RETRIES = 6;
+
+export function createTabContentStore(): TabContentStore {
+  const entries = new Map<string, TabContentEntry>();
+  const saveTimeouts = new Map<string, number>();
+  const savingTabIds = new Set<string>();
+  const notFoundRetries = new Map<string, number>();
+  const listeners = new Set<() => void>();
+
+  // Entries are replaced rather than mutated, so React sees every change
+  const setEntry = (tabId: string, changes: Partial<TabContentEntry>) => {
+    const current = entries.get(tabId) ?? {
+      status: 'loading',
+      content: null,
+      error: null,
+      saveError: null,
+      isDirty: false,
+      generation: 0,
+    };
+    entries.set(tabId, { ...current, ...changes });
+    listeners.forEach((listener) => listener());
+  };
+
+  const clearSaveTimeout = (tabId: string) => {
+    const timeout = saveTimeouts.get(tabId);
+    if (timeout) {
+      clearTimeout(timeout);
+      saveTimeouts.delete(tabId);
+    }
+  };
+
+  const scheduleSave = (tabId: string, delay: number) => {
+    clearSaveTimeout(tabId);
+    saveTimeouts.set(tabId, window.setTimeout(() => saveTab(tabId), delay));
+  };
+
+  async function loadTab(tabId: string) {
+    setEntry(tabId, { status: 'loading', error: null });
+    const result = await fetchTabContent(tabId);
+
+    // Edits made while loading win over what the server had
+    if (entries.get(tabId)?.isDirty) {
+      setEntry(tabId, { status: 'ready' });
+      return;
+    }
+
+    if (result.success) {
+      setEntry(tabId, { status: 'ready', content: result.content });
+    } else if (result.status === 404) {
+      // Not on the server yet (just created), so there is nothing to load
+      setEntry(tabId, { status: 'ready', content: null });
+    } else {
+      setEntry(tabId, { status: 'error', error: result.error });
+    }
+  }
+
+  async function saveTab(tabId: string) {
+    clearSaveTimeout(tabId);
+    const entry = entries.get(tabId);
+    if (!entry?.isDirty) return;
+
+    // One save per tab at a time; edits made meanwhile are saved when it finishes
+    if (savingTabIds.has(tabId)) return;
+    savingTabIds.add(tabId);
+
+    const content = entry.content;
+    const result: ApiResult = await saveTabContent(tabId, content);
+    savingTabIds.delete(tabId);
+
+    const latest = entries.get(tabId);
+    if (!latest) return;
+
+    if (result.success) {
+      notFoundRetries.delete(tabId);
+      const isUnchanged = latest.content === content;
+      setEntry(tabId, { isDirty: !isUnchanged, saveError: null });
+      if (!isUnchanged) scheduleSave(tabId, SAVE_DEBOUNCE_MS);
+      return;
+    }
+
+    // The tab is still being created (its task is saved separately): try again shortly
+    if (result.status === 404) {
+      const retries = (notFoundRetries.get(tabId) ?? 0) + 1;
+      notFoundRetries.set(tabId, retries);
+      if (retries > MAX_NOT_FOUND_RETRIES) {
+        notFoundRetries.delete(tabId);
+        setEntry(tabId, { isDirty: false });
+        return;
+      }
+      scheduleSave(tabId, SAVE_RETRY_MS);
+      return;
+    }
+
+    setEntry(tabId, { saveError: result.error });
+    // Keep trying while the server is unreachable; other errors wait for the next edit
+    if (isServerUnreachable(result)) {
+      scheduleSave(tabId, SAVE_RETRY_MS);
+    }
+  }
+
+  return {
+    getEntry(tabId) {
+      return entries.get(tabId);
+    },
+
+    load(tabId) {
+      const entry = entries.get(tabId);
+      if (entry && entry.status !== 'error') return;
+      loadTab(tabId);
+    },
+
+    update(tabId, content) {
+      setEntry(tabId, { content, isDirty: true });
+      scheduleSave(tabId, SAVE_DEBOUNCE_MS);
+    },
+
+    restore(tabId, content) {
+      // Pending edits are dropped: the restored version replaces them
+      clearSaveTimeout(tabId);
+      notFoundRetries.delete(tabId);
+      setEntry(tabId, {
+        status: 'ready',
+        content,
+        error: null,
+        saveError: null,
+        isDirty: false,
+        generation: (entries.get(tabId)?.generation ?? 0) + 1,
+      });
+    },
+
+    resave(tabId) {
+      const entry = entries.get(tabId);
+      if (!entry || entry.content === null) return;
+      notFoundRetries.delete(tabId);
+      setEntry(tabId, { isDirty: true });
+      scheduleSave(tabId, SAVE_DEBOUNCE_MS);
+    },
+
+    async flush() {
+      const dirtyTabIds = [...entries].filter(([, entry]) => entry.isDirty).map(([tabId]) => tabId);
+      await Promise.all(dirtyTabIds.map(saveTab));
+    },
+
+    hasUnsavedChanges() {
+      return [...entries.values()].some((entry) => entry.isDirty);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    dispose() {
+      saveTimeouts.forEach((timeout) => clearTimeout(timeout));
+      saveTimeouts.clear();
+    },
+  };
+}
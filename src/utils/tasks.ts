@@ -0,0 +1,96 @@
+/**
+ * Task and tab helpers
+ * Pure functions for creating and normalizing tasks so App.tsx,
+ * TabSwitcher and TaskPicker all build tasks the same way
+ */
+
+import { CanvasType, Tab, Task } from '../types';
+
+/**
+ * Generate a unique id for a task, tab, chat message, sent comm message, comment or app
+ * instance (the realtime clientId)
+ * Keeps the existing "task-<timestamp>" / "tab-<timestamp>" shape, with a random
+ * suffix so two ids created in the same millisecond never collide
+ */
+export function generateId(prefix: 'task' | 'tab' | 'msg' | 'mail' | 'comment' | 'client'): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Create a new blank tab (no canvas type selected yet)
+ */
+export function createBlankTab(isActive = true): Tab {
+  return {
+    id: generateId('tab'),
+    name: 'Blank Tab',
+    canvasType: null,
+    createdAt: Date.now(),
+    isActive,
+    pinned: false,
+    commentCount: 0,
+  };
+}
+
+/**
+ * Default name of a tab once its canvas type is picked: "Untitled Doc", "Untitled Sheet", ...
+ */
+export function getCanvasTabName(type: CanvasType): string {
+  return `Untitled ${type.charAt(0).toUpperCase()}${type.slice(1)}`;
+}
+
+/**
+ * Get the next default task name: "Untitled Task N"
+ * N is one more than the highest number already used, so deleting a task never reuses a name
+ */
+export function getNextTaskName(tasks: Task[]): string {
+  const highestNumber = tasks.reduce((highest, task) => {
+    const match = task.name.match(/^Untitled Task (\d+)$/);
+    return match ? Math.max(highest, Number(match[1])) : highest;
+  }, 0);
+
+  return `Untitled Task ${highestNumber + 1}`;
+}
+
+/**
+ * Create a new task with a single active blank tab
+ */
+export function createTask(name: string, isActive = true): Task {
+  return {
+    id: generateId('task'),
+    name,
+    tabs: [createBlankTab()],
+    createdAt: Date.now(),
+    isActive,
+    revision: 0,
+    role: 'owner',
+  };
+}
+
+/**
+ * Normalize tasks loaded from the server
+ * - Fills in fields missing from data saved before multi-task support
+ * - Guarantees exactly one active task
+ * - Guarantees every task has at least one tab and exactly one active tab
+ * - Keeps pinned tabs in front of the others
+ */
+export function normalizeTasks(tasks: Task[]): Task[] {
+  const activeTaskIndex = Math.max(0, tasks.findIndex((task) => task.isActive));
+
+  return tasks.map((task, index) => {
+    const loadedTabs = (task.tabs && task.tabs.length > 0 ? task.tabs : [createBlankTab()]).map((tab) => ({
+      ...tab,
+      pinned: tab.pinned ?? false,
+    }));
+    const tabs = [...loadedTabs.filter((tab) => tab.pinned), ...loadedTabs.filter((tab) => !tab.pinned)];
+    const activeTabIndex = Math.max(0, tabs.findIndex((tab) => tab.isActive));
+
+    return {
+      ...task,
+      createdAt: task.createdAt ?? Date.now(),
+      revision: task.revision ?? 0,
+      role: task.role ?? 'owner',
+      isActive: index === activeTaskIndex,
+      tabs: tabs.map((tab, tabIndex) => ({ ...tab, isActive: tabIndex === activeTabIndex })),
+    };
+  });
+}
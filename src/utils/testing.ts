@@ -0,0 +1,24 @@
+/**
+ * Fixtures for the app's tests: tasks and tabs with readable ids
+ */
+
+import { Tab, Task } from '../types';
+
+export function makeTab(id: string, overrides: Partial<Tab> = {}): Tab {
+  return { id, name: id, canvasType: null, createdAt: 0, isActive: false, pinned: false, commentCount: 0, ...overrides };
+}
+
+// A task with the given tabs; the first is active unless one of them says otherwise
+export function makeTask(id: string, tabs: Tab[], overrides: Partial<Task> = {}): Task {
+  const hasActiveTab = tabs.some((tab) => tab.isActive);
+  return {
+    id,
+    name: id,
+    tabs: tabs.map((tab, index) => (hasActiveTab || index > 0 ? tab : { ...tab, isActive: true })),
+    createdAt: 0,
+    isActive: true,
+    revision: 0,
+    role: 'owner',
+    ...overrides,
+  };
+}
@@ -1,10 +1,32 @@
 
-  import { defineConfig } from 'vite';
+  /// <reference types="vitest/config" />
+  import { defineConfig, Plugin } from 'vite';
   import react from '@vitejs/plugin-react-swc';
   import path from 'path';
+  import fs from 'fs';
+  import { createHash } from 'crypto';
+
+  // Emit src/sw.js as /sw.js with the list of built files to precache; the cache version is a
+  // hash of that list, so every build with changed assets installs as an update
+  function serviceWorker(): Plugin {
+    return {
+      name: 'sparo-service-worker',
+      apply: 'build',
+      generateBundle(_options, bundle) {
+        const precacheUrls = ['/', ...Object.keys(bundle).map((fileName) => `/${fileName}`)];
+        const cacheVersion = createHash('sha256').update(precacheUrls.join()).digest('hex').slice(0, 12);
+        const source = fs
+          .readFileSync(path.resolve(__dirname, './src/sw.js'), 'utf-8')
+          .replace('self.__PRECACHE_URLS', JSON.stringify(precacheUrls))
+          .replace('__CACHE_VERSION__', cacheVersion);
+
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+      },
+    };
+  }
 
   export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), serviceWorker()],
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
       alias: {
@@ -59,4 +81,8 @@
       port: 3000,
       open: true,
     },
+    // App tests only; the server's *.test.tsx files run on Deno (npm run test:server)
+    test: {
+      include: ['src/**/*.test.ts'],
+    },
   });
\ No newline at end of file